@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidJobId } from '@/lib/jobs/file-job-store';
+import { getJobRunner } from '@/lib/jobs/runner';
+import { getBulkJobs } from '../../bulk-jobs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST /api/v2/bulk/:id/cancel
+ * 一括チェックキャンセルAPI
+ *
+ * 実行待ち・実行中の広告のジョブをキャンセルします（完了した広告の結果はそのまま残ります）。
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isValidJobId(params.id)) {
+      return NextResponse.json({
+        success: false,
+        error: '無効な一括チェックIDです',
+        details: `Invalid bulk ID: ${params.id}`,
+      }, { status: 400 });
+    }
+
+    const jobs = await getBulkJobs(params.id);
+    if (jobs.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: '一括チェックが見つかりません',
+        details: `Bulk check ${params.id} not found`,
+      }, { status: 404 });
+    }
+
+    const runner = await getJobRunner();
+    let cancelled = 0;
+    for (const job of jobs) {
+      if (job.status === 'queued' || job.status === 'running') {
+        await runner.cancel(job.id);
+        cancelled++;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: params.id, cancelled },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Bulk API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: '一括チェックのキャンセル中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidJobId } from '@/lib/jobs/file-job-store';
+import {
+  formatBulkResultsCsv,
+  formatBulkResultsJsonl,
+  summarizeBulkResults,
+  toBulkAdResult,
+} from '@/lib/bulk/bulk-results';
+import { getBulkJobs } from '../bulk-jobs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/v2/bulk/:id
+ * 一括チェック結果取得API
+ *
+ * 広告ごとの状態・ViolationType ごとの違反数・主な指摘と、全体の集計を返します。
+ * `?format=csv` / `?format=jsonl` を指定すると広告ごとの結果をファイルとしてダウンロードできます
+ * （実行中の広告は queued / running として出力）。
+ *
+ * @returns 集計と広告ごとの結果（存在しない場合は 404）
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isValidJobId(params.id)) {
+      return NextResponse.json({
+        success: false,
+        error: '無効な一括チェックIDです',
+        details: `Invalid bulk ID: ${params.id}`,
+      }, { status: 400 });
+    }
+
+    const jobs = await getBulkJobs(params.id);
+    if (jobs.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: '一括チェックが見つかりません',
+        details: `Bulk check ${params.id} not found`,
+      }, { status: 404 });
+    }
+
+    const results = jobs.map(toBulkAdResult);
+    const format = request.nextUrl.searchParams.get('format');
+
+    if (format === 'csv') {
+      // Excel で文字化けしないよう BOM を付与
+      return new NextResponse('\uFEFF' + formatBulkResultsCsv(results), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${params.id}.csv"`,
+        },
+      });
+    }
+
+    if (format === 'jsonl') {
+      return new NextResponse(formatBulkResultsJsonl(results), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${params.id}.jsonl"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: params.id,
+        summary: summarizeBulkResults(results),
+        results,
+      },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Bulk API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: '一括チェック結果の取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * 一括チェックのジョブの取得
+ *
+ * 一括チェックの各行は非同期ジョブ（job.bulk.id = 一括チェックID）として保存されている。
+ */
+
+import type { EvaluationJob } from '@/lib/jobs/interface';
+import { getJobRunner } from '@/lib/jobs/runner';
+
+/**
+ * 一括チェックのジョブを行番号順に取得（存在しない場合は空配列）
+ */
+export async function getBulkJobs(bulkId: string): Promise<EvaluationJob[]> {
+  // Runner の Job Store から取得（初期化時に中断したジョブを再開）
+  const runner = await getJobRunner();
+
+  return (await runner.listJobs())
+    .filter(job => job.bulk?.id === bulkId)
+    .sort((a, b) => a.bulk!.row - b.bulk!.row);
+}
+
+export function generateBulkId(): string {
+  return `bulk_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
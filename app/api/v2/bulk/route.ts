@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { bulkCreateSchema } from '@/lib/validation';
+import { detectBulkInputFormat, parseBulkInput, type BulkInputError } from '@/lib/bulk/bulk-input';
+import { summarizeBulkResults, toBulkAdResult } from '@/lib/bulk/bulk-results';
+import type { EvaluationJob } from '@/lib/jobs/interface';
+import { isProductSupported } from '@/lib/product-config-loader';
+import { getJobRunner } from '@/lib/jobs/runner';
+import { generateBulkId } from './bulk-jobs';
+
+// ジョブの登録のみ（評価はバックグラウンドで実行）
+export const maxDuration = 30;
+
+/** 1回の一括チェックの最大広告数 */
+const MAX_BULK_ROWS = 1000;
+
+/**
+ * POST /api/v2/bulk
+ * 一括チェック登録API
+ *
+ * CSV / JSONL（1行 = 広告ID・商品ID・広告文）をアップロードすると、各広告を非同期ジョブとして登録し、
+ * 一括チェックIDを即座に返します。ジョブは JOB_CONCURRENCY 件ずつ並列に実行されます。
+ *
+ * リクエスト形式:
+ * - multipart/form-data: file（CSV / JSONL）、mode（任意）
+ * - text/csv・application/x-ndjson: ファイルの内容をそのまま送信（?mode= で指定）
+ * - application/json: { content, format?, fileName?, mode? }
+ *
+ * @returns 一括チェックID、登録した広告数、読み込めなかった行（202 Accepted）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const validatedInput = bulkCreateSchema.parse(await readBulkRequest(request));
+    const format = validatedInput.format || detectBulkInputFormat(validatedInput.content, validatedInput.fileName);
+    const { rows, errors } = parseBulkInput(validatedInput.content, format);
+
+    // 未対応の商品の行はエラーとして除外
+    const rowErrors: BulkInputError[] = [...errors];
+    const validRows = rows.flatMap(row => {
+      const { productId } = row;
+      if (!isProductSupported(productId)) {
+        rowErrors.push({ row: row.row, adId: row.adId, message: `未対応の商品です: ${productId}` });
+        return [];
+      }
+      return [{ ...row, productId }];
+    });
+    rowErrors.sort((a, b) => a.row - b.row);
+
+    if (validRows.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'チェックできる広告がありません',
+        details: rowErrors,
+      }, { status: 400 });
+    }
+
+    if (validRows.length > MAX_BULK_ROWS) {
+      return NextResponse.json({
+        success: false,
+        error: `1回の一括チェックは${MAX_BULK_ROWS.toLocaleString()}件までです`,
+        details: `${validRows.length} ads`,
+      }, { status: 400 });
+    }
+
+    const bulkId = generateBulkId();
+    const runner = await getJobRunner();
+    for (const row of validRows) {
+      await runner.enqueue(
+        { text: row.text, productId: row.productId, ...(validatedInput.mode && { mode: validatedInput.mode }) },
+        { id: bulkId, adId: row.adId, row: row.row }
+      );
+    }
+
+    console.log(`[Bulk API] Bulk check queued: ${bulkId} (${validRows.length} ads, ${rowErrors.length} skipped)`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: bulkId,
+        format,
+        totalAds: validRows.length,
+        errors: rowErrors,
+      },
+    }, { status: 202, headers: { Location: `/api/v2/bulk/${bulkId}` } });
+
+  } catch (error: unknown) {
+    console.error('[Bulk API] Error:', error);
+
+    // Zodバリデーションエラーの処理
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
+      const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
+      return NextResponse.json({
+        success: false,
+        error: 'バリデーションエラー',
+        details: zodError.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: '一括チェックの登録中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/v2/bulk
+ * 一括チェック一覧API（作成日時の新しい順）
+ */
+export async function GET() {
+  try {
+    // Runner の Job Store から取得（初期化時に中断したジョブを再開）
+    const runner = await getJobRunner();
+
+    const groups = new Map<string, EvaluationJob[]>();
+    for (const job of await runner.listJobs()) {
+      if (job.bulk) {
+        groups.set(job.bulk.id, [...(groups.get(job.bulk.id) || []), job]);
+      }
+    }
+
+    const bulks = Array.from(groups.entries()).map(([id, jobs]) => {
+      const summary = summarizeBulkResults(jobs.map(toBulkAdResult));
+      return {
+        id,
+        total: summary.total,
+        finished: summary.finished,
+        byStatus: summary.byStatus,
+        createdAt: jobs.reduce((min, job) => (job.createdAt < min ? job.createdAt : min), jobs[0].createdAt),
+      };
+    }).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return NextResponse.json({
+      success: true,
+      data: { bulks },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Bulk API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: '一括チェック一覧の取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+/**
+ * リクエストの形式（multipart / ファイル本文 / JSON）を bulkCreateSchema の入力に変換
+ */
+async function readBulkRequest(request: NextRequest): Promise<unknown> {
+  const contentType = request.headers.get('content-type') || '';
+  const mode = request.nextUrl.searchParams.get('mode') || undefined;
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData();
+    const file = form.get('file');
+    return {
+      content: typeof file === 'string' ? file : await file?.text(),
+      fileName: file && typeof file !== 'string' ? file.name : undefined,
+      mode: form.get('mode') || mode,
+    };
+  }
+
+  if (contentType.includes('application/json')) {
+    return request.json();
+  }
+
+  return {
+    content: await request.text(),
+    format: /ndjson|jsonl/.test(contentType) ? 'jsonl' : contentType.includes('csv') ? 'csv' : undefined,
+    mode,
+  };
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdDocumentStore } from '@/lib/ad-documents/factory';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/v2/documents/:id
+ * 広告文書取得API（全ての版・差分・違反の比較を含む）
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const store = await getAdDocumentStore();
+    const document = await store.get(params.id);
+
+    if (!document) {
+      return notFoundResponse(params.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: document,
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Documents API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: '広告文書の取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/v2/documents/:id
+ * 広告文書削除API（全ての版を削除）
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const store = await getAdDocumentStore();
+    const deleted = await store.delete(params.id);
+
+    if (!deleted) {
+      return notFoundResponse(params.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: params.id, deleted: true },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Documents API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: '広告文書の削除中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+function notFoundResponse(id: string) {
+  return NextResponse.json({
+    success: false,
+    error: '広告文書が見つかりません',
+    details: `Document not found: ${id}`,
+  }, { status: 404 });
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adDocumentEvaluationsSchema } from '@/lib/validation';
+import { getAdDocumentStore } from '@/lib/ad-documents/factory';
+import { AdDocumentVersionError, completeAdDocumentVersion } from '@/lib/ad-documents/versioning';
+
+interface RouteContext {
+  params: { id: string; version: string };
+}
+
+/**
+ * GET /api/v2/documents/:id/versions/:version
+ * 広告文書の版取得API
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const store = await getAdDocumentStore();
+    const document = await store.get(params.id);
+    const version = document?.versions.find(v => String(v.version) === params.version);
+
+    if (!document || !version) {
+      return notFoundResponse(params);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { documentId: document.id, productId: document.productId, ...version },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Documents API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: '版の取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/v2/documents/:id/versions/:version
+ * 版の評価結果登録API
+ *
+ * POST /api/v2/documents/:id/versions が返した segmentsToEvaluate の評価結果を登録し、版を確定します。
+ * 引き継いだ評価と統合した全セグメントの評価結果と、前の版との違反の比較（fixed / new / open）を返します。
+ *
+ * @param evaluations - 再評価したセグメントの評価結果（/api/v2/evaluate-batch の出力）
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const validatedInput = adDocumentEvaluationsSchema.parse(body);
+
+    const store = await getAdDocumentStore();
+    const document = await store.get(params.id);
+    if (!document) {
+      return notFoundResponse(params);
+    }
+
+    const result = completeAdDocumentVersion(document, Number(params.version), validatedInput.evaluations);
+    await store.save(result.document);
+
+    return NextResponse.json({
+      success: true,
+      data: { documentId: document.id, productId: document.productId, ...result.version },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Documents API] Error:', error);
+
+    // Zodバリデーションエラーの処理
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
+      const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
+      return NextResponse.json({
+        success: false,
+        error: 'バリデーションエラー',
+        details: zodError.errors
+      }, { status: 400 });
+    }
+
+    if (error instanceof AdDocumentVersionError) {
+      return NextResponse.json({
+        success: false,
+        error: error.status === 409 ? 'この版は評価済みです' : '評価結果を登録できません',
+        details: error.message,
+      }, { status: error.status });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: '評価結果の登録中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+function notFoundResponse(params: RouteContext['params']) {
+  return NextResponse.json({
+    success: false,
+    error: '広告文書の版が見つかりません',
+    details: `Version ${params.version} of document ${params.id} not found`,
+  }, { status: 404 });
+}
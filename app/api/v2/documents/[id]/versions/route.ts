@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adDocumentVersionSchema } from '@/lib/validation';
+import { RuleBasedSegmenter } from '@/lib/segmentation/rule-based-segmenter';
+import { getAdDocumentStore } from '@/lib/ad-documents/factory';
+import { addAdDocumentVersion } from '@/lib/ad-documents/versioning';
+import { assertSupportedProduct } from '@/lib/product-config-loader';
+import { Segment } from '@/lib/types-v2';
+
+/**
+ * POST /api/v2/documents/:id/versions
+ * 広告文書の版追加API
+ *
+ * 広告文をセグメント分割し、直近の評価済みの版とセグメント単位で比較します。
+ * 変更のないセグメントは前の版の評価を引き継ぎ、再評価が必要なセグメントのみを返します。
+ * 提出エビデンスが前の版と異なる場合は、エビデンスと照合する主張のセグメントも再評価の対象になります。
+ *
+ * 1. このAPIで版を追加
+ * 2. segmentsToEvaluate を /api/v2/evaluate-batch で評価
+ * 3. 評価結果を PUT /api/v2/documents/:id/versions/:version で登録（版が確定し、違反の比較が作成される）
+ *
+ * segmentsToEvaluate が空の場合は、この時点で版が確定します（status: 'evaluated'）。
+ *
+ * @param text - 広告文全体
+ * @param evidence - 提出エビデンス（evaluate-batch に渡すものと同じ）
+ *
+ * @returns 版の差分・引き継いだ評価・再評価が必要なセグメント
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json();
+    const validatedInput = adDocumentVersionSchema.parse(body);
+
+    const store = await getAdDocumentStore();
+    const document = await store.get(params.id);
+    if (!document) {
+      return NextResponse.json({
+        success: false,
+        error: '広告文書が見つかりません',
+        details: `Document not found: ${params.id}`,
+      }, { status: 404 });
+    }
+
+    const productId = assertSupportedProduct(document.productId);
+    const segments = new RuleBasedSegmenter(productId, false).segment(validatedInput.text).segments as Segment[];
+
+    const result = addAdDocumentVersion(document, validatedInput.text, segments, validatedInput.evidence);
+    await store.save(result.document);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        documentId: document.id,
+        productId,
+        version: result.version.version,
+        status: result.version.status,
+        baseVersion: result.version.baseVersion,
+        segments,
+        diff: result.version.diff,
+        carriedEvaluations: result.version.status === 'pending' ? result.version.evaluations : [],
+        segmentsToEvaluate: result.segmentsToEvaluate,
+        ...(result.version.status === 'evaluated' && {
+          evaluations: result.version.evaluations,
+          comparison: result.version.comparison,
+        }),
+      },
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('[Documents API] Error:', error);
+
+    // Zodバリデーションエラーの処理
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
+      const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
+      return NextResponse.json({
+        success: false,
+        error: 'バリデーションエラー',
+        details: zodError.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: '版の追加中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
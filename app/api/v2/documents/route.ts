@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adDocumentCreateSchema } from '@/lib/validation';
+import { getAdDocumentStore } from '@/lib/ad-documents/factory';
+import { createAdDocument } from '@/lib/ad-documents/versioning';
+import {
+  assertSupportedProduct,
+  getSupportedProductIds,
+  UnsupportedProductError,
+} from '@/lib/product-config-loader';
+
+/**
+ * POST /api/v2/documents
+ * 広告文書作成API
+ *
+ * 同じLPの改訂版をまとめる広告文書を作成します。
+ * 版は POST /api/v2/documents/:id/versions で追加します。
+ *
+ * @param productId - 商品ID（config/products/<ID>.json が存在する商品）
+ * @param title - 文書名（任意）
+ *
+ * @returns 作成した広告文書
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedInput = adDocumentCreateSchema.parse(body);
+    const productId = assertSupportedProduct(validatedInput.productId);
+
+    const document = createAdDocument(productId, validatedInput.title);
+    const store = await getAdDocumentStore();
+    await store.save(document);
+
+    console.log(`[Documents API] Created document ${document.id} (${productId})`);
+
+    return NextResponse.json({
+      success: true,
+      data: document,
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('[Documents API] Error:', error);
+
+    // Zodバリデーションエラーの処理
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
+      const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
+      return NextResponse.json({
+        success: false,
+        error: 'バリデーションエラー',
+        details: zodError.errors
+      }, { status: 400 });
+    }
+
+    // 未対応商品エラー（config/products/<ID>.json が存在しない）
+    if (error instanceof UnsupportedProductError) {
+      return NextResponse.json({
+        success: false,
+        error: `未対応の商品です: ${error.productId}`,
+        details: error.message,
+        supportedProducts: getSupportedProductIds()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: '広告文書の作成中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/v2/documents
+ * 広告文書一覧API（更新日時の新しい順）
+ */
+export async function GET() {
+  try {
+    const store = await getAdDocumentStore();
+    const documents = (await store.list()).map(document => {
+      const latest = document.versions[document.versions.length - 1];
+      return {
+        id: document.id,
+        productId: document.productId,
+        title: document.title,
+        versionCount: document.versions.length,
+        latestVersion: latest && { version: latest.version, status: latest.status, createdAt: latest.createdAt },
+        createdAt: document.createdAt,
+        updatedAt: document.updatedAt,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        documents,
+        totalDocuments: documents.length,
+      },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Documents API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: '広告文書一覧の取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
@@ -2,13 +2,42 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { SegmentEvaluation } from '@/lib/types-v2';
 import { ProductId } from '@/lib/types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { createEmbeddingService } from '@/lib/embedding-service';
-import { createChromaVectorDB, ChromaVectorDB } from '@/lib/vector-db/chroma-db';
-import { createRAGSearchService } from '@/lib/rag-search';
+import { getEmbeddingCache } from '@/lib/cache';
+import { createLLMProvider, loadLLMConfig, type LLMProvider } from '@/lib/llm';
+import { createVectorDB, describeVectorDB } from '@/lib/vector-db/factory';
+import type { IVectorDB } from '@/lib/vector-db/interface';
+import { createForcedLexicalQueries, createRAGSearchService } from '@/lib/rag-search';
+import { getSharedKnowledgeLexicalIndex } from '@/lib/lexical-index';
 import { createNGKeywordValidator } from '@/lib/ng-keyword-validator';
+import type { KeywordMatch } from '@/lib/ng-keywords/keyword-matcher';
+import { applyWaiversToViolations, formatExpiredWaiverNote, splitWaivedViolations } from '@/lib/ng-keywords/waivers';
+import { mergeViolations } from '@/lib/utils/deduplication';
+import { attachViolationSpans, mergeViolationSpans, toKeywordMatchSpan } from '@/lib/violation-spans';
 import { validateGuinnessRecord } from '@/lib/guinness-record-validator';
-import { analyzeAnnotations, formatAnnotationAnalysis } from '@/lib/annotation-analyzer';
+import { createOfflineEvaluator, isLLMUnavailableError } from '@/lib/offline-evaluator';
+import { analyzeAnnotations, formatAnnotationAnalysis, isAnnotationExplanationSegment } from '@/lib/annotation-analyzer';
+import {
+  applyEvidenceResults,
+  createEvidenceIndex,
+  evidenceDocumentSchema,
+  formatEvidenceMatch,
+  type SegmentEvidenceResult,
+} from '@/lib/evidence-matcher';
+import { productIdSchema } from '@/lib/validation';
+import {
+  acceptsEventStream,
+  createEvaluationEventStream,
+  EvaluationCancelledError,
+  type EvaluationProgressEmitter,
+} from '@/lib/evaluation-progress';
+import {
+  assertSupportedProduct,
+  getSupportedProductIds,
+  loadProductConfig,
+  UnsupportedProductError,
+} from '@/lib/product-config-loader';
+import type { ProductCategory } from '@/lib/product-config.schema';
 
 // タイムアウト延長: 長文処理対応（Issue #17）
 export const maxDuration = 60;
@@ -22,7 +51,7 @@ export const maxDuration = 60;
  * - ランタイムでは既存embeddingsのみ使用（autoLoad: false）
  * - ユーザーAPIキーはクエリembedding生成のみ（1回/リクエスト）
  */
-let globalVectorDB: ChromaVectorDB | null = null;
+let globalVectorDB: IVectorDB | null = null;
 let isInitializing = false;
 
 /**
@@ -33,7 +62,7 @@ let isInitializing = false;
  *
  * @returns VectorDB instance
  */
-async function getGlobalVectorDB(): Promise<ChromaVectorDB> {
+async function getGlobalVectorDB(): Promise<IVectorDB> {
   // 既に接続済みの場合はそのまま返す
   if (globalVectorDB && globalVectorDB.isConnected()) {
     console.log('[VectorDB] ✅ Using shared VectorDB (pre-loaded embeddings)');
@@ -53,27 +82,25 @@ async function getGlobalVectorDB(): Promise<ChromaVectorDB> {
 
   // 初期化開始
   isInitializing = true;
-  console.log('[VectorDB] 🔄 Connecting to ChromaDB (using pre-generated embeddings)...');
+  console.log(`[VectorDB] 🔄 Connecting to ${describeVectorDB()} (using pre-generated embeddings)...`);
 
   try {
-    // ChromaDBに接続（autoLoad: false = embeddingsは既に存在する前提）
+    // Vector DBに接続（VECTOR_DB=chroma | local）
+    // ChromaDBは autoLoad: false = embeddingsは既に存在する前提
     // ランタイムでembedding生成は一切行わない！
-    const chromaUrl = process.env.CHROMA_URL || 'http://localhost:8000';
     console.log(`[VectorDB] Environment CHROMA_URL: ${process.env.CHROMA_URL || 'NOT SET'}`);
-    console.log(`[VectorDB] Using ChromaDB URL: ${chromaUrl}`);
 
-    globalVectorDB = createChromaVectorDB({
-      url: chromaUrl,
-      autoLoad: false, // ❌ 自動ロード無効（事前生成済みembeddings使用）
+    globalVectorDB = createVectorDB({
+      chroma: { autoLoad: false }, // ❌ 自動ロード無効（事前生成済みembeddings使用）
     });
 
     await globalVectorDB.connect();
 
     const docCount = await globalVectorDB.count();
-    console.log(`[VectorDB] ✅ Connected to ChromaDB (${docCount} pre-loaded documents)`);
+    console.log(`[VectorDB] ✅ Connected to ${describeVectorDB()} (${docCount} pre-loaded documents)`);
 
     if (docCount === 0) {
-      console.warn('[VectorDB] ⚠️  WARNING: ChromaDB has 0 documents!');
+      console.warn('[VectorDB] ⚠️  WARNING: Vector DB has 0 documents!');
       console.warn('[VectorDB] Please run: npm run setup:vector-db');
       console.warn('[VectorDB] Or manually run: npx tsx scripts/setup-vector-db.ts');
     }
@@ -84,29 +111,6 @@ async function getGlobalVectorDB(): Promise<ChromaVectorDB> {
   }
 }
 
-/**
- * Check if a segment is an annotation explanation (reference material, not advertising text)
- *
- * Annotation explanation patterns:
- * - "※1背爪表面に" - Starts with ※\d
- * - "殺菌は消毒の作用機序として  ※2" - Ends with ※\d but no advertising keywords
- * - "する薬用ジェル    ※1" - Short connector phrase ending with ※\d
- *
- * NOT annotation explanations (advertising text):
- * - "爪の中まで浸透※1・殺菌※2する薬用ジェル" - Contains advertising claims
- *
- * Strategy: Only skip if segment starts with ※\d (clear annotation explanation)
- */
-function isAnnotationExplanationSegment(segment: { text: string }): boolean {
-  const trimmedText = segment.text.trim();
-
-  // Only skip segments that START with annotation markers (※1, ※2, etc.)
-  // These are clearly annotation explanation text, not advertising claims
-  const startsWithAnnotation = /^※\d/.test(trimmedText);
-
-  return startsWithAnnotation;
-}
-
 /**
  * Request schema for batch evaluation API
  * Issue #15: バッチ評価で300セグメントまで対応
@@ -122,13 +126,23 @@ const evaluateBatchRequestSchema = z.object({
       line: z.number().optional(),
     }).optional(),
   })).min(1).max(20), // 最大20セグメント/バッチ
-  productId: z.enum(['HA', 'SH']),
+  productId: productIdSchema, // 対応可否は assertSupportedProduct() で判定
   fullText: z.string().optional(),
+  evidence: z.array(evidenceDocumentSchema).max(20).optional(), // 提出エビデンス（広告文とは別に照合）
   skipKeywordValidation: z.boolean().optional(), // テスト用: TypeScript検証をスキップ
+  mode: z.enum(['llm', 'offline']).optional(), // offline: Geminiを使わずルールベース検証のみ（省略時はAPIキー・LLM_MODEで判定）
 });
 
 type EvaluateBatchRequest = z.infer<typeof evaluateBatchRequestSchema>;
 
+/**
+ * 進捗の通知先と中断用シグナル（進捗ストリーム使用時）
+ */
+interface BatchEvaluationProgress {
+  emit?: EvaluationProgressEmitter;
+  signal?: AbortSignal;
+}
+
 /**
  * POST /api/v2/evaluate-batch
  * バッチ評価API - 複数セグメントを1回のGemini APIリクエストで評価
@@ -136,14 +150,41 @@ type EvaluateBatchRequest = z.infer<typeof evaluateBatchRequestSchema>;
  * Issue #15: 300セグメントまで処理可能にするため、20セグメントずつバッチ評価
  *
  * @param segments - 評価対象セグメント配列（最大20セグメント）
- * @param productId - 商品ID (HA | SH)
+ * @param productId - 商品ID（config/products/<ID>.json が存在する商品）
  * @param apiKey - Gemini APIキー
  * @param fullText - 広告文全体（注釈参照用）
+ * @param evidence - 提出エビデンス（試験報告書・調査結果など）。指定時は根拠が必要な主張と照合し、
+ *                   対応するエビデンスを supportingEvidence に、根拠のない主張を不実証広告の違反にする
+ * @param mode - 'offline' の場合はGeminiを使わずルールベース検証のみで評価
+ *
+ * APIキー未設定・LLM_MODE=offline・Geminiのクォータ超過時はオフライン評価にフォールバックし、
+ * evaluationMode: 'offline' と llmSkippedReason を返す（レポートに「LLMレビュー未実施」と表示）。
+ *
+ * `Accept: text/event-stream` を指定すると、各ステージの進捗（lib/evaluation-progress.ts）をSSEで返し、
+ * 最後に event: result で通常のレスポンスと同じ内容（{ status, body }）を返す。
+ * クライアントが切断した場合は実行中のLLM呼び出しを中断する。
  *
  * @returns 各セグメントの評価結果配列
  */
 export async function POST(request: NextRequest) {
+  if (acceptsEventStream(request)) {
+    return createEvaluationEventStream(
+      (emit, signal) => evaluateBatch(request, { emit, signal }),
+      request.signal
+    );
+  }
+
+  return evaluateBatch(request);
+}
+
+/**
+ * バッチ評価の実行（進捗ストリーム使用時は各ステージで progress.emit を呼ぶ）
+ */
+async function evaluateBatch(request: NextRequest, progress: BatchEvaluationProgress = {}) {
+  const { emit, signal } = progress;
   const startTime = Date.now();
+  // クォータ超過時のオフライン評価用
+  let offlineFallback: { input: EvaluateBatchRequest; productId: ProductId } | undefined;
 
   try {
     // Parse and validate request body
@@ -151,10 +192,26 @@ export async function POST(request: NextRequest) {
     console.log('[Evaluate Batch API] Received request with', body.segments?.length || 0, 'segments');
 
     const validatedInput: EvaluateBatchRequest = evaluateBatchRequestSchema.parse(body);
+    const productId = assertSupportedProduct(validatedInput.productId);
+
+    emit?.({
+      stage: 'segmentation',
+      totalSegments: validatedInput.segments.length,
+      segmentsToEvaluate: validatedInput.segments.filter(segment => !isAnnotationExplanationSegment(segment)).length,
+    });
 
     // Get API key from environment variable
     const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+
+    // オフラインモード: Geminiを使わずルールベース検証のみで評価
+    const llmProviderName = loadLLMConfig().provider;
+    const offlineReason = getOfflineReason(validatedInput.mode, apiKey, llmProviderName);
+    if (offlineReason) {
+      return evaluateOffline(validatedInput, productId, startTime, offlineReason, emit);
+    }
+    offlineFallback = { input: validatedInput, productId };
+
+    if (!apiKey && llmProviderName === 'gemini') {
       console.error('[Evaluate Batch API] GEMINI_API_KEY environment variable is not set');
       return NextResponse.json({
         success: false,
@@ -162,41 +219,12 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    console.log('[Evaluate Batch API] Using server-side API key from environment variable');
-
-    // RAG Search: セマンティック検索で関連ナレッジを取得
-    console.log('[Evaluate Batch API] RAG Search: Initializing services...');
-
-    // グローバルVectorDBを取得（サーバー側APIキーで初回のみロード）
-    const vectorDB = await getGlobalVectorDB();
+    // LLMプロバイダー（config/llm.json の provider。Geminiはサーバー側APIキーを使用）
+    const llm = createLLMProvider({ apiKey });
+    console.log(`[Evaluate Batch API] Using LLM provider: ${llm.name} (${llm.getModelName('evaluation')})`);
 
-    // サーバー側APIキーでEmbedding Serviceを作成
-    // 注: クエリembedding生成のみに使用（1回のみ）
-    console.log('[Evaluate Batch API] Creating embedding service with server API key...');
-    const embeddingService = createEmbeddingService(apiKey);
-
-    // RAG Search Serviceを作成
-    const ragSearchService = createRAGSearchService(embeddingService, vectorDB);
-
-    // セマンティック検索で関連ナレッジを取得
-    console.log('[Evaluate Batch API] RAG Search: Searching for', validatedInput.segments.length, 'segments...');
-
-    const ragResult = await ragSearchService.searchBatch(
-      validatedInput.segments.map(s => s.text),
-      {
-        topK: 20,
-        minSimilarity: 0.3, // Lowered from 0.5 to 0.3 for better recall with cosine distance
-        productId: validatedInput.productId,
-        debug: true,
-      }
-    );
-
-    const knowledgeContext = ragResult.relevantKnowledge;
-
-    console.log('[Evaluate Batch API] RAG Search: Found', ragResult.searchResults.length, 'relevant chunks');
-    console.log('[Evaluate Batch API] RAG Search: Knowledge context size:', knowledgeContext.length, 'chars');
-
-    // 注: VectorDBは全ユーザー共通なのでclose()しない
+    // 提出エビデンスとの照合（リクエストごとにインデックスを作成）
+    const evidenceResults = matchEvidence(validatedInput);
 
     // NG Keyword Validation for each segment
     // skipKeywordValidationフラグがtrueの場合、検証をスキップ（テスト用）
@@ -213,6 +241,8 @@ export async function POST(request: NextRequest) {
               explicitNGKeywordsList: [],
               summary: { absolute: 0, conditional: 0, contextDependent: 0, total: 0, critical: 0, high: 0, medium: 0 },
               matches: [],
+              waivedMatches: [],
+              suppressedMatches: [],
               instructionsForGemini: ''
             };
           }
@@ -220,7 +250,7 @@ export async function POST(request: NextRequest) {
           const ngValidationResult = ngKeywordValidator.validate(
             segment.text,
             validatedInput.fullText,
-            validatedInput.productId  // 商品固有のannotationRulesを適用
+            productId  // 商品固有のannotationRulesを適用
           );
 
           console.log(`[Evaluate Batch API] NG Keyword validation for segment ${index + 1} (${segment.id}):`);
@@ -238,6 +268,59 @@ export async function POST(request: NextRequest) {
       console.log('[Evaluate Batch API] ⚠️  NG Keyword validation SKIPPED (skipKeywordValidation=true)');
     }
 
+    // RAG Search: セマンティック検索で関連ナレッジを取得
+    console.log('[Evaluate Batch API] RAG Search: Initializing services...');
+
+    // グローバルVectorDBを取得（サーバー側APIキーで初回のみロード）
+    const vectorDB = await getGlobalVectorDB();
+
+    // LLMプロバイダーでEmbedding Serviceを作成
+    // 注: クエリembedding生成のみに使用（1回のみ）
+    // 同じセグメント本文のembeddingはリクエスト間で共有（一括チェックの広告バリエーションなど）
+    console.log('[Evaluate Batch API] Creating embedding service...');
+    const embeddingService = createEmbeddingService(llm, getEmbeddingCache());
+
+    // RAG Search Serviceを作成（語彙インデックスとのハイブリッド検索）
+    const lexicalIndex = await getSharedKnowledgeLexicalIndex();
+    const ragSearchService = createRAGSearchService(embeddingService, vectorDB, lexicalIndex);
+
+    // セマンティック検索で関連ナレッジを取得（セグメント単位で検索し、重複除去してまとめる）
+    // 注釈説明セグメントはGeminiで評価しないため検索対象外
+    const segmentQueries = validatedInput.segments
+      .map((segment, index) => ({
+        id: segment.id,
+        text: segment.text,
+        // 検出されたNGキーワードの参照ナレッジは類似度に関係なく必ず取得
+        forcedQueries: createForcedLexicalQueries(ngValidationResults?.[index]?.matches || []),
+      }))
+      .filter((_, index) => !isAnnotationExplanationSegment(validatedInput.segments[index]));
+
+    console.log('[Evaluate Batch API] RAG Search: Searching for', segmentQueries.length, 'segments...');
+    signal?.throwIfAborted();
+
+    const ragResult = await ragSearchService.searchPerSegment(segmentQueries, {
+      topK: 10,
+      minSimilarity: 0.3, // Lowered from 0.5 to 0.3 for better recall with cosine distance
+      productId,
+      debug: true,
+      maxContextChars: 30000,
+    });
+
+    signal?.throwIfAborted();
+    emit?.({
+      stage: 'rag',
+      totalChunks: ragResult.searchResults.length,
+      segments: ragResult.segments.map(s => ({ segmentId: s.segmentId, chunks: s.chunkIds.length })),
+    });
+
+    const knowledgeContext = ragResult.relevantKnowledge;
+    const segmentKnowledgeNumbers = new Map(ragResult.segments.map(s => [s.segmentId, s.knowledgeNumbers]));
+
+    console.log('[Evaluate Batch API] RAG Search: Found', ragResult.searchResults.length, 'relevant chunks');
+    console.log('[Evaluate Batch API] RAG Search: Knowledge context size:', knowledgeContext.length, 'chars');
+
+    // 注: VectorDBは全ユーザー共通なのでclose()しない
+
     // Guinness Record Validation for each segment
     const guinnessValidationResults = validatedInput.segments.map((segment, index) => {
       // Skip annotation explanation segments (same logic as NG Keyword validation)
@@ -267,17 +350,14 @@ export async function POST(request: NextRequest) {
       return guinnessValidationResult;
     });
 
-    // Initialize Gemini client with JSON mode
-    // Changed to gemini-2.5-flash-lite (正式版、テキスト生成用)
-    // Note: gemini-2.0-flash-exp は画像生成用のため絶対に使用禁止
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.5-flash-lite',
-      generationConfig: {
-        responseMimeType: 'application/json',
-        temperature: 0.0,
-        maxOutputTokens: 16384, // Issue #15: 大きなバッチ評価結果を受け取るため
-      },
+    validatedInput.segments.forEach((segment, index) => {
+      emit?.({
+        stage: 'rule_validation',
+        segmentId: segment.id,
+        index,
+        total: validatedInput.segments.length,
+        violations: (ngValidationResults?.[index]?.matches.length || 0) + guinnessValidationResults[index].violations.length,
+      });
     });
 
     // Filter out annotation explanation segments before sending to Gemini
@@ -303,11 +383,13 @@ export async function POST(request: NextRequest) {
     // Create batch evaluation prompt
     const prompt = createBatchEvaluationPrompt(
       segmentsForGemini,
-      validatedInput.productId,
+      productId,
       knowledgeContext,  // RAG検索で取得した関連ナレッジを使用
       validatedInput.fullText,
       ngValidationResultsForGemini,  // NG Keyword Validator の結果を渡す（フィルタリング済み）
-      guinnessValidationResultsForGemini  // Guinness Record Validator の結果を渡す（フィルタリング済み）
+      guinnessValidationResultsForGemini,  // Guinness Record Validator の結果を渡す（フィルタリング済み）
+      segmentKnowledgeNumbers,  // セグメントごとの関連ナレッジ番号
+      evidenceResults && new Map(evidenceResults.map(r => [r.segmentId, r]))  // 提出エビデンスの照合結果
     );
 
     console.log('[Evaluate Batch API] Sending batch evaluation request to Gemini...');
@@ -315,10 +397,11 @@ export async function POST(request: NextRequest) {
 
     // Evaluate filtered segments in one Gemini API call with retry
     const geminiEvaluations = await evaluateBatchWithRetry(
-      model,
+      llm,
       prompt,
       segmentsForGemini,  // Use filtered segments (annotation explanations excluded)
-      3 // max retries
+      3, // max retries
+      progress
     );
 
     // Create a map from segment ID to Gemini evaluation for efficient lookup
@@ -329,7 +412,7 @@ export async function POST(request: NextRequest) {
 
     // Merge NG Keyword and Guinness Record validation results with Gemini evaluations
     // Priority: NG Keywords (HIGHEST) > Guinness > Gemini
-    const evaluations = validatedInput.segments.map((segment, index) => {
+    const mergedEvaluations = validatedInput.segments.map((segment, index) => {
       const ngResult = ngValidationResults ? ngValidationResults[index] : undefined;
       const guinnessResult = guinnessValidationResults[index];
 
@@ -343,6 +426,7 @@ export async function POST(request: NextRequest) {
           segmentId: segment.id,
           compliance: true,
           violations: [],
+          evaluationMode: 'llm' as const,
           reasoning: '注釈説明文のため評価対象外',
           rawViolations: [],
           improvements: [],
@@ -354,8 +438,10 @@ export async function POST(request: NextRequest) {
       let hasViolations = !geminiEvaluation.compliance;
 
       // 0. Filter out Gemini violations that are duplicates of NG keyword validator detections
-      if (ngResult && ngResult.hasViolations && ngResult.matches.length > 0) {
-        const detectedKeywords = ngResult.matches.map(m => m.keyword);
+      // 承認済み例外・文脈により除外したキーワードも対象（Geminiが同じ表現を違反として報告した場合に除外）
+      const checkedMatches = ngResult ? [...ngResult.matches, ...ngResult.waivedMatches, ...ngResult.suppressedMatches] : [];
+      if (ngResult && checkedMatches.length > 0) {
+        const detectedKeywords = checkedMatches.map(m => m.keyword);
         const beforeFilterCount = mergedViolations.length;
 
         mergedViolations = mergedViolations.filter(violation => {
@@ -390,45 +476,52 @@ export async function POST(request: NextRequest) {
 
       // 1. Merge NG Keyword violations (HIGHEST PRIORITY - cannot be overridden)
       // Issue #30: NG Keyword Validatorで既に注釈チェック済み
-      if (ngResult && ngResult.hasViolations && ngResult.matches.length > 0) {
-        console.log(`[Evaluate Batch API] Merging NG keyword violations for segment ${index + 1}`);
+      const toNGViolation = (match: KeywordMatch) => {
+        // Determine violation type based on category
+        let violationType: '薬機法違反' | '景表法違反' = '薬機法違反';
+        if (match.category === 'limited-time' || match.violationType === '景表法違反') {
+          violationType = '景表法違反';
+        }
 
-        const ngViolations = ngResult.matches.map(match => {
-          // Determine violation type based on category
-          let violationType: '薬機法違反' | '景表法違反' = '薬機法違反';
-          if (match.category === 'limited-time' || match.violationType === '景表法違反') {
-            violationType = '景表法違反';
-          }
+        // Normalize severity (map 'critical' to 'high' for backward compatibility)
+        const normalizedSeverity = (match.severity === 'critical' ? 'high' : (match.severity || 'high')) as 'high' | 'medium' | 'low';
 
-          // Normalize severity (map 'critical' to 'high' for backward compatibility)
-          const normalizedSeverity = (match.severity === 'critical' ? 'high' : (match.severity || 'high')) as 'high' | 'medium' | 'low';
+        // Generate correctionSuggestion from okExamples or provide a default
+        let correctionSuggestion = '適切な注釈を追加してください';
+        if (match.okExamples && match.okExamples.length > 0) {
+          correctionSuggestion = match.okExamples[0];
+        } else if (match.requiredAnnotation) {
+          correctionSuggestion = `${match.keyword}※${match.requiredAnnotation}`;
+        }
 
-          // Generate correctionSuggestion from okExamples or provide a default
-          let correctionSuggestion = '適切な注釈を追加してください';
-          if (match.okExamples && match.okExamples.length > 0) {
-            correctionSuggestion = match.okExamples[0];
-          } else if (match.requiredAnnotation) {
-            correctionSuggestion = `${match.keyword}※${match.requiredAnnotation}`;
-          }
+        // キーワードをdescriptionに含める（重複検知用）
+        const description = match.description || match.reason;
+        const descriptionWithKeyword = description.includes(match.keyword) ? description : `「${match.keyword}」${description}`;
+        const span = toKeywordMatchSpan(match, segment);
 
-          // キーワードをdescriptionに含める（重複検知用）
-          const description = match.description || match.reason;
-          const descriptionWithKeyword = description.includes(match.keyword) ? description : `「${match.keyword}」${description}`;
-
-          return {
-            type: violationType,
-            severity: normalizedSeverity,
-            description: descriptionWithKeyword,
-            referenceKnowledge: match.referenceKnowledge ? {
-              file: match.referenceKnowledge,
-              excerpt: match.description || ''
-            } : {
-              file: '',
-              excerpt: ''
-            },
-            correctionSuggestion,
-          };
-        });
+        return {
+          type: violationType,
+          severity: normalizedSeverity,
+          description: descriptionWithKeyword,
+          referenceKnowledge: match.referenceKnowledge ? {
+            file: match.referenceKnowledge,
+            excerpt: match.description || ''
+          } : {
+            file: '',
+            excerpt: ''
+          },
+          correctionSuggestion,
+          waiver: match.waiver,
+          notes: match.waiver?.status === 'expired' ? formatExpiredWaiverNote(match.waiver) : undefined,
+          ...(span && { spans: [span] }),
+          ...(match.matchContext && { matchContext: match.matchContext }),
+        };
+      };
+
+      if (ngResult && ngResult.hasViolations && ngResult.matches.length > 0) {
+        console.log(`[Evaluate Batch API] Merging NG keyword violations for segment ${index + 1}`);
+
+        const ngViolations = ngResult.matches.map(toNGViolation);
 
         mergedViolations = [...ngViolations, ...mergedViolations];
         hasViolations = ngViolations.length > 0 ? true : hasViolations;
@@ -524,6 +617,7 @@ export async function POST(request: NextRequest) {
 
           const shorter = sorted[0]; // NG keyword validator（簡潔な指摘・修正案）
           const longer = sorted[sorted.length - 1]; // Gemini（詳細な根拠引用）
+          const spans = mergeViolationSpans(...violations.map(v => v.spans)); // 違反箇所は全て引き継ぐ
 
           // マージ判定: 両方が同じ type で、longer に詳細な referenceKnowledge.excerpt がある場合のみマージ
           const shouldMerge =
@@ -541,7 +635,8 @@ export async function POST(request: NextRequest) {
             // インテリジェントマージ: shorter の指摘・修正案 + longer の根拠引用
             const merged = {
               ...shorter, // ベースは shorter（簡潔な description と correctionSuggestion）
-              referenceKnowledge: longer.referenceKnowledge // Gemini の詳細な根拠引用
+              referenceKnowledge: longer.referenceKnowledge, // Gemini の詳細な根拠引用
+              ...(spans.length > 0 && { spans }),
             };
 
             uniqueViolations.push(merged);
@@ -550,20 +645,47 @@ export async function POST(request: NextRequest) {
             console.log(`[Duplicate Detection]   ✅ Used detailed reference from longer violation`);
           } else {
             // マージ不可の場合は shorter だけを保持（従来の動作）
-            uniqueViolations.push(shorter);
+            uniqueViolations.push(spans.length > 0 ? { ...shorter, spans } : shorter);
             console.log(`[Duplicate Detection] Removed ${violations.length - 1} duplicates for keyword: ${key}`);
             console.log(`[Duplicate Detection] Kept: "${shorter.description.substring(0, 80)}..."`);
           }
         }
       }
 
+      // 3. 承認済み例外（config/waivers/<productId>.json）を適用
+      // NG Keyword Validator で除外済みのものに加え、Gemini の違反も同じ例外で判定する
+      const { violations: remainingViolations, waivedViolations: waivedGeminiViolations } =
+        splitWaivedViolations(applyWaiversToViolations(uniqueViolations, productId, segment.text));
+      const waivedViolations = mergeViolations([
+        ...(ngResult ? ngResult.waivedMatches.map(toNGViolation) : []),
+        ...waivedGeminiViolations,
+      ]);
+
+      if (waivedViolations.length > 0) {
+        console.log(`[Evaluate Batch API] ${waivedViolations.length} violations waived for segment ${index + 1} (承認済み例外)`);
+      }
+
+      // 否定・注意書き・引用の文脈で除外したNGキーワード（レポートで理由を確認できるよう保持）
+      const suppressedViolations = ngResult ? ngResult.suppressedMatches.map(toNGViolation) : [];
+
       return {
         ...geminiEvaluation,
-        compliance: !hasViolations,
-        violations: uniqueViolations
+        // 承認済み例外のみだった場合は適合
+        compliance: !hasViolations || (remainingViolations.length === 0 && waivedViolations.length > 0),
+        violations: remainingViolations,
+        ...(waivedViolations.length > 0 && { waivedViolations }),
+        ...(suppressedViolations.length > 0 && { suppressedViolations }),
+        evaluationMode: 'llm' as const,
       };
     });
 
+    // 4. 提出エビデンス: supportingEvidence と不実証広告の違反を反映
+    const evidenceEvaluations = evidenceResults ? applyEvidenceResults(mergedEvaluations, evidenceResults) : mergedEvaluations;
+
+    // 5. 違反箇所: NGキーワード以外の違反（Gemini・エビデンス）は引用された表現の位置を設定
+    const evaluations = attachViolationSpans(evidenceEvaluations, validatedInput.segments);
+    emitSegmentEvaluated(evaluations, emit);
+
     const processingTime = Date.now() - startTime;
     console.log(`[Evaluate Batch API] Completed ${evaluations.length} evaluations in ${processingTime}ms`);
 
@@ -577,6 +699,15 @@ export async function POST(request: NextRequest) {
       },
       legalDomains: Array.from(new Set(ragResult.searchResults.map(r => r.metadata.legalDomain).filter(Boolean))),
       knowledgeTypes: Array.from(new Set(ragResult.searchResults.map(r => r.metadata.knowledgeType).filter(Boolean))),
+      // セグメントごとに使用したナレッジチャンク
+      segments: ragResult.segments.map(s => ({
+        segmentId: s.segmentId,
+        chunks: s.chunkIds.map(id => {
+          const chunk = ragResult.searchResults.find(r => r.id === id)!;
+          return { id, fileName: chunk.metadata.fileName, score: chunk.score };
+        }),
+        droppedChunkIds: s.droppedChunkIds,
+      })),
     };
 
     return NextResponse.json({
@@ -585,13 +716,36 @@ export async function POST(request: NextRequest) {
         evaluations,
         totalSegments: evaluations.length,
         processingTimeMs: processingTime,
+        evaluationMode: 'llm',
         ragMetadata, // Issue #32: RAG search metadata
+        ...(evidenceResults && { evidenceMetadata: formatEvidenceMetadata(evidenceResults) }),
       },
     }, { status: 200 });
 
   } catch (error: unknown) {
+    // クライアントの切断（進捗ストリームのキャンセル）: 結果は送信されないため、そのまま終了する
+    if (signal?.aborted) {
+      console.log('[Evaluate Batch API] ⏹️  Cancelled by client');
+      return NextResponse.json({
+        success: false,
+        error: '評価がキャンセルされました',
+      }, { status: 499 });
+    }
+
     console.error('[Evaluate Batch API] Error:', error);
 
+    // Geminiのクォータ超過・APIキー不正: オフライン評価にフォールバック
+    if (offlineFallback && isLLMUnavailableError(error)) {
+      const message = error instanceof Error ? error.message : String(error);
+      return evaluateOffline(
+        offlineFallback.input,
+        offlineFallback.productId,
+        startTime,
+        `Gemini APIを利用できません（${message.substring(0, 100)}）`,
+        emit
+      );
+    }
+
     if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
       const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
       return NextResponse.json({
@@ -601,6 +755,16 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // 未対応商品エラー（config/products/<ID>.json が存在しない）
+    if (error instanceof UnsupportedProductError) {
+      return NextResponse.json({
+        success: false,
+        error: `未対応の商品です: ${error.productId}`,
+        details: error.message,
+        supportedProducts: getSupportedProductIds(),
+      }, { status: 400 });
+    }
+
     if (error instanceof Error) {
       return NextResponse.json({
         success: false,
@@ -616,6 +780,148 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * オフライン評価にする理由（LLMを使う場合は undefined）
+ *
+ * - mode: 'offline' が指定された
+ * - mode 未指定で LLM_MODE=offline が設定されている、または（Geminiプロバイダーで）GEMINI_API_KEY が未設定
+ */
+function getOfflineReason(
+  mode: EvaluateBatchRequest['mode'],
+  apiKey: string | undefined,
+  providerName: LLMProvider['name']
+): string | undefined {
+  if (mode === 'offline') {
+    return 'オフラインモードが指定されました';
+  }
+  if (mode === 'llm') {
+    return undefined;
+  }
+  if (process.env.LLM_MODE === 'offline') {
+    return 'LLM_MODE=offline が設定されています';
+  }
+  if (!apiKey && providerName === 'gemini') {
+    return 'GEMINI_API_KEY が設定されていません';
+  }
+  return undefined;
+}
+
+/**
+ * オフライン評価（RuleBasedSegmenterの結果をNGキーワード・ギネス記録・期間表現の検証のみで評価）
+ */
+function evaluateOffline(
+  input: EvaluateBatchRequest,
+  productId: ProductId,
+  startTime: number,
+  reason: string,
+  emit?: EvaluationProgressEmitter
+) {
+  console.warn(`[Evaluate Batch API] ⚠️  LLM review skipped (offline mode): ${reason}`);
+
+  const evidenceResults = matchEvidence(input);
+  const offlineEvaluations = createOfflineEvaluator(productId).evaluate(input.segments, input.fullText);
+  const evaluations = evidenceResults
+    ? attachViolationSpans(applyEvidenceResults(offlineEvaluations, evidenceResults), input.segments)
+    : offlineEvaluations;
+
+  // オフライン評価はルールベース検証の結果がそのまま評価結果になる
+  evaluations.forEach((evaluation, index) => {
+    emit?.({
+      stage: 'rule_validation',
+      segmentId: evaluation.segmentId,
+      index,
+      total: evaluations.length,
+      violations: evaluation.violations.length,
+    });
+  });
+  emitSegmentEvaluated(evaluations, emit);
+
+  const processingTime = Date.now() - startTime;
+  console.log(`[Evaluate Batch API] Completed ${evaluations.length} offline evaluations in ${processingTime}ms`);
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      evaluations,
+      totalSegments: evaluations.length,
+      processingTimeMs: processingTime,
+      evaluationMode: 'offline',
+      llmSkippedReason: reason,
+      ...(evidenceResults && { evidenceMetadata: formatEvidenceMetadata(evidenceResults) }),
+    },
+  }, { status: 200 });
+}
+
+/**
+ * セグメントごとの評価結果の確定を通知
+ */
+function emitSegmentEvaluated(evaluations: SegmentEvaluation[], emit?: EvaluationProgressEmitter) {
+  evaluations.forEach((evaluation, index) => {
+    emit?.({
+      stage: 'segment_evaluated',
+      segmentId: evaluation.segmentId,
+      index,
+      total: evaluations.length,
+      compliance: evaluation.compliance,
+      violations: evaluation.violations.length,
+    });
+  });
+}
+
+/**
+ * 提出エビデンスとセグメントを照合（エビデンス未指定の場合は undefined）
+ */
+function matchEvidence(input: EvaluateBatchRequest): SegmentEvidenceResult[] | undefined {
+  if (!input.evidence) {
+    return undefined;
+  }
+
+  const evidenceIndex = createEvidenceIndex(input.evidence);
+  const results = evidenceIndex.matchSegments(input.segments);
+  console.log(`[Evaluate Batch API] Evidence: ${input.evidence.length} documents (${evidenceIndex.size()} chunks), ${results.filter(r => r.unsubstantiated).length} unsubstantiated segments`);
+
+  return results;
+}
+
+/**
+ * レスポンス用のエビデンス照合結果（セグメントごとの主張と使用したエビデンスチャンク）
+ */
+function formatEvidenceMetadata(results: SegmentEvidenceResult[]) {
+  return {
+    segments: results
+      .filter(r => r.claims.length > 0 || r.evidence.length > 0)
+      .map(r => ({
+        segmentId: r.segmentId,
+        claims: r.claims,
+        evidenceChunkIds: r.evidence.map(e => e.chunkId),
+        unsubstantiated: r.unsubstantiated,
+      })),
+  };
+}
+
+/**
+ * 商品カテゴリーの表示名
+ */
+function formatProductCategory(category: ProductCategory): string {
+  return category === '新指定医薬部外品' ? '医薬部外品（新指定医薬部外品）' : category;
+}
+
+/**
+ * 商品カテゴリーごとの適用ガイドライン
+ */
+function getApplicableGuideline(category: ProductCategory): string {
+  switch (category) {
+    case '新指定医薬部外品':
+    case '医薬部外品':
+      return 'OTC医薬品等の適正広告ガイドライン（医薬部外品用）';
+    case '食品':
+      return '健康食品に関する景品表示法及び健康増進法上の留意事項';
+    case '化粧品':
+    default:
+      return '化粧品の適正広告ガイドライン';
+  }
+}
+
 /**
  * バッチ評価プロンプトを生成
  * 既存の評価ロジックを100%維持しながら、複数セグメントをまとめて評価
@@ -626,7 +932,9 @@ function createBatchEvaluationPrompt(
   knowledgeContext: string,
   fullText?: string,
   ngValidationResults?: Array<{ instructionsForGemini: string; hasViolations: boolean }>,
-  guinnessValidationResults?: Array<{ hasGuinnessReference: boolean; isValid: boolean; violations: Array<{ type: string; severity: string; description: string; expected: string; actual: string; correctionSuggestion: string }> }>
+  guinnessValidationResults?: Array<{ hasGuinnessReference: boolean; isValid: boolean; violations: Array<{ type: string; severity: string; description: string; expected: string; actual: string; correctionSuggestion: string }> }>,
+  segmentKnowledgeNumbers?: Map<string, number[]>,
+  evidenceResults?: Map<string, SegmentEvidenceResult>
 ): string {
   // セグメント一覧を生成（注釈分析の結果のみ含む）
   // Issue #30修正: NGキーワード検証結果はGeminiに渡さず、後で構造的にマージ
@@ -669,12 +977,31 @@ function createBatchEvaluationPrompt(
       ? `\n#### ✅ 注釈分析結果（セグメント${index + 1}）\n\n${formatAnnotationAnalysis(annotationAnalysis)}\n\n**【絶対厳守】** このセグメントには上記の注釈マーカー付きキーワードがあり、対応する注釈テキストが確認されています。\n\n**評価ルール:**\n- 注釈テキストが正しく存在する場合、そのキーワードに関する違反は **violations 配列に含めないでください**\n- 「注釈が正しいので問題ありません」という判断の場合、違反として報告してはいけません\n- compliance は true と判定してください\n\n`
       : '';
 
+    // セグメント単位のRAG検索で取得したナレッジ番号（知識ベース内の「ナレッジ N」）
+    const knowledgeNumbers = segmentKnowledgeNumbers?.get(seg.id);
+    const knowledgeInstructions = knowledgeNumbers
+      ? knowledgeNumbers.length > 0
+        ? `\n#### 📚 関連ナレッジ（セグメント${index + 1}）\n\nこのセグメントは知識ベースの **${knowledgeNumbers.map(n => `ナレッジ ${n}`).join('、')}** を優先的に参照して評価してください。\n`
+        : `\n#### 📚 関連ナレッジ（セグメント${index + 1}）\n\nこのセグメントに直接関連するナレッジは検索されませんでした。一般的な規定に基づいて評価してください。\n`
+      : '';
+
+    // 提出エビデンスの照合結果（不実証広告は別ロジックで判定するため、Geminiには報告させない）
+    const evidenceResult = evidenceResults?.get(seg.id);
+    let evidenceInstructions = '';
+    if (evidenceResult && (evidenceResult.claims.length > 0 || evidenceResult.evidence.length > 0)) {
+      evidenceInstructions = `\n#### 📎 提出エビデンス（セグメント${index + 1}）\n\n`;
+      evidenceInstructions += evidenceResult.evidence.length > 0
+        ? `このセグメントの主張には、以下の提出エビデンスが根拠として照合されています：\n${evidenceResult.evidence.map(e => `- ${formatEvidenceMatch(e)}`).join('\n')}\n\n`
+        : `このセグメントの主張に対応する提出エビデンスは見つかりませんでした。\n\n`;
+      evidenceInstructions += `**注:** 根拠の有無（不実証広告）は別ロジックで判定済みです。根拠資料の有無に関する違反は報告しないでください。\n`;
+    }
+
     return `
 ### セグメント${index + 1} (ID: ${seg.id})
 \`\`\`
 ${seg.text}
 \`\`\`
-${ngKeywordInstructions}${annotationInstructions}${guinnessInstructions}`;
+${knowledgeInstructions}${ngKeywordInstructions}${annotationInstructions}${guinnessInstructions}${evidenceInstructions}`;
   }).join('\n');
 
   const fullTextSection = fullText ? `
@@ -687,19 +1014,31 @@ ${fullText}
 注釈が存在する場合、その注釈を確認してから違反判定を行ってください。
 ` : '';
 
-  // 商品カテゴリーに応じた評価基準を設定
-  const productCategory = productId === 'SH' ? '医薬部外品（新指定医薬部外品）' : '化粧品';
-  const applicableGuideline = productId === 'SH'
-    ? 'OTC医薬品等の適正広告ガイドライン（医薬部外品用）'
-    : '化粧品の適正広告ガイドライン';
+  // 商品カテゴリーに応じた評価基準を設定（config/products/<ID>.json の category から決定）
+  const productConfig = loadProductConfig(productId);
+  const productCategory = formatProductCategory(productConfig.category);
+  const applicableGuideline = getApplicableGuideline(productConfig.category);
+  const isQuasiDrug = productConfig.category === '新指定医薬部外品' || productConfig.category === '医薬部外品';
 
   const productCategorySection = `
 ## 🔍 商品カテゴリーと適用基準
 
 **商品ID**: ${productId}
+**商品名**: ${productConfig.name}
 **商品カテゴリー**: ${productCategory}
+**承認された効能効果**: ${productConfig.approvedEffects}
 **適用ガイドライン**: ${applicableGuideline}
 
+${isQuasiDrug && productId !== 'SH' ? `
+### ⚠️ 医薬部外品特有の注意事項
+
+**重要:** ${productId}商品は「${productConfig.category}」であり、化粧品ではありません。
+${productConfig.activeIngredient ? `\n**有効成分:** ${productConfig.activeIngredient}\n` : ''}
+**評価時の注意:**
+1. **化粧品のガイドラインは適用しないでください**
+2. **医薬部外品のガイドラインを優先してください**
+3. 承認された効能効果の範囲を超える表現は違反として扱ってください
+` : ''}
 ${productId === 'SH' ? `
 ### ⚠️ 医薬部外品特有の注意事項
 
@@ -1030,84 +1369,27 @@ JSONのみ返してください。
  * バッチ評価をリトライ付きで実行
  */
 async function evaluateBatchWithRetry(
-  model: { generateContent: (prompt: string) => Promise<{ response: { text: () => string } }> },
+  llm: LLMProvider,
   prompt: string,
   segments: Array<{ id: string; text: string }>,
-  maxRetries: number = 3
+  maxRetries: number = 3,
+  { emit, signal }: BatchEvaluationProgress = {}
 ): Promise<SegmentEvaluation[]> {
   let lastError: Error | undefined;
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
+      signal?.throwIfAborted();
       console.log(`[Evaluate Batch] Attempt ${attempt + 1}/${maxRetries}...`);
+      emit?.({ stage: 'llm_request', segments: segments.length, attempt: attempt + 1, promptChars: prompt.length });
 
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
-
-      console.log('[Evaluate Batch] Response length:', response.length, 'chars');
-
-      // Log first 500 chars of response for debugging
-      console.log('[Evaluate Batch] Response preview:', response.substring(0, 500));
-
-      // Try to parse JSON response with better error handling
-      let parsed: { evaluations: SegmentEvaluation[] };
-      try {
-        parsed = JSON.parse(response);
-      } catch (parseError) {
-        // If JSON parse fails, try to sanitize and parse again
-        console.error('[Evaluate Batch] Initial JSON parse failed, attempting sanitization...');
-        console.error('[Evaluate Batch] Parse error:', parseError instanceof Error ? parseError.message : String(parseError));
-
-        // Log the problematic section around the error position
-        if (parseError instanceof SyntaxError && parseError.message.includes('position')) {
-          const match = parseError.message.match(/position (\d+)/);
-          if (match) {
-            const pos = parseInt(match[1]);
-            const start = Math.max(0, pos - 100);
-            const end = Math.min(response.length, pos + 100);
-            console.error('[Evaluate Batch] Problematic section BEFORE sanitization:', response.substring(start, end));
-          }
-        }
-
-        // Try sanitizing common issues - ULTRA-AGGRESSIVE VERSION
-        let sanitized = response;
-
-        // Remove any BOM or non-printable characters at the start
-        sanitized = sanitized.replace(/^\uFEFF/, '').trim();
-
-        // CRITICAL FIX: Remove ALL invalid escape sequences
-        // The problem: Gemini includes \* from knowledge base, which is invalid JSON
-        //
-        // Strategy: Replace invalid escapes with their literal characters
-        // \* → * (not \\*, which would be 2 characters in final string)
-
-        const beforeSanitization = sanitized;
-
-        // Log the problematic section for debugging
-        console.log('[Evaluate Batch] Response contains', (response.match(/\\\*/g) || []).length, 'instances of \\*');
-
-        // ULTRA-AGGRESSIVE: Remove backslash before ANY character that's not a valid JSON escape
-        // Valid JSON escapes: \" \\ \/ \b \f \n \r \t \uXXXX
-        // Everything else: remove the backslash
-        sanitized = sanitized.replace(/\\(?!["\\/bfnrtu])/g, '');
-
-        console.log('[Evaluate Batch] After sanitization:', (sanitized.match(/\\\*/g) || []).length, 'instances of \\* remaining');
-
-        // Log if any replacements were made
-        if (beforeSanitization !== sanitized) {
-          console.log('[Evaluate Batch] ✓ Sanitization removed', beforeSanitization.length - sanitized.length, 'invalid escape characters');
-          // Show problematic section
-          const pos = 672; // Known error position from logs
-          const start = Math.max(0, pos - 100);
-          const end = Math.min(sanitized.length, pos + 100);
-          console.log('[Evaluate Batch] Section around position 672 (AFTER sanitization):', sanitized.substring(start, end));
-        } else {
-          console.log('[Evaluate Batch] ⚠️  No replacements made - this is unexpected!');
-        }
-
-        console.log('[Evaluate Batch] Attempting to parse sanitized JSON...');
-        parsed = JSON.parse(sanitized);
-      }
+      // JSONモードで生成（コードブロック・不正なエスケープ（\* など）は parseLLMJSON で処理）
+      const parsed = await llm.generateJSON<{ evaluations: SegmentEvaluation[] }>(prompt, {
+        role: 'evaluation',
+        temperature: 0.0,
+        maxOutputTokens: 16384, // Issue #15: 大きなバッチ評価結果を受け取るため
+        signal, // クライアントの切断時に中断
+      });
 
       if (!parsed.evaluations || !Array.isArray(parsed.evaluations)) {
         throw new Error('Invalid response format: missing evaluations array');
@@ -1123,6 +1405,11 @@ async function evaluateBatchWithRetry(
       return parsed.evaluations;
 
     } catch (error: unknown) {
+      // 中断された場合はリトライしない
+      if (signal?.aborted) {
+        throw signal.reason instanceof Error ? signal.reason : new EvaluationCancelledError();
+      }
+
       lastError = error instanceof Error ? error : new Error(String(error));
       console.error(`[Evaluate Batch] ❌ Attempt ${attempt + 1} failed:`, lastError.message);
 
@@ -1153,17 +1440,25 @@ export async function GET() {
         maxSegments: 20,
         requestBody: {
           segments: 'Segment[] (1-20 segments)',
-          productId: "'HA' | 'SH'",
+          productId: 'ProductId (config/products/<ID>.json が存在する商品のみ)',
           apiKey: 'string (Gemini API key)',
-          fullText: 'string (optional, for annotation reference)'
+          fullText: 'string (optional, for annotation reference)',
+          mode: "'llm' | 'offline' (optional, offline = ルールベース検証のみ)"
         },
         response: {
           success: 'boolean',
           data: {
             evaluations: 'SegmentEvaluation[]',
             totalSegments: 'number',
-            processingTimeMs: 'number'
+            processingTimeMs: 'number',
+            evaluationMode: "'llm' | 'offline'",
+            llmSkippedReason: 'string (offline only)'
           }
+        },
+        streaming: {
+          request: 'Accept: text/event-stream',
+          events: 'segmentation | rag | rule_validation | llm_request | segment_evaluated（進捗）, result（{ status, body } = 通常のレスポンス）',
+          cancel: 'クライアントの切断で実行中のLLM呼び出しを中断'
         }
       }
     },
@@ -2,17 +2,30 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { Segment, SegmentEvaluation } from '@/lib/types-v2';
 import { ProductId } from '@/lib/types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { validateKnowledgeExcerpt, detectFabricatedContent, logValidationResult } from '@/lib/knowledge-excerpt-validator';
 import { createEmbeddingService } from '@/lib/embedding-service';
-import { createChromaVectorDB } from '@/lib/vector-db/chroma-db';
+import { createLLMProvider, type LLMProvider } from '@/lib/llm';
+import { createVectorDB } from '@/lib/vector-db/factory';
 import { createRAGSearchService } from '@/lib/rag-search';
+import { getSharedKnowledgeLexicalIndex } from '@/lib/lexical-index';
 import { createNGKeywordValidator } from '@/lib/ng-keyword-validator';
 import { analyzePeriodExpressions, validatePeriodConsistency } from '@/lib/period-expression-analyzer';
 import { validateGuinnessRecord } from '@/lib/guinness-record-validator';
 import { getRAGCache } from '@/lib/cache';
 import { mergeViolations } from '@/lib/utils/deduplication';
+import { attachViolationSpans, toKeywordMatchSpan } from '@/lib/violation-spans';
+import { formatExpiredWaiverNote, splitWaivedViolations } from '@/lib/ng-keywords/waivers';
+import type { KeywordMatch } from '@/lib/ng-keywords/keyword-matcher';
 import { generateCommandStackPrompt } from '@/lib/prompts/evaluation-prompt-command-stack';
+import { productIdSchema } from '@/lib/validation';
+import { applyEvidenceResults, createEvidenceIndex, evidenceDocumentSchema } from '@/lib/evidence-matcher';
+import {
+  assertSupportedProduct,
+  getRequiredKeywords,
+  getSupportedProductIds,
+  loadProductConfig,
+  UnsupportedProductError,
+} from '@/lib/product-config-loader';
 
 // タイムアウト延長: 長文処理対応（Issue #17）
 export const maxDuration = 60;
@@ -36,10 +49,11 @@ const evaluateRequestSchema = z.object({
     importance: z.number().min(0).max(1).optional(),
     relatedSegments: z.array(z.string()).optional(),
   })),
-  productId: z.enum(['HA', 'SH']),
+  productId: productIdSchema, // 対応可否は assertSupportedProduct() で判定
   apiKey: z.string().min(10),
   fullText: z.string().optional(), // Full advertisement text for context
   knowledgeContext: z.string().optional(),
+  evidence: z.array(evidenceDocumentSchema).max(20).optional(), // 提出エビデンス（広告文とは別に照合）
 });
 
 type EvaluateRequest = z.infer<typeof evaluateRequestSchema>;
@@ -53,7 +67,7 @@ type EvaluateRequest = z.infer<typeof evaluateRequestSchema>;
  * and Misleading Representations), and internal company standards.
  *
  * @param segments - Array of segments to evaluate
- * @param productId - Product ID (HA or SH)
+ * @param productId - Product ID (any product with config/products/<ID>.json)
  * @param apiKey - Gemini API key
  * @param knowledgeContext - Optional pre-loaded knowledge context
  *
@@ -68,6 +82,7 @@ export async function POST(request: NextRequest) {
     console.log('[Evaluate API] Received request with', body.segments?.length || 0, 'segments');
 
     const validatedInput: EvaluateRequest = evaluateRequestSchema.parse(body);
+    const productId = assertSupportedProduct(validatedInput.productId);
 
     // Validate API key format
     if (!validatedInput.apiKey || validatedInput.apiKey.length < 10) {
@@ -77,70 +92,71 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Load knowledge context if not provided
-    let knowledgeContext = validatedInput.knowledgeContext;
-    if (!knowledgeContext) {
-      // セマンティック検索で関連ナレッジを取得
-      const combinedSegmentText = validatedInput.segments.map(s => s.text).join('\n');
+    // LLMプロバイダー（config/llm.json の provider。Geminiはリクエストのキーを使用）
+    const llm = createLLMProvider({ apiKey: validatedInput.apiKey });
 
-      // Check RAG cache first (Phase 2 optimization)
-      const cachedKnowledge = ragCache.get(combinedSegmentText, validatedInput.productId);
+    // Load knowledge context if not provided
+    // 指定がない場合はセグメントごとにRAG検索したナレッジを使用
+    const knowledgeContexts = new Map<string, string>();
+    const providedKnowledgeContext = validatedInput.knowledgeContext;
+    if (!providedKnowledgeContext) {
+      // Check RAG cache first (Phase 2 optimization) - セグメントテキスト単位
+      const uncachedSegments = validatedInput.segments.filter(segment => {
+        const cachedKnowledge = ragCache.get(segment.text, productId);
+        if (cachedKnowledge) {
+          knowledgeContexts.set(segment.id, cachedKnowledge);
+          return false;
+        }
+        return true;
+      });
 
-      if (cachedKnowledge) {
-        console.log('[Evaluate API] RAG CACHE HIT! Using cached knowledge context');
-        knowledgeContext = cachedKnowledge;
+      if (uncachedSegments.length === 0) {
+        console.log('[Evaluate API] RAG CACHE HIT! Using cached knowledge context for all segments');
       } else {
-        console.log('[Evaluate API] RAG CACHE MISS - Performing RAG search...');
+        console.log(`[Evaluate API] RAG CACHE MISS for ${uncachedSegments.length}/${validatedInput.segments.length} segments - Performing RAG search...`);
         console.log('[Evaluate API] RAG Search: Initializing services...');
 
-        const embeddingService = createEmbeddingService(validatedInput.apiKey);
-        const vectorDB = createChromaVectorDB({
-          url: process.env.CHROMA_URL || 'http://localhost:8000',
-          apiKey: validatedInput.apiKey, // Auto-load knowledge with API key
+        const embeddingService = createEmbeddingService(llm);
+        const vectorDB = createVectorDB({
+          chroma: { apiKey: validatedInput.apiKey }, // Auto-load knowledge with API key
         });
 
         await vectorDB.connect();
-        const ragSearchService = createRAGSearchService(embeddingService, vectorDB);
-
-        console.log('[Evaluate API] RAG Search: Searching for', validatedInput.segments.length, 'segments...');
+        const ragSearchService = createRAGSearchService(embeddingService, vectorDB, await getSharedKnowledgeLexicalIndex());
 
-        const ragResult = await ragSearchService.search(combinedSegmentText, {
-          topK: 20,
-          minSimilarity: 0.3, // Lowered from 0.5 to 0.3 for better recall with cosine distance
-          productId: validatedInput.productId,
-          debug: true,
-        });
+        console.log('[Evaluate API] RAG Search: Searching for', uncachedSegments.length, 'segments...');
 
-        knowledgeContext = ragResult.relevantKnowledge;
+        const ragResult = await ragSearchService.searchPerSegment(
+          uncachedSegments.map(segment => ({ id: segment.id, text: segment.text })),
+          {
+            topK: 20,
+            minSimilarity: 0.3, // Lowered from 0.5 to 0.3 for better recall with cosine distance
+            productId,
+            debug: true,
+          }
+        );
 
         console.log('[Evaluate API] RAG Search: Found', ragResult.searchResults.length, 'relevant chunks');
-        console.log('[Evaluate API] RAG Search: Knowledge context size:', knowledgeContext.length, 'chars');
 
-        // Cache the result (30 minute TTL)
-        ragCache.set(combinedSegmentText, validatedInput.productId, knowledgeContext, ragResult.searchResults.length, 1800);
+        uncachedSegments.forEach((segment, index) => {
+          const segmentKnowledge = ragResult.segments[index];
+          knowledgeContexts.set(segment.id, segmentKnowledge.relevantKnowledge);
+          console.log(`[Evaluate API] RAG Search: Segment ${segment.id} uses ${segmentKnowledge.chunkIds.length} chunks (${segmentKnowledge.relevantKnowledge.length} chars)`);
+
+          // Cache the result (30 minute TTL)
+          ragCache.set(segment.text, productId, segmentKnowledge.relevantKnowledge, segmentKnowledge.chunkIds.length, 1800);
+        });
         console.log('[Evaluate API] RAG result cached for future requests');
 
         // Vector DB接続を閉じる
         await vectorDB.close();
       }
     } else {
-      console.log('[Evaluate API] Using provided knowledge context:', knowledgeContext.length, 'chars');
+      console.log('[Evaluate API] Using provided knowledge context:', providedKnowledgeContext.length, 'chars');
     }
 
-    // Initialize Gemini client with JSON mode
-    // Changed to gemini-2.0-flash-lite per user request
-    // Note: Previous gemini-2.5-flash-lite had false negatives (注入, クマ not detected)
-    const genAI = new GoogleGenerativeAI(validatedInput.apiKey);
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash-lite',
-      generationConfig: {
-        responseMimeType: 'application/json',
-        temperature: 0.0, // Zero temperature for maximum consistency and verbatim quoting
-      },
-    });
-
     // Evaluate segments with controlled concurrency (max 3 parallel)
-    const evaluations: SegmentEvaluation[] = [];
+    let evaluations: SegmentEvaluation[] = [];
     const batchSize = 1; // Sequential processing to avoid rate limits
 
     for (let i = 0; i < validatedInput.segments.length; i += batchSize) {
@@ -150,9 +166,9 @@ export async function POST(request: NextRequest) {
       const batchPromises = batch.map(segment =>
         evaluateSegmentWithRetry(
           segment as Segment,
-          validatedInput.productId,
-          knowledgeContext!,
-          model,
+          productId,
+          providedKnowledgeContext || knowledgeContexts.get(segment.id)!,
+          llm,
           validatedInput.fullText
         )
       );
@@ -200,9 +216,18 @@ export async function POST(request: NextRequest) {
     console.log(`[Evaluate API] Completed ${evaluations.length} evaluations in ${processingTime}ms`);
 
     // Apply deduplication with priority-based merging (Issue #27 fix + duplicate type fix)
+    // 承認済み例外（config/waivers/<productId>.json）に一致する違反は waivedViolations に分離
     evaluations.forEach((evaluation, _index) => {
       const beforeCount = evaluation.violations.length;
-      evaluation.violations = mergeViolations(evaluation.violations);
+      const segmentText = validatedInput.segments.find(s => s.id === evaluation.segmentId)?.text || '';
+      const { violations, waivedViolations } = splitWaivedViolations(
+        mergeViolations(evaluation.violations, { productId, segmentText })
+      );
+      evaluation.violations = violations;
+      if (waivedViolations.length > 0) {
+        evaluation.waivedViolations = mergeViolations([...(evaluation.waivedViolations || []), ...waivedViolations]);
+        console.log(`[Evaluate API] ${waivedViolations.length} violations waived for segment ${evaluation.segmentId} (承認済み例外)`);
+      }
       const afterCount = evaluation.violations.length;
 
       if (beforeCount > afterCount) {
@@ -216,6 +241,15 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // 提出エビデンス: supportingEvidence と不実証広告（景表法第7条第2項）の違反を反映
+    if (validatedInput.evidence) {
+      const evidenceResults = createEvidenceIndex(validatedInput.evidence).matchSegments(validatedInput.segments);
+      evaluations = applyEvidenceResults(evaluations, evidenceResults);
+    }
+
+    // 違反箇所: NGキーワード以外の違反（Gemini・エビデンス）は引用された表現の位置を設定
+    evaluations = attachViolationSpans(evaluations, validatedInput.segments);
+
     // Get cache performance statistics
     const ragCacheStats = ragCache.getStats();
     console.log('[Evaluate API] Cache Performance:');
@@ -232,7 +266,7 @@ export async function POST(request: NextRequest) {
           compliantSegments: evaluations.filter(e => e.compliance).length,
           violationCount: evaluations.reduce((sum, e) => sum + e.violations.length, 0),
         },
-        productId: validatedInput.productId,
+        productId,
         processingTimeMs: processingTime,
         cachePerformance: {
           ragCache: {
@@ -257,6 +291,16 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Unsupported product (no config/products/<ID>.json)
+    if (error instanceof UnsupportedProductError) {
+      return NextResponse.json({
+        success: false,
+        error: `未対応の商品です: ${error.productId}`,
+        details: error.message,
+        supportedProducts: getSupportedProductIds(),
+      }, { status: 400 });
+    }
+
     // Gemini API errors
     if (error instanceof Error) {
       if (error.message.includes('API key') || error.message.includes('API_KEY')) {
@@ -358,10 +402,8 @@ function analyzeAnnotations(segmentText: string, productId: ProductId): Annotati
   // Load product-specific required keywords dynamically FIRST
   let productRequiredKeywords: string[] = [];
   try {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const { loadProductConfig } = require('../../../../lib/product-config-loader');
     const config = loadProductConfig(productId);
-    productRequiredKeywords = config.segmentationKeywords.required;
+    productRequiredKeywords = getRequiredKeywords(config);
     console.log(`[analyzeAnnotations] Loaded ${productRequiredKeywords.length} product-specific keywords for ${productId}:`, productRequiredKeywords);
   } catch (error) {
     console.warn(`[analyzeAnnotations] Failed to load product config for ${productId}:`, error);
@@ -442,7 +484,7 @@ function analyzeAnnotations(segmentText: string, productId: ProductId): Annotati
  * @param segment - Segment to evaluate
  * @param productId - Product ID
  * @param knowledgeContext - Knowledge base context
- * @param model - Gemini model instance
+ * @param llm - LLM provider (segmentEvaluation model)
  * @param fullText - Full advertisement text for context (optional)
  * @returns Segment evaluation with violations
  */
@@ -450,7 +492,7 @@ async function evaluateSegmentWithRetry(
   segment: Segment,
   productId: ProductId,
   knowledgeContext: string,
-  model: { generateContent: (prompt: string) => Promise<{ response: { text: () => string } }> },
+  llm: LLMProvider,
   fullText?: string,
   maxRetries: number = 3
 ): Promise<SegmentEvaluation> {
@@ -467,7 +509,7 @@ async function evaluateSegmentWithRetry(
 
   // NG Keyword Validation
   const ngKeywordValidator = createNGKeywordValidator();
-  const ngValidationResult = ngKeywordValidator.validate(segment.text, fullText);
+  const ngValidationResult = ngKeywordValidator.validate(segment.text, fullText, productId);
 
   console.log(`[Evaluate] NG Keyword validation for ${segment.id}:`);
   console.log(`  Has violations: ${ngValidationResult.hasViolations}`);
@@ -517,12 +559,11 @@ ${fullText}
   let _productAnnotationRulesSection = '';
 
   try {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const { loadProductConfig } = require('../../../../lib/product-config-loader');
     const config = loadProductConfig(productId);
+    const annotationRules = config.annotationRules || {};
 
     // Detect which product-specific keywords are actually in this segment
-    for (const keyword of config.segmentationKeywords.required) {
+    for (const keyword of getRequiredKeywords(config)) {
       if (segment.text.includes(keyword)) {
         detectedProductKeywords.push(keyword);
       }
@@ -532,9 +573,9 @@ ${fullText}
       console.log(`[Evaluate] 🎯 Detected product-specific keywords in ${segment.id}: ${detectedProductKeywords.join(', ')}`);
 
       const detectedRulesList = detectedProductKeywords
-        .filter(keyword => config.annotationRules[keyword])
+        .filter(keyword => annotationRules[keyword])
         .map(keyword => {
-          const rule = config.annotationRules[keyword];
+          const rule = annotationRules[keyword];
           console.log(`[Evaluate] 📌 Required annotation for "${keyword}": ${rule.template}`);
           return `- 「${keyword}」→ 必須注釈：「${rule.template}」（重大度：${rule.severity === 'high' ? '高' : '中'}）`;
         })
@@ -2036,8 +2077,11 @@ OK例の形式: 「今申込むと」「今は」「このページから申込
         console.log(`========== END PROMPT ==========\n`);
       }
 
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
+      const responseText = await llm.generateText(prompt, {
+        role: 'segmentEvaluation',
+        json: true,
+        temperature: 0.0, // Zero temperature for maximum consistency and verbatim quoting
+      });
 
       // Debug: Log the raw response
       console.log(`\n========== GEMINI RESPONSE for ${segment.id} (attempt ${attempt + 1}) ==========`);
@@ -2194,26 +2238,47 @@ OK例の形式: 「今申込むと」「今は」「このページから申込
       }
 
       // Add NG keyword validation violations (直接追加してGemini AIの重複を防ぐ)
+      const toNGViolation = (match: KeywordMatch) => {
+        const violationType = match.violationType || '社内基準違反';
+        const description = `「${match.keyword}」${match.description ? ': ' + match.description : ''}`;
+        const span = toKeywordMatchSpan(match, segment);
+
+        return {
+          type: violationType as '社内基準違反' | '薬機法違反' | '景表法違反' | '特商法違反' | 'その他',
+          severity: match.severity || 'high',
+          description: description,
+          referenceKnowledge: match.referenceKnowledge ?
+            { file: match.referenceKnowledge, excerpt: '' } :
+            { file: 'knowledge/common/ng-keywords.txt', excerpt: '' },
+          correctionSuggestion: `「${match.keyword}」は使用できません。表現を修正してください。`,
+          confidence: 1.0,
+          waiver: match.waiver,
+          notes: match.waiver?.status === 'expired' ? formatExpiredWaiverNote(match.waiver) : undefined,
+          ...(span && { spans: [span] }),
+          ...(match.matchContext && { matchContext: match.matchContext }),
+        };
+      };
+
       if (ngValidationResult.hasViolations) {
         console.log('[Evaluate] Adding NG keyword validation violations:', ngValidationResult.matches.length);
         ngValidationResult.matches.forEach(match => {
-          const violationType = match.violationType || '社内基準違反';
-          const description = `「${match.keyword}」${match.description ? ': ' + match.description : ''}`;
-
-          evaluation.violations.push({
-            type: violationType as '社内基準違反' | '薬機法違反' | '景表法違反' | '特商法違反' | 'その他',
-            severity: match.severity || 'high',
-            description: description,
-            referenceKnowledge: match.referenceKnowledge ?
-              { file: match.referenceKnowledge, excerpt: '' } :
-              { file: 'knowledge/common/ng-keywords.txt', excerpt: '' },
-            correctionSuggestion: `「${match.keyword}」は使用できません。表現を修正してください。`,
-            confidence: 1.0,
-          });
+          evaluation.violations.push(toNGViolation(match));
         });
         evaluation.compliance = false;
       }
 
+      // 承認済み例外（違反としてカウントせず、レポートに「承認済み例外」として表示）
+      if (ngValidationResult.waivedMatches.length > 0) {
+        console.log('[Evaluate] Adding waived NG keyword matches:', ngValidationResult.waivedMatches.length);
+        evaluation.waivedViolations = ngValidationResult.waivedMatches.map(toNGViolation);
+      }
+
+      // 否定・注意書き・引用の文脈で除外したNGキーワード（違反としてカウントせず、レポートに理由を表示）
+      if (ngValidationResult.suppressedMatches.length > 0) {
+        console.log('[Evaluate] Adding context-suppressed NG keyword matches:', ngValidationResult.suppressedMatches.length);
+        evaluation.suppressedViolations = ngValidationResult.suppressedMatches.map(toNGViolation);
+      }
+
       // Add metadata
       evaluation.evaluatedAt = new Date().toISOString();
       evaluation.processingTimeMs = Date.now() - startTime;
@@ -2444,7 +2509,7 @@ export async function GET() {
         description: 'セグメントの法令遵守評価',
         requestBody: {
           segments: 'Segment[] (required)',
-          productId: "'HA' | 'SH' (required)",
+          productId: 'ProductId (required, config/products/<ID>.json が存在する商品のみ)',
           apiKey: 'string (required, Gemini API key)',
           knowledgeContext: 'string (optional, pre-loaded knowledge)',
         },
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidJobId } from '@/lib/jobs/file-job-store';
+import { getJobRunner } from '@/lib/jobs/runner';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST /api/v2/jobs/:id/cancel
+ * ジョブキャンセルAPI
+ *
+ * 実行待ち・実行中のジョブをキャンセルします（実行中のLLM呼び出しも中断）。
+ * 完了済みのジョブは 409 を返します。
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isValidJobId(params.id)) {
+      return NextResponse.json({
+        success: false,
+        error: '無効なジョブIDです',
+        details: `Invalid job ID: ${params.id}`,
+      }, { status: 400 });
+    }
+
+    const runner = await getJobRunner();
+    const job = await runner.cancel(params.id);
+
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'ジョブが見つかりません',
+        details: `Job ${params.id} not found`,
+      }, { status: 404 });
+    }
+
+    if (job.status !== 'cancelled') {
+      return NextResponse.json({
+        success: false,
+        error: '終了したジョブはキャンセルできません',
+        details: `Job ${params.id} is ${job.status}`,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: job.id, status: job.status },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Jobs API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'ジョブのキャンセル中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
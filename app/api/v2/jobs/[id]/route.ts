@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidJobId } from '@/lib/jobs/file-job-store';
+import { getJobProgress } from '@/lib/jobs/job-runner';
+import { getJobRunner } from '@/lib/jobs/runner';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/v2/jobs/:id
+ * ジョブ状態取得API
+ *
+ * 状態・進捗と、完了したバッチまでの評価結果（途中結果）を返します。
+ * 完了時は reportId（GET /api/v2/reports/:id）を含みます。
+ *
+ * @returns ジョブ（存在しない場合は 404）
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isValidJobId(params.id)) {
+      return NextResponse.json({
+        success: false,
+        error: '無効なジョブIDです',
+        details: `Invalid job ID: ${params.id}`,
+      }, { status: 400 });
+    }
+
+    // Runner の Job Store から取得（初期化時に中断したジョブを再開）
+    const runner = await getJobRunner();
+    const job = await runner.getJob(params.id);
+
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'ジョブが見つかりません',
+        details: `Job ${params.id} not found`,
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: job.id,
+        status: job.status,
+        step: job.step,
+        productId: job.input.productId,
+        progress: getJobProgress(job),
+        ...(job.activity && { activity: job.activity }),
+        evaluations: job.evaluations,
+        ...(job.reportId && { reportId: job.reportId }),
+        ...(job.error && { error: job.error }),
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        ...(job.finishedAt && { finishedAt: job.finishedAt }),
+      },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Jobs API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'ジョブの取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
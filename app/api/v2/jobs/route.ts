@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobCreateSchema, jobListQuerySchema } from '@/lib/validation';
+import { getJobProgress } from '@/lib/jobs/job-runner';
+import {
+  assertSupportedProduct,
+  getSupportedProductIds,
+  UnsupportedProductError,
+} from '@/lib/product-config-loader';
+import { getJobRunner } from '@/lib/jobs/runner';
+
+// ジョブの登録のみ（評価はバックグラウンドで実行）
+export const maxDuration = 10;
+
+/**
+ * POST /api/v2/jobs
+ * 非同期チェックジョブ登録API
+ *
+ * maxDuration を超える長文の広告でも、ジョブIDを即座に返してバックグラウンドで
+ * セグメント分割 → バッチ評価 → レポート生成を実行します。
+ * 進捗と途中結果は GET /api/v2/jobs/:id で取得します。
+ *
+ * @param text - 広告文全体
+ * @param productId - 商品ID
+ * @param evidence - 提出エビデンス（任意）
+ * @param mode - 'offline' の場合はルールベース検証のみ（任意）
+ *
+ * @returns ジョブID（202 Accepted）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedInput = jobCreateSchema.parse(body);
+    const productId = assertSupportedProduct(validatedInput.productId);
+
+    const runner = await getJobRunner();
+    const job = await runner.enqueue({ ...validatedInput, productId });
+
+    console.log(`[Jobs API] Job queued: ${job.id}`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: job.id,
+        status: job.status,
+        createdAt: job.createdAt,
+      },
+    }, { status: 202, headers: { Location: `/api/v2/jobs/${job.id}` } });
+
+  } catch (error: unknown) {
+    console.error('[Jobs API] Error:', error);
+
+    // Zodバリデーションエラーの処理
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
+      const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
+      return NextResponse.json({
+        success: false,
+        error: 'バリデーションエラー',
+        details: zodError.errors
+      }, { status: 400 });
+    }
+
+    // 未対応商品エラー（config/products/<ID>.json が存在しない）
+    if (error instanceof UnsupportedProductError) {
+      return NextResponse.json({
+        success: false,
+        error: `未対応の商品です: ${error.productId}`,
+        details: error.message,
+        supportedProducts: getSupportedProductIds()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'ジョブの登録中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/v2/jobs
+ * ジョブ一覧API（作成日時の新しい順、途中結果は含まない）
+ *
+ * @param status - queued | running | completed | failed | cancelled（任意）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = jobListQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+
+    // Runner の Job Store から取得（初期化時に中断したジョブを再開）
+    const runner = await getJobRunner();
+    const jobs = await runner.listJobs(query.status && [query.status]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobs: jobs.map(job => ({
+          id: job.id,
+          status: job.status,
+          step: job.step,
+          productId: job.input.productId,
+          progress: getJobProgress(job),
+          ...(job.reportId && { reportId: job.reportId }),
+          ...(job.error && { error: job.error }),
+          createdAt: job.createdAt,
+          updatedAt: job.updatedAt,
+        })),
+        total: jobs.length,
+      },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Jobs API] Error:', error);
+
+    // Zodバリデーションエラーの処理
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
+      const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
+      return NextResponse.json({
+        success: false,
+        error: 'バリデーションエラー',
+        details: zodError.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'ジョブ一覧の取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
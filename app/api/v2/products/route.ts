@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { getSupportedProductIds, loadProductConfig } from '@/lib/product-config-loader';
+import { getProductKnowledgeMapping } from '@/lib/knowledge-mapping';
+
+/**
+ * GET /api/v2/products
+ * 対応商品一覧API
+ *
+ * config/products/<ID>.json が存在する商品の一覧を返します。
+ * フロントエンドの商品選択（ProductSelectorV2）で使用します。
+ *
+ * @returns 対応商品の設定サマリー配列
+ */
+export async function GET() {
+  try {
+    const products = getSupportedProductIds().map(productId => {
+      const config = loadProductConfig(productId);
+      const mapping = getProductKnowledgeMapping(productId);
+
+      return {
+        id: config.id,
+        name: config.name,
+        category: config.category,
+        approvedEffects: config.approvedEffects,
+        activeIngredient: config.activeIngredient,
+        // 設定ファイルに knowledgeFiles がなければ knowledge-mapping.csv から取得
+        knowledgeFiles: config.knowledgeFiles || {
+          common: [],
+          specific: {
+            yakujihou: mapping.yakujihoFiles,
+            keihyouhou: mapping.keihinhoFiles,
+            other: mapping.otherFiles,
+          },
+        },
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        products,
+        totalProducts: products.length,
+      },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Products API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: '商品一覧の取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
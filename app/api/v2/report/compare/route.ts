@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reportCompareRequestSchema } from '@/lib/validation';
+import { getReportStore } from '@/lib/report-store/factory';
+import { isValidReportId } from '@/lib/report-store/file-report-store';
+import { ComparableReport, compareReports, formatReportComparisonMarkdown } from '@/lib/report-compare';
+
+/**
+ * POST /api/v2/report/compare
+ * レポート比較API
+ *
+ * 2つのレポートのセグメントを本文の類似度で対応付け、違反の追加・解消・変更（重要度の変化）を返します。
+ * ナレッジ更新前後の再チェックや、別商品への広告文の流用時の差分確認に使用します。
+ *
+ * @param base - 比較元（{ id } で保存済みレポート、または { report } でレポート本体）
+ * @param target - 比較先（同上）
+ * @param minSimilarity - セグメントを対応付ける最小類似度（0-1、default: 0.5）
+ *
+ * @returns 比較結果（JSON）と Markdown セクション
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedInput = reportCompareRequestSchema.parse(body);
+
+    const base = await resolveReport(validatedInput.base);
+    if ('error' in base) {
+      return base.error;
+    }
+    const target = await resolveReport(validatedInput.target);
+    if ('error' in target) {
+      return target.error;
+    }
+
+    const comparison = compareReports(base.report, target.report, {
+      minSimilarity: validatedInput.minSimilarity,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...comparison,
+        markdown: formatReportComparisonMarkdown(comparison, base.report, target.report),
+      },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Report Compare API] Error:', error);
+
+    // Zodバリデーションエラーの処理
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
+      const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
+      return NextResponse.json({
+        success: false,
+        error: 'バリデーションエラー',
+        details: zodError.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'レポートの比較中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 保存済みレポートの読み込み（レポート本体が渡された場合はそのまま使用）
+ */
+async function resolveReport(
+  source: { id: string } | { report: ComparableReport }
+): Promise<{ report: ComparableReport } | { error: NextResponse }> {
+  if ('report' in source) {
+    return { report: source.report };
+  }
+
+  if (!isValidReportId(source.id)) {
+    return {
+      error: NextResponse.json({
+        success: false,
+        error: '無効なレポートIDです',
+        details: `Invalid report ID: ${source.id}`,
+      }, { status: 400 }),
+    };
+  }
+
+  const store = await getReportStore();
+  const report = await store.get(source.id);
+  if (!report) {
+    return {
+      error: NextResponse.json({
+        success: false,
+        error: 'レポートが見つかりません',
+        details: `Report not found (deleted or expired): ${source.id}`,
+      }, { status: 404 }),
+    };
+  }
+
+  return { report };
+}
@@ -1,20 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { reportRequestSchema } from '@/lib/validation';
+import { Segment, ReportDocumentVersion } from '@/lib/types-v2';
+import { buildAnalysisReport } from '@/lib/report-generator';
+import { getReportStore } from '@/lib/report-store/factory';
+import { getAdDocumentStore } from '@/lib/ad-documents/factory';
 import {
-  TextStructure,
-  Segment,
-  SegmentEvaluation,
-  ViolationType,
-  ViolationSeverity,
-  AnalysisReport,
-} from '@/lib/types-v2';
-import { UserInput } from '@/lib/types';
+  acceptsEventStream,
+  createEvaluationEventStream,
+  type EvaluationProgressEmitter,
+} from '@/lib/evaluation-progress';
 
 /**
  * POST /api/v2/report
  * 包括的なレポート生成API
  *
  * 全てのセグメント評価結果を集約し、統計情報とMarkdownレポートを生成します。
+ * 生成したレポートはReport Storeに保存され、GET /api/v2/reports/:id で再取得できます。
+ * document（広告文書の版）を指定すると、前の版で解消・新規・継続の違反をレポートに含めます。
+ * `Accept: text/event-stream` を指定すると、レポートの保存後に進捗イベント report_ready を送信し、
+ * 最後に通常のレスポンスと同じ内容を event: result で返します。
  *
  * @param input - ユーザー入力データ
  * @param structure - テキスト構造分析結果
@@ -25,6 +29,17 @@ import { UserInput } from '@/lib/types';
  * @returns 包括的な分析レポート
  */
 export async function POST(request: NextRequest) {
+  if (acceptsEventStream(request)) {
+    return createEvaluationEventStream((emit) => generateReport(request, emit), request.signal);
+  }
+
+  return generateReport(request);
+}
+
+/**
+ * レポートの生成（進捗ストリーム使用時は保存後に report_ready を emit）
+ */
+async function generateReport(request: NextRequest, emit?: EvaluationProgressEmitter) {
   const startTime = Date.now();
 
   try {
@@ -52,49 +67,55 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Step 4: 統計情報の集約
-    console.log('[Report API] Aggregating statistics...');
-    const statistics = aggregateStatistics(
-      validatedInput.segments,
-      validatedInput.evaluations
-    );
-
-    // Step 5: 総合評価ステータスの決定
-    const overallStatus = determineOverallStatus(statistics);
+    // Step 3: 広告文書の版（改訂版の場合は前の版との比較）
+    let documentVersion: ReportDocumentVersion | undefined;
+    if (validatedInput.document) {
+      const documentStore = await getAdDocumentStore();
+      const adDocument = await documentStore.get(validatedInput.document.id);
+      const version = adDocument?.versions.find(v => v.version === validatedInput.document!.version);
+
+      if (!version) {
+        return NextResponse.json({
+          success: false,
+          error: '広告文書の版が見つかりません',
+          details: `Version ${validatedInput.document.version} of document ${validatedInput.document.id} not found`
+        }, { status: 400 });
+      }
 
-    // Step 6: Markdownレポートの生成
-    console.log('[Report API] Generating markdown report...');
-    const markdown = generateMarkdownReport(
-      validatedInput.input,
-      validatedInput.structure,
-      validatedInput.segments,
-      validatedInput.evaluations,
-      statistics,
-      overallStatus
-    );
+      documentVersion = {
+        documentId: validatedInput.document.id,
+        version: version.version,
+        ...(version.baseVersion !== undefined && { baseVersion: version.baseVersion }),
+        diffSummary: version.diff.summary,
+        ...(version.comparison && { comparison: version.comparison }),
+      };
+    }
 
-    // Step 7: 最終レポートの構築
-    const report: AnalysisReport = {
-      id: generateReportId(),
+    // Step 4: 統計情報の集約・総合評価・Markdownレポートの生成
+    console.log('[Report API] Generating report...');
+    const report = buildAnalysisReport({
       input: validatedInput.input,
       structure: validatedInput.structure,
       segments: validatedInput.segments as Segment[],
       evaluations: validatedInput.evaluations,
-      summary: {
-        totalSegments: statistics.totalSegments,
-        compliantSegments: statistics.compliantSegments,
-        totalViolations: statistics.totalViolations,
-        violationsByType: statistics.violationsByType,
-        violationsBySeverity: statistics.violationsBySeverity,
-      },
-      markdown,
-      generatedAt: new Date().toISOString(),
-      totalProcessingTimeMs: Date.now() - startTime,
-    };
+      documentVersion,
+      startTime,
+    });
 
     console.log('[Report API] Report generated successfully');
 
-    // Step 8: レスポンスの返却
+    // Step 5: レポートの保存（保存に失敗してもレポートは返却する）
+    try {
+      const store = await getReportStore();
+      await store.save(report);
+      console.log(`[Report API] Report saved: ${report.id}`);
+    } catch (storeError) {
+      console.error('[Report API] Failed to save report:', storeError);
+    }
+
+    emit?.({ stage: 'report_ready', reportId: report.id, totalViolations: report.summary.totalViolations });
+
+    // Step 6: レスポンスの返却
     return NextResponse.json({
       success: true,
       data: report
@@ -142,7 +163,7 @@ export async function GET() {
     endpoints: {
       POST: {
         path: '/api/v2/report',
-        description: '評価結果から包括的なレポートを生成',
+        description: '評価結果から包括的なレポートを生成（保存され GET /api/v2/reports/:id で再取得可能）',
         requestBody: {
           input: 'UserInput (required)',
           structure: 'TextStructure (required)',
@@ -163,12 +184,19 @@ export async function GET() {
               compliantSegments: 'number',
               totalViolations: 'number',
               violationsByType: 'Record<ViolationType, number>',
-              violationsBySeverity: 'Record<ViolationSeverity, number>'
+              violationsBySeverity: 'Record<ViolationSeverity, number>',
+              waivedViolations: 'number (optional, 承認済み例外の件数)',
+              suppressedViolations: 'number (optional, 否定・注意書き・引用の文脈で除外したNGキーワードの件数)'
             },
+            evaluationMode: "'llm' | 'offline' | 'mixed' (offline/mixed = LLMレビュー未実施のセグメントあり)",
             markdown: 'string (full report)',
             generatedAt: 'string (ISO timestamp)',
             totalProcessingTimeMs: 'number'
           }
+        },
+        streaming: {
+          request: 'Accept: text/event-stream',
+          events: 'report_ready（{ reportId, totalViolations }）, result（{ status, body } = 通常のレスポンス）'
         }
       }
     },
@@ -225,215 +253,3 @@ export async function GET() {
     }
   });
 }
-
-/**
- * Helper: 統計情報を集約
- */
-function aggregateStatistics(
-  segments: Segment[],
-  evaluations: SegmentEvaluation[]
-): {
-  totalSegments: number;
-  compliantSegments: number;
-  nonCompliantSegments: number;
-  totalViolations: number;
-  violationsByType: Record<ViolationType, number>;
-  violationsBySeverity: Record<ViolationSeverity, number>;
-} {
-  const compliantSegments = evaluations.filter(e => e.compliance).length;
-  const allViolations = evaluations.flatMap(e => e.violations);
-
-  const violationsByType: Record<ViolationType, number> = {
-    '社内基準違反': 0,
-    '薬機法違反': 0,
-    '景表法違反': 0,
-    '特商法違反': 0,
-    'その他': 0,
-  };
-
-  const violationsBySeverity: Record<ViolationSeverity, number> = {
-    critical: 0,
-    high: 0,
-    medium: 0,
-    low: 0,
-  };
-
-  allViolations.forEach(violation => {
-    violationsByType[violation.type]++;
-    violationsBySeverity[violation.severity]++;
-  });
-
-  return {
-    totalSegments: segments.length,
-    compliantSegments,
-    nonCompliantSegments: segments.length - compliantSegments,
-    totalViolations: allViolations.length,
-    violationsByType,
-    violationsBySeverity,
-  };
-}
-
-/**
- * Helper: 総合評価ステータスを決定（OK/要修正の2段階）
- */
-function determineOverallStatus(statistics: ReturnType<typeof aggregateStatistics>): string {
-  if (statistics.totalViolations === 0) {
-    return 'OK';
-  } else {
-    return '要修正';
-  }
-}
-
-/**
- * Helper: Markdownレポートを生成
- */
-function generateMarkdownReport(
-  input: UserInput,
-  structure: TextStructure,
-  segments: Segment[],
-  evaluations: SegmentEvaluation[],
-  statistics: ReturnType<typeof aggregateStatistics>,
-  overallStatus: string
-): string {
-  const statusEmoji = overallStatus === 'OK' ? '✅' : '❌';
-  const timestamp = new Date().toLocaleString('ja-JP', {
-    timeZone: 'Asia/Tokyo',
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-  });
-
-  let markdown = `# 広告文リーガルチェック結果
-
-## 📊 総合評価
-
-- **判定**: ${statusEmoji} **${overallStatus}**
-- **商品ID**: ${input.product_id}
-- **検査日時**: ${timestamp}
-- **広告文長**: ${input.full_text.length}文字
-
----
-
-## 📈 統計情報
-
-### セグメント分析
-- **総セグメント数**: ${statistics.totalSegments}件
-- **適合セグメント数**: ${statistics.compliantSegments}件
-- **違反セグメント数**: ${statistics.nonCompliantSegments}件
-
-### 違反タイプ別
-- **社内基準違反**: ${statistics.violationsByType['社内基準違反']}件
-- **薬機法違反**: ${statistics.violationsByType['薬機法違反']}件
-- **景表法違反**: ${statistics.violationsByType['景表法違反']}件
-- **特商法違反**: ${statistics.violationsByType['特商法違反']}件
-- **その他**: ${statistics.violationsByType['その他']}件
-
----
-
-## 📝 要修正セグメント
-
-`;
-
-  // 要修正セグメントのみを表示
-  let violationCount = 0;
-  evaluations.forEach((evaluation, index) => {
-    const segment = segments.find(s => s.id === evaluation.segmentId);
-    if (!segment) return;
-
-    // 違反がないセグメントはスキップ
-    if (evaluation.violations.length === 0) return;
-
-    violationCount++;
-    const segmentNumber = index + 1;
-
-    markdown += `### セグメント ${segmentNumber}: "${segment.text}"
-
-**判定**: ❌ 要修正
-
-#### 違反内容
-
-`;
-
-    evaluation.violations.forEach((violation, vIndex) => {
-      markdown += `##### ${vIndex + 1}. ${violation.type}
-
-**説明**:
-${violation.description}
-
-📖 **参考ナレッジ**: ${violation.referenceKnowledge.file}
-${violation.referenceKnowledge.section ? `- **条項**: ${violation.referenceKnowledge.section}` : ''}
-> ${violation.referenceKnowledge.excerpt || '引用元が見つかりませんでした'}
-
-✏️ **修正案**:
-\`\`\`
-${violation.correctionSuggestion}
-\`\`\`
-
-${violation.notes ? `**備考**: ${violation.notes}` : ''}
-
-`;
-    });
-
-    // エビデンス情報
-    if (evaluation.supportingEvidence && evaluation.supportingEvidence.length > 0) {
-      markdown += `#### サポートエビデンス\n\n`;
-      evaluation.supportingEvidence.forEach((evidence, eIndex) => {
-        markdown += `${eIndex + 1}. ${evidence}\n`;
-      });
-      markdown += `\n`;
-    }
-
-    markdown += `---\n\n`;
-  });
-
-  // 違反がない場合のメッセージ
-  if (violationCount === 0) {
-    markdown += `✅ 全てのセグメントが基準を満たしています。\n\n---\n\n`;
-  }
-
-  markdown += `---
-
-**レポート生成日時**: ${timestamp}
-**分析システム**: Ad Legal Checker V2
-`;
-
-  return markdown;
-}
-
-/**
- * Helper: セグメントタイプを日本語に翻訳
- * (現在は未使用だが、将来の拡張用に保持)
- */
-function _translateSegmentType(type: string): string {
-  const typeMap: Record<string, string> = {
-    claim: '主張・訴求',
-    explanation: '説明・詳細',
-    evidence: '根拠・エビデンス',
-    cta: 'アクションフレーズ',
-    disclaimer: '免責事項',
-  };
-  return typeMap[type] || type;
-}
-
-/**
- * Helper: 重要度を日本語に翻訳
- * (現在は未使用だが、将来の拡張用に保持)
- */
-function _translateSeverity(severity: ViolationSeverity): string {
-  const severityMap: Record<ViolationSeverity, string> = {
-    critical: '最高',
-    high: '高',
-    medium: '中',
-    low: '低',
-  };
-  return severityMap[severity];
-}
-
-/**
- * Helper: レポートIDを生成
- */
-function generateReportId(): string {
-  return `report_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReportStore } from '@/lib/report-store/factory';
+import { isValidReportId } from '@/lib/report-store/file-report-store';
+import { formatSarif } from '@/lib/report-sarif';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/v2/reports/:id
+ * 保存済みレポート取得API
+ *
+ * 法務への共有リンクとして使用できます。`?format=markdown` を指定するとMarkdownレポートのみを返します。
+ * `?format=sarif` を指定すると違反を SARIF 2.1.0 で返します（`?uri=` で広告文のファイルのパスを指定、
+ * 省略時は `<reportId>.txt`）。
+ *
+ * @returns AnalysisReport（存在しない・保存期間切れの場合は 404）
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isValidReportId(params.id)) {
+      return invalidReportIdResponse(params.id);
+    }
+
+    const store = await getReportStore();
+    const report = await store.get(params.id);
+
+    if (!report) {
+      return notFoundResponse(params.id);
+    }
+
+    const format = request.nextUrl.searchParams.get('format');
+    if (format === 'markdown') {
+      return new NextResponse(report.markdown, {
+        status: 200,
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+      });
+    }
+
+    if (format === 'sarif') {
+      const uri = request.nextUrl.searchParams.get('uri') || `${report.id}.txt`;
+      return new NextResponse(formatSarif([{ report, uri }]), {
+        status: 200,
+        headers: { 'Content-Type': 'application/sarif+json; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Reports API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'レポートの取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/v2/reports/:id
+ * 保存済みレポート削除API
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isValidReportId(params.id)) {
+      return invalidReportIdResponse(params.id);
+    }
+
+    const store = await getReportStore();
+    const deleted = await store.delete(params.id);
+
+    if (!deleted) {
+      return notFoundResponse(params.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: params.id, deleted: true },
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Reports API] Error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'レポートの削除中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
+
+function invalidReportIdResponse(id: string) {
+  return NextResponse.json({
+    success: false,
+    error: '無効なレポートIDです',
+    details: `Invalid report ID: ${id}`,
+  }, { status: 400 });
+}
+
+function notFoundResponse(id: string) {
+  return NextResponse.json({
+    success: false,
+    error: 'レポートが見つかりません',
+    details: `Report not found (deleted or expired): ${id}`,
+  }, { status: 404 });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reportListQuerySchema } from '@/lib/validation';
+import { getReportStore } from '@/lib/report-store/factory';
+
+/**
+ * GET /api/v2/reports
+ * 保存済みレポート一覧API
+ *
+ * /api/v2/report で生成したレポートの概要を生成日時の新しい順に返します。
+ *
+ * @param productId - 商品IDで絞り込み（任意）
+ * @param status - compliant | non_compliant（任意）
+ * @param from - 生成日時の下限（ISO timestamp または YYYY-MM-DD、任意）
+ * @param to - 生成日時の上限（ISO timestamp または YYYY-MM-DD、任意）
+ * @param page - ページ番号（1始まり、default: 1）
+ * @param pageSize - 1ページの件数（default: 20、最大100）
+ *
+ * @returns レポート概要の配列とページ情報
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = reportListQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+
+    const store = await getReportStore();
+    const result = await store.list(query);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('[Reports API] Error:', error);
+
+    // Zodバリデーションエラーの処理
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
+      const zodError = error as { errors?: Array<{ message: string; path: (string | number)[] }> };
+      return NextResponse.json({
+        success: false,
+        error: 'バリデーションエラー',
+        details: zodError.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'レポート一覧の取得中にエラーが発生しました',
+      details: error instanceof Error ? error.message : undefined,
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { segmentRequestSchema } from '@/lib/validation';
 import { RuleBasedSegmenter } from '@/lib/segmentation/rule-based-segmenter';
+import {
+  assertSupportedProduct,
+  getSupportedProductIds,
+  UnsupportedProductError,
+} from '@/lib/product-config-loader';
 import { Segment as _Segment } from '@/lib/types';
 
 // ルールベースセグメント分割: 瞬時に処理されるためタイムアウト不要（Issue #28）
@@ -20,7 +25,7 @@ export const maxDuration = 10;
  * テキストを自然な意味単位に分割し、各セグメントにタイプと位置情報を付与します。
  *
  * @param text - 広告文全体（最大50,000文字）
- * @param productId - 商品ID（'HA' | 'SH'）
+ * @param productId - 商品ID（config/products/<ID>.json が存在する商品）
  * @param apiKey - ユーザー提供のGemini APIキー
  *
  * @returns セグメント化された広告文
@@ -34,11 +39,12 @@ export async function POST(request: NextRequest) {
     // Step 1: 入力バリデーション
     console.log('[Segment API] Validating input...');
     const validatedInput = segmentRequestSchema.parse(body);
+    const productId = assertSupportedProduct(validatedInput.productId);
 
     // Step 2: ルールベースセグメント分割エンジンの初期化（Issue #28）
     // 注: APIキーは後方互換性のため受け付けますが、使用しません
     console.log('[Segment API] Initializing Rule-Based Segmenter...');
-    const segmenter = new RuleBasedSegmenter(validatedInput.productId, false);
+    const segmenter = new RuleBasedSegmenter(productId, false);
 
     // Step 3: テキストのセグメント化（ルールベース: 0.1ms以下）
     console.log('[Segment API] Segmenting text with rule-based engine...');
@@ -54,7 +60,7 @@ export async function POST(request: NextRequest) {
       data: {
         segments,
         totalSegments: segments.length,
-        productId: validatedInput.productId,
+        productId,
         textLength: validatedInput.text.length
       }
     }, { status: 200 });
@@ -72,6 +78,16 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // 未対応商品エラー（config/products/<ID>.json が存在しない）
+    if (error instanceof UnsupportedProductError) {
+      return NextResponse.json({
+        success: false,
+        error: `未対応の商品です: ${error.productId}`,
+        details: error.message,
+        supportedProducts: getSupportedProductIds()
+      }, { status: 400 });
+    }
+
     // ルールベースセグメント分割エラー（Issue #28）
     // 注: タイムアウト、APIキー、レート制限エラーは発生しません
     if (error instanceof Error) {
@@ -116,7 +132,7 @@ export async function GET() {
         description: 'テキストをセグメント化（瞬時に処理）',
         requestBody: {
           text: 'string (required, 1-50000 chars)',
-          productId: "'HA' | 'SH' (required)",
+          productId: 'ProductId (required, config/products/<ID>.json が存在する商品のみ)',
           apiKey: 'string (optional, backward compatibility only - not used)'
         },
         response: {
@@ -5,8 +5,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createEmbeddingService } from '@/lib/embedding-service';
-import { createChromaVectorDB } from '@/lib/vector-db/chroma-db';
+import { createVectorDB } from '@/lib/vector-db/factory';
 import { createRAGSearchService } from '@/lib/rag-search';
+import { getSharedKnowledgeLexicalIndex } from '@/lib/lexical-index';
 import { ProductId } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -50,12 +51,10 @@ export async function POST(request: NextRequest) {
 
     // RAG検索実行
     const embeddingService = createEmbeddingService(apiKey);
-    const vectorDB = createChromaVectorDB({
-      url: process.env.CHROMA_URL || 'http://localhost:8000',
-    });
+    const vectorDB = createVectorDB();
     await vectorDB.connect();
 
-    const ragSearch = createRAGSearchService(embeddingService, vectorDB);
+    const ragSearch = createRAGSearchService(embeddingService, vectorDB, await getSharedKnowledgeLexicalIndex());
 
     const searchResult = await ragSearch.search(segmentText, {
       topK,
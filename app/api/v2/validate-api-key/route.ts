@@ -4,9 +4,9 @@
  * ユーザーが入力したGemini API Keyが有効かどうかをテストします
  */
 
-import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { createGeminiProvider } from '@/lib/llm';
 
 const RequestSchema = z.object({
   apiKey: z.string().min(10),
@@ -18,14 +18,8 @@ export async function POST(request: NextRequest) {
     const { apiKey } = RequestSchema.parse(body);
 
     // Test the API key with a simple embedding request
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'embedding-001' });
-
     // Simple test embedding (very small text to minimize quota usage)
-    await model.embedContent({
-      content: { role: 'user', parts: [{ text: 'test' }] },
-      taskType: TaskType.RETRIEVAL_QUERY,
-    });
+    await createGeminiProvider({ apiKey }).embed(['test'], { taskType: 'query' });
 
     return NextResponse.json({
       valid: true,
@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BulkDashboard } from '@/components/BulkDashboard';
+import type { BulkInputError } from '@/lib/bulk/bulk-input';
+import type { BulkAdResult, BulkSummary } from '@/lib/bulk/bulk-results';
+
+interface BulkResult {
+  id: string;
+  summary: BulkSummary;
+  results: BulkAdResult[];
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+export default function BulkCheckPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [bulkId, setBulkId] = useState<string | null>(null);
+  const [result, setResult] = useState<BulkResult | null>(null);
+  const [rowErrors, setRowErrors] = useState<BulkInputError[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // 再読み込み時は URL の ?id= から結果を表示
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('id');
+    if (id) {
+      setBulkId(id);
+    }
+  }, []);
+
+  // 全ての広告が終了するまで結果を取得
+  useEffect(() => {
+    if (!bulkId) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/v2/bulk/${bulkId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || '一括チェック結果の取得に失敗しました');
+        }
+        if (stopped) {
+          return;
+        }
+        setResult(data.data);
+        if (data.data.summary.finished < data.data.summary.total) {
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      } catch (err: unknown) {
+        if (!stopped) {
+          setError(err instanceof Error ? err.message : 'エラーが発生しました');
+        }
+      }
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [bulkId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      setError('CSV または JSONL ファイルを選択してください');
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    setRowErrors([]);
+    setResult(null);
+
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      if (offline) {
+        form.append('mode', 'offline');
+      }
+
+      const response = await fetch('/api/v2/bulk', { method: 'POST', body: form });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (Array.isArray(data.details)) {
+          setRowErrors(data.details);
+        }
+        throw new Error(data.error || '一括チェックの登録に失敗しました');
+      }
+
+      setRowErrors(data.data.errors);
+      setBulkId(data.data.id);
+      window.history.replaceState(null, '', `?id=${data.data.id}`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!bulkId) {
+      return;
+    }
+    await fetch(`/api/v2/bulk/${bulkId}/cancel`, { method: 'POST' });
+    const response = await fetch(`/api/v2/bulk/${bulkId}`);
+    if (response.ok) {
+      setResult((await response.json()).data);
+    }
+  };
+
+  const isRunning = !!result && result.summary.finished < result.summary.total;
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-6xl">
+        <header className="text-center mb-8">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-2">
+            一括チェック
+          </h1>
+          <p className="text-gray-600">
+            CSV / JSONL の広告（1行 = 広告ID・商品ID・広告文）をまとめてチェックします |{' '}
+            <a href="/" className="text-blue-600 hover:underline">1件ずつチェック</a>
+          </p>
+        </header>
+
+        <form onSubmit={handleSubmit} className="space-y-4 bg-white p-6 rounded-lg shadow-md">
+          <div>
+            <label htmlFor="bulkFile" className="block text-sm font-medium text-gray-700 mb-2">
+              ファイル <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="bulkFile"
+              type="file"
+              accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              disabled={isUploading}
+              className="block w-full text-sm text-gray-700"
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              列: ad_id, product_id, text（または headline, body）。JSONL は1行に1つのJSONオブジェクト（同じ列名）。
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={offline}
+              onChange={(e) => setOffline(e.target.checked)}
+              disabled={isUploading}
+              className="rounded border-gray-300"
+            />
+            オフラインモード（LLMレビューなし、ルールベース検証のみ）
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isUploading || isRunning}
+              className={`flex-1 py-3 px-4 rounded-lg font-medium text-white transition-colors ${
+                isUploading || isRunning ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isUploading ? 'アップロード中...' : isRunning ? 'チェック中...' : '一括チェック開始'}
+            </button>
+            {isRunning && (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="py-3 px-4 rounded-lg font-medium border border-gray-300 text-gray-700 hover:bg-gray-100"
+              >
+                キャンセル
+              </button>
+            )}
+          </div>
+        </form>
+
+        {error && (
+          <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800" role="alert">
+            {error}
+          </div>
+        )}
+
+        {rowErrors.length > 0 && (
+          <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-900">
+            <p className="font-medium mb-2">チェックできなかった行（{rowErrors.length}件）</p>
+            <ul className="list-disc list-inside space-y-1">
+              {rowErrors.map((rowError, index) => (
+                <li key={index}>
+                  {rowError.row}行目{rowError.adId ? `（${rowError.adId}）` : ''}: {rowError.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result && <BulkDashboard bulkId={result.id} summary={result.summary} results={result.results} />}
+      </div>
+    </main>
+  );
+}
@@ -1,11 +1,12 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { ProductSelectorV2 } from '@/components/ProductSelectorV2';
 import { ProgressTrackerV2, ProcessingStep } from '@/components/ProgressTrackerV2';
 import { ReportDisplayV2 } from '@/components/ReportDisplayV2';
 import { AppSpecifications } from '@/components/AppSpecifications';
 import { AnalysisReport, Segment, SegmentEvaluation } from '@/lib/types-v2';
+import { readEvaluationEventStream, type EvaluationProgressEvent } from '@/lib/evaluation-progress';
 
 export default function Home() {
 
@@ -15,12 +16,19 @@ export default function Home() {
   const [evidence, setEvidence] = useState('');
   const [showEvidence, setShowEvidence] = useState(false);
 
+  // 改訂版の管理（前の版から変更されたセグメントのみ再評価）
+  const [trackVersions, setTrackVersions] = useState(false);
+  const [documentId, setDocumentId] = useState<string | null>(null);
+
   // Processing state
   const [isProcessing, setIsProcessing] = useState(false);
   const [currentStep, setCurrentStep] = useState<ProcessingStep>('idle');
   const [segments, setSegments] = useState<Segment[]>([]);
-  const [currentSegment] = useState(0);
+  const [currentSegment, setCurrentSegment] = useState(0);
   const [estimatedTime, setEstimatedTime] = useState(0);
+  const [evaluationProgress, setEvaluationProgress] = useState<number | undefined>(undefined);
+  const [activity, setActivity] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Results
   const [report, setReport] = useState<AnalysisReport | null>(null);
@@ -39,76 +47,157 @@ export default function Home() {
     setReport(null);
     setCurrentStep('segmenting');
     setEstimatedTime(30);
+    setCurrentSegment(0);
+    setEvaluationProgress(undefined);
+    setActivity('');
+
+    // キャンセル時は実行中のリクエストを中断（評価中のLLM呼び出しもサーバー側で中断される）
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
-      // Combine ad text with evidence (if provided)
-      const fullTextWithEvidence = evidence.trim()
-        ? `${adText}\n${evidence}`
-        : adText;
+      // 根拠資料は広告文に混ぜず、エビデンスとして主張と照合する
+      const evidenceDocuments = evidence.trim()
+        ? [{ title: '提出エビデンス', text: evidence }]
+        : undefined;
 
       // Step 1: Segment the ad text
-      const segmentResponse = await fetch('/api/v2/segment', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: fullTextWithEvidence,
-          productId: productId,
-        }),
-      });
+      // 改訂版の管理が有効な場合は、広告文書に版を追加して前の版との差分を取得
+      let detectedSegments: Segment[];
+      let segmentsToEvaluate: Segment[];
+      let carriedEvaluations: SegmentEvaluation[] = [];
+      let documentVersion: { id: string; version: number; status: 'pending' | 'evaluated'; evaluations?: SegmentEvaluation[] } | null = null;
+
+      if (trackVersions) {
+        let currentDocumentId = documentId;
+        if (!currentDocumentId) {
+          const documentResponse = await fetch('/api/v2/documents', {
+            method: 'POST',
+            signal: abortController.signal,
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ productId }),
+          });
+
+          if (!documentResponse.ok) {
+            const errorData = await documentResponse.json();
+            throw new Error(errorData.error || '広告文書の作成に失敗しました');
+          }
+
+          currentDocumentId = (await documentResponse.json()).data.id as string;
+          setDocumentId(currentDocumentId);
+        }
+
+        const versionResponse = await fetch(`/api/v2/documents/${currentDocumentId}/versions`, {
+          method: 'POST',
+          signal: abortController.signal,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ text: adText, evidence: evidenceDocuments }),
+        });
 
-      if (!segmentResponse.ok) {
-        const errorData = await segmentResponse.json();
-        throw new Error(errorData.error || 'セグメント分割に失敗しました');
+        if (!versionResponse.ok) {
+          const errorData = await versionResponse.json();
+          throw new Error(errorData.error || '版の追加に失敗しました');
+        }
+
+        const versionData = (await versionResponse.json()).data;
+        detectedSegments = versionData.segments;
+        segmentsToEvaluate = versionData.segmentsToEvaluate;
+        carriedEvaluations = versionData.carriedEvaluations;
+        documentVersion = {
+          id: currentDocumentId,
+          version: versionData.version,
+          status: versionData.status,
+          evaluations: versionData.evaluations,
+        };
+
+        console.log(`[Frontend] Document ${currentDocumentId} v${versionData.version}: re-evaluating ${segmentsToEvaluate.length}/${detectedSegments.length} segments`);
+      } else {
+        const segmentResponse = await fetch('/api/v2/segment', {
+          method: 'POST',
+          signal: abortController.signal,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            text: adText,
+            productId: productId,
+          }),
+        });
+
+        if (!segmentResponse.ok) {
+          const errorData = await segmentResponse.json();
+          throw new Error(errorData.error || 'セグメント分割に失敗しました');
+        }
+
+        const segmentData = await segmentResponse.json();
+        detectedSegments = segmentData.data.segments;
+        segmentsToEvaluate = detectedSegments;
       }
 
-      const segmentData = await segmentResponse.json();
-      const detectedSegments: Segment[] = segmentData.data.segments;
       setSegments(detectedSegments);
       setCurrentStep('evaluating');
+      setEstimatedTime(0);
 
-      // Issue #15: Calculate estimated time based on batch processing
-      // Batch size: 20 segments per batch
-      // Estimated time per batch: 10-15 seconds
+      // Issue #15: Batch size: 20 segments per batch
+      // 進捗は /api/v2/evaluate-batch の進捗イベント（SSE）から計算する
       const BATCH_SIZE = 20;
-      const numberOfBatches = Math.ceil(detectedSegments.length / BATCH_SIZE);
-      const estimatedTimePerBatch = 12; // seconds
-      setEstimatedTime(numberOfBatches * estimatedTimePerBatch);
+      const numberOfBatches = Math.ceil(segmentsToEvaluate.length / BATCH_SIZE);
+      let evaluatedSegmentCount = carriedEvaluations.length;
+      setCurrentSegment(evaluatedSegmentCount);
+      setEvaluationProgress(0);
 
-      console.log(`[Frontend] Processing ${detectedSegments.length} segments in ${numberOfBatches} batches...`);
+      console.log(`[Frontend] Processing ${segmentsToEvaluate.length} segments in ${numberOfBatches} batches...`);
 
       // Step 2: Evaluate segments in batches
       // Issue #15: Use batch evaluation API to avoid rate limits
       const allEvaluations: SegmentEvaluation[] = [];
 
-      for (let i = 0; i < detectedSegments.length; i += BATCH_SIZE) {
-        const batch = detectedSegments.slice(i, i + BATCH_SIZE);
+      for (let i = 0; i < segmentsToEvaluate.length; i += BATCH_SIZE) {
+        const batch = segmentsToEvaluate.slice(i, i + BATCH_SIZE);
         const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
 
         console.log(`[Frontend] Evaluating batch ${batchNumber}/${numberOfBatches} (${batch.length} segments)...`);
 
         const evaluateResponse = await fetch('/api/v2/evaluate-batch', {
           method: 'POST',
+          signal: abortController.signal,
           headers: {
             'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
           },
           body: JSON.stringify({
             segments: batch,
             productId: productId,
-            fullText: fullTextWithEvidence, // Add full text with evidence for context
+            fullText: adText,
+            evidence: evidenceDocuments,
           }),
         });
 
-        if (!evaluateResponse.ok) {
+        // 進捗イベントを表示に反映し、最後に通常のレスポンスと同じ内容を受け取る
+        const result = evaluateResponse.ok
+          ? await readEvaluationEventStream(evaluateResponse, (event) => {
+              const batchProgress = getBatchProgress(event);
+              setEvaluationProgress((batchNumber - 1 + batchProgress) / numberOfBatches);
+              setActivity(`バッチ ${batchNumber}/${numberOfBatches}: ${describeProgressEvent(event)}`);
+              if (event.stage === 'segment_evaluated') {
+                setCurrentSegment(++evaluatedSegmentCount);
+              }
+            })
+          : { status: evaluateResponse.status, body: await evaluateResponse.json().catch(() => ({})) };
+
+        if (result.status !== 200) {
           let errorMessage = `バッチ ${batchNumber} の評価に失敗しました`;
 
           try {
-            const errorData = await evaluateResponse.json();
+            const errorData = result.body as { error?: string; message?: string };
             errorMessage = errorData.error || errorMessage;
 
             // Add more context for server errors (500)
-            if (evaluateResponse.status === 500) {
+            if (result.status === 500) {
               errorMessage += '\n\n💡 サーバーエラーが発生しました。以下を確認してください：\n';
               errorMessage += '1. ChromaDBが起動しているか: docker ps | grep chroma\n';
               errorMessage += '2. 環境が正しくセットアップされているか: npm run check-env\n';
@@ -122,7 +211,7 @@ export default function Home() {
           throw new Error(errorMessage);
         }
 
-        const evaluationData = await evaluateResponse.json();
+        const evaluationData = result.body as { data: { evaluations: SegmentEvaluation[] } };
         allEvaluations.push(...evaluationData.data.evaluations);
 
         console.log(`[Frontend] ✅ Batch ${batchNumber}/${numberOfBatches} completed (${evaluationData.data.evaluations.length} evaluations)`);
@@ -130,20 +219,44 @@ export default function Home() {
 
       console.log(`[Frontend] ✅ All batches completed. Total evaluations: ${allEvaluations.length}`);
 
-      const evaluations: SegmentEvaluation[] = allEvaluations;
+      let evaluations: SegmentEvaluation[] = [...carriedEvaluations, ...allEvaluations];
+
+      // 改訂版: 評価結果を登録して版を確定（前の版との違反の比較を作成）
+      if (documentVersion?.status === 'pending') {
+        const completeResponse = await fetch(`/api/v2/documents/${documentVersion.id}/versions/${documentVersion.version}`, {
+          method: 'PUT',
+          signal: abortController.signal,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ evaluations: allEvaluations }),
+        });
+
+        if (!completeResponse.ok) {
+          const errorData = await completeResponse.json();
+          throw new Error(errorData.error || '評価結果の登録に失敗しました');
+        }
+
+        evaluations = (await completeResponse.json()).data.evaluations;
+      } else if (documentVersion?.evaluations) {
+        evaluations = documentVersion.evaluations;
+      }
 
       setCurrentStep('reporting');
       setEstimatedTime(5);
+      setActivity('');
 
-      // Step 3: Generate final report
+      // Step 3: Generate final report（生成の完了は進捗イベント report_ready で受け取る）
       const reportResponse = await fetch('/api/v2/report', {
         method: 'POST',
+        signal: abortController.signal,
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
         body: JSON.stringify({
           input: {
-            full_text: fullTextWithEvidence,
+            full_text: adText,
             product_id: productId,
             provided_evidence: evidence || undefined,
           },
@@ -155,28 +268,40 @@ export default function Home() {
           },
           segments: detectedSegments,
           evaluations: evaluations,
+          document: documentVersion ? { id: documentVersion.id, version: documentVersion.version } : undefined,
         }),
       });
 
-      if (!reportResponse.ok) {
-        const errorData = await reportResponse.json();
-        throw new Error(errorData.error || 'レポート生成に失敗しました');
+      const reportResult = reportResponse.ok
+        ? await readEvaluationEventStream<{ success: boolean; error?: string; data: AnalysisReport }>(reportResponse, (event) => {
+            setActivity(describeProgressEvent(event));
+          })
+        : { status: reportResponse.status, body: await reportResponse.json().catch(() => ({ success: false })) };
+
+      if (reportResult.status !== 200) {
+        throw new Error(reportResult.body.error || 'レポート生成に失敗しました');
       }
 
-      const reportData = await reportResponse.json();
-      setReport(reportData.data);
+      setReport(reportResult.body.data);
       setCurrentStep('complete');
       setEstimatedTime(0);
 
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'エラーが発生しました';
+      const errorMessage = abortController.signal.aborted
+        ? 'チェックをキャンセルしました'
+        : err instanceof Error ? err.message : 'エラーが発生しました';
       setError(errorMessage);
       setCurrentStep('error');
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <main className="min-h-screen bg-gray-50 py-8">
       <div className="container mx-auto px-4 max-w-4xl">
@@ -185,7 +310,10 @@ export default function Home() {
             広告文リーガルチェックツール
           </h1>
           <p className="text-gray-600 mb-2">
-            HA・SH専用版 | Powered by Gemini API
+            商品設定登録済みの全商品に対応 | Powered by Gemini API
+          </p>
+          <p className="text-sm">
+            <a href="/bulk" className="text-blue-600 hover:underline">CSV / JSONL で一括チェック</a>
           </p>
         </header>
 
@@ -194,7 +322,10 @@ export default function Home() {
           {/* Product Selection */}
           <ProductSelectorV2
             selectedProductId={productId}
-            onSelect={setProductId}
+            onSelect={(id) => {
+              setProductId(id);
+              setDocumentId(null); // 広告文書は商品ごと
+            }}
             disabled={isProcessing}
           />
 
@@ -248,7 +379,7 @@ export default function Home() {
                   value={evidence}
                   onChange={(e) => setEvidence(e.target.value)}
                   className="w-full h-24 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="根拠資料や補足情報があれば入力してください"
+                  placeholder="試験報告書・調査結果などの根拠資料を入力してください（複数の資料は --- の行で区切ります）"
                   disabled={isProcessing}
                   aria-label="根拠資料入力"
                 />
@@ -256,6 +387,33 @@ export default function Home() {
             )}
           </div>
 
+          {/* Version Tracking */}
+          <div className="text-sm">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={trackVersions}
+                onChange={(e) => setTrackVersions(e.target.checked)}
+                disabled={isProcessing}
+                className="rounded border-gray-300"
+              />
+              改訂版として管理する（前の版から変更されたセグメントのみ再チェック）
+            </label>
+            {trackVersions && documentId && (
+              <div className="mt-1 ml-6 flex items-center gap-3 text-gray-500">
+                <span>文書ID: {documentId}</span>
+                <button
+                  type="button"
+                  onClick={() => setDocumentId(null)}
+                  disabled={isProcessing}
+                  className="text-blue-600 hover:underline"
+                >
+                  新しい文書として開始
+                </button>
+              </div>
+            )}
+          </div>
+
           {/* Submit Button */}
           <button
             type="submit"
@@ -289,7 +447,10 @@ export default function Home() {
               segmentCount={segments.length}
               currentSegment={currentSegment}
               estimatedTimeSeconds={estimatedTime}
+              evaluationProgress={currentStep === 'evaluating' ? evaluationProgress : undefined}
+              activity={activity || undefined}
               error={error || undefined}
+              onCancel={handleCancel}
             />
           </div>
         )}
@@ -349,3 +510,43 @@ export default function Home() {
     </main>
   );
 }
+
+/**
+ * 進捗イベントからバッチ内の進捗（0-1）を計算
+ */
+function getBatchProgress(event: EvaluationProgressEvent): number {
+  switch (event.stage) {
+    case 'segmentation':
+      return 0.05;
+    case 'rag':
+      return 0.3;
+    case 'rule_validation':
+      return 0.3 + 0.1 * ((event.index + 1) / event.total);
+    case 'llm_request':
+      return 0.45;
+    case 'segment_evaluated':
+      return 0.5 + 0.5 * ((event.index + 1) / event.total);
+    case 'report_ready':
+      return 1;
+  }
+}
+
+/**
+ * 進捗イベントの表示文
+ */
+function describeProgressEvent(event: EvaluationProgressEvent): string {
+  switch (event.stage) {
+    case 'segmentation':
+      return `${event.segmentsToEvaluate}セグメントを評価します`;
+    case 'rag':
+      return `ナレッジ検索完了（${event.totalChunks}チャンク）`;
+    case 'rule_validation':
+      return `ルールベース検証 ${event.index + 1}/${event.total}`;
+    case 'llm_request':
+      return `LLMで評価中（${event.segments}セグメント${event.attempt > 1 ? `、再試行 ${event.attempt - 1}回目` : ''}）`;
+    case 'segment_evaluated':
+      return `評価結果 ${event.index + 1}/${event.total}`;
+    case 'report_ready':
+      return `レポート生成完了（違反 ${event.totalViolations}件）`;
+  }
+}
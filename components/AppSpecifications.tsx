@@ -125,7 +125,7 @@ export function AppSpecifications() {
               <li>
                 キーワード（浸透、殺菌など）に注釈マーカーがない場合、自動的に違反フラグ
               </li>
-              <li>HA・SH両商品に対応した汎用ロジック</li>
+              <li>商品設定（config/products）の注釈ルールに基づく汎用ロジック</li>
               <li>
                 複数キーワードを含む場合、それぞれ個別に評価
               </li>
@@ -139,8 +139,8 @@ export function AppSpecifications() {
               対応商品
             </h3>
             <ul className="list-disc list-inside space-y-1 ml-6">
-              <li>HA（ヒアルロン酸系商品）</li>
-              <li>SH（スキンヘルス系商品）</li>
+              <li>config/products/&lt;商品ID&gt;.json が登録されている全商品（現在: HA, SH）</li>
+              <li>未登録の商品IDを指定した場合は「未対応の商品です」エラーになります</li>
             </ul>
           </section>
 
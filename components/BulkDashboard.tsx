@@ -0,0 +1,219 @@
+'use client';
+
+import type { ViolationSeverity } from '@/lib/types-v2';
+import {
+  VIOLATION_TYPES,
+  formatBulkIssue,
+  type BulkAdResult,
+  type BulkAdStatus,
+  type BulkSummary,
+} from '@/lib/bulk/bulk-results';
+
+interface Props {
+  bulkId: string;
+  summary: BulkSummary;
+  results: BulkAdResult[];
+}
+
+const STATUS_LABELS: Record<BulkAdStatus, string> = {
+  queued: '待機中',
+  running: 'チェック中',
+  compliant: '適合',
+  non_compliant: '要修正',
+  failed: '失敗',
+  cancelled: 'キャンセル',
+};
+
+const STATUS_STYLES: Record<BulkAdStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  compliant: 'bg-green-100 text-green-700',
+  non_compliant: 'bg-red-100 text-red-700',
+  failed: 'bg-orange-100 text-orange-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const SEVERITY_LABELS: Record<ViolationSeverity, string> = {
+  critical: '最重大',
+  high: '重大',
+  medium: '中程度',
+  low: '軽微',
+};
+
+/**
+ * 一括チェックの集計ダッシュボード
+ *
+ * 状態ごとの広告数・ViolationType ごとの違反数・複数の広告に共通する指摘・商品ごとの集計と、
+ * 広告ごとの結果の一覧を表示する。
+ */
+export function BulkDashboard({ bulkId, summary, results }: Props) {
+  const maxTypeCount = Math.max(1, ...VIOLATION_TYPES.map(type => summary.violationsByType[type]));
+  const percent = summary.total > 0 ? Math.round((summary.finished / summary.total) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">一括チェック結果</h2>
+          <p className="text-sm text-gray-600 mt-1">ID: {bulkId}</p>
+        </div>
+        <div className="flex gap-2">
+          <a
+            href={`/api/v2/bulk/${bulkId}?format=csv`}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+          >
+            CSVダウンロード
+          </a>
+          <a
+            href={`/api/v2/bulk/${bulkId}?format=jsonl`}
+            className="px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+          >
+            JSONLダウンロード
+          </a>
+        </div>
+      </div>
+
+      {/* Progress */}
+      <div>
+        <div className="flex justify-between text-sm text-gray-700 mb-1">
+          <span>{summary.finished} / {summary.total} 件完了</span>
+          <span>{percent}%</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+
+      {/* Status Cards */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+        {(Object.keys(STATUS_LABELS) as BulkAdStatus[]).map(status => (
+          <div key={status} className={`rounded-lg p-3 ${STATUS_STYLES[status]}`}>
+            <div className="text-xs">{STATUS_LABELS[status]}</div>
+            <div className="text-2xl font-bold">{summary.byStatus[status]}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Violations by Type */}
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 mb-3">違反の種類</h3>
+          <div className="space-y-2">
+            {VIOLATION_TYPES.map(type => (
+              <div key={type} className="flex items-center gap-2 text-sm">
+                <span className="w-24 shrink-0 text-gray-700">{type}</span>
+                <div className="flex-1 bg-gray-100 rounded h-4">
+                  <div
+                    className="bg-red-400 h-4 rounded"
+                    style={{ width: `${(summary.violationsByType[type] / maxTypeCount) * 100}%` }}
+                  />
+                </div>
+                <span className="w-10 text-right font-medium">{summary.violationsByType[type]}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-600 mt-3">
+            {(Object.keys(SEVERITY_LABELS) as ViolationSeverity[])
+              .map(severity => `${SEVERITY_LABELS[severity]}: ${summary.violationsBySeverity[severity]}`)
+              .join(' / ')}
+          </p>
+        </div>
+
+        {/* By Product */}
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 mb-3">商品別</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1">商品</th>
+                <th className="py-1 text-right">広告数</th>
+                <th className="py-1 text-right">適合</th>
+                <th className="py-1 text-right">要修正</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(summary.byProduct).map(([productId, counts]) => (
+                <tr key={productId} className="border-b border-gray-100">
+                  <td className="py-1">{productId}</td>
+                  <td className="py-1 text-right">{counts.total}</td>
+                  <td className="py-1 text-right text-green-700">{counts.compliant}</td>
+                  <td className="py-1 text-right text-red-700">{counts.nonCompliant}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Top Issues */}
+      {summary.topIssues.length > 0 && (
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 mb-3">主な指摘（該当する広告の多い順）</h3>
+          <ul className="space-y-2">
+            {summary.topIssues.map((issue, index) => (
+              <li key={index} className="p-3 border border-gray-200 rounded-lg text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{formatBulkIssue(issue)}</span>
+                  <span className="shrink-0 text-gray-600">{issue.adCount}件</span>
+                </div>
+                {issue.expression && <p className="text-gray-700 mt-1">{issue.description}</p>}
+                <p className="text-xs text-gray-500 mt-1">
+                  {issue.adIds.join(', ')}{issue.adCount > issue.adIds.length ? ' ほか' : ''}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Results */}
+      <div>
+        <h3 className="text-lg font-bold text-gray-900 mb-3">広告ごとの結果</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1 pr-2">広告ID</th>
+                <th className="py-1 pr-2">商品</th>
+                <th className="py-1 pr-2">状態</th>
+                <th className="py-1 pr-2 text-right">違反</th>
+                <th className="py-1 pr-2">主な指摘</th>
+                <th className="py-1">レポート</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => (
+                <tr key={result.jobId} className="border-b border-gray-100 align-top">
+                  <td className="py-1 pr-2 whitespace-nowrap">{result.adId}</td>
+                  <td className="py-1 pr-2">{result.productId}</td>
+                  <td className="py-1 pr-2">
+                    <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${STATUS_STYLES[result.status]}`}>
+                      {STATUS_LABELS[result.status]}
+                    </span>
+                  </td>
+                  <td className="py-1 pr-2 text-right">{result.totalViolations}</td>
+                  <td className="py-1 pr-2 text-xs text-gray-700">
+                    {result.error || result.topIssues.map(formatBulkIssue).join(' / ')}
+                  </td>
+                  <td className="py-1 whitespace-nowrap">
+                    {result.reportId && (
+                      <a
+                        href={`/api/v2/reports/${result.reportId}?format=markdown`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        表示
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AnalysisReport, ViolationSeverity } from '@/lib/types-v2';
+import { buildHighlightRanges } from '@/lib/violation-spans';
+
+interface Props {
+  report: AnalysisReport;
+}
+
+const HIGHLIGHT_STYLES: Record<ViolationSeverity, string> = {
+  critical: 'bg-red-300 decoration-red-700',
+  high: 'bg-red-200 decoration-red-600',
+  medium: 'bg-orange-200 decoration-orange-600',
+  low: 'bg-yellow-200 decoration-yellow-600',
+};
+
+const SEVERITY_LABELS: Record<ViolationSeverity, string> = {
+  critical: '最重大',
+  high: '重大',
+  medium: '中程度',
+  low: '軽微',
+};
+
+/**
+ * 広告文全体の違反箇所ハイライト表示
+ *
+ * 違反箇所（Violation.spans）を重要度の色でハイライトし、
+ * ホバー・フォーカスで指摘内容・根拠・修正案を表示する。
+ */
+export function InlineAdView({ report }: Props) {
+  const [activeRange, setActiveRange] = useState<number | null>(null);
+
+  const ranges = useMemo(
+    () => buildHighlightRanges(report.input.full_text, report.evaluations.flatMap(e => e.violations)),
+    [report]
+  );
+  const highlightedCount = ranges.filter(range => range.violations.length > 0).length;
+
+  if (highlightedCount === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-gray-200 pt-6 mb-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-1">広告文（違反箇所のハイライト）</h3>
+      <p className="text-xs text-gray-600 mb-3">
+        ハイライトにカーソルを合わせると指摘内容を表示します。
+        <span className="ml-2 px-1 rounded bg-red-200">重大</span>
+        <span className="ml-1 px-1 rounded bg-orange-200">中程度</span>
+        <span className="ml-1 px-1 rounded bg-yellow-200">軽微</span>
+      </p>
+
+      <div className="p-4 bg-white rounded-lg border border-gray-200 text-sm text-gray-900 whitespace-pre-wrap leading-7">
+        {ranges.map((range, index) => {
+          if (!range.severity) {
+            return <span key={index}>{range.text}</span>;
+          }
+
+          return (
+            <span
+              key={index}
+              className="relative"
+              onMouseEnter={() => setActiveRange(index)}
+              onMouseLeave={() => setActiveRange(null)}
+            >
+              <mark
+                tabIndex={0}
+                className={`rounded px-0.5 underline decoration-2 underline-offset-4 cursor-help text-gray-900 ${HIGHLIGHT_STYLES[range.severity]}`}
+                onFocus={() => setActiveRange(index)}
+                onBlur={() => setActiveRange(null)}
+                aria-describedby={activeRange === index ? `violation-card-${index}` : undefined}
+              >
+                {range.text}
+              </mark>
+
+              {activeRange === index && (
+                <span
+                  id={`violation-card-${index}`}
+                  role="tooltip"
+                  className="absolute left-0 top-full z-10 mt-1 block w-80 max-w-[80vw] space-y-2 rounded-lg border border-gray-300 bg-white p-3 text-left shadow-lg whitespace-normal leading-normal"
+                >
+                  {range.violations.map((violation, vIndex) => (
+                    <span key={vIndex} className="block border-b border-gray-100 pb-2 last:border-b-0 last:pb-0">
+                      <span className="flex items-start justify-between gap-2 mb-1">
+                        <span className="font-semibold text-sm">{violation.type}</span>
+                        <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                          {SEVERITY_LABELS[violation.severity]}
+                        </span>
+                      </span>
+                      <span className="block text-sm mb-1">{violation.description}</span>
+                      {violation.referenceKnowledge?.file && (
+                        <span className="block text-xs text-gray-600 mb-1">根拠: {violation.referenceKnowledge.file}</span>
+                      )}
+                      {violation.correctionSuggestion && (
+                        <span className="block text-xs text-gray-900">
+                          <span className="font-medium text-gray-700">修正案: </span>
+                          {violation.correctionSuggestion}
+                        </span>
+                      )}
+                    </span>
+                  ))}
+                </span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
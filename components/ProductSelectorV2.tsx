@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 
 interface ProductInfo {
   id: string;
@@ -25,7 +25,8 @@ interface Props {
   disabled?: boolean;
 }
 
-// Phase 2: 現在設定ファイルが存在する商品リスト（HA, SH）
+// 初期表示用の商品リスト（HA, SH）
+// 対応商品の一覧は /api/v2/products（config/products/<ID>.json）から取得して置き換える
 const AVAILABLE_PRODUCTS: ProductInfo[] = [
   {
     id: 'HA',
@@ -60,8 +61,33 @@ const AVAILABLE_PRODUCTS: ProductInfo[] = [
 
 export function ProductSelectorV2({ selectedProductId, onSelect, disabled = false }: Props) {
   const [showDetails, setShowDetails] = useState(true);
+  const [products, setProducts] = useState<ProductInfo[]>(AVAILABLE_PRODUCTS);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchProducts = async () => {
+      try {
+        const response = await fetch('/api/v2/products');
+        if (!response.ok) return;
+
+        const data = await response.json();
+        if (!cancelled && data.success && data.data.products.length > 0) {
+          setProducts(data.data.products);
+        }
+      } catch (error) {
+        // 取得に失敗した場合は初期表示用リストのまま
+        console.error('Failed to fetch products:', error);
+      }
+    };
+
+    fetchProducts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  const products = AVAILABLE_PRODUCTS;
   const selectedProduct = products.find(p => p.id === selectedProductId) || products[0];
 
   return (
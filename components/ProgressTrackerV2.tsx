@@ -7,7 +7,13 @@ interface Props {
   segmentCount?: number;
   currentSegment?: number;
   estimatedTimeSeconds?: number;
+  /** 評価ステップの進捗（0-1、/api/v2/evaluate-batch の進捗イベントから計算） */
+  evaluationProgress?: number;
+  /** 現在の処理内容（直近の進捗イベント） */
+  activity?: string;
   error?: string;
+  /** 指定時はキャンセルボタンを表示 */
+  onCancel?: () => void;
 }
 
 export function ProgressTrackerV2({
@@ -15,7 +21,10 @@ export function ProgressTrackerV2({
   segmentCount = 0,
   currentSegment = 0,
   estimatedTimeSeconds = 0,
-  error
+  evaluationProgress,
+  activity,
+  error,
+  onCancel
 }: Props) {
   const steps = [
     { id: 'segmenting', label: 'セグメント分割', icon: '📝' },
@@ -38,9 +47,9 @@ export function ProgressTrackerV2({
     if (currentStep === 'idle') return 0;
     if (currentStep === 'segmenting') return 20;
     if (currentStep === 'evaluating') {
+      if (evaluationProgress !== undefined) return 20 + Math.min(evaluationProgress, 1) * 60;
       if (segmentCount === 0) return 30;
-      const evaluationProgress = (currentSegment / segmentCount) * 60;
-      return 20 + evaluationProgress;
+      return 20 + (currentSegment / segmentCount) * 60;
     }
     if (currentStep === 'reporting') return 85;
     if (currentStep === 'complete') return 100;
@@ -55,11 +64,22 @@ export function ProgressTrackerV2({
     <div className="bg-white p-6 rounded-lg shadow-md space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-gray-900">処理中...</h3>
-        {estimatedTimeSeconds > 0 && (
-          <span className="text-sm text-gray-600">
-            推定残り時間: {estimatedTimeSeconds}秒
-          </span>
-        )}
+        <div className="flex items-center gap-3">
+          {estimatedTimeSeconds > 0 && (
+            <span className="text-sm text-gray-600">
+              推定残り時間: {estimatedTimeSeconds}秒
+            </span>
+          )}
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              キャンセル
+            </button>
+          )}
+        </div>
       </div>
 
       {error && (
@@ -134,6 +154,10 @@ export function ProgressTrackerV2({
         })}
       </div>
 
+      {activity && (
+        <p className="text-xs text-gray-600" aria-live="polite">{activity}</p>
+      )}
+
       <div className="pt-2">
         <div className="flex justify-between text-xs text-gray-600 mb-1">
           <span>進捗状況</span>
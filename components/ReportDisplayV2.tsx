@@ -3,6 +3,7 @@
 import ReactMarkdown from 'react-markdown';
 import { useState } from 'react';
 import { AnalysisReport } from '@/lib/types-v2';
+import { InlineAdView } from './InlineAdView';
 
 interface Props {
   report: AnalysisReport;
@@ -108,6 +109,16 @@ export function ReportDisplayV2({ report }: Props) {
           </div>
         </div>
 
+        {/* LLM review skipped (offline mode) */}
+        {report.evaluationMode && report.evaluationMode !== 'llm' && (
+          <div className="mb-4 p-3 rounded-lg border border-yellow-300 bg-yellow-50 text-sm text-yellow-900" role="status">
+            <p className="font-semibold">⚠️ LLMレビュー未実施（オフラインモード）</p>
+            <p className="mt-1">
+              ルールベース検証（NGキーワード・ギネス記録・期間表現）のみの結果です。文脈に依存する違反は検出されていない可能性があります。
+            </p>
+          </div>
+        )}
+
         {/* Summary Stats */}
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
           <div className="bg-blue-50 p-3 rounded-lg">
@@ -166,8 +177,44 @@ export function ReportDisplayV2({ report }: Props) {
             </div>
           </div>
         )}
+
+        {/* Version Comparison (改訂版) */}
+        {report.documentVersion?.comparison && (
+          <div className="mt-4 p-4 bg-indigo-50 rounded-lg border border-indigo-200">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">
+              版の比較（v{report.documentVersion.comparison.fromVersion} → v{report.documentVersion.comparison.toVersion}）
+            </h3>
+            <p className="text-xs text-gray-600 mb-3">
+              再評価: 変更 {report.documentVersion.diffSummary.changed}件 / 追加 {report.documentVersion.diffSummary.added}件 / 注釈の変更 {report.documentVersion.diffSummary.context}件、
+              前回の評価を引き継ぎ: {report.documentVersion.diffSummary.unchanged}件、削除: {report.documentVersion.diffSummary.removed}件
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+              {([
+                ['fixed', '✅ 解消', 'text-green-700'],
+                ['new', '🆕 新規', 'text-red-700'],
+                ['open', '⏳ 継続', 'text-orange-700'],
+              ] as const).map(([status, label, color]) => (
+                <div key={status}>
+                  <p className={`font-medium mb-1 ${color}`}>
+                    {label}: {report.documentVersion!.comparison![status].length}件
+                  </p>
+                  <ul className="space-y-1 text-xs text-gray-700">
+                    {report.documentVersion!.comparison![status].map((change, cIndex) => (
+                      <li key={cIndex}>
+                        <span className="font-semibold">{change.violation.type}</span>: 「{change.segmentText}」
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Inline Ad View - 違反箇所のハイライト */}
+      <InlineAdView report={report} />
+
       {/* Segment Details - Primary Display (Always Open) */}
       {report.segments.length > 0 && (
         <div className="border-t border-gray-200 pt-6 mb-6">
@@ -250,6 +297,61 @@ export function ReportDisplayV2({ report }: Props) {
                                 <p className="text-sm text-gray-900">{violation.correctionSuggestion}</p>
                               </div>
                             )}
+
+                            {violation.notes && (
+                              <p className="mt-2 text-xs text-gray-700">備考: {violation.notes}</p>
+                            )}
+
+                            {violation.matchContext?.action === 'downgraded' && (
+                              <p className="mt-2 text-xs text-gray-700">重要度の引き下げ: {violation.matchContext.reason}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {evaluation && evaluation.waivedViolations && evaluation.waivedViolations.length > 0 && (
+                      <div className="mt-3 space-y-2">
+                        {evaluation.waivedViolations.map((violation, wIndex) => (
+                          <div
+                            key={wIndex}
+                            className="p-3 rounded-lg border border-gray-300 bg-gray-50"
+                          >
+                            <div className="flex items-start justify-between mb-1">
+                              <span className="font-semibold text-sm text-gray-700">{violation.type}</span>
+                              <span className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-800">
+                                承認済み例外
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-700">{violation.description}</p>
+                            {violation.waiver && (
+                              <p className="mt-1 text-xs text-gray-600">
+                                {violation.waiver.id} / 承認者: {violation.waiver.approver} / 有効期限: {violation.waiver.expiresAt}
+                                {violation.waiver.reason && ` / ${violation.waiver.reason}`}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {evaluation && evaluation.suppressedViolations && evaluation.suppressedViolations.length > 0 && (
+                      <div className="mt-3 space-y-2">
+                        {evaluation.suppressedViolations.map((violation, sIndex) => (
+                          <div
+                            key={sIndex}
+                            className="p-3 rounded-lg border border-gray-300 bg-gray-50"
+                          >
+                            <div className="flex items-start justify-between mb-1">
+                              <span className="font-semibold text-sm text-gray-700">{violation.type}</span>
+                              <span className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700">
+                                文脈により除外
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-700">{violation.description}</p>
+                            {violation.matchContext && (
+                              <p className="mt-1 text-xs text-gray-600">{violation.matchContext.reason}</p>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -0,0 +1,22 @@
+/**
+ * Next.js Instrumentation
+ * サーバー起動時に1回実行される
+ *
+ * 非同期チェックジョブの Runner を初期化し、再起動前に中断したジョブ（queued / running）を再開する。
+ * ジョブAPIへのアクセスを待たずに再開するため、起動時に初期化する。
+ */
+
+export async function register() {
+  // Edge Runtime ではジョブを実行しない
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { getJobRunner } = await import('@/lib/jobs/runner');
+  try {
+    await getJobRunner();
+  } catch (error) {
+    // 初期化に失敗した場合は次回のジョブAPIへのアクセス時に再試行
+    console.error('[Jobs] Failed to initialize job runner:', error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Ad Document Store Factory
+ *
+ * 保存方式はレポートと共通（REPORT_STORE: file | memory）
+ * - AD_DOCUMENT_STORE_PATH: file の保存先ディレクトリ（default: .cache/ad-documents）
+ */
+
+import type { IAdDocumentStore } from './interface';
+import { createFileAdDocumentStore, type FileAdDocumentStoreConfig } from './file-ad-document-store';
+import { getReportStoreBackend, type ReportStoreBackend } from '../report-store/factory';
+
+export interface AdDocumentStoreFactoryConfig {
+  /** 実装（省略時は REPORT_STORE 環境変数、未設定なら file） */
+  backend?: ReportStoreBackend;
+  /** FileAdDocumentStore設定（directory 省略時は AD_DOCUMENT_STORE_PATH） */
+  file?: FileAdDocumentStoreConfig;
+}
+
+/**
+ * Ad Document Storeを作成（接続は呼び出し側で connect() する）
+ */
+export function createAdDocumentStore(config: AdDocumentStoreFactoryConfig = {}): IAdDocumentStore {
+  const backend = config.backend || getReportStoreBackend();
+
+  return createFileAdDocumentStore({
+    directory: process.env.AD_DOCUMENT_STORE_PATH || undefined,
+    persist: backend === 'file',
+    ...config.file,
+  });
+}
+
+let globalAdDocumentStore: Promise<IAdDocumentStore> | null = null;
+
+/**
+ * Get or create global ad document store instance (connected)
+ */
+export function getAdDocumentStore(): Promise<IAdDocumentStore> {
+  if (!globalAdDocumentStore) {
+    const store = createAdDocumentStore();
+    globalAdDocumentStore = store.connect().then(() => store);
+
+    // 接続に失敗した場合は次回再試行
+    globalAdDocumentStore.catch(() => {
+      globalAdDocumentStore = null;
+    });
+  }
+
+  return globalAdDocumentStore;
+}
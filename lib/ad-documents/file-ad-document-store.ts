@@ -0,0 +1,132 @@
+/**
+ * File Ad Document Store Implementation
+ *
+ * 広告文書を1件ずつJSONファイルとして保存する組み込みのAd Document Store（外部DB不要）
+ *
+ * - 保存先: .cache/ad-documents/<documentId>.json（一時ファイルに書き込んでからリネーム）
+ * - 文書はメモリ上に保持し、変更時にファイルへ保存
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isValidReportId } from '../report-store/file-report-store';
+import type { AdDocument, IAdDocumentStore } from './interface';
+
+export interface FileAdDocumentStoreConfig {
+  /** 保存先ディレクトリ（default: .cache/ad-documents） */
+  directory?: string;
+  /** ファイルに保存するか（default: true、false の場合はメモリのみ） */
+  persist?: boolean;
+}
+
+/**
+ * デフォルトの保存先ディレクトリ
+ */
+export function getDefaultAdDocumentStoreDirectory(): string {
+  return path.join(process.cwd(), '.cache', 'ad-documents');
+}
+
+/**
+ * 文書IDの形式チェック（レポートIDと同じ、ファイル名として安全な形式）
+ */
+export function isValidAdDocumentId(id: string): boolean {
+  return isValidReportId(id);
+}
+
+/**
+ * File Ad Document Store Implementation
+ */
+export class FileAdDocumentStore implements IAdDocumentStore {
+  private documents = new Map<string, AdDocument>();
+  private connected = false;
+  private directory: string;
+  private persist: boolean;
+
+  constructor(config: FileAdDocumentStoreConfig = {}) {
+    this.directory = config.directory || getDefaultAdDocumentStoreDirectory();
+    this.persist = config.persist !== false;
+  }
+
+  async connect(): Promise<void> {
+    this.documents.clear();
+
+    if (this.persist && fs.existsSync(this.directory)) {
+      for (const fileName of fs.readdirSync(this.directory)) {
+        if (!fileName.endsWith('.json')) {
+          continue;
+        }
+
+        const filePath = path.join(this.directory, fileName);
+        try {
+          const document = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as AdDocument;
+          this.documents.set(document.id, document);
+        } catch (error) {
+          console.warn(`[FileAdDocumentStore] Skipped unreadable document (${filePath}): ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    this.connected = true;
+    console.log(`[FileAdDocumentStore] ✅ Connected (${this.persist ? this.directory : 'in-memory'}, ${this.documents.size} documents)`);
+  }
+
+  async save(document: AdDocument): Promise<void> {
+    this.assertConnected();
+
+    if (!isValidAdDocumentId(document.id)) {
+      throw new Error(`Invalid document ID: ${document.id}`);
+    }
+
+    if (this.persist) {
+      fs.mkdirSync(this.directory, { recursive: true });
+      const filePath = this.getFilePath(document.id);
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(document), 'utf-8');
+      fs.renameSync(tmpPath, filePath);
+    }
+
+    this.documents.set(document.id, document);
+  }
+
+  async get(id: string): Promise<AdDocument | null> {
+    this.assertConnected();
+    return this.documents.get(id) || null;
+  }
+
+  async list(): Promise<AdDocument[]> {
+    this.assertConnected();
+    return Array.from(this.documents.values())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.assertConnected();
+
+    if (!this.documents.delete(id)) {
+      return false;
+    }
+
+    if (this.persist) {
+      fs.rmSync(this.getFilePath(id), { force: true });
+    }
+    console.log(`[FileAdDocumentStore] Deleted document: ${id}`);
+    return true;
+  }
+
+  private getFilePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private assertConnected(): void {
+    if (!this.connected) {
+      throw new Error('Not connected to FileAdDocumentStore');
+    }
+  }
+}
+
+/**
+ * Factory function to create FileAdDocumentStore instance
+ */
+export function createFileAdDocumentStore(config: FileAdDocumentStoreConfig = {}): FileAdDocumentStore {
+  return new FileAdDocumentStore(config);
+}
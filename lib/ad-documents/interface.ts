@@ -0,0 +1,108 @@
+/**
+ * Ad Document Store Interface
+ *
+ * 広告文書（同じLPの改訂版をまとめたもの）と版（バージョン）の保存先を抽象化するインターフェース
+ */
+
+import type { SegmentEvaluation } from '../types-v2';
+import type { VersionComparison, VersionDiff, VersionSegment } from './version-diff';
+
+/**
+ * 版の状態
+ * - pending: 差分のみ計算済み（変更セグメントの評価待ち）
+ * - evaluated: 全セグメントの評価が揃っている（次の版の比較元になる）
+ */
+export type AdDocumentVersionStatus = 'pending' | 'evaluated';
+
+/**
+ * 広告文書の版
+ */
+export interface AdDocumentVersion {
+  /** 版番号（1始まり） */
+  version: number;
+
+  /** 状態 */
+  status: AdDocumentVersionStatus;
+
+  /** 広告文全体 */
+  text: string;
+
+  /** セグメント（本文のハッシュ付き） */
+  segments: VersionSegment[];
+
+  /** 提出エビデンスのハッシュ（エビデンスなしの場合は undefined）。比較元の版と異なる場合は主張のセグメントを再評価する */
+  evidenceHash?: string;
+
+  /** 比較元の版（初版の場合は undefined） */
+  baseVersion?: number;
+
+  /** 比較元の版とのセグメント差分 */
+  diff: VersionDiff;
+
+  /** 評価結果（pending の場合は引き継いだ評価のみ） */
+  evaluations: SegmentEvaluation[];
+
+  /** 比較元の版との違反の比較（evaluated かつ比較元がある場合） */
+  comparison?: VersionComparison;
+
+  /** 作成日時（ISO timestamp） */
+  createdAt: string;
+
+  /** 評価完了日時（ISO timestamp） */
+  evaluatedAt?: string;
+}
+
+/**
+ * 広告文書
+ */
+export interface AdDocument {
+  /** 文書ID */
+  id: string;
+
+  /** 商品ID（版ごとには変更できない） */
+  productId: string;
+
+  /** 文書名（任意） */
+  title?: string;
+
+  /** 版（版番号の昇順） */
+  versions: AdDocumentVersion[];
+
+  /** 作成日時（ISO timestamp） */
+  createdAt: string;
+
+  /** 更新日時（ISO timestamp） */
+  updatedAt: string;
+}
+
+/**
+ * Ad Document Store Interface
+ */
+export interface IAdDocumentStore {
+  /**
+   * 保存先を読み込み
+   */
+  connect(): Promise<void>;
+
+  /**
+   * 文書を保存（同じIDの文書は上書き）
+   */
+  save(document: AdDocument): Promise<void>;
+
+  /**
+   * 文書を取得（存在しない場合は null）
+   */
+  get(id: string): Promise<AdDocument | null>;
+
+  /**
+   * 文書一覧を取得（更新日時の新しい順）
+   */
+  list(): Promise<AdDocument[]>;
+
+  /**
+   * 文書を削除
+   *
+   * @returns 削除した場合 true、存在しない場合 false
+   */
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,123 @@
+/**
+ * 広告文の版間のセグメント差分・違反の比較のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  carryForwardEvaluations,
+  compareVersionViolations,
+  diffVersionSegments,
+  toVersionSegments,
+} from './version-diff';
+import type { Segment, SegmentEvaluation, Violation } from '../types-v2';
+
+const segments = (...texts: string[]): Segment[] => texts.map((text, i) => ({
+  id: `seg_${String(i + 1).padStart(3, '0')}`,
+  text,
+  type: 'claim',
+  position: { start: 0, end: text.length },
+}));
+
+const violation = (keyword: string): Violation => ({
+  type: '薬機法違反',
+  severity: 'high',
+  description: `「${keyword}」は承認された効能効果を逸脱しています`,
+  referenceKnowledge: { file: 'knowledge/HA/rules.txt', excerpt: null },
+  correctionSuggestion: '表現を修正してください',
+});
+
+const evaluation = (segmentId: string, violations: Violation[] = []): SegmentEvaluation => ({
+  segmentId,
+  compliance: violations.length === 0,
+  violations,
+  evaluatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('diffVersionSegments', () => {
+  it('should classify unchanged, changed, added and removed segments', () => {
+    const previous = toVersionSegments(segments('目元ケア', 'シワが消える', '今だけ半額', '送料無料'));
+    const current = toVersionSegments(segments('目元ケア', 'ハリを与える', '送料無料', '定期便あり'));
+
+    const diff = diffVersionSegments(previous, current);
+
+    expect(diff.segments.map(s => [s.segmentId, s.status, s.previousSegmentId])).toEqual([
+      ['seg_001', 'unchanged', 'seg_001'],
+      ['seg_002', 'changed', 'seg_002'],
+      ['seg_003', 'unchanged', 'seg_004'],
+      ['seg_004', 'added', undefined],
+    ]);
+    expect(diff.removedSegmentIds).toEqual(['seg_003']);
+    expect(diff.summary).toEqual({ unchanged: 2, changed: 1, added: 1, context: 0, removed: 1 });
+  });
+
+  it('should re-evaluate unchanged segments whose annotation changed', () => {
+    const previous = toVersionSegments(segments('クマ※1対策', '※1 乾燥による暗い目の下'));
+    const current = toVersionSegments(segments('クマ※1対策', '※1 目の下の黒ずみ'));
+
+    const diff = diffVersionSegments(previous, current);
+
+    expect(diff.segments[0]).toMatchObject({ status: 'context', previousSegmentId: 'seg_001' });
+    expect(diff.segments[0].reason).toContain('※1');
+    expect(diff.segments[1].status).toBe('changed');
+  });
+});
+
+describe('carryForwardEvaluations / compareVersionViolations', () => {
+  it('should carry forward unchanged verdicts and report fixed, new and open violations', () => {
+    const previousSegments = segments('シワが消える', '今だけ半額', '医師も推薦');
+    const currentSegments = segments('今だけ半額', 'ハリを与える', '医師も推薦', '最安値');
+    const previousEvaluations = [
+      evaluation('seg_001', [violation('シワが消える')]),
+      evaluation('seg_002', [violation('今だけ')]),
+      evaluation('seg_003', [violation('医師も推薦')]),
+    ];
+    const diff = diffVersionSegments(toVersionSegments(previousSegments), toVersionSegments(currentSegments));
+
+    const carried = carryForwardEvaluations(diff, { segments: previousSegments, evaluations: previousEvaluations }, currentSegments);
+    expect(carried.map(e => e.segmentId)).toEqual(['seg_001', 'seg_003']);
+    expect(carried[0].violations[0].description).toContain('今だけ');
+
+    const currentEvaluations = [
+      ...carried,
+      evaluation('seg_002'),
+      evaluation('seg_004', [violation('最安値')]),
+    ];
+    const comparison = compareVersionViolations(
+      { version: 1, segments: previousSegments, evaluations: previousEvaluations },
+      { version: 2, segments: currentSegments, evaluations: currentEvaluations },
+      diff
+    );
+
+    expect(comparison.fixed.map(c => c.segmentText)).toEqual(['シワが消える']);
+    expect(comparison.new.map(c => c.segmentText)).toEqual(['最安値']);
+    expect(comparison.open.map(c => [c.segmentId, c.previousSegmentId])).toEqual([
+      ['seg_001', 'seg_002'],
+      ['seg_003', 'seg_003'],
+    ]);
+  });
+
+  it('should shift carried violation spans by the distance the segment moved', () => {
+    const previousSegments: Segment[] = [
+      { id: 'seg_001', text: 'シミが消える美容液', type: 'claim', position: { start: 0, end: 9 } },
+    ];
+    const currentSegments: Segment[] = [
+      { id: 'seg_001', text: '新登場！', type: 'claim', position: { start: 0, end: 4 } },
+      { id: 'seg_002', text: 'シミが消える美容液', type: 'claim', position: { start: 4, end: 13 } },
+    ];
+    const span = (text: string, start: number) => ({ start, end: start + text.length, text, source: 'keyword' as const });
+    const previousEvaluations: SegmentEvaluation[] = [{
+      ...evaluation('seg_001', [{ ...violation('シミが消える'), spans: [span('シミが消える', 0)] }]),
+      suppressedViolations: [{ ...violation('美容液'), spans: [span('美容液', 6)] }],
+    }];
+    const diff = diffVersionSegments(toVersionSegments(previousSegments), toVersionSegments(currentSegments));
+
+    const [carried] = carryForwardEvaluations(diff, { segments: previousSegments, evaluations: previousEvaluations }, currentSegments);
+
+    const fullText = '新登場！シミが消える美容液';
+    expect(carried.segmentId).toBe('seg_002');
+    expect(carried.violations[0].spans).toEqual([span('シミが消える', 4)]);
+    expect(carried.suppressedViolations?.[0].spans).toEqual([span('美容液', 10)]);
+    expect(fullText.slice(4, 10)).toBe('シミが消える');
+    expect(previousEvaluations[0].violations[0].spans).toEqual([span('シミが消える', 0)]);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Ad Document Version Diff
+ * 広告文の版（バージョン）間のセグメント差分と違反の比較
+ *
+ * - セグメント（RuleBasedSegmenter の出力）を本文のハッシュで前の版と対応付ける（LCS）
+ * - 対応が取れたセグメントは unchanged（前の版の評価を引き継ぐ）、
+ *   対応が取れない区間のセグメントは changed / added、前の版にしかないセグメントは removed
+ * - 本文が同じでも、参照している注釈（※1 など）の内容が変わったセグメントは context（再評価）
+ * - 提出エビデンスが変わった場合は、エビデンスと照合する主張のセグメントも context（再評価）
+ * - 違反は前の版の評価と比較し、fixed（解消）/ new（新規）/ open（継続）に分類する
+ */
+
+import crypto from 'crypto';
+import { extractAnnotationTexts, isAnnotationExplanationSegment } from '../annotation-analyzer';
+import { isEvidenceClaimSegment, type EvidenceDocument } from '../evidence-matcher';
+import { generateViolationKey } from '../utils/deduplication';
+import type { Segment, SegmentEvaluation, Violation } from '../types-v2';
+
+/**
+ * 版に保存するセグメント（本文のハッシュ付き）
+ */
+export interface VersionSegment extends Segment {
+  /** 本文のハッシュ（空白を正規化した sha256） */
+  hash: string;
+}
+
+/**
+ * セグメントの変更種別
+ * - unchanged: 前の版と同じ本文（評価を引き継ぐ）
+ * - changed: 前の版の対応するセグメントから本文が変わった
+ * - added: 新しく追加された
+ * - context: 本文は同じだが、参照している注釈の内容または提出エビデンスが変わった
+ */
+export type SegmentChangeStatus = 'unchanged' | 'changed' | 'added' | 'context';
+
+export interface SegmentChange {
+  /** 現在の版のセグメントID */
+  segmentId: string;
+  status: SegmentChangeStatus;
+  /** 対応する前の版のセグメントID（unchanged / changed / context） */
+  previousSegmentId?: string;
+  /** 再評価の理由（context の場合: 内容が変わった注釈マーカー・エビデンスの変更） */
+  reason?: string;
+}
+
+export interface VersionDiff {
+  /** 現在の版の各セグメントの変更種別（セグメント順） */
+  segments: SegmentChange[];
+  /** 前の版にのみ存在するセグメントID */
+  removedSegmentIds: string[];
+  summary: {
+    unchanged: number;
+    changed: number;
+    added: number;
+    context: number;
+    removed: number;
+  };
+}
+
+/**
+ * 版間の違反の変化
+ * - fixed: 前の版にあり、現在の版で解消された
+ * - new: 現在の版で新たに検出された
+ * - open: 前の版から継続している
+ */
+export type ViolationChangeStatus = 'fixed' | 'new' | 'open';
+
+export interface ViolationChange {
+  status: ViolationChangeStatus;
+  /** 現在の版のセグメントID（fixed の場合は前の版のセグメントID） */
+  segmentId: string;
+  /** 前の版のセグメントID（fixed / open） */
+  previousSegmentId?: string;
+  /** セグメント本文（fixed の場合は前の版の本文） */
+  segmentText: string;
+  violation: Violation;
+}
+
+export interface VersionComparison {
+  /** 比較元の版 */
+  fromVersion: number;
+  /** 比較先の版 */
+  toVersion: number;
+  fixed: ViolationChange[];
+  new: ViolationChange[];
+  open: ViolationChange[];
+}
+
+/**
+ * セグメント本文のハッシュ（空白の違いは無視）
+ */
+export function hashSegmentText(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * 提出エビデンスのハッシュ（エビデンスがない場合は undefined）
+ */
+export function hashEvidenceDocuments(documents: EvidenceDocument[] | undefined): string | undefined {
+  if (!documents || documents.length === 0) {
+    return undefined;
+  }
+  const normalized = documents.map(d => [d.id ?? '', d.title ?? '', d.kind ?? '', d.text.replace(/\s+/g, ' ').trim()]);
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * セグメントに本文のハッシュを付与
+ */
+export function toVersionSegments(segments: Segment[]): VersionSegment[] {
+  return segments.map(segment => ({ ...segment, hash: hashSegmentText(segment.text) }));
+}
+
+/**
+ * 前の版と現在の版のセグメント差分
+ *
+ * @param previous - 前の版のセグメント（初版の場合は空配列）
+ * @param current - 現在の版のセグメント
+ * @param options.evidenceChanged - 前の版から提出エビデンスが変わった（主張のセグメントを再評価する）
+ */
+export function diffVersionSegments(
+  previous: VersionSegment[],
+  current: VersionSegment[],
+  options: { evidenceChanged?: boolean } = {}
+): VersionDiff {
+  const pairs = longestCommonSubsequence(previous.map(s => s.hash), current.map(s => s.hash));
+  const changedMarkers = getChangedAnnotationMarkers(previous, current);
+
+  const segments: SegmentChange[] = [];
+  const removedSegmentIds: string[] = [];
+  let prevIndex = 0;
+  let currIndex = 0;
+
+  // 一致したセグメントの間の区間を順に対応付ける（末尾は番兵）
+  for (const [prevAnchor, currAnchor] of [...pairs, [previous.length, current.length] as const]) {
+    const unmatchedPrevious = previous.slice(prevIndex, prevAnchor);
+    const unmatchedCurrent = current.slice(currIndex, currAnchor);
+
+    unmatchedCurrent.forEach((segment, i) => {
+      const counterpart = unmatchedPrevious[i];
+      segments.push(counterpart
+        ? { segmentId: segment.id, status: 'changed', previousSegmentId: counterpart.id }
+        : { segmentId: segment.id, status: 'added' });
+    });
+    removedSegmentIds.push(...unmatchedPrevious.slice(unmatchedCurrent.length).map(s => s.id));
+
+    if (currAnchor < current.length) {
+      const segment = current[currAnchor];
+      const previousSegmentId = previous[prevAnchor].id;
+      const affectedMarkers = (segment.text.match(/(?:※|\*|注)\d+/g) || []).filter(marker => changedMarkers.has(marker));
+
+      if (affectedMarkers.length > 0) {
+        segments.push({ segmentId: segment.id, status: 'context', previousSegmentId, reason: `注釈 ${Array.from(new Set(affectedMarkers)).join('・')} の内容が変更されました` });
+      } else if (options.evidenceChanged && isEvidenceClaimSegment(segment)) {
+        segments.push({ segmentId: segment.id, status: 'context', previousSegmentId, reason: '提出エビデンスが変更されました' });
+      } else {
+        segments.push({ segmentId: segment.id, status: 'unchanged', previousSegmentId });
+      }
+    }
+
+    prevIndex = prevAnchor + 1;
+    currIndex = currAnchor + 1;
+  }
+
+  const count = (status: SegmentChangeStatus) => segments.filter(s => s.status === status).length;
+
+  return {
+    segments,
+    removedSegmentIds,
+    summary: {
+      unchanged: count('unchanged'),
+      changed: count('changed'),
+      added: count('added'),
+      context: count('context'),
+      removed: removedSegmentIds.length,
+    },
+  };
+}
+
+/**
+ * unchanged のセグメントについて、前の版の評価を現在の版のセグメントIDで引き継ぐ
+ *
+ * 違反の検出位置（spans）は本文全体での位置のため、セグメントの移動量だけずらす。
+ */
+export function carryForwardEvaluations(
+  diff: VersionDiff,
+  previous: { segments: Segment[]; evaluations: SegmentEvaluation[] },
+  currentSegments: Segment[]
+): SegmentEvaluation[] {
+  const evaluationMap = new Map(previous.evaluations.map(e => [e.segmentId, e]));
+  const previousStarts = new Map(previous.segments.map(s => [s.id, s.position.start]));
+  const currentStarts = new Map(currentSegments.map(s => [s.id, s.position.start]));
+
+  return diff.segments.flatMap(change => {
+    const evaluation = change.status === 'unchanged' && change.previousSegmentId
+      ? evaluationMap.get(change.previousSegmentId)
+      : undefined;
+    if (!evaluation) {
+      return [];
+    }
+
+    const offset = (currentStarts.get(change.segmentId) ?? 0) - (previousStarts.get(change.previousSegmentId!) ?? 0);
+    return [{
+      ...evaluation,
+      segmentId: change.segmentId,
+      violations: shiftViolationSpans(evaluation.violations, offset),
+      ...(evaluation.waivedViolations && { waivedViolations: shiftViolationSpans(evaluation.waivedViolations, offset) }),
+      ...(evaluation.suppressedViolations && { suppressedViolations: shiftViolationSpans(evaluation.suppressedViolations, offset) }),
+    }];
+  });
+}
+
+/**
+ * 違反の検出位置を offset 文字ずらす
+ */
+function shiftViolationSpans(violations: Violation[], offset: number): Violation[] {
+  if (offset === 0) {
+    return violations;
+  }
+  return violations.map(violation => violation.spans
+    ? { ...violation, spans: violation.spans.map(span => ({ ...span, start: span.start + offset, end: span.end + offset })) }
+    : violation);
+}
+
+/**
+ * 前の版と現在の版の違反を比較
+ *
+ * 違反は重複除去と同じキー（キーワード・参照ファイル）で同一視する。
+ * 同じセグメント（前の版の対応セグメント）の違反を優先して対応付け、
+ * セグメントが移動・分割された場合も文書内の同じ違反は open とする。
+ */
+export function compareVersionViolations(
+  previous: { version: number; segments: Segment[]; evaluations: SegmentEvaluation[] },
+  current: { version: number; segments: Segment[]; evaluations: SegmentEvaluation[] },
+  diff: VersionDiff
+): VersionComparison {
+  const previousTexts = new Map(previous.segments.map(s => [s.id, s.text]));
+  const currentTexts = new Map(current.segments.map(s => [s.id, s.text]));
+  const counterparts = new Map(diff.segments.map(change => [change.segmentId, change.previousSegmentId]));
+
+  // 前の版の違反（キーごと、未対応のもの）
+  const remaining = new Map<string, Array<{ segmentId: string; violation: Violation }>>();
+  for (const evaluation of previous.evaluations) {
+    for (const violation of evaluation.violations) {
+      const key = generateViolationKey(violation);
+      remaining.set(key, [...(remaining.get(key) || []), { segmentId: evaluation.segmentId, violation }]);
+    }
+  }
+
+  const comparison: VersionComparison = {
+    fromVersion: previous.version,
+    toVersion: current.version,
+    fixed: [],
+    new: [],
+    open: [],
+  };
+
+  for (const evaluation of current.evaluations) {
+    const segmentText = currentTexts.get(evaluation.segmentId) || '';
+
+    for (const violation of evaluation.violations) {
+      const candidates = remaining.get(generateViolationKey(violation)) || [];
+      const counterpart = counterparts.get(evaluation.segmentId);
+      const matchIndex = Math.max(candidates.findIndex(c => c.segmentId === counterpart), 0);
+      const match = candidates.length > 0 ? candidates.splice(matchIndex, 1)[0] : undefined;
+
+      if (match) {
+        comparison.open.push({ status: 'open', segmentId: evaluation.segmentId, previousSegmentId: match.segmentId, segmentText, violation });
+      } else {
+        comparison.new.push({ status: 'new', segmentId: evaluation.segmentId, segmentText, violation });
+      }
+    }
+  }
+
+  for (const candidates of remaining.values()) {
+    for (const { segmentId, violation } of candidates) {
+      comparison.fixed.push({
+        status: 'fixed',
+        segmentId,
+        previousSegmentId: segmentId,
+        segmentText: previousTexts.get(segmentId) || '',
+        violation,
+      });
+    }
+  }
+
+  return comparison;
+}
+
+/**
+ * ハッシュ列の最長共通部分列（対応するインデックスの組を昇順で返す）
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Array<readonly [number, number]> {
+  // lengths[i][j] = a[i..], b[j..] のLCS長
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<readonly [number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * 版の間で内容が変わった注釈マーカー（追加・削除を含む）
+ *
+ * 注釈の説明文セグメント（※1 で始まるセグメント）の内容を比較する。
+ * 広告本文と同じセグメント内の注釈は、そのセグメント自体の変更として検出される。
+ */
+function getChangedAnnotationMarkers(previous: Segment[], current: Segment[]): Set<string> {
+  const previousAnnotations = collectAnnotationTexts(previous);
+  const currentAnnotations = collectAnnotationTexts(current);
+  const markers = new Set([...previousAnnotations.keys(), ...currentAnnotations.keys()]);
+
+  return new Set(Array.from(markers).filter(marker => previousAnnotations.get(marker) !== currentAnnotations.get(marker)));
+}
+
+function collectAnnotationTexts(segments: Segment[]): Map<string, string> {
+  const annotationText = segments.filter(isAnnotationExplanationSegment).map(s => s.text).join('\n');
+  const annotations = new Map<string, string>();
+
+  for (const annotation of extractAnnotationTexts(annotationText, 'fullText')) {
+    const existing = annotations.get(annotation.marker);
+    annotations.set(annotation.marker, existing ? `${existing}\n${annotation.text}` : annotation.text);
+  }
+  return annotations;
+}
@@ -0,0 +1,88 @@
+/**
+ * 広告文書の版の追加・評価結果の確定のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AdDocumentVersionError,
+  addAdDocumentVersion,
+  completeAdDocumentVersion,
+  createAdDocument,
+} from './versioning';
+import type { Segment, SegmentEvaluation } from '../types-v2';
+
+const segments = (...texts: string[]): Segment[] => texts.map((text, i) => ({
+  id: `seg_${String(i + 1).padStart(3, '0')}`,
+  text,
+  type: 'claim',
+  position: { start: 0, end: text.length },
+}));
+
+const evaluate = (segment: Segment, keyword?: string): SegmentEvaluation => ({
+  segmentId: segment.id,
+  compliance: !keyword,
+  violations: keyword
+    ? [{
+        type: '景表法違反',
+        severity: 'high',
+        description: `「${keyword}」は有利誤認のおそれがあります`,
+        referenceKnowledge: { file: 'knowledge/common/景表法.txt', excerpt: null },
+        correctionSuggestion: '削除してください',
+      }]
+    : [],
+  evaluatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('addAdDocumentVersion / completeAdDocumentVersion', () => {
+  it('should only ask for changed segments and compare violations with the previous version', () => {
+    let document = createAdDocument('HA', 'LP');
+
+    // v1: 全セグメントを評価
+    const v1Segments = segments('目元ケア', '今だけ半額');
+    const v1 = addAdDocumentVersion(document, '目元ケア\n今だけ半額', v1Segments);
+    expect(v1.segmentsToEvaluate).toHaveLength(2);
+    document = completeAdDocumentVersion(v1.document, 1, [evaluate(v1Segments[0]), evaluate(v1Segments[1], '今だけ')]).document;
+
+    // v2: 変更したセグメントのみ評価
+    const v2Segments = segments('目元ケア', '定期便で最安値');
+    const v2 = addAdDocumentVersion(document, '目元ケア\n定期便で最安値', v2Segments);
+    expect(v2.version).toMatchObject({ version: 2, status: 'pending', baseVersion: 1 });
+    expect(v2.segmentsToEvaluate.map(s => s.id)).toEqual(['seg_002']);
+
+    expect(() => completeAdDocumentVersion(v2.document, 2, [])).toThrow(AdDocumentVersionError);
+
+    const completed = completeAdDocumentVersion(v2.document, 2, [evaluate(v2Segments[1], '最安値')]);
+    expect(completed.version.status).toBe('evaluated');
+    expect(completed.version.evaluations.map(e => e.segmentId)).toEqual(['seg_001', 'seg_002']);
+    expect(completed.version.comparison?.fixed).toHaveLength(1);
+    expect(completed.version.comparison?.new).toHaveLength(1);
+    expect(completed.version.comparison?.open).toHaveLength(0);
+
+    // v3: 変更なしの場合はその場で確定
+    const v3 = addAdDocumentVersion(completed.document, '目元ケア\n定期便で最安値', v2Segments);
+    expect(v3.segmentsToEvaluate).toHaveLength(0);
+    expect(v3.version.status).toBe('evaluated');
+    expect(v3.version.comparison?.open).toHaveLength(1);
+    expect(() => completeAdDocumentVersion(v3.document, 3, [])).toThrow(/already evaluated/);
+  });
+
+  it('should re-evaluate claim segments when the submitted evidence changes', () => {
+    const text = '売上No.1※1\n※1 2024年 自社調べ';
+    const v1Segments = segments('売上No.1※1', '※1 2024年 自社調べ');
+    const v1 = addAdDocumentVersion(createAdDocument('HA'), text, v1Segments);
+    const document = completeAdDocumentVersion(v1.document, 1, v1Segments.map(s => evaluate(s))).document;
+
+    // エビデンスを追加: 主張のセグメントのみ再評価（注釈説明文は引き継ぐ）
+    const evidence = [{ title: '販売実績', text: '2024年 売上No.1（自社調べ）' }];
+    const v2 = addAdDocumentVersion(document, text, v1Segments, evidence);
+    expect(v2.segmentsToEvaluate.map(s => s.id)).toEqual(['seg_001']);
+    expect(v2.version.diff.segments[0]).toMatchObject({ status: 'context', reason: '提出エビデンスが変更されました' });
+    expect(v2.version.diff.segments[1].status).toBe('unchanged');
+    expect(v2.version.evidenceHash).toBeDefined();
+
+    // 同じエビデンスの場合は全て引き継ぐ
+    const completed = completeAdDocumentVersion(v2.document, 2, [evaluate(v1Segments[0])]);
+    const v3 = addAdDocumentVersion(completed.document, text, v1Segments, [...evidence]);
+    expect(v3.segmentsToEvaluate).toHaveLength(0);
+  });
+});
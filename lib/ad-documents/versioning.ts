@@ -0,0 +1,181 @@
+/**
+ * Ad Document Versioning
+ * 広告文書の版の追加（差分計算・評価の引き継ぎ）と評価結果の確定
+ *
+ * 1. addAdDocumentVersion: 新しい版をセグメント分割結果から作成し、直近の評価済みの版と比較。
+ *    変更のないセグメントは評価を引き継ぎ、再評価が必要なセグメント（segmentsToEvaluate）を返す
+ * 2. completeAdDocumentVersion: segmentsToEvaluate の評価結果（evaluate-batch の出力）を受け取り、
+ *    引き継いだ評価と統合して版を確定。比較元の版との違反の比較（fixed / new / open）を作成する
+ */
+
+import type { EvidenceDocument } from '../evidence-matcher';
+import type { Segment, SegmentEvaluation } from '../types-v2';
+import type { AdDocument, AdDocumentVersion } from './interface';
+import {
+  carryForwardEvaluations,
+  compareVersionViolations,
+  diffVersionSegments,
+  hashEvidenceDocuments,
+  toVersionSegments,
+} from './version-diff';
+
+/**
+ * 版の操作エラー（status は APIのHTTPステータス）
+ */
+export class AdDocumentVersionError extends Error {
+  readonly status: 400 | 404 | 409;
+
+  constructor(message: string, status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'AdDocumentVersionError';
+    this.status = status;
+  }
+}
+
+export interface AddVersionResult {
+  document: AdDocument;
+  version: AdDocumentVersion;
+  /** 再評価が必要なセグメント（changed / added / context） */
+  segmentsToEvaluate: Segment[];
+}
+
+/**
+ * 文書IDを生成
+ */
+export function generateAdDocumentId(): string {
+  return `doc_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * 新しい広告文書を作成（版なし）
+ */
+export function createAdDocument(productId: string, title?: string): AdDocument {
+  const now = new Date().toISOString();
+  return {
+    id: generateAdDocumentId(),
+    productId,
+    ...(title && { title }),
+    versions: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 直近の評価済みの版（比較元）
+ */
+export function getLatestEvaluatedVersion(document: AdDocument): AdDocumentVersion | undefined {
+  return [...document.versions].reverse().find(v => v.status === 'evaluated');
+}
+
+/**
+ * 新しい版を追加
+ *
+ * 最新の版が評価待ち（pending）の場合は、その版を置き換える。
+ * 再評価が必要なセグメントがない場合は、その場で評価済みになる。
+ *
+ * @param segments - RuleBasedSegmenter で分割したセグメント
+ * @param evidence - 提出エビデンス（評価時に evaluate-batch に渡すものと同じ）。比較元の版と異なる場合は主張のセグメントを再評価する
+ */
+export function addAdDocumentVersion(
+  document: AdDocument,
+  text: string,
+  segments: Segment[],
+  evidence?: EvidenceDocument[]
+): AddVersionResult {
+  const base = getLatestEvaluatedVersion(document);
+  const versions = document.versions.filter(v => v.status === 'evaluated');
+  const versionSegments = toVersionSegments(segments);
+  const evidenceHash = hashEvidenceDocuments(evidence);
+
+  const diff = diffVersionSegments(base?.segments || [], versionSegments, {
+    evidenceChanged: base !== undefined && base.evidenceHash !== evidenceHash,
+  });
+  const carried = base ? carryForwardEvaluations(diff, base, versionSegments) : [];
+  const carriedIds = new Set(carried.map(e => e.segmentId));
+  const segmentsToEvaluate = segments.filter(s => !carriedIds.has(s.id));
+
+  const now = new Date().toISOString();
+  let version: AdDocumentVersion = {
+    version: (versions[versions.length - 1]?.version || 0) + 1,
+    status: 'pending',
+    text,
+    segments: versionSegments,
+    ...(evidenceHash && { evidenceHash }),
+    ...(base && { baseVersion: base.version }),
+    diff,
+    evaluations: carried,
+    createdAt: now,
+  };
+
+  if (segmentsToEvaluate.length === 0) {
+    version = finalizeVersion(version, base, carried);
+  }
+
+  console.log(`[AdDocument] ${document.id} v${version.version}: ${segmentsToEvaluate.length}/${segments.length} segments to evaluate (unchanged: ${diff.summary.unchanged}, changed: ${diff.summary.changed}, added: ${diff.summary.added}, context: ${diff.summary.context}, removed: ${diff.summary.removed})`);
+
+  return {
+    document: { ...document, versions: [...versions, version], updatedAt: now },
+    version,
+    segmentsToEvaluate,
+  };
+}
+
+/**
+ * 評価待ちの版に評価結果を登録して確定
+ *
+ * @param evaluations - 再評価したセグメントの評価結果（引き継いだセグメントの評価は不要）
+ * @throws AdDocumentVersionError 版が存在しない（404）・評価済み（409）・評価が不足している（400）場合
+ */
+export function completeAdDocumentVersion(
+  document: AdDocument,
+  versionNumber: number,
+  evaluations: SegmentEvaluation[]
+): { document: AdDocument; version: AdDocumentVersion } {
+  const pending = document.versions.find(v => v.version === versionNumber);
+  if (!pending) {
+    throw new AdDocumentVersionError(`Version ${versionNumber} not found in document ${document.id}`, 404);
+  }
+  if (pending.status === 'evaluated') {
+    throw new AdDocumentVersionError(`Version ${versionNumber} of document ${document.id} is already evaluated`, 409);
+  }
+
+  // 引き継いだ評価より、送られた評価を優先
+  const evaluationMap = new Map([...pending.evaluations, ...evaluations].map(e => [e.segmentId, e]));
+  const missing = pending.segments.filter(s => !evaluationMap.has(s.id)).map(s => s.id);
+  if (missing.length > 0) {
+    throw new AdDocumentVersionError(`Missing evaluations for: ${missing.join(', ')}`, 400);
+  }
+
+  const base = pending.baseVersion !== undefined
+    ? document.versions.find(v => v.version === pending.baseVersion)
+    : undefined;
+  const version = finalizeVersion(pending, base, pending.segments.map(s => evaluationMap.get(s.id)!));
+
+  return {
+    document: {
+      ...document,
+      versions: document.versions.map(v => (v.version === versionNumber ? version : v)),
+      updatedAt: version.evaluatedAt!,
+    },
+    version,
+  };
+}
+
+function finalizeVersion(
+  version: AdDocumentVersion,
+  base: AdDocumentVersion | undefined,
+  evaluations: SegmentEvaluation[]
+): AdDocumentVersion {
+  const evaluated: AdDocumentVersion = {
+    ...version,
+    status: 'evaluated',
+    evaluations,
+    evaluatedAt: new Date().toISOString(),
+  };
+
+  if (base) {
+    evaluated.comparison = compareVersionViolations(base, evaluated, version.diff);
+  }
+  return evaluated;
+}
@@ -354,3 +354,26 @@ export function formatAnnotationAnalysis(result: AnnotationAnalysisResult): stri
 
   return lines.join('\n');
 }
+
+/**
+ * Check if a segment is an annotation explanation (reference material, not advertising text)
+ *
+ * Annotation explanation patterns:
+ * - "※1背爪表面に" - Starts with ※\d
+ * - "殺菌は消毒の作用機序として  ※2" - Ends with ※\d but no advertising keywords
+ * - "する薬用ジェル    ※1" - Short connector phrase ending with ※\d
+ *
+ * NOT annotation explanations (advertising text):
+ * - "爪の中まで浸透※1・殺菌※2する薬用ジェル" - Contains advertising claims
+ *
+ * Strategy: Only skip if segment starts with ※\d (clear annotation explanation)
+ */
+export function isAnnotationExplanationSegment(segment: { text: string }): boolean {
+  const trimmedText = segment.text.trim();
+
+  // Only skip segments that START with annotation markers (※1, ※2, etc.)
+  // These are clearly annotation explanation text, not advertising claims
+  const startsWithAnnotation = /^※\d/.test(trimmedText);
+
+  return startsWithAnnotation;
+}
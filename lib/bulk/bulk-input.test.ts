@@ -0,0 +1,55 @@
+/**
+ * 一括チェックのアップロードファイル（CSV / JSONL）の読み込みのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectBulkInputFormat, parseBulkInput, parseCsv } from './bulk-input';
+
+describe('parseCsv', () => {
+  it('handles quoted fields with commas, escaped quotes, newlines and a BOM', () => {
+    const csv = '\uFEFFad_id,text\r\nA1,"今だけ、半額!\n""限定""です"\r\n\r\nA2,plain\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['ad_id', 'text'],
+      ['A1', '今だけ、半額!\n"限定"です'],
+      ['A2', 'plain'],
+    ]);
+  });
+});
+
+describe('parseBulkInput', () => {
+  it('reads CSV rows, joins headline and body, and reports invalid rows', () => {
+    const csv = [
+      'ad_id,product_id,headline,body',
+      'A1,HA,シワが消える,ヒアルロン酸配合',
+      'A2,,見出し,本文',
+      'A1,HA,重複,本文',
+      'A3,HA,,',
+    ].join('\n');
+
+    const result = parseBulkInput(csv);
+
+    expect(result.format).toBe('csv');
+    expect(result.rows).toEqual([
+      { row: 1, adId: 'A1', productId: 'HA', text: 'シワが消える\nヒアルロン酸配合' },
+    ]);
+    expect(result.errors.map(e => [e.row, e.message])).toEqual([
+      [2, '商品IDがありません'],
+      [3, '広告IDが重複しています: A1'],
+      [4, '広告文がありません'],
+    ]);
+  });
+
+  it('reads JSONL with camelCase columns and reports unparsable lines', () => {
+    const jsonl = '{"adId": "B1", "productId": "SH", "text": "髪が生える"}\nnot json\n\n{"product_id": "SH", "text": "IDなし"}\n';
+
+    expect(detectBulkInputFormat(jsonl)).toBe('jsonl');
+    const result = parseBulkInput(jsonl, 'jsonl', { maxTextLength: 100 });
+
+    expect(result.rows).toEqual([
+      { row: 1, adId: 'B1', productId: 'SH', text: '髪が生える' },
+      { row: 4, adId: 'row-4', productId: 'SH', text: 'IDなし' },
+    ]);
+    expect(result.errors).toEqual([{ row: 2, message: 'JSONとして読み込めません' }]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Bulk Input
+ * 一括チェック（POST /api/v2/bulk）のアップロードファイルの読み込み
+ *
+ * 1行 = 1広告（広告ID・商品ID・広告文）。
+ *
+ * - CSV: 1行目はヘッダー。列名は ad_id / product_id / text（または headline + body）
+ *   （adId・productId、id も可）。ダブルクォートで囲んだ値は改行・カンマを含められる
+ * - JSONL: 1行に1つのJSONオブジェクト（列名はCSVと同じ）
+ *
+ * 不正な行はエラーとして返し、残りの行はチェックする。
+ */
+
+/**
+ * ファイル形式
+ */
+export type BulkInputFormat = 'csv' | 'jsonl';
+
+/**
+ * 一括チェックの1広告
+ */
+export interface BulkAdRow {
+  /** ファイル内の行番号（1始まり、CSVはヘッダー行を除く） */
+  row: number;
+  /** 広告ID */
+  adId: string;
+  /** 商品ID */
+  productId: string;
+  /** 広告文（headline + body の場合は改行で結合） */
+  text: string;
+}
+
+/**
+ * 読み込めなかった行
+ */
+export interface BulkInputError {
+  row: number;
+  adId?: string;
+  message: string;
+}
+
+export interface BulkInputParseResult {
+  format: BulkInputFormat;
+  rows: BulkAdRow[];
+  errors: BulkInputError[];
+}
+
+export interface BulkInputOptions {
+  /** 1広告の最大文字数（default: 5000、/api/v2/segment と同じ） */
+  maxTextLength?: number;
+}
+
+const COLUMN_ALIASES: Record<'adId' | 'productId' | 'text' | 'headline' | 'body', string[]> = {
+  adId: ['ad_id', 'adid', 'id'],
+  productId: ['product_id', 'productid', 'product'],
+  text: ['text', 'full_text', 'ad_text'],
+  headline: ['headline', 'title'],
+  body: ['body', 'description'],
+};
+
+/**
+ * ファイル名・内容からファイル形式を判定（.jsonl / .ndjson、または先頭が { の場合は JSONL）
+ */
+export function detectBulkInputFormat(content: string, fileName?: string): BulkInputFormat {
+  if (fileName && /\.(jsonl|ndjson)$/i.test(fileName)) {
+    return 'jsonl';
+  }
+  if (fileName && /\.csv$/i.test(fileName)) {
+    return 'csv';
+  }
+  return stripBom(content).trimStart().startsWith('{') ? 'jsonl' : 'csv';
+}
+
+/**
+ * CSVを行・列に分割（RFC 4180: ダブルクォート内の改行・カンマ、"" のエスケープ）
+ */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = stripBom(content);
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // 空行を除外
+  return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * アップロードファイルを読み込み
+ */
+export function parseBulkInput(
+  content: string,
+  format: BulkInputFormat = detectBulkInputFormat(content),
+  options: BulkInputOptions = {}
+): BulkInputParseResult {
+  const maxTextLength = options.maxTextLength ?? 5000;
+  const records = format === 'jsonl' ? readJsonl(content) : readCsv(content);
+
+  const rows: BulkAdRow[] = [];
+  const errors: BulkInputError[] = [];
+  const seenAdIds = new Set<string>();
+
+  for (const record of records) {
+    if ('error' in record) {
+      errors.push({ row: record.row, message: record.error });
+      continue;
+    }
+
+    const { row, values } = record;
+    const adId = pick(values, 'adId') || `row-${row}`;
+    const productId = pick(values, 'productId');
+    const text = pick(values, 'text') || [pick(values, 'headline'), pick(values, 'body')].filter(Boolean).join('\n');
+
+    const message = !productId
+      ? '商品IDがありません'
+      : !text
+        ? '広告文がありません'
+        : text.length > maxTextLength
+          ? `広告文が${maxTextLength.toLocaleString()}文字を超えています（${text.length}文字）`
+          : seenAdIds.has(adId)
+            ? `広告IDが重複しています: ${adId}`
+            : undefined;
+
+    if (message) {
+      errors.push({ row, adId, message });
+      continue;
+    }
+
+    seenAdIds.add(adId);
+    rows.push({ row, adId, productId: productId!, text });
+  }
+
+  return { format, rows, errors };
+}
+
+type InputRecord = { row: number; values: Record<string, string> } | { row: number; error: string };
+
+function readCsv(content: string): InputRecord[] {
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  return records.map((values, index) => ({
+    row: index + 1,
+    values: Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ''])),
+  }));
+}
+
+function readJsonl(content: string): InputRecord[] {
+  return stripBom(content)
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), row: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, row }): InputRecord => {
+      try {
+        const value = JSON.parse(line);
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          return { row, error: 'JSONオブジェクトではありません' };
+        }
+        return {
+          row,
+          values: Object.fromEntries(Object.entries(value)
+            .filter(([, v]) => typeof v === 'string' || typeof v === 'number')
+            .map(([k, v]) => [k.toLowerCase(), String(v)])),
+        };
+      } catch {
+        return { row, error: 'JSONとして読み込めません' };
+      }
+    });
+}
+
+function pick(values: Record<string, string>, field: keyof typeof COLUMN_ALIASES): string {
+  for (const alias of COLUMN_ALIASES[field]) {
+    const value = values[alias]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return '';
+}
+
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
@@ -0,0 +1,74 @@
+/**
+ * 一括チェックの結果（広告ごとの結果・集計・CSV出力）のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatBulkResultsCsv, summarizeBulkResults, toBulkAdResult } from './bulk-results';
+import type { EvaluationJob } from '../jobs/interface';
+import type { Violation } from '../types-v2';
+
+function makeJob(adId: string, status: EvaluationJob['status'], violations: Partial<Violation>[] = []): EvaluationJob {
+  return {
+    id: `job_${adId}`,
+    status,
+    step: 'report',
+    input: { text: '広告文', productId: 'HA' },
+    bulk: { id: 'bulk_1', adId, row: Number(adId.slice(1)) },
+    batchSize: 20,
+    completedBatches: 1,
+    evaluations: [{
+      segmentId: 'seg_1',
+      compliance: violations.length === 0,
+      violations: violations.map(v => ({
+        type: '薬機法違反',
+        severity: 'high',
+        description: '「シワが消える」は効能効果の範囲外です',
+        referenceKnowledge: { file: 'knowledge.md', excerpt: '' },
+        correctionSuggestion: '',
+        ...v,
+      })) as Violation[],
+      evaluatedAt: '2024-01-01T00:00:00.000Z',
+      processingTimeMs: 0,
+    }],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  } as EvaluationJob;
+}
+
+describe('bulk results', () => {
+  const spans = [{ start: 0, end: 6, text: 'シワが消える', source: 'keyword' as const }];
+  const jobs = [
+    makeJob('A1', 'completed', [{ spans }, { type: '景表法違反', severity: 'medium', description: '「No.1」の根拠がありません' }]),
+    makeJob('A2', 'completed', [{ spans, severity: 'critical' }]),
+    makeJob('A3', 'completed'),
+    makeJob('A4', 'running', [{ spans }]),
+  ];
+
+  it('counts violations by type and ranks issues shared across ads', () => {
+    const results = jobs.map(toBulkAdResult);
+
+    expect(results.map(r => r.status)).toEqual(['non_compliant', 'non_compliant', 'compliant', 'running']);
+    expect(results[0].violationsByType).toMatchObject({ '薬機法違反': 1, '景表法違反': 1 });
+    expect(results[3].totalViolations).toBe(0);
+
+    const summary = summarizeBulkResults(results);
+    expect(summary).toMatchObject({ total: 4, finished: 3 });
+    expect(summary.byStatus).toMatchObject({ compliant: 1, non_compliant: 2, running: 1 });
+    expect(summary.violationsByType['薬機法違反']).toBe(2);
+    expect(summary.topIssues[0]).toMatchObject({
+      type: '薬機法違反',
+      expression: 'シワが消える',
+      severity: 'critical',
+      adCount: 2,
+      adIds: ['A1', 'A2'],
+    });
+  });
+
+  it('formats per-ad results as CSV with a column per violation type', () => {
+    const csv = formatBulkResultsCsv(jobs.slice(0, 1).map(toBulkAdResult));
+    const [header, row] = csv.trim().split('\r\n');
+
+    expect(header).toBe('row,ad_id,product_id,status,total_violations,社内基準違反,薬機法違反,景表法違反,特商法違反,その他,top_issues,report_id,error');
+    expect(row).toBe('1,A1,HA,non_compliant,2,0,1,1,0,0,[high] 薬機法違反「シワが消える」 / [medium] 景表法違反: 「No.1」の根拠がありません,,');
+  });
+});
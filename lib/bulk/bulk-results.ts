@@ -0,0 +1,242 @@
+/**
+ * Bulk Results
+ * 一括チェックの結果（広告ごとの状態・違反数・主な指摘）と集計
+ *
+ * 一括チェックの各行は非同期ジョブ（lib/jobs）として実行し、ジョブの評価結果から結果を作成する。
+ * ダウンロード用に CSV / JSONL へ変換する。
+ */
+
+import type { EvaluationJob } from '../jobs/interface';
+import type { Violation, ViolationSeverity, ViolationType } from '../types-v2';
+
+/**
+ * 広告ごとの状態
+ */
+export type BulkAdStatus = 'queued' | 'running' | 'compliant' | 'non_compliant' | 'failed' | 'cancelled';
+
+/**
+ * 主な指摘（違反の種類と該当表現）
+ */
+export interface BulkIssue {
+  type: ViolationType;
+  severity: ViolationSeverity;
+  /** 該当表現（違反箇所の本文、特定できない場合は省略） */
+  expression?: string;
+  description: string;
+}
+
+/**
+ * 広告ごとの結果
+ */
+export interface BulkAdResult {
+  row: number;
+  adId: string;
+  productId: string;
+  status: BulkAdStatus;
+  totalViolations: number;
+  violationsByType: Record<ViolationType, number>;
+  violationsBySeverity: Record<ViolationSeverity, number>;
+  /** 重要度の高い順の指摘（最大 TOP_ISSUES_PER_AD 件） */
+  topIssues: BulkIssue[];
+  jobId: string;
+  reportId?: string;
+  error?: string;
+}
+
+/**
+ * 複数の広告に共通する指摘
+ */
+export interface BulkIssueSummary extends BulkIssue {
+  /** 該当する広告の数 */
+  adCount: number;
+  /** 該当する広告ID（最大10件） */
+  adIds: string[];
+}
+
+/**
+ * 一括チェックの集計
+ */
+export interface BulkSummary {
+  total: number;
+  /** 終了した広告の数（適合・要修正・失敗・キャンセル） */
+  finished: number;
+  byStatus: Record<BulkAdStatus, number>;
+  violationsByType: Record<ViolationType, number>;
+  violationsBySeverity: Record<ViolationSeverity, number>;
+  byProduct: Record<string, { total: number; compliant: number; nonCompliant: number }>;
+  /** 該当する広告の多い順の指摘（最大 TOP_ISSUES 件） */
+  topIssues: BulkIssueSummary[];
+}
+
+export const TOP_ISSUES_PER_AD = 3;
+export const TOP_ISSUES = 10;
+
+export const VIOLATION_TYPES: ViolationType[] = ['社内基準違反', '薬機法違反', '景表法違反', '特商法違反', 'その他'];
+
+const SEVERITY_RANK: Record<ViolationSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+function emptyTypeCounts(): Record<ViolationType, number> {
+  return { '社内基準違反': 0, '薬機法違反': 0, '景表法違反': 0, '特商法違反': 0, 'その他': 0 };
+}
+
+function emptySeverityCounts(): Record<ViolationSeverity, number> {
+  return { critical: 0, high: 0, medium: 0, low: 0 };
+}
+
+function toIssue(violation: Violation): BulkIssue {
+  const expression = violation.spans?.[0]?.text;
+  return {
+    type: violation.type,
+    severity: violation.severity,
+    ...(expression && { expression }),
+    description: violation.description,
+  };
+}
+
+function issueKey(issue: BulkIssue): string {
+  return `${issue.type}|${issue.expression ?? issue.description}`;
+}
+
+/**
+ * 一括チェックの1行のジョブから広告ごとの結果を作成
+ *
+ * 違反数は評価が完了したジョブのみ集計する（途中のジョブは 0）。
+ */
+export function toBulkAdResult(job: EvaluationJob): BulkAdResult {
+  const violationsByType = emptyTypeCounts();
+  const violationsBySeverity = emptySeverityCounts();
+  const completed = job.status === 'completed';
+  const violations = completed ? job.evaluations.flatMap(e => e.violations) : [];
+
+  for (const violation of violations) {
+    violationsByType[violation.type]++;
+    violationsBySeverity[violation.severity]++;
+  }
+
+  const topIssues: BulkIssue[] = [];
+  const seen = new Set<string>();
+  for (const violation of [...violations].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])) {
+    const issue = toIssue(violation);
+    if (!seen.has(issueKey(issue)) && topIssues.length < TOP_ISSUES_PER_AD) {
+      seen.add(issueKey(issue));
+      topIssues.push(issue);
+    }
+  }
+
+  const status: BulkAdStatus = job.status !== 'completed'
+    ? job.status
+    : (violations.length === 0 ? 'compliant' : 'non_compliant');
+
+  return {
+    row: job.bulk?.row ?? 0,
+    adId: job.bulk?.adId ?? job.id,
+    productId: job.input.productId,
+    status,
+    totalViolations: violations.length,
+    violationsByType,
+    violationsBySeverity,
+    topIssues,
+    jobId: job.id,
+    ...(job.reportId && { reportId: job.reportId }),
+    ...(job.error && { error: job.error }),
+  };
+}
+
+/**
+ * 広告ごとの結果を集計
+ */
+export function summarizeBulkResults(results: BulkAdResult[]): BulkSummary {
+  const byStatus: Record<BulkAdStatus, number> = {
+    queued: 0, running: 0, compliant: 0, non_compliant: 0, failed: 0, cancelled: 0,
+  };
+  const violationsByType = emptyTypeCounts();
+  const violationsBySeverity = emptySeverityCounts();
+  const byProduct: BulkSummary['byProduct'] = {};
+  const issues = new Map<string, BulkIssueSummary>();
+
+  for (const result of results) {
+    byStatus[result.status]++;
+
+    const product = byProduct[result.productId] ||= { total: 0, compliant: 0, nonCompliant: 0 };
+    product.total++;
+    if (result.status === 'compliant') product.compliant++;
+    if (result.status === 'non_compliant') product.nonCompliant++;
+
+    for (const type of VIOLATION_TYPES) {
+      violationsByType[type] += result.violationsByType[type];
+    }
+    for (const severity of Object.keys(violationsBySeverity) as ViolationSeverity[]) {
+      violationsBySeverity[severity] += result.violationsBySeverity[severity];
+    }
+
+    for (const issue of result.topIssues) {
+      const key = issueKey(issue);
+      const summary = issues.get(key);
+      if (!summary) {
+        issues.set(key, { ...issue, adCount: 1, adIds: [result.adId] });
+        continue;
+      }
+      summary.adCount++;
+      if (summary.adIds.length < 10) summary.adIds.push(result.adId);
+      if (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[summary.severity]) summary.severity = issue.severity;
+    }
+  }
+
+  const topIssues = Array.from(issues.values())
+    .sort((a, b) => b.adCount - a.adCount || SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+    .slice(0, TOP_ISSUES);
+
+  return {
+    total: results.length,
+    finished: byStatus.compliant + byStatus.non_compliant + byStatus.failed + byStatus.cancelled,
+    byStatus,
+    violationsByType,
+    violationsBySeverity,
+    byProduct,
+    topIssues,
+  };
+}
+
+/**
+ * 指摘を1行の文字列に変換（例: [high] 薬機法違反「シワが消える」）
+ */
+export function formatBulkIssue(issue: BulkIssue): string {
+  return `[${issue.severity}] ${issue.type}${issue.expression ? `「${issue.expression}」` : `: ${issue.description}`}`;
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 広告ごとの結果をCSVに変換（違反数は ViolationType ごとの列）
+ */
+export function formatBulkResultsCsv(results: BulkAdResult[]): string {
+  const header = ['row', 'ad_id', 'product_id', 'status', 'total_violations', ...VIOLATION_TYPES, 'top_issues', 'report_id', 'error'];
+  const lines = results.map(result => [
+    result.row,
+    result.adId,
+    result.productId,
+    result.status,
+    result.totalViolations,
+    ...VIOLATION_TYPES.map(type => result.violationsByType[type]),
+    result.topIssues.map(formatBulkIssue).join(' / '),
+    result.reportId || '',
+    result.error || '',
+  ].map(escapeCsv).join(','));
+
+  return [header.map(escapeCsv).join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+/**
+ * 広告ごとの結果をJSONLに変換
+ */
+export function formatBulkResultsJsonl(results: BulkAdResult[]): string {
+  return results.map(result => JSON.stringify(result)).join('\n') + (results.length > 0 ? '\n' : '');
+}
@@ -0,0 +1,124 @@
+/**
+ * Embedding Cache
+ *
+ * Caches embeddings by model, task type and text so that identical segments
+ * (e.g. the shared body of ad variants in a bulk check) are embedded only once.
+ *
+ * Embeddings are deterministic for a given model, so entries do not expire;
+ * the least recently used entry is evicted when the cache is full.
+ */
+
+import crypto from 'crypto';
+
+export interface EmbeddingCacheStats {
+  /** Total cache hits */
+  hits: number;
+  /** Total cache misses */
+  misses: number;
+  /** Hit rate (0-1) */
+  hitRate: number;
+  /** Total cached embeddings */
+  totalCached: number;
+}
+
+/**
+ * Embedding Cache Manager
+ */
+export class EmbeddingCache {
+  private cache = new Map<string, number[]>();
+  private stats = { hits: 0, misses: 0 };
+  private readonly maxCacheSize: number;
+
+  constructor(options?: { maxCacheSize?: number }) {
+    this.maxCacheSize = options?.maxCacheSize || 5000;
+  }
+
+  private generateKey(model: string, taskType: string, text: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${model}:${taskType}:${text}`)
+      .digest('hex');
+  }
+
+  /**
+   * Get cached embedding
+   *
+   * @returns Cached embedding, or null if not cached
+   */
+  get(model: string, taskType: string, text: string): number[] | null {
+    const key = this.generateKey(model, taskType, text);
+    const cached = this.cache.get(key);
+
+    if (!cached) {
+      this.stats.misses++;
+      return null;
+    }
+
+    // Move to the end (most recently used)
+    this.cache.delete(key);
+    this.cache.set(key, cached);
+    this.stats.hits++;
+    return cached;
+  }
+
+  /**
+   * Cache an embedding
+   */
+  set(model: string, taskType: string, text: string, embedding: number[]): void {
+    const key = this.generateKey(model, taskType, text);
+    this.cache.delete(key);
+
+    if (this.cache.size >= this.maxCacheSize) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+
+    this.cache.set(key, embedding);
+  }
+
+  /**
+   * Clear all cached embeddings
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): EmbeddingCacheStats {
+    const totalRequests = this.stats.hits + this.stats.misses;
+
+    return {
+      hits: this.stats.hits,
+      misses: this.stats.misses,
+      hitRate: totalRequests > 0 ? this.stats.hits / totalRequests : 0,
+      totalCached: this.cache.size,
+    };
+  }
+}
+
+/**
+ * Global embedding cache instance (singleton pattern)
+ */
+let globalEmbeddingCache: EmbeddingCache | null = null;
+
+/**
+ * Get or create global embedding cache instance
+ */
+export function getEmbeddingCache(): EmbeddingCache {
+  if (!globalEmbeddingCache) {
+    globalEmbeddingCache = new EmbeddingCache({ maxCacheSize: 5000 });
+  }
+
+  return globalEmbeddingCache;
+}
+
+/**
+ * Create a new embedding cache instance
+ */
+export function createEmbeddingCache(options?: { maxCacheSize?: number }): EmbeddingCache {
+  return new EmbeddingCache(options);
+}
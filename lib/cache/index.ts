@@ -4,6 +4,7 @@
  * Provides multi-layer caching for dramatic performance improvements:
  * - Prompt caching: 75-85% token cost reduction
  * - RAG search caching: 90%+ faster for repeated queries
+ * - Embedding caching: identical segments are embedded only once
  *
  * Expected overall improvement: 2nd request onwards 50-80% faster
  */
@@ -23,3 +24,10 @@ export {
   type RAGSearchCacheEntry,
   type RAGCacheStats,
 } from './rag-search-cache';
+
+export {
+  EmbeddingCache,
+  getEmbeddingCache,
+  createEmbeddingCache,
+  type EmbeddingCacheStats,
+} from './embedding-cache';
@@ -0,0 +1,66 @@
+/**
+ * CLI（adcheck）のファイル展開・商品の判定・終了コードのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CopyCheckError,
+  checkCopy,
+  formatCopyCheckJson,
+  getCopyCheckExitCode,
+  getLineColumn,
+  globToRegExp,
+  parseProductMapping,
+  resolveProductId,
+  toSarifArtifactUri,
+} from './copy-check';
+import { createOfflineEvaluator } from './offline-evaluator';
+
+describe('copy-check', () => {
+  it('globパターンを ** ・*・{a,b} に対応した正規表現に変換する', () => {
+    const matcher = globToRegExp('copy/**/*.{md,txt}');
+
+    expect(matcher.test('copy/lp.md')).toBe(true);
+    expect(matcher.test('copy/ha/banner/top.txt')).toBe(true);
+    expect(matcher.test('copy/ha/lp.html')).toBe(false);
+    expect(matcher.test('other/copy/lp.md')).toBe(false);
+    expect(globToRegExp('copy/*.md').test('copy/ha/lp.md')).toBe(false);
+  });
+
+  it('商品の対応表で最初に一致した商品を使い、一致しない場合は既定の商品を使う', () => {
+    const mapping = parseProductMapping(JSON.stringify({ 'copy/ha/**': 'HA', 'copy/**': 'SH' }));
+
+    expect(resolveProductId('./copy/ha/lp.md', mapping)).toBe('HA');
+    expect(resolveProductId('copy/sh/lp.md', mapping)).toBe('SH');
+    expect(resolveProductId('docs/readme.md', mapping)).toBeUndefined();
+    expect(resolveProductId('docs/readme.md', mapping, 'HA')).toBe('HA');
+    expect(() => parseProductMapping('{"copy/**": "XX"}')).toThrow(CopyCheckError);
+    expect(() => parseProductMapping('["HA"]')).toThrow(CopyCheckError);
+  });
+
+  it('違反の最大重要度が --fail-on 以上の場合に重要度の終了コードを返し、違反の行・列を出力する', async () => {
+    const text = '保湿ケアに。\n今だけ50%オフ！';
+    const evaluator = createOfflineEvaluator('HA', { now: new Date('2024-01-01T00:00:00Z') });
+    const result = await checkCopy('lp.md', text, 'HA', async (segments, fullText) => evaluator.evaluate(segments, fullText));
+
+    expect(getCopyCheckExitCode([result], 'low')).toBe(3);
+    expect(getCopyCheckExitCode([result], 'high')).toBe(3);
+    expect(getCopyCheckExitCode([result], 'critical')).toBe(0);
+
+    const json = JSON.parse(formatCopyCheckJson([result]));
+    expect(json.summary.highestSeverity).toBe('high');
+    expect(json.files[0].violations).toContainEqual(expect.objectContaining({ expression: '今だけ', line: 2, column: 1 }));
+  });
+
+  it('SARIF の URI は cwd からの相対 URI（%SRCROOT%）、cwd の外のファイルは file:// にする', () => {
+    expect(toSarifArtifactUri('copy/lp 夏.md', '/repo')).toEqual({ uri: 'copy/lp%20%E5%A4%8F.md', uriBaseId: '%SRCROOT%' });
+    expect(toSarifArtifactUri('/repo/copy/lp.md', '/repo')).toEqual({ uri: 'copy/lp.md', uriBaseId: '%SRCROOT%' });
+    expect(toSarifArtifactUri('/tmp/ad1.txt', '/repo')).toEqual({ uri: 'file:///tmp/ad1.txt' });
+    expect(toSarifArtifactUri('../other/ad.txt', '/repo')).toEqual({ uri: 'file:///other/ad.txt' });
+  });
+
+  it('文字位置を1始まりの行・列に変換する', () => {
+    expect(getLineColumn('abc\ndef', 0)).toEqual({ line: 1, column: 1 });
+    expect(getLineColumn('abc\ndef', 5)).toEqual({ line: 2, column: 2 });
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Copy Check
+ * CLI（scripts/adcheck.ts）によるコピーファイル（LP・バナーの広告文）のチェック
+ *
+ * - ファイル・globパターンの展開と、商品の対応表（globパターン → 商品ID）による商品の判定
+ * - RuleBasedSegmenter → 評価（ルールベース / LLM）→ buildAnalysisReport によるファイルごとのレポート生成
+ * - 結果の出力（JSON / Markdown / SARIF）と、検出した違反の最大重要度による終了コード
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { isProductSupported } from './product-config-loader';
+import { buildAnalysisReport } from './report-generator';
+import { formatSarif, SARIF_SRCROOT, type SarifExportOptions, type SarifReportEntry } from './report-sarif';
+import { RuleBasedSegmenter } from './segmentation/rule-based-segmenter';
+import type { ProductId } from './types';
+import type {
+  AnalysisReport,
+  Segment,
+  SegmentEvaluation,
+  ViolationSeverity,
+} from './types-v2';
+
+/**
+ * 出力形式
+ */
+export type CopyCheckFormat = 'json' | 'md' | 'sarif';
+
+export const COPY_CHECK_FORMATS: CopyCheckFormat[] = ['json', 'md', 'sarif'];
+
+/**
+ * 検出した違反の最大重要度ごとの終了コード（違反なし・--fail-on 未満の場合は 0）
+ */
+export const SEVERITY_EXIT_CODES: Record<ViolationSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+export const SEVERITIES: ViolationSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * globで探索しないディレクトリ
+ */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.next', '.cache']);
+
+/**
+ * CLIの入力（ファイル・商品の対応表）が不正
+ */
+export class CopyCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CopyCheckError';
+  }
+}
+
+/**
+ * 商品の対応表の1エントリ（ファイルの先頭から順に判定し、最初に一致した商品を使用）
+ */
+export interface ProductMappingEntry {
+  pattern: string;
+  productId: ProductId;
+}
+
+/**
+ * セグメントの評価（ルールベースのみ、または LLM プロバイダーを使用）
+ */
+export type CopySegmentEvaluator = (segments: Segment[], fullText: string) => Promise<SegmentEvaluation[]>;
+
+/**
+ * 1ファイルのチェック結果
+ */
+export interface CopyCheckResult {
+  /** ファイルのパス（コマンドに指定した形式、globの場合はカレントディレクトリからの相対パス） */
+  file: string;
+  productId: ProductId;
+  report: AnalysisReport;
+}
+
+/**
+ * 違反の位置（1始まりの行・列）
+ */
+export interface CopyCheckLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * globパターンを正規表現に変換
+ *
+ * 対応する記法: ** （0個以上のディレクトリ）、*、?、{a,b}
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = toPosixPath(pattern);
+  let source = '';
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (char === '*' && normalized[i + 1] === '*') {
+      // "**/" は0個以上のディレクトリ、末尾の "**" は全て
+      if (normalized[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = normalized.indexOf('}', i);
+      if (close < 0) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = normalized.slice(i + 1, close).split(',');
+      source += `(?:${alternatives.map(alternative => globToRegExp(alternative).source.slice(1, -1)).join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function isGlobPattern(value: string): boolean {
+  return /[*?{]/.test(value);
+}
+
+/**
+ * コマンドに指定したファイル・globパターンをファイルの一覧に展開（重複は除外）
+ *
+ * @throws CopyCheckError globパターンに一致するファイルがない場合
+ */
+export function expandCopyFiles(patterns: string[], cwd: string = process.cwd()): string[] {
+  const files: string[] = [];
+
+  for (const pattern of patterns) {
+    if (!isGlobPattern(pattern)) {
+      files.push(pattern);
+      continue;
+    }
+
+    // 絶対パスのパターンは絶対パス、それ以外は cwd からの相対パスで照合
+    const matcher = globToRegExp(stripCurrentDirectory(pattern));
+    const matched = walkFiles(path.resolve(cwd, getGlobBase(pattern)))
+      .map(file => toPosixPath(path.isAbsolute(pattern) ? file : path.relative(cwd, file)))
+      .filter(file => matcher.test(file))
+      .sort();
+
+    if (matched.length === 0) {
+      throw new CopyCheckError(`パターンに一致するファイルがありません: ${pattern}`);
+    }
+    files.push(...matched);
+  }
+
+  return Array.from(new Set(files));
+}
+
+/**
+ * 商品の対応表を読み込み
+ *
+ * 形式: { "<globパターン>": "<商品ID>", ... }（例: { "copy/ha/**": "HA", "copy/sh/**": "SH" }）
+ *
+ * @throws CopyCheckError JSONとして読み込めない・未対応の商品がある場合
+ */
+export function parseProductMapping(content: string): ProductMappingEntry[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    throw new CopyCheckError('商品の対応表をJSONとして読み込めません');
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new CopyCheckError('商品の対応表は { "<globパターン>": "<商品ID>" } 形式のJSONオブジェクトにしてください');
+  }
+
+  return Object.entries(value).map(([pattern, productId]) => {
+    if (typeof productId !== 'string' || !isProductSupported(productId)) {
+      throw new CopyCheckError(`商品の対応表に未対応の商品があります: ${pattern} → ${String(productId)}`);
+    }
+    return { pattern, productId };
+  });
+}
+
+/**
+ * ファイルの商品を判定（対応表で最初に一致した商品、一致しない場合は fallback）
+ */
+export function resolveProductId(
+  file: string,
+  mapping: ProductMappingEntry[],
+  fallback?: ProductId
+): ProductId | undefined {
+  const normalized = stripCurrentDirectory(file);
+  const entry = mapping.find(({ pattern }) => globToRegExp(stripCurrentDirectory(pattern)).test(normalized));
+  return entry?.productId ?? fallback;
+}
+
+/**
+ * 1ファイルの広告文をチェックし、レポートを生成
+ */
+export async function checkCopy(
+  file: string,
+  text: string,
+  productId: ProductId,
+  evaluate: CopySegmentEvaluator
+): Promise<CopyCheckResult> {
+  const startTime = Date.now();
+  const segments = new RuleBasedSegmenter(productId).segment(text).segments as Segment[];
+  const evaluations = segments.length > 0 ? await evaluate(segments, text) : [];
+
+  const report = buildAnalysisReport({
+    input: { full_text: text, product_id: productId },
+    structure: {
+      overview: `${productId}商品の広告文チェック（${file}）`,
+      mainClaims: [],
+      supportingStatements: [],
+      tone: 'promotional',
+    },
+    segments,
+    evaluations,
+    startTime,
+  });
+
+  return { file, productId, report };
+}
+
+/**
+ * 全てのファイルで検出した違反の最大重要度（違反がない場合は undefined）
+ */
+export function getHighestSeverity(results: CopyCheckResult[]): ViolationSeverity | undefined {
+  let highest: ViolationSeverity | undefined;
+  for (const { report } of results) {
+    for (const severity of SEVERITIES) {
+      if (report.summary.violationsBySeverity[severity] > 0 && (!highest || SEVERITY_EXIT_CODES[severity] > SEVERITY_EXIT_CODES[highest])) {
+        highest = severity;
+      }
+    }
+  }
+  return highest;
+}
+
+/**
+ * 終了コード（最大重要度が failOn 以上の場合は SEVERITY_EXIT_CODES、それ以外は 0）
+ */
+export function getCopyCheckExitCode(results: CopyCheckResult[], failOn: ViolationSeverity): number {
+  const highest = getHighestSeverity(results);
+  return highest && SEVERITY_EXIT_CODES[highest] >= SEVERITY_EXIT_CODES[failOn] ? SEVERITY_EXIT_CODES[highest] : 0;
+}
+
+/**
+ * 文字位置（0始まり）を行・列（1始まり）に変換
+ */
+export function getLineColumn(text: string, offset: number): CopyCheckLocation {
+  const before = text.slice(0, Math.max(0, Math.min(offset, text.length)));
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    line: before.split('\n').length,
+    column: before.length - lineStart + 1,
+  };
+}
+
+/**
+ * チェック結果をJSONに変換（違反ごとに行・列を付与）
+ */
+export function formatCopyCheckJson(results: CopyCheckResult[]): string {
+  const violationsBySeverity: Record<ViolationSeverity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+  for (const { report } of results) {
+    for (const severity of SEVERITIES) {
+      violationsBySeverity[severity] += report.summary.violationsBySeverity[severity];
+    }
+  }
+
+  const files = results.map(({ file, productId, report }) => {
+    const segments = new Map(report.segments.map(segment => [segment.id, segment]));
+    const violations = report.evaluations.flatMap(evaluation => evaluation.violations.map(violation => {
+      const start = violation.spans?.[0]?.start ?? segments.get(evaluation.segmentId)?.position.start;
+      return {
+        segmentId: evaluation.segmentId,
+        type: violation.type,
+        severity: violation.severity,
+        description: violation.description,
+        ...(violation.spans?.[0] && { expression: violation.spans[0].text }),
+        ...(violation.spans?.[0]?.variantOf && { variantOf: violation.spans[0].variantOf }),
+        ...(start !== undefined && getLineColumn(report.input.full_text, start)),
+        correctionSuggestion: violation.correctionSuggestion,
+        reference: violation.referenceKnowledge.file,
+      };
+    }));
+
+    return {
+      file,
+      productId,
+      reportId: report.id,
+      evaluationMode: report.evaluationMode,
+      totalSegments: report.summary.totalSegments,
+      totalViolations: report.summary.totalViolations,
+      violationsBySeverity: report.summary.violationsBySeverity,
+      violations,
+    };
+  });
+
+  return JSON.stringify({
+    summary: {
+      files: results.length,
+      totalViolations: results.reduce((sum, { report }) => sum + report.summary.totalViolations, 0),
+      violationsBySeverity,
+      highestSeverity: getHighestSeverity(results) ?? null,
+    },
+    files,
+  }, null, 2) + '\n';
+}
+
+/**
+ * チェック結果をMarkdownに変換（ファイルごとのレポートを連結）
+ */
+export function formatCopyCheckMarkdown(results: CopyCheckResult[]): string {
+  return results
+    .map(({ file, productId, report }) => `<!-- ${file} (${productId}) -->\n\n**ファイル**: \`${file}\`\n\n${report.markdown.trim()}\n`)
+    .join('\n---\n\n');
+}
+
+/**
+ * チェック結果を SARIF 2.1.0 に変換
+ *
+ * cwd（通常はリポジトリのルート）の中のファイルは %SRCROOT% からの相対 URI、
+ * cwd の外のファイルは file:// の URI を artifactLocation とする。
+ */
+export function formatCopyCheckSarif(
+  results: CopyCheckResult[],
+  options: SarifExportOptions = {},
+  cwd: string = process.cwd()
+): string {
+  return formatSarif(results.map(({ file, report }) => ({ report, ...toSarifArtifactUri(file, cwd) })), {
+    ...options,
+    originalUriBaseIds: { [SARIF_SRCROOT]: pathToFileURL(path.resolve(cwd) + path.sep).href },
+  });
+}
+
+/**
+ * ファイルのパスを SARIF の artifactLocation の URI に変換
+ */
+export function toSarifArtifactUri(file: string, cwd: string = process.cwd()): Pick<SarifReportEntry, 'uri' | 'uriBaseId'> {
+  const absolute = path.resolve(cwd, file);
+  const relative = path.relative(path.resolve(cwd), absolute);
+
+  if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    return { uri: pathToFileURL(absolute).href };
+  }
+  return {
+    uri: toPosixPath(relative).split('/').map(encodeURIComponent).join('/'),
+    uriBaseId: SARIF_SRCROOT,
+  };
+}
+
+function walkFiles(directory: string): string[] {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+  if (!fs.statSync(directory).isDirectory()) {
+    return [directory];
+  }
+
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return IGNORED_DIRECTORIES.has(entry.name) ? [] : walkFiles(entryPath);
+    }
+    return entry.isFile() ? [entryPath] : [];
+  });
+}
+
+/**
+ * globパターンの固定部分（最初のワイルドカードを含むディレクトリより前）
+ */
+function getGlobBase(pattern: string): string {
+  const parts = toPosixPath(pattern).split('/');
+  const index = parts.findIndex(isGlobPattern);
+  return parts.slice(0, index).join('/') || '.';
+}
+
+function stripCurrentDirectory(value: string): string {
+  return toPosixPath(value).replace(/^(\.\/)+/, '');
+}
+
+function toPosixPath(value: string): string {
+  return value.replace(/\\/g, '/');
+}
@@ -3,9 +3,13 @@
  *
  * gemini-embedding-001を使用してテキストをベクトル化するサービス
  * RAGシステムの基盤コンポーネント
+ *
+ * embeddingの生成は LLMProvider に委譲する（config/llm.json の provider に従う）
  */
 
-import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { TaskType } from '@google/generative-ai';
+import { createLLMProvider, type LLMProvider } from './llm';
+import type { EmbeddingCache } from './cache/embedding-cache';
 
 /**
  * Embedding生成結果
@@ -14,6 +18,8 @@ export interface EmbeddingResult {
   embedding: number[];
   textLength: number;
   model: string;
+  /** キャッシュから取得した場合 true */
+  cached?: boolean;
 }
 
 /**
@@ -29,9 +35,14 @@ export interface BatchEmbeddingResult {
  * EmbeddingServiceの設定
  */
 export interface EmbeddingServiceConfig {
-  apiKey: string;
-  model?: string; // Default: 'embedding-001'
+  /** Gemini APIキー（provider 未指定時に使用） */
+  apiKey?: string;
+  /** LLMプロバイダー（省略時は config/llm.json に従って作成） */
+  provider?: LLMProvider;
+  model?: string; // Default: config/llm.json の models.embedding
   taskType?: TaskType;
+  /** embeddingのキャッシュ（同じテキストのembeddingを再利用） */
+  cache?: EmbeddingCache;
 }
 
 /**
@@ -45,14 +56,16 @@ export interface EmbeddingServiceConfig {
  * // result.embedding: [0.123, -0.456, ...] (768次元)
  */
 export class EmbeddingService {
-  private genAI: GoogleGenerativeAI;
+  private provider: LLMProvider;
   private model: string;
   private taskType: TaskType;
+  private cache?: EmbeddingCache;
 
   constructor(config: EmbeddingServiceConfig) {
-    this.genAI = new GoogleGenerativeAI(config.apiKey);
-    this.model = config.model || 'embedding-001';
+    this.provider = config.provider || createLLMProvider({ apiKey: config.apiKey });
+    this.model = config.model || this.provider.getModelName('embedding');
     this.taskType = config.taskType || TaskType.RETRIEVAL_DOCUMENT;
+    this.cache = config.cache;
   }
 
   /**
@@ -84,20 +97,29 @@ export class EmbeddingService {
       throw new Error('Text cannot be empty');
     }
 
-    try {
-      const model = this.genAI.getGenerativeModel({ model: this.model });
+    const embedTaskType = (taskType || this.taskType) === TaskType.RETRIEVAL_QUERY ? 'query' : 'document';
+    const cached = this.cache?.get(this.model, embedTaskType, text);
+    if (cached) {
+      return {
+        embedding: cached,
+        textLength: text.length,
+        model: this.model,
+        cached: true,
+      };
+    }
 
-      const result = await model.embedContent({
-        content: { role: 'user', parts: [{ text }] },
-        taskType: taskType || this.taskType,
+    try {
+      const [embedding] = await this.provider.embed([text], {
+        model: this.model,
+        taskType: embedTaskType,
       });
 
-      const embedding = result.embedding.values;
-
       if (!embedding || embedding.length === 0) {
         throw new Error('Embedding generation failed: empty result');
       }
 
+      this.cache?.set(this.model, embedTaskType, text, embedding);
+
       return {
         embedding,
         textLength: text.length,
@@ -157,8 +179,8 @@ export class EmbeddingService {
         const result = await this.embed(text, taskType);
         embeddings.push(result.embedding);
 
-        // Rate limit対策: 100ms待機
-        if (i < validTexts.length - 1) {
+        // Rate limit対策: 100ms待機（キャッシュから取得した場合は不要）
+        if (!result.cached && i < validTexts.length - 1) {
           await new Promise(resolve => setTimeout(resolve, 100));
         }
       }
@@ -197,12 +219,15 @@ export class EmbeddingService {
 /**
  * EmbeddingServiceのファクトリ関数
  *
- * @param apiKey - Gemini APIキー
+ * @param apiKeyOrProvider - Gemini APIキー、またはLLMプロバイダー
+ * @param cache - embeddingのキャッシュ（省略時はキャッシュしない）
  * @returns EmbeddingService instance
  *
  * @example
  * const service = createEmbeddingService(process.env.GEMINI_API_KEY!);
  */
-export function createEmbeddingService(apiKey: string): EmbeddingService {
-  return new EmbeddingService({ apiKey });
+export function createEmbeddingService(apiKeyOrProvider: string | LLMProvider, cache?: EmbeddingCache): EmbeddingService {
+  return typeof apiKeyOrProvider === 'string'
+    ? new EmbeddingService({ apiKey: apiKeyOrProvider, cache })
+    : new EmbeddingService({ provider: apiKeyOrProvider, cache });
 }
@@ -0,0 +1,58 @@
+/**
+ * 評価の進捗イベント（SSE）のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createEvaluationEventStream,
+  EvaluationCancelledError,
+  readEvaluationEventStream,
+  type EvaluationProgressEvent,
+} from './evaluation-progress';
+
+describe('createEvaluationEventStream / readEvaluationEventStream', () => {
+  it('should stream progress events followed by the final result', async () => {
+    const response = createEvaluationEventStream(async (emit) => {
+      emit({ stage: 'segmentation', totalSegments: 2, segmentsToEvaluate: 1 });
+      emit({ stage: 'llm_request', segments: 1, attempt: 1, promptChars: 1200 });
+      return Response.json({ success: true, data: { evaluations: [] } }, { status: 200 });
+    });
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+
+    const events: EvaluationProgressEvent[] = [];
+    const result = await readEvaluationEventStream(response, (event) => events.push(event));
+
+    expect(events.map(e => e.stage)).toEqual(['segmentation', 'llm_request']);
+    expect(result).toEqual({ status: 200, body: { success: true, data: { evaluations: [] } } });
+  });
+
+  it('should report handler failures as a 500 result', async () => {
+    const response = createEvaluationEventStream(async () => {
+      throw new Error('boom');
+    });
+
+    const result = await readEvaluationEventStream<{ message: string }>(response, () => undefined);
+
+    expect(result.status).toBe(500);
+    expect(result.body.message).toBe('boom');
+  });
+
+  it('should abort the handler signal when the client disconnects', async () => {
+    let handlerSignal: AbortSignal | undefined;
+    const response = createEvaluationEventStream((emit, signal) => {
+      handlerSignal = signal;
+      emit({ stage: 'rag', totalChunks: 3, segments: [] });
+      return new Promise<Response>((_, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
+      });
+    });
+
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(handlerSignal?.aborted).toBe(true);
+    expect(handlerSignal?.reason).toBeInstanceOf(EvaluationCancelledError);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Evaluation Progress (Server-Sent Events)
+ * 評価パイプラインの進捗イベント
+ *
+ * /api/v2/evaluate-batch・/api/v2/report に `Accept: text/event-stream` を指定すると、各ステージの進捗を
+ * SSE（event: <stage>）で返し、最後に通常のレスポンスと同じ内容を event: result で返す。
+ * 評価（segmentation 〜 segment_evaluated）は /api/v2/evaluate-batch、レポートの生成（report_ready）は
+ * /api/v2/report のストリームで送信する。
+ *
+ * - サーバー: createEvaluationEventStream() でハンドラーの進捗をストリームに変換
+ * - クライアント: readEvaluationEventStream() でイベントを読み取り、進捗表示に反映
+ *
+ * クライアントが切断するとストリームの cancel で AbortSignal が中断され、実行中のLLM呼び出しも中断される。
+ * クライアントからも読み込むため、fs に依存するモジュールを import しないこと。
+ */
+
+/**
+ * 進捗イベント
+ *
+ * - segmentation: 評価対象のセグメントの確定（注釈説明文を除外）
+ * - rule_validation: セグメントごとのルールベース検証（NGキーワード・ギネス記録）
+ * - rag: ナレッジ検索の完了（セグメントごとのチャンク数）
+ * - llm_request: LLMへのバッチ評価リクエストの送信（リトライ時は attempt が増える）
+ * - segment_evaluated: セグメントの評価結果の確定（LLMの応答のパース・ルールベース検証との統合後）
+ * - report_ready: レポートの生成・保存の完了（/api/v2/report）
+ */
+export type EvaluationProgressEvent =
+  | { stage: 'segmentation'; totalSegments: number; segmentsToEvaluate: number }
+  | { stage: 'rule_validation'; segmentId: string; index: number; total: number; violations: number }
+  | { stage: 'rag'; totalChunks: number; segments: Array<{ segmentId: string; chunks: number }> }
+  | { stage: 'llm_request'; segments: number; attempt: number; promptChars: number }
+  | { stage: 'segment_evaluated'; segmentId: string; index: number; total: number; compliance: boolean; violations: number }
+  | { stage: 'report_ready'; reportId: string; totalViolations: number };
+
+export type EvaluationProgressStage = EvaluationProgressEvent['stage'];
+
+/**
+ * 進捗イベントの送信先
+ */
+export type EvaluationProgressEmitter = (event: EvaluationProgressEvent) => void;
+
+/**
+ * 最終結果（通常のレスポンスのステータスと本文）
+ */
+export interface EvaluationStreamResult<T = unknown> {
+  status: number;
+  body: T;
+}
+
+/**
+ * クライアントが切断した（進捗ストリームのキャンセル）
+ */
+export class EvaluationCancelledError extends Error {
+  constructor(message: string = 'Evaluation cancelled by client') {
+    super(message);
+    this.name = 'EvaluationCancelledError';
+  }
+}
+
+/**
+ * リクエストが進捗ストリームを要求しているか
+ */
+export function acceptsEventStream(request: Request): boolean {
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * SSEのイベントを1件分の文字列に変換
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * ハンドラーの進捗をSSEのレスポンスに変換
+ *
+ * @param run - 進捗を emit に送り、通常のレスポンスを返すハンドラー
+ * @param requestSignal - リクエストの AbortSignal（切断時に中断）
+ */
+export function createEvaluationEventStream(
+  run: (emit: EvaluationProgressEmitter, signal: AbortSignal) => Promise<Response>,
+  requestSignal?: AbortSignal
+): Response {
+  const controller = new AbortController();
+  const abort = () => controller.abort(new EvaluationCancelledError());
+  requestSignal?.addEventListener('abort', abort, { once: true });
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: string, data: unknown) => {
+        if (!controller.signal.aborted) {
+          streamController.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+        }
+      };
+
+      let result: EvaluationStreamResult;
+      try {
+        const response = await run((event) => send(event.stage, event), controller.signal);
+        result = { status: response.status, body: await response.json() };
+      } catch (error) {
+        result = {
+          status: 500,
+          body: { success: false, error: '評価中にエラーが発生しました', message: error instanceof Error ? error.message : String(error) },
+        };
+      }
+
+      send('result', result);
+      requestSignal?.removeEventListener('abort', abort);
+      if (!controller.signal.aborted) {
+        streamController.close();
+      }
+    },
+    cancel() {
+      abort();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * SSEのレスポンスを読み取り、進捗イベントを onProgress に渡して最終結果を返す
+ *
+ * @throws Error 最終結果（event: result）を受け取る前にストリームが終了した場合
+ */
+export async function readEvaluationEventStream<T = unknown>(
+  response: Response,
+  onProgress: EvaluationProgressEmitter
+): Promise<EvaluationStreamResult<T>> {
+  if (!response.body) {
+    throw new Error('Response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : blocks.pop() || '';
+
+    for (const block of blocks) {
+      const parsed = parseServerSentEvent(block);
+      if (!parsed) {
+        continue;
+      }
+      if (parsed.event === 'result') {
+        await reader.cancel().catch(() => undefined);
+        return parsed.data as EvaluationStreamResult<T>;
+      }
+      onProgress(parsed.data as EvaluationProgressEvent);
+    }
+
+    if (done) {
+      throw new Error('Event stream ended without a result');
+    }
+  }
+}
+
+function parseServerSentEvent(block: string): { event: string; data: unknown } | undefined {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  return dataLines.length > 0 ? { event, data: JSON.parse(dataLines.join('\n')) } : undefined;
+}
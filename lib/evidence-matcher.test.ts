@@ -0,0 +1,95 @@
+/**
+ * 提出エビデンスと主張の照合（不実証広告）のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyEvidenceResults,
+  createEvidenceIndex,
+  detectSubstantiationClaims,
+  extractFigures,
+  splitEvidenceDocuments,
+} from './evidence-matcher';
+import type { SegmentEvaluation } from './types-v2';
+
+const evidence = [
+  {
+    title: '顧客満足度調査報告書',
+    kind: 'survey' as const,
+    text: '調査期間：2024年1月〜2月\n対象：ご購入者100名\n\n結果：満足度98%（「満足」「やや満足」の合計）',
+  },
+];
+
+describe('detectSubstantiationClaims', () => {
+  it('should detect claims that need substantiation and extract their figures', () => {
+    const claims = detectSubstantiationClaims('顧客満足度98%！売上No.1の美容液');
+
+    expect(claims.map(c => c.type)).toEqual(expect.arrayContaining(['statistic', 'ranking']));
+    expect(extractFigures('満足度98％、売上No.1')).toEqual(expect.arrayContaining(['98%', '1位']));
+    expect(detectSubstantiationClaims('毎日のスキンケアに')).toEqual([]);
+  });
+
+  it('should not treat price and promotion figures as statistic claims', () => {
+    for (const text of ['今なら30%OFF', '初回50％オフ', 'ポイント2倍キャンペーン', 'ポイント12倍', '10%還元', '20%増量中']) {
+      expect(detectSubstantiationClaims(text)).toEqual([]);
+    }
+    expect(detectSubstantiationClaims('保湿力2倍、30%OFF').map(c => c.phrase)).toEqual(['2倍']);
+  });
+});
+
+describe('EvidenceIndex.matchSegments', () => {
+  it('should match supported claims and flag claims without evidence', () => {
+    const results = createEvidenceIndex(evidence).matchSegments([
+      { id: 'seg_1', text: '購入者の満足度98%', type: 'claim' },
+      { id: 'seg_2', text: '売上No.1', type: 'claim' },
+      { id: 'seg_3', text: 'しっとり潤う', type: 'claim' },
+    ]);
+
+    expect(results[0].unsubstantiated).toBe(false);
+    expect(results[0].evidence[0].documentId).toBe('evidence-1');
+    expect(results[0].evidence[0].matchedFigures).toContain('98%');
+    expect(results[1].unsubstantiated).toBe(true);
+    expect(results[2]).toMatchObject({ claims: [], evidence: [], unsubstantiated: false });
+  });
+
+  it('should not accept evidence with a different figure', () => {
+    const [result] = createEvidenceIndex(evidence).matchSegments([
+      { id: 'seg_1', text: '購入者の満足度95%', type: 'claim' },
+    ]);
+
+    expect(result.unsubstantiated).toBe(true);
+  });
+
+  it('should split pasted evidence on --- lines', () => {
+    const documents = splitEvidenceDocuments([{ id: 'doc', title: '資料', text: '試験A\n---\n試験B' }]);
+
+    expect(documents.map(d => [d.id, d.title, d.text])).toEqual([
+      ['doc-1', '資料 (1)', '試験A'],
+      ['doc-2', '資料 (2)', '試験B'],
+    ]);
+  });
+});
+
+describe('applyEvidenceResults', () => {
+  it('should populate supportingEvidence and add 不実証広告 violations', () => {
+    const evaluations: SegmentEvaluation[] = ['seg_1', 'seg_2'].map(segmentId => ({
+      segmentId,
+      compliance: true,
+      violations: [],
+      evaluatedAt: '2024-01-01T00:00:00.000Z',
+    }));
+    const results = createEvidenceIndex(evidence).matchSegments([
+      { id: 'seg_1', text: '購入者の満足度98%', type: 'claim' },
+      { id: 'seg_2', text: '売上No.1', type: 'claim' },
+    ]);
+
+    const [supported, unsupported] = applyEvidenceResults(evaluations, results);
+
+    expect(supported.compliance).toBe(true);
+    expect(supported.supportingEvidence?.[0]).toMatch(/^【顧客満足度調査報告書】/);
+    expect(unsupported.compliance).toBe(false);
+    expect(unsupported.violations).toHaveLength(1);
+    expect(unsupported.violations[0]).toMatchObject({ type: '景表法違反', severity: 'high' });
+    expect(unsupported.violations[0].description).toContain('不実証広告');
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Evidence Matcher
+ * 提出エビデンス（試験報告書・調査結果・効能評価試験など）と広告の主張の照合
+ *
+ * - エビデンスは広告文とは別に受け取り、リクエストごとにチャンク分割して語彙インデックス（BM25）に登録する
+ * - 根拠が必要な主張（No.1・数値・調査結果・試験結果・販売実績など）を含むセグメントごとに、
+ *   対応するエビデンスのチャンクを検索して SegmentEvaluation.supportingEvidence に設定する
+ * - 根拠が必要なのに対応するエビデンスがない主張は、景表法の不実証広告（第7条第2項）として違反にする
+ *
+ * 数値（98%、1位、2024年など）を含む主張は、同じ数値を含むエビデンスのみ根拠として扱う。
+ */
+
+import { z } from 'zod';
+import { isAnnotationExplanationSegment } from './annotation-analyzer';
+import { createLexicalIndex, toCharNgrams, type LexicalDocument, type LexicalIndex } from './lexical-index';
+import type { SegmentEvaluation, SegmentType, Violation } from './types-v2';
+
+/**
+ * 不実証広告の違反で参照するナレッジ
+ */
+const SUBSTANTIATION_KNOWLEDGE_FILE = 'knowledge/common/消費者庁_不当景品類及び不当表示防止法第７条第２項の運用指針 ―不実証広告規制に関する指針― _20160401.txt';
+const SUBSTANTIATION_KNOWLEDGE_EXCERPT = '当該表示をした事業者に対し、期間を定めて、当該表示の裏付けとなる合理的な根拠を示す資料の提出を求めることができ、この場合において、当該事業者が当該資料を提出しないときは、消費者庁が当該表示について実際のものとは異なるものであること等の具体的な立証を行うまでもなく、当該表示は景品表示法第５条第１号に該当する表示とみなされることになり';
+
+/**
+ * エビデンスチャンクの最大文字数
+ */
+const MAX_CHUNK_LENGTH = 500;
+
+/**
+ * supportingEvidence に表示する抜粋の最大文字数
+ */
+const MAX_EXCERPT_LENGTH = 200;
+
+/**
+ * 提出エビデンス
+ */
+export const evidenceDocumentSchema = z.object({
+  /** 識別子（省略時は evidence-1, evidence-2...） */
+  id: z.string().min(1).max(100).optional(),
+  /** 資料名（例: 「モニター調査結果 2024年1月」） */
+  title: z.string().max(200).optional(),
+  /** 資料の種類 */
+  kind: z.enum(['test_report', 'survey', 'efficacy_test', 'other']).optional(),
+  /** 本文 */
+  text: z.string().min(1).max(20000),
+});
+
+export type EvidenceDocument = z.infer<typeof evidenceDocumentSchema>;
+
+/**
+ * 根拠が必要な主張の種類
+ */
+export type SubstantiationClaimType = 'ranking' | 'superlative' | 'statistic' | 'survey' | 'test' | 'sales';
+
+/**
+ * 根拠が必要な主張
+ */
+export interface SubstantiationClaim {
+  type: SubstantiationClaimType;
+  /** 表示名（例: 「No.1・ランキング表示」） */
+  label: string;
+  /** 一致した表現 */
+  phrase: string;
+}
+
+/**
+ * 主張に対応するエビデンス
+ */
+export interface EvidenceMatch {
+  documentId: string;
+  title: string;
+  chunkId: string;
+  excerpt: string;
+  /** セグメントとの語句一致率（0-1） */
+  score: number;
+  /** エビデンスにも含まれていた数値 */
+  matchedFigures: string[];
+}
+
+/**
+ * セグメントのエビデンス照合結果
+ */
+export interface SegmentEvidenceResult {
+  segmentId: string;
+  /** 根拠が必要な主張（なければ空） */
+  claims: SubstantiationClaim[];
+  /** 対応するエビデンス（スコア順） */
+  evidence: EvidenceMatch[];
+  /** 根拠が必要な主張に対応するエビデンスがない */
+  unsubstantiated: boolean;
+}
+
+/**
+ * 価格・販促の数値（30%OFF・ポイント2倍・10%還元 等）の前後の語。効果・実績の数値として扱わない
+ */
+const PROMOTION_BEFORE = '(?:ポイント|pt|還元率?|割引率?|値引き?|off|オフ)';
+const PROMOTION_AFTER = '(?:off|オフ|引|割引|値引|還元|ポイント|pt|増量)';
+
+/**
+ * 根拠が必要な主張のパターン（NFKC正規化・小文字化したテキストに適用）
+ */
+const SUBSTANTIATION_CLAIM_PATTERNS: Array<{ type: SubstantiationClaimType; label: string; pattern: RegExp }> = [
+  { type: 'ranking', label: 'No.1・ランキング表示', pattern: /no\.?\s*1|ナンバー(?:ワン|1)|第?[1一]位|(?:世界|日本|業界)一|シェア\s*[1一]位/g },
+  { type: 'superlative', label: '最上級・初表示', pattern: /(?:業界|日本|世界)初|唯一|最高|最強|最安/g },
+  {
+    type: 'statistic',
+    label: '数値による効果・実績表示',
+    pattern: new RegExp(`(?<![\\d.])(?<!${PROMOTION_BEFORE}\\s*)\\d+(?:\\.\\d+)?\\s*(?:%|倍)(?!\\s*${PROMOTION_AFTER})`, 'g'),
+  },
+  { type: 'survey', label: '調査結果の表示', pattern: /満足度|リピート率|継続率|実感率|\d+人中\d+人|アンケート|調べ/g },
+  { type: 'test', label: '試験結果の表示', pattern: /臨床|試験|効果実証|実証済|検証済|テスト済/g },
+  { type: 'sales', label: '販売実績の表示', pattern: /売上|販売(?:実績|数)|累計|万(?:個|本|箱|枚|セット|人)|突破/g },
+];
+
+/**
+ * 数値表現のパターン（単位付き）
+ */
+const FIGURE_PATTERN = /\d+(?:\.\d+)?\s*(?:%|倍|位|万|千|億|人|名|件|個|本|箱|枚|年|ヶ月|か月|日|時間|週間)/g;
+
+/**
+ * 照合用の正規化（NFKC・小文字化・「No.1」「第一位」などを「1位」に統一）
+ */
+function normalizeClaimText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/no\.?\s*1|ナンバー(?:ワン|1)|第?一位|第1位/g, '1位')
+    .replace(/,(?=\d{3})/g, '');
+}
+
+/**
+ * 根拠が必要な主張を検出
+ */
+export function detectSubstantiationClaims(text: string): SubstantiationClaim[] {
+  const normalized = text.normalize('NFKC').toLowerCase();
+  const claims: SubstantiationClaim[] = [];
+
+  for (const { type, label, pattern } of SUBSTANTIATION_CLAIM_PATTERNS) {
+    const phrases = Array.from(new Set(Array.from(normalized.matchAll(pattern), m => m[0])));
+    claims.push(...phrases.map(phrase => ({ type, label, phrase })));
+  }
+
+  return claims;
+}
+
+/**
+ * 単位付きの数値を抽出（「98%」「1位」「2024年」など、空白除去済み）
+ */
+export function extractFigures(text: string): string[] {
+  const normalized = normalizeClaimText(text);
+  return Array.from(new Set(Array.from(normalized.matchAll(FIGURE_PATTERN), m => m[0].replace(/\s+/g, ''))));
+}
+
+/**
+ * エビデンス本文をチャンクに分割（段落単位、長い段落は文単位で分割）
+ */
+function splitIntoChunks(text: string): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  const pushSentences = (paragraph: string) => {
+    for (const sentence of paragraph.split(/(?<=[。．!?！？])/)) {
+      if (current && current.length + sentence.length > MAX_CHUNK_LENGTH) {
+        chunks.push(current);
+        current = '';
+      }
+      current += sentence;
+    }
+  };
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 1 > MAX_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    if (paragraph.length > MAX_CHUNK_LENGTH) {
+      pushSentences(paragraph);
+    } else {
+      current = current ? `${current}\n${paragraph}` : paragraph;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * 1つのテキストに複数の資料を貼り付けた場合の分割（「---」の行で区切る）
+ *
+ * 複数に分かれた資料は「資料名 (1)」「資料名 (2)」...、IDは「id-1」「id-2」...になる
+ */
+export function splitEvidenceDocuments(documents: EvidenceDocument[]): EvidenceDocument[] {
+  return documents.flatMap((document) => {
+    const parts = document.text
+      .split(/^\s*-{3,}\s*$/m)
+      .map(part => part.trim())
+      .filter(Boolean);
+
+    if (parts.length <= 1) {
+      return [document];
+    }
+
+    const title = document.title || '提出エビデンス';
+    return parts.map((text, index) => ({
+      ...document,
+      id: document.id && `${document.id}-${index + 1}`,
+      title: `${title} (${index + 1})`,
+      text,
+    }));
+  });
+}
+
+/**
+ * リクエスト単位のエビデンスインデックス
+ *
+ * @example
+ * const index = createEvidenceIndex([{ title: 'モニター調査', text: '満足度98%（2024年1月、100名）' }]);
+ * const results = index.matchSegments(segments);
+ */
+export class EvidenceIndex {
+  private lexicalIndex: LexicalIndex;
+  private documents: LexicalDocument[] = [];
+
+  constructor(documents: EvidenceDocument[]) {
+    this.lexicalIndex = createLexicalIndex();
+
+    splitEvidenceDocuments(documents).forEach((document, docIndex) => {
+      const documentId = document.id || `evidence-${docIndex + 1}`;
+      const title = document.title || documentId;
+      const chunks = splitIntoChunks(document.text);
+
+      this.documents.push(...chunks.map((text, chunkIndex) => ({
+        id: `${documentId}#${chunkIndex + 1}`,
+        text,
+        metadata: {
+          fileName: title,
+          category: 'evidence',
+          documentId,
+          kind: document.kind,
+          chunkIndex,
+          totalChunks: chunks.length,
+        },
+      })));
+    });
+
+    this.lexicalIndex.add(this.documents);
+  }
+
+  /**
+   * 登録済みチャンク数
+   */
+  size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * テキストに対応するエビデンスを検索
+   *
+   * - テキストに数値がある場合: 同じ数値を含み、語句一致率が minScore / 2 以上のチャンク
+   * - 数値がない場合: 語句一致率が minScore（default: 0.3）以上のチャンク
+   */
+  findEvidence(text: string, options: { topK?: number; minScore?: number } = {}): EvidenceMatch[] {
+    const topK = options.topK ?? 3;
+    const minScore = options.minScore ?? 0.3;
+    const queryGrams = new Set(toCharNgrams(normalizeClaimText(text)));
+    const figures = extractFigures(text);
+    if (queryGrams.size === 0) {
+      return [];
+    }
+
+    const matches: EvidenceMatch[] = [];
+    for (const candidate of this.lexicalIndex.search(normalizeClaimText(text), { topK: 10 })) {
+      const chunkText = normalizeClaimText(candidate.text);
+      const chunkGrams = new Set(toCharNgrams(chunkText));
+      const overlap = Array.from(queryGrams).filter(gram => chunkGrams.has(gram)).length;
+      const score = overlap / queryGrams.size;
+
+      const chunkFigures = new Set(extractFigures(candidate.text));
+      const matchedFigures = figures.filter(figure => chunkFigures.has(figure));
+
+      const supports = figures.length > 0
+        ? matchedFigures.length > 0 && score >= minScore / 2
+        : score >= minScore;
+      if (!supports) {
+        continue;
+      }
+
+      matches.push({
+        documentId: String(candidate.metadata.documentId),
+        title: candidate.metadata.fileName,
+        chunkId: candidate.id,
+        excerpt: candidate.text.length > MAX_EXCERPT_LENGTH ? `${candidate.text.substring(0, MAX_EXCERPT_LENGTH)}…` : candidate.text,
+        score,
+        matchedFigures,
+      });
+    }
+
+    return matches
+      .sort((a, b) => b.matchedFigures.length - a.matchedFigures.length || b.score - a.score)
+      .slice(0, topK);
+  }
+
+  /**
+   * セグメントごとにエビデンスを照合（主張として扱うセグメントのみ）
+   */
+  matchSegments(segments: Array<{ id: string; text: string; type?: SegmentType }>): SegmentEvidenceResult[] {
+    return segments.map(segment => {
+      const isClaim = isEvidenceClaimSegment(segment);
+      const claims = isClaim ? detectSubstantiationClaims(segment.text) : [];
+      const evidence = isClaim ? this.findEvidence(segment.text) : [];
+
+      return {
+        segmentId: segment.id,
+        claims,
+        evidence,
+        unsubstantiated: claims.length > 0 && evidence.length === 0,
+      };
+    });
+  }
+}
+
+/**
+ * エビデンスと照合する（主張として扱う）セグメントか
+ *
+ * 注釈説明文・エビデンス・注意書きのセグメントは主張として扱わない
+ */
+export function isEvidenceClaimSegment(segment: { text: string; type?: SegmentType }): boolean {
+  return !isAnnotationExplanationSegment(segment) && segment.type !== 'evidence' && segment.type !== 'disclaimer';
+}
+
+/**
+ * Factory function to create an EvidenceIndex
+ */
+export function createEvidenceIndex(documents: EvidenceDocument[]): EvidenceIndex {
+  return new EvidenceIndex(documents);
+}
+
+/**
+ * supportingEvidence の表示形式
+ */
+export function formatEvidenceMatch(match: EvidenceMatch): string {
+  return `【${match.title}】${match.excerpt.replace(/\s*\n\s*/g, ' ')}`;
+}
+
+/**
+ * 不実証広告の違反を作成
+ */
+export function createUnsubstantiatedClaimViolation(result: SegmentEvidenceResult): Violation {
+  const phrases = Array.from(new Set(result.claims.map(c => c.phrase)));
+  const labels = Array.from(new Set(result.claims.map(c => c.label)));
+
+  return {
+    type: '景表法違反',
+    severity: 'high',
+    description: `【不実証広告】「${phrases.join('」「')}」は${labels.join('・')}のため表示の裏付けとなる合理的な根拠が必要ですが、提出されたエビデンスに対応する根拠が見つかりません（景品表示法第7条第2項）`,
+    referenceKnowledge: {
+      file: SUBSTANTIATION_KNOWLEDGE_FILE,
+      excerpt: SUBSTANTIATION_KNOWLEDGE_EXCERPT,
+    },
+    correctionSuggestion: '表示の根拠となる試験結果・調査結果（調査機関・期間・対象・数値）をエビデンスとして提出するか、根拠のない表示を削除してください',
+    notes: `根拠が必要な表示: ${labels.join('、')}`,
+  };
+}
+
+/**
+ * 評価結果にエビデンス照合結果を反映
+ *
+ * - 対応するエビデンスを supportingEvidence に追加
+ * - 根拠のない主張は不実証広告の違反を追加（compliance: false）
+ */
+export function applyEvidenceResults<T extends SegmentEvaluation>(
+  evaluations: T[],
+  results: SegmentEvidenceResult[]
+): T[] {
+  const resultMap = new Map(results.map(r => [r.segmentId, r]));
+
+  return evaluations.map(evaluation => {
+    const result = resultMap.get(evaluation.segmentId);
+    if (!result || (result.evidence.length === 0 && !result.unsubstantiated)) {
+      return evaluation;
+    }
+
+    const supportingEvidence = [
+      ...(evaluation.supportingEvidence || []),
+      ...result.evidence.map(formatEvidenceMatch),
+    ];
+
+    if (!result.unsubstantiated) {
+      return { ...evaluation, supportingEvidence };
+    }
+
+    return {
+      ...evaluation,
+      compliance: false,
+      violations: [...evaluation.violations, createUnsubstantiatedClaimViolation(result)],
+      ...(supportingEvidence.length > 0 && { supportingEvidence }),
+    };
+  });
+}
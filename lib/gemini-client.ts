@@ -8,9 +8,10 @@
  * - Comprehensive report generation
  * - Robust error handling with retry logic
  * - Timeout management
+ * - Pluggable LLM provider (Gemini / OpenAI互換 / Fake, config/llm.json)
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { createGeminiProvider, type LLMProvider } from './llm';
 import {
   GeminiClientConfig,
   GeminiAPIError,
@@ -27,7 +28,7 @@ import {
  * Default configuration values
  */
 const DEFAULT_CONFIG = {
-  model: 'gemini-2.5-flash-lite',
+  apiKey: '',
   timeoutMs: 60000, // 60 seconds
   retryConfig: {
     maxRetries: 3,
@@ -42,9 +43,8 @@ const DEFAULT_CONFIG = {
  * Advanced Gemini API Client
  */
 export class GeminiClient {
-  private config: Required<GeminiClientConfig>;
-  private genAI: GoogleGenerativeAI;
-  private model: GenerativeModel;
+  private config: Required<Omit<GeminiClientConfig, 'model' | 'provider'>> & Pick<GeminiClientConfig, 'model'>;
+  private llm: LLMProvider;
 
   constructor(config: GeminiClientConfig) {
     this.config = {
@@ -56,14 +56,12 @@ export class GeminiClient {
       },
     };
 
-    if (!this.config.apiKey) {
+    if (!config.provider && !this.config.apiKey) {
       throw new Error('Gemini API key is required');
     }
 
-    this.genAI = new GoogleGenerativeAI(this.config.apiKey);
-    this.model = this.genAI.getGenerativeModel({
-      model: this.config.model,
-    });
+    // モデル未指定時はプロバイダーの evaluation モデル（config/llm.json）
+    this.llm = config.provider || createGeminiProvider({ apiKey: this.config.apiKey });
   }
 
   /**
@@ -99,12 +97,10 @@ ${text}
 }
 `;
 
-    const result = await this.executeWithRetry(
-      async () => await this.model.generateContent(prompt),
+    return await this.executeWithRetry(
+      async () => await this.llm.generateJSON<TextStructure>(prompt, { model: this.config.model }),
       'analyzeStructure'
     );
-
-    return this.parseJsonResponse<TextStructure>(result.response.text());
   }
 
   /**
@@ -159,13 +155,11 @@ ${text}
 ]
 `;
 
-    const result = await this.executeWithRetry(
-      async () => await this.model.generateContent(prompt),
+    const segments = await this.executeWithRetry(
+      async () => await this.llm.generateJSON<Segment[]>(prompt, { model: this.config.model }),
       'segmentText'
     );
 
-    const segments = this.parseJsonResponse<Segment[]>(result.response.text());
-
     // Validate segments
     if (!Array.isArray(segments) || segments.length === 0) {
       throw new Error('Invalid segmentation result: expected non-empty array');
@@ -236,13 +230,11 @@ ${knowledgeContext}
 }
 `;
 
-    const result = await this.executeWithRetry(
-      async () => await this.model.generateContent(prompt),
+    const evaluation = await this.executeWithRetry(
+      async () => await this.llm.generateJSON<SegmentEvaluation>(prompt, { model: this.config.model }),
       'evaluateSegment'
     );
 
-    const evaluation = this.parseJsonResponse<SegmentEvaluation>(result.response.text());
-
     // Add metadata
     evaluation.evaluatedAt = new Date().toISOString();
     evaluation.processingTimeMs = Date.now() - startTime;
@@ -369,13 +361,11 @@ ${JSON.stringify(evaluations, null, 2)}
 Markdown形式で、読みやすく構造化されたレポートを作成してください。
 `;
 
-    const result = await this.executeWithRetry(
-      async () => await this.model.generateContent(prompt),
+    const markdown = await this.executeWithRetry(
+      async () => await this.llm.generateText(prompt, { model: this.config.model }),
       'generateReport'
     );
 
-    const markdown = result.response.text();
-
     const report: AnalysisReport = {
       id: this.generateId(),
       input,
@@ -482,31 +472,6 @@ Markdown形式で、読みやすく構造化されたレポートを作成して
     return geminiError;
   }
 
-  /**
-   * Parse JSON response from Gemini, handling various formats
-   */
-  private parseJsonResponse<T>(responseText: string): T {
-    try {
-      // Try direct parse
-      return JSON.parse(responseText);
-    } catch {
-      // Extract JSON from markdown code blocks
-      const jsonMatch = responseText.match(/```json\s*([\s\S]*?)\s*```/) ||
-                        responseText.match(/```\s*([\s\S]*?)\s*```/) ||
-                        responseText.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
-
-      if (!jsonMatch) {
-        throw new Error('Failed to extract JSON from response');
-      }
-
-      try {
-        return JSON.parse(jsonMatch[1]);
-      } catch (parseError) {
-        throw new Error(`Failed to parse JSON: ${parseError}`);
-      }
-    }
-  }
-
   /**
    * Delay execution for specified milliseconds
    */
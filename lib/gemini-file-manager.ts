@@ -29,7 +29,7 @@ export interface UploadedFile {
   /** Product ID (if product-specific) */
   productId?: ProductId;
   /** Category (common, HA, SH) */
-  category: 'common' | 'HA' | 'SH';
+  category: 'common' | ProductId;
 }
 
 /**
@@ -75,7 +75,7 @@ export class GeminiFileManager {
   async uploadFile(
     filePath: string,
     displayName: string,
-    category: 'common' | 'HA' | 'SH',
+    category: 'common' | ProductId,
     productId?: ProductId
   ): Promise<UploadResult> {
     try {
@@ -173,21 +173,19 @@ export class GeminiFileManager {
     }
 
     // Upload product-specific files
-    if (productId === 'HA' || productId === 'SH') {
-      const productPath = path.join(knowledgeBasePath, productId);
-      if (fs.existsSync(productPath)) {
-        const productFiles = fs.readdirSync(productPath).filter(f =>
-          f.endsWith('.txt') && allowedFiles.includes(f)
-        );
-
-        for (const fileName of productFiles) {
-          const filePath = path.join(productPath, fileName);
-          const result = await this.uploadFile(filePath, fileName, productId as 'HA' | 'SH', productId);
-          results.push(result);
-
-          // Add delay to avoid rate limits
-          await this.delay(500);
-        }
+    const productPath = path.join(knowledgeBasePath, productId);
+    if (fs.existsSync(productPath)) {
+      const productFiles = fs.readdirSync(productPath).filter(f =>
+        f.endsWith('.txt') && allowedFiles.includes(f)
+      );
+
+      for (const fileName of productFiles) {
+        const filePath = path.join(productPath, fileName);
+        const result = await this.uploadFile(filePath, fileName, productId, productId);
+        results.push(result);
+
+        // Add delay to avoid rate limits
+        await this.delay(500);
       }
     }
 
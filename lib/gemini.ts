@@ -6,7 +6,7 @@
  * - エビデンス検索（広告表現の根拠を検索）
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createLLMProvider, type LLMProvider } from './llm';
 import { Segment } from './types';
 import { loadProductConfig } from './product-config-loader';
 import { ProductId } from './types';
@@ -24,8 +24,8 @@ export async function segmentClaims(fullText: string): Promise<Segment[]> {
     throw new Error('GEMINI_API_KEY is not set. Please configure your environment variables.');
   }
 
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' }); // Fixed: 存在しないモデル名を修正
+  // モデルは config/llm.json の models.segmentation
+  const llm = createLLMProvider({ apiKey });
 
   const prompt = `
 あなたは広告文を分析する専門家です。以下の広告文を、意味的・構造的に独立した「主張」の最小単位に分割してください。
@@ -48,8 +48,7 @@ ${fullText}
 `;
 
   try {
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
+    const response = await llm.generateText(prompt, { role: 'segmentation' });
 
     // JSONをパース
     const jsonMatch = response.match(/\[[\s\S]*\]/);
@@ -217,11 +216,11 @@ async function retryWithBackoff<T>(
  */
 export class GeminiClient {
   private config: GeminiConfig;
-  private genAI: GoogleGenerativeAI;
+  private llm: LLMProvider;
 
   constructor(config: GeminiConfig) {
     this.config = config;
-    this.genAI = new GoogleGenerativeAI(config.apiKey);
+    this.llm = createLLMProvider({ apiKey: config.apiKey });
   }
 
   /**
@@ -299,15 +298,6 @@ ${config.segmentationKeywords?.prohibited?.map(kw => `   - 「${kw}」`).join('\
    * @returns セグメントの配列
    */
   async segmentText(text: string, productId: string): Promise<Segment[]> {
-    const model = this.genAI.getGenerativeModel({
-      model: 'gemini-1.5-flash', // Fixed: 存在しないモデル名を修正
-      generationConfig: {
-        maxOutputTokens: 16384, // Issue #15: 5,000文字まで確実に処理できるよう上限を引き上げ
-        temperature: 0.0
-        // responseMimeType removed - JSONパースはコード側で処理
-      }
-    });
-
     // Load keyword lists
     const keywordInstructions = this.getKeywordInstructions(productId);
 
@@ -378,8 +368,13 @@ JSONのみ返してください。
       const segments = await retryWithBackoff(async () => {
         console.log(`[Gemini] Segmenting text (${text.length} chars)...`);
 
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
+        // モデルは config/llm.json の models.segmentation
+        // JSONモードは使わない - JSONパースはコード側で処理
+        const response = await this.llm.generateText(prompt, {
+          role: 'segmentation',
+          maxOutputTokens: 16384, // Issue #15: 5,000文字まで確実に処理できるよう上限を引き上げ
+          temperature: 0.0,
+        });
 
         // JSONを抽出（マークダウンコードブロックも対応）
         const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) ||
@@ -36,6 +36,14 @@ describe('guinness-record-validator', () => {
       expect(result.keywords).toContain('売上世界一');
     });
 
+    it('should detect full-width and upper-case No.1 at original positions', () => {
+      const text = '売上ＮＯ．１の美容液';
+      const result = detectGuinnessKeywords(text);
+
+      expect(result.keywords).toContain('No.1');
+      expect(result.matches).toContainEqual({ keyword: 'No.1', start: 2, end: 6 });
+    });
+
     it('should return false for non-Guinness text', () => {
       const text = '高品質な製品です';
       const result = detectGuinnessKeywords(text);
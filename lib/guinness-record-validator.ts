@@ -6,6 +6,7 @@
 import {
   analyzePeriodExpressions,
 } from './period-expression-analyzer';
+import { normalizeJapaneseText } from './text-normalizer';
 
 /**
  * ギネス記録情報
@@ -75,10 +76,14 @@ export const GUINNESS_RECORD_MASTER: GuinnessRecordInfo = {
 
 /**
  * テキストからギネス関連キーワードを検出
+ *
+ * 正規化後のテキストで照合する（「ＮＯ．１」「Ｎｏ１」等の全角・大文字小文字の違いも検出）。
+ * matches の位置は元のテキストでの位置。
  */
 export function detectGuinnessKeywords(text: string): {
   hasKeywords: boolean;
   keywords: string[];
+  matches: Array<{ keyword: string; start: number; end: number }>;
 } {
   const guinnessKeywords = [
     'ギネス',
@@ -90,16 +95,32 @@ export function detectGuinnessKeywords(text: string): {
     '売上世界一',
   ];
 
+  const normalized = normalizeJapaneseText(text);
+  const haystack = toAsciiLowerCase(normalized.text);
+  const matches: Array<{ keyword: string; start: number; end: number }> = [];
+
+  for (const keyword of guinnessKeywords) {
+    const needle = toAsciiLowerCase(normalizeJapaneseText(keyword).text);
+    for (let index = haystack.indexOf(needle); index >= 0; index = haystack.indexOf(needle, index + needle.length)) {
+      matches.push({ keyword, ...normalized.toOriginalRange(index, index + needle.length) });
+    }
+  }
+
   const detected = guinnessKeywords.filter((keyword) =>
-    text.includes(keyword)
+    matches.some((match) => match.keyword === keyword)
   );
 
   return {
     hasKeywords: detected.length > 0,
     keywords: detected,
+    matches,
   };
 }
 
+function toAsciiLowerCase(text: string): string {
+  return text.replace(/[A-Z]/g, (char) => char.toLowerCase());
+}
+
 /**
  * ギネス記録情報を検証 (FR-GUIN-002)
  */
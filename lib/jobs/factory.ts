@@ -0,0 +1,72 @@
+/**
+ * Job Store Factory
+ *
+ * 保存方式はレポートと共通（REPORT_STORE: file | memory）
+ * - JOB_STORE_PATH: file の保存先ディレクトリ（default: .cache/jobs）
+ * - JOB_RETENTION_DAYS: 終了したジョブの保存期間（日数、default: 7、0 で無期限）
+ * - JOB_CONCURRENCY: 同時に実行するジョブ数（default: 2）
+ *
+ * memory の場合はサーバー再起動で実行中のジョブも消える（再開されない）。
+ * Job Store は Runner（lib/jobs/runner.ts）が保持し、ジョブの取得も Runner を経由する。
+ */
+
+import type { IJobStore } from './interface';
+import { createFileJobStore, type FileJobStoreConfig } from './file-job-store';
+import { getReportStoreBackend, type ReportStoreBackend } from '../report-store/factory';
+
+export interface JobStoreFactoryConfig {
+  /** 実装（省略時は REPORT_STORE 環境変数、未設定なら file） */
+  backend?: ReportStoreBackend;
+  /** FileJobStore設定（directory 省略時は JOB_STORE_PATH、retentionDays 省略時は JOB_RETENTION_DAYS） */
+  file?: FileJobStoreConfig;
+}
+
+/**
+ * 同時に実行するジョブ数（一括チェックの並列数）
+ *
+ * @throws Error JOB_CONCURRENCY が不正な場合
+ */
+export function getJobConcurrency(): number {
+  const value = process.env.JOB_CONCURRENCY;
+  if (value === undefined || value === '') {
+    return 2;
+  }
+
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`JOB_CONCURRENCY が不正です: ${value}（1 以上の整数）`);
+  }
+  return concurrency;
+}
+
+/**
+ * 終了したジョブの保存期間（日数）
+ *
+ * @throws Error JOB_RETENTION_DAYS が不正な場合
+ */
+export function getJobRetentionDays(): number {
+  const value = process.env.JOB_RETENTION_DAYS;
+  if (value === undefined || value === '') {
+    return 7;
+  }
+
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`JOB_RETENTION_DAYS が不正です: ${value}（0 以上の日数）`);
+  }
+  return days;
+}
+
+/**
+ * Job Storeを作成（接続は呼び出し側で connect() する）
+ */
+export function createJobStore(config: JobStoreFactoryConfig = {}): IJobStore {
+  const backend = config.backend || getReportStoreBackend();
+
+  return createFileJobStore({
+    directory: process.env.JOB_STORE_PATH || undefined,
+    retentionDays: getJobRetentionDays(),
+    persist: backend === 'file',
+    ...config.file,
+  });
+}
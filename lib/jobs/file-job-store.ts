@@ -0,0 +1,170 @@
+/**
+ * File Job Store Implementation
+ *
+ * ジョブを1件ずつJSONファイルとして保存する組み込みのJob Store（外部DB不要）
+ *
+ * - 保存先: .cache/jobs/<jobId>.json（一時ファイルに書き込んでからリネーム）
+ * - ジョブはメモリ上に保持し、ステップの完了ごとにファイルへ保存（サーバー再起動後の再開に使用）
+ * - 終了（完了・失敗・キャンセル）から retentionDays を過ぎたジョブは connect・保存・取得・一覧のたびに削除する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isValidReportId } from '../report-store/file-report-store';
+import type { EvaluationJob, IJobStore, JobStatus } from './interface';
+
+export interface FileJobStoreConfig {
+  /** 保存先ディレクトリ（default: .cache/jobs） */
+  directory?: string;
+  /** ファイルに保存するか（default: true、false の場合はメモリのみ） */
+  persist?: boolean;
+  /** 終了したジョブの保存期間（日数、0 以下で無期限、default: 7） */
+  retentionDays?: number;
+}
+
+/**
+ * デフォルトの保存先ディレクトリ
+ */
+export function getDefaultJobStoreDirectory(): string {
+  return path.join(process.cwd(), '.cache', 'jobs');
+}
+
+/**
+ * ジョブIDの形式チェック（レポートIDと同じ、ファイル名として安全な形式）
+ */
+export function isValidJobId(id: string): boolean {
+  return isValidReportId(id);
+}
+
+/**
+ * File Job Store Implementation
+ */
+export class FileJobStore implements IJobStore {
+  private jobs = new Map<string, EvaluationJob>();
+  private connected = false;
+  private directory: string;
+  private persist: boolean;
+  private retentionDays: number;
+
+  constructor(config: FileJobStoreConfig = {}) {
+    this.directory = config.directory || getDefaultJobStoreDirectory();
+    this.persist = config.persist !== false;
+    this.retentionDays = config.retentionDays ?? 7;
+  }
+
+  async connect(): Promise<void> {
+    this.jobs.clear();
+
+    if (this.persist && fs.existsSync(this.directory)) {
+      for (const fileName of fs.readdirSync(this.directory)) {
+        if (!fileName.endsWith('.json')) {
+          continue;
+        }
+
+        const filePath = path.join(this.directory, fileName);
+        try {
+          const job = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as EvaluationJob;
+          this.jobs.set(job.id, job);
+        } catch (error) {
+          console.warn(`[FileJobStore] Skipped unreadable job (${filePath}): ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    this.connected = true;
+    const purged = await this.purgeExpired();
+    console.log(`[FileJobStore] ✅ Connected (${this.persist ? this.directory : 'in-memory'}, ${this.jobs.size} jobs${purged > 0 ? `, purged ${purged}` : ''})`);
+  }
+
+  async save(job: EvaluationJob): Promise<void> {
+    this.assertConnected();
+
+    if (!isValidJobId(job.id)) {
+      throw new Error(`Invalid job ID: ${job.id}`);
+    }
+
+    if (this.persist) {
+      fs.mkdirSync(this.directory, { recursive: true });
+      const filePath = this.getFilePath(job.id);
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(job), 'utf-8');
+      fs.renameSync(tmpPath, filePath);
+    }
+
+    this.jobs.set(job.id, job);
+    await this.purgeExpired();
+  }
+
+  async get(id: string): Promise<EvaluationJob | null> {
+    this.assertConnected();
+    await this.purgeExpired();
+    return this.jobs.get(id) || null;
+  }
+
+  async list(statuses?: JobStatus[]): Promise<EvaluationJob[]> {
+    this.assertConnected();
+    await this.purgeExpired();
+    return Array.from(this.jobs.values())
+      .filter(job => !statuses || statuses.includes(job.status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.assertConnected();
+
+    if (!this.jobs.has(id)) {
+      return false;
+    }
+
+    this.remove(id);
+    return true;
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    this.assertConnected();
+
+    if (this.retentionDays <= 0) {
+      return 0;
+    }
+
+    // 実行待ち・実行中のジョブは削除しない
+    const cutoff = now.getTime() - this.retentionDays * 24 * 60 * 60 * 1000;
+    const expiredIds = Array.from(this.jobs.values())
+      .filter(job => job.finishedAt !== undefined && new Date(job.finishedAt).getTime() < cutoff)
+      .map(job => job.id);
+
+    for (const id of expiredIds) {
+      this.remove(id);
+    }
+
+    if (expiredIds.length > 0) {
+      console.log(`[FileJobStore] Purged ${expiredIds.length} jobs finished more than ${this.retentionDays} days ago`);
+    }
+    return expiredIds.length;
+  }
+
+  private remove(id: string): void {
+    this.jobs.delete(id);
+
+    if (this.persist) {
+      fs.rmSync(this.getFilePath(id), { force: true });
+    }
+  }
+
+  private getFilePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private assertConnected(): void {
+    if (!this.connected) {
+      throw new Error('Not connected to FileJobStore');
+    }
+  }
+}
+
+/**
+ * Factory function to create FileJobStore instance
+ */
+export function createFileJobStore(config: FileJobStoreConfig = {}): FileJobStore {
+  return new FileJobStore(config);
+}
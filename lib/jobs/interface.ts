@@ -0,0 +1,138 @@
+/**
+ * Job Store Interface
+ *
+ * 非同期チェックジョブ（POST /api/v2/jobs）の保存先を抽象化するインターフェース
+ */
+
+import type { ProductId } from '../types';
+import type { EvaluationMode, Segment, SegmentEvaluation } from '../types-v2';
+
+/**
+ * ジョブの状態
+ * - queued: 実行待ち（サーバー再起動時に実行中だったジョブもここから再開）
+ * - running: 実行中
+ * - completed: レポート生成まで完了
+ * - failed: いずれかのステップでエラー
+ * - cancelled: キャンセル済み
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * ジョブのステップ（segment → evaluate（バッチごと） → report の順に進む）
+ */
+export type JobStep = 'segment' | 'evaluate' | 'report';
+
+/**
+ * ジョブの入力（Web UI の1回のチェックと同じ内容）
+ */
+export interface JobInput {
+  /** 広告文全体 */
+  text: string;
+  /** 商品ID */
+  productId: ProductId;
+  /** 提出エビデンス（広告文とは別に主張と照合） */
+  evidence?: string;
+  /** 'offline' の場合はルールベース検証のみで評価 */
+  mode?: EvaluationMode;
+}
+
+/**
+ * 一括チェック（POST /api/v2/bulk）の1行として登録したジョブの情報
+ */
+export interface JobBulkItem {
+  /** 一括チェックID */
+  id: string;
+  /** 広告ID（アップロードしたファイルの ad_id） */
+  adId: string;
+  /** ファイル内の行番号（1始まり、CSVはヘッダー行を除く） */
+  row: number;
+}
+
+/**
+ * 非同期チェックジョブ
+ */
+export interface EvaluationJob {
+  /** ジョブID */
+  id: string;
+
+  /** 状態 */
+  status: JobStatus;
+
+  /** 次に実行する（または実行中の）ステップ */
+  step: JobStep;
+
+  /** 入力 */
+  input: JobInput;
+
+  /** 一括チェックの1行の場合 */
+  bulk?: JobBulkItem;
+
+  /** セグメント（segment ステップの完了後） */
+  segments?: Segment[];
+
+  /** 評価バッチのサイズ（セグメント数） */
+  batchSize: number;
+
+  /** 完了した評価バッチの数（再開時はここから続行） */
+  completedBatches: number;
+
+  /** 完了したバッチまでの評価結果（途中経過） */
+  evaluations: SegmentEvaluation[];
+
+  /** 現在の処理内容（直近の進捗イベント） */
+  activity?: string;
+
+  /** 生成したレポートのID（GET /api/v2/reports/:id） */
+  reportId?: string;
+
+  /** エラーメッセージ（failed の場合） */
+  error?: string;
+
+  /** 作成日時（ISO timestamp） */
+  createdAt: string;
+
+  /** 更新日時（ISO timestamp） */
+  updatedAt: string;
+
+  /** 完了・失敗・キャンセル日時（ISO timestamp） */
+  finishedAt?: string;
+}
+
+/**
+ * Job Store Interface
+ */
+export interface IJobStore {
+  /**
+   * 保存先を読み込み
+   */
+  connect(): Promise<void>;
+
+  /**
+   * ジョブを保存（同じIDのジョブは上書き）
+   */
+  save(job: EvaluationJob): Promise<void>;
+
+  /**
+   * ジョブを取得（存在しない場合は null）
+   */
+  get(id: string): Promise<EvaluationJob | null>;
+
+  /**
+   * ジョブ一覧を取得（作成日時の新しい順）
+   */
+  list(statuses?: JobStatus[]): Promise<EvaluationJob[]>;
+
+  /**
+   * ジョブを削除
+   *
+   * @returns 削除した場合 true、存在しない場合 false
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * 保存期間を過ぎた終了済みのジョブを削除
+   *
+   * @returns 削除した件数
+   */
+  purgeExpired(now?: Date): Promise<number>;
+}
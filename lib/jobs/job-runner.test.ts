@@ -0,0 +1,191 @@
+/**
+ * JobRunner（バッチ単位の保存・再起動後の再開・キャンセル）のテスト
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, it, expect } from 'vitest';
+import { createFileJobStore } from './file-job-store';
+import { createJobRunner, getJobProgress, type JobPipeline } from './job-runner';
+import type { EvaluationJob } from './interface';
+import type { Segment, SegmentEvaluation } from '../types-v2';
+
+function makeSegments(count: number): Segment[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `seg_${i}`,
+    text: `セグメント${i}`,
+    type: 'claim',
+    position: { start: i * 10, end: i * 10 + 5 },
+  }));
+}
+
+function makeEvaluation(segment: Segment): SegmentEvaluation {
+  return {
+    segmentId: segment.id,
+    compliance: true,
+    violations: [],
+    evaluatedAt: new Date().toISOString(),
+    processingTimeMs: 0,
+  } as SegmentEvaluation;
+}
+
+function makePipeline(segments: Segment[], evaluateBatch?: JobPipeline['evaluateBatch']) {
+  const calls = { segment: 0, batches: [] as string[][], report: 0 };
+  const pipeline: JobPipeline = {
+    async segment() {
+      calls.segment++;
+      return segments;
+    },
+    async evaluateBatch(batch, input, context) {
+      calls.batches.push(batch.map(s => s.id));
+      return evaluateBatch ? evaluateBatch(batch, input, context) : batch.map(makeEvaluation);
+    },
+    async report() {
+      calls.report++;
+      return { id: 'report_1' };
+    },
+  };
+  return { pipeline, calls };
+}
+
+let tmpDir: string | undefined;
+
+afterEach(() => {
+  if (tmpDir) {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  }
+});
+
+describe('JobRunner', () => {
+  it('runs segment, batched evaluation and report, and reports progress', async () => {
+    const store = createFileJobStore({ persist: false });
+    await store.connect();
+    const { pipeline, calls } = makePipeline(makeSegments(5));
+    const runner = createJobRunner(store, pipeline, { batchSize: 2 });
+
+    const queued = await runner.enqueue({ text: '広告文', productId: 'HA' });
+    await runner.whenIdle();
+
+    const job = (await store.get(queued.id))!;
+    expect(job.status).toBe('completed');
+    expect(job.reportId).toBe('report_1');
+    expect(job.evaluations).toHaveLength(5);
+    expect(calls.batches).toEqual([['seg_0', 'seg_1'], ['seg_2', 'seg_3'], ['seg_4']]);
+    expect(getJobProgress(job)).toMatchObject({ totalSegments: 5, completedBatches: 3, totalBatches: 3, percent: 100 });
+  });
+
+  it('resumes an interrupted job from the last completed batch after a restart', async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    const segments = makeSegments(5);
+
+    // 2バッチ目の評価中にサーバーが停止した状態
+    const before = createFileJobStore({ directory: tmpDir });
+    await before.connect();
+    const interrupted: EvaluationJob = {
+      id: 'job_interrupted',
+      status: 'running',
+      step: 'evaluate',
+      input: { text: '広告文', productId: 'HA' },
+      segments,
+      batchSize: 2,
+      completedBatches: 1,
+      evaluations: segments.slice(0, 2).map(makeEvaluation),
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+    await before.save(interrupted);
+
+    const store = createFileJobStore({ directory: tmpDir });
+    await store.connect();
+    const { pipeline, calls } = makePipeline(segments);
+    const runner = createJobRunner(store, pipeline, { batchSize: 20 });
+
+    expect(await runner.resumePending()).toBe(1);
+    await runner.whenIdle();
+
+    const job = (await store.get('job_interrupted'))!;
+    expect(calls.segment).toBe(0);
+    expect(calls.batches).toEqual([['seg_2', 'seg_3'], ['seg_4']]);
+    expect(job.status).toBe('completed');
+    expect(job.evaluations.map(e => e.segmentId)).toEqual(segments.map(s => s.id));
+  });
+
+  it('runs up to `concurrency` jobs at the same time', async () => {
+    const store = createFileJobStore({ persist: false });
+    await store.connect();
+
+    let active = 0;
+    let maxActive = 0;
+    const { pipeline } = makePipeline(makeSegments(1), async (batch) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+      return batch.map(makeEvaluation);
+    });
+    const runner = createJobRunner(store, pipeline, { concurrency: 2 });
+
+    for (let i = 0; i < 5; i++) {
+      await runner.enqueue({ text: `広告文${i}`, productId: 'HA' });
+    }
+    await runner.whenIdle();
+
+    expect(maxActive).toBe(2);
+    expect((await store.list(['completed'])).length).toBe(5);
+  });
+
+  it('cancels a running job and aborts the current step', async () => {
+    const store = createFileJobStore({ persist: false });
+    await store.connect();
+
+    let started!: () => void;
+    const batchStarted = new Promise<void>(resolve => { started = resolve; });
+    const { pipeline, calls } = makePipeline(makeSegments(3), (_batch, _input, { signal }) => {
+      started();
+      return new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+    });
+    const runner = createJobRunner(store, pipeline);
+
+    const queued = await runner.enqueue({ text: '広告文', productId: 'HA' });
+    await batchStarted;
+    const cancelled = await runner.cancel(queued.id);
+    await runner.whenIdle();
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect((await store.get(queued.id))?.status).toBe('cancelled');
+    expect(calls.report).toBe(0);
+  });
+
+  it('purges finished jobs after the retention period and keeps unfinished ones', async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    const store = createFileJobStore({ directory: tmpDir, retentionDays: 7 });
+    await store.connect();
+
+    const { pipeline } = makePipeline(makeSegments(1));
+    const runner = createJobRunner(store, pipeline);
+    const finished = await runner.enqueue({ text: '広告文', productId: 'HA' });
+    await runner.whenIdle();
+
+    const eightDaysAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+    const queued: EvaluationJob = {
+      id: 'job_queued',
+      status: 'queued',
+      step: 'segment',
+      input: { text: '広告文', productId: 'HA' },
+      batchSize: 20,
+      completedBatches: 0,
+      evaluations: [],
+      createdAt: eightDaysAgo,
+      updatedAt: eightDaysAgo,
+    };
+    await store.save(queued);
+
+    expect((await runner.listJobs()).map(job => job.id)).toEqual([finished.id, 'job_queued']);
+    expect(await store.purgeExpired(new Date(Date.now() + 8 * 24 * 60 * 60 * 1000))).toBe(1);
+    expect(await runner.getJob(finished.id)).toBeNull();
+    expect(fs.existsSync(path.join(tmpDir, `${finished.id}.json`))).toBe(false);
+    expect((await runner.listJobs()).map(job => job.id)).toEqual(['job_queued']);
+  });
+});
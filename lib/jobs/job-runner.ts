@@ -0,0 +1,316 @@
+/**
+ * Job Runner
+ * 非同期チェックジョブの実行（バックグラウンドワーカー）
+ *
+ * ジョブは segment → evaluate（セグメントのバッチごと） → report のステップで進み、
+ * ステップ・バッチの完了ごとに Job Store へ保存する。
+ * サーバーの再起動で中断したジョブは resumePending() により、最後に完了したバッチの次から再開する。
+ *
+ * 同時に実行するジョブ数は concurrency で制限する（default: 1、LLMのレート制限を避けるため）。
+ */
+
+import type { AnalysisReport, Segment, SegmentEvaluation } from '../types-v2';
+import type { EvaluationJob, IJobStore, JobBulkItem, JobInput, JobStatus } from './interface';
+
+/**
+ * パイプラインの各ステップに渡すコンテキスト
+ */
+export interface JobStepContext {
+  /** キャンセル時に中断されるシグナル */
+  signal: AbortSignal;
+  /** 現在の処理内容を通知（GET /api/v2/jobs/:id の activity に反映） */
+  onActivity?: (activity: string) => void;
+}
+
+/**
+ * ジョブで実行するチェックのパイプライン
+ */
+export interface JobPipeline {
+  /** 広告文をセグメントに分割 */
+  segment(input: JobInput, context: JobStepContext): Promise<Segment[]>;
+  /** セグメントのバッチを評価 */
+  evaluateBatch(segments: Segment[], input: JobInput, context: JobStepContext): Promise<SegmentEvaluation[]>;
+  /** 全セグメントの評価結果からレポートを生成（保存済みレポート） */
+  report(input: JobInput, segments: Segment[], evaluations: SegmentEvaluation[], context: JobStepContext): Promise<Pick<AnalysisReport, 'id'>>;
+}
+
+export interface JobRunnerConfig {
+  /** 1バッチのセグメント数（default: 20、/api/v2/evaluate-batch の上限） */
+  batchSize?: number;
+  /** 同時に実行するジョブ数（default: 1） */
+  concurrency?: number;
+}
+
+/**
+ * ジョブの進捗
+ */
+export interface JobProgress {
+  totalSegments?: number;
+  evaluatedSegments: number;
+  completedBatches: number;
+  totalBatches?: number;
+  /** 0-100 */
+  percent: number;
+}
+
+/**
+ * ジョブの進捗を計算（segment: 0-10%、evaluate: 10-90%、report: 90-100%）
+ */
+export function getJobProgress(job: EvaluationJob): JobProgress {
+  const totalSegments = job.segments?.length;
+  const totalBatches = totalSegments !== undefined ? Math.ceil(totalSegments / job.batchSize) : undefined;
+
+  let percent = 0;
+  if (job.status === 'completed') {
+    percent = 100;
+  } else if (job.step === 'evaluate' && totalBatches) {
+    percent = Math.round(10 + (job.completedBatches / totalBatches) * 80);
+  } else if (job.step === 'report') {
+    percent = 90;
+  } else if (job.step === 'evaluate') {
+    percent = 10;
+  }
+
+  return {
+    ...(totalSegments !== undefined && { totalSegments }),
+    evaluatedSegments: job.evaluations.length,
+    completedBatches: job.completedBatches,
+    ...(totalBatches !== undefined && { totalBatches }),
+    percent,
+  };
+}
+
+/**
+ * ジョブがキャンセルされた
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job cancelled: ${jobId}`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Job Runner
+ */
+export class JobRunner {
+  private batchSize: number;
+  private concurrency: number;
+  private running = new Map<string, AbortController>();
+  private workers: Promise<void>[] = [];
+
+  constructor(
+    private store: IJobStore,
+    private pipeline: JobPipeline,
+    config: JobRunnerConfig = {}
+  ) {
+    this.batchSize = config.batchSize || 20;
+    this.concurrency = Math.max(1, config.concurrency || 1);
+  }
+
+  /**
+   * ジョブを登録してバックグラウンドで実行
+   *
+   * @param bulk - 一括チェックの1行として登録する場合
+   */
+  async enqueue(input: JobInput, bulk?: JobBulkItem): Promise<EvaluationJob> {
+    const now = new Date().toISOString();
+    const job: EvaluationJob = {
+      id: generateJobId(),
+      status: 'queued',
+      step: 'segment',
+      input,
+      ...(bulk && { bulk }),
+      batchSize: this.batchSize,
+      completedBatches: 0,
+      evaluations: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(job);
+    this.kick();
+    return job;
+  }
+
+  /**
+   * ジョブを取得（存在しない場合は null）
+   */
+  async getJob(id: string): Promise<EvaluationJob | null> {
+    return this.store.get(id);
+  }
+
+  /**
+   * ジョブ一覧を取得（作成日時の新しい順）
+   */
+  async listJobs(statuses?: JobStatus[]): Promise<EvaluationJob[]> {
+    return this.store.list(statuses);
+  }
+
+  /**
+   * 未完了のジョブを再開（サーバー起動後に1回呼び出す）
+   *
+   * 実行中のまま停止したジョブは queued に戻し、保存済みのステップ・バッチの続きから実行する。
+   *
+   * @returns 再開するジョブの数
+   */
+  async resumePending(): Promise<number> {
+    const pending = await this.store.list(['queued', 'running']);
+
+    for (const job of pending) {
+      if (job.status === 'running' && !this.running.has(job.id)) {
+        await this.update(job, { status: 'queued', activity: '中断したジョブを再開待ち' });
+      }
+    }
+
+    this.kick();
+    return pending.length;
+  }
+
+  /**
+   * ジョブをキャンセル
+   *
+   * @returns キャンセル後のジョブ（存在しない場合は null）。完了済みのジョブはそのまま返す
+   */
+  async cancel(id: string): Promise<EvaluationJob | null> {
+    const job = await this.store.get(id);
+    if (!job || isFinished(job)) {
+      return job;
+    }
+
+    // 実行中のステップを中断（状態の保存は実行側で行う）
+    this.running.get(id)?.abort(new JobCancelledError(id));
+
+    return this.update(job, { status: 'cancelled', activity: undefined, finishedAt: new Date().toISOString() });
+  }
+
+  /**
+   * 実行待ちのジョブがなくなるまで待つ
+   */
+  async whenIdle(): Promise<void> {
+    while (this.workers.length > 0) {
+      await Promise.all(this.workers);
+    }
+  }
+
+  private kick(): void {
+    while (this.workers.length < this.concurrency) {
+      const worker: Promise<void> = this.processQueue()
+        .catch(error => console.error('[JobRunner] Queue processing failed:', error))
+        .finally(() => {
+          this.workers = this.workers.filter(w => w !== worker);
+        });
+      this.workers.push(worker);
+    }
+  }
+
+  private async processQueue(): Promise<void> {
+    for (;;) {
+      const queued = await this.store.list(['queued']);
+      // 作成日時の古い順に、他のワーカーが実行していないジョブを実行
+      const next = queued.reverse().find(job => !this.running.has(job.id));
+      if (!next) {
+        return;
+      }
+      await this.run(next);
+    }
+  }
+
+  private async run(queuedJob: EvaluationJob): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(queuedJob.id, controller);
+    const { signal } = controller;
+
+    // 一覧の取得後に他のワーカーが実行・キャンセルしたジョブは実行しない
+    const current = await this.store.get(queuedJob.id);
+    if (current?.status !== 'queued') {
+      this.running.delete(queuedJob.id);
+      return;
+    }
+
+    let job = await this.update(current, { status: 'running' });
+    const context: JobStepContext = {
+      signal,
+      onActivity: (activity) => {
+        if (!signal.aborted) {
+          job = { ...job, activity, updatedAt: new Date().toISOString() };
+          this.store.save(job).catch(() => undefined);
+        }
+      },
+    };
+
+    try {
+      if (job.step === 'segment') {
+        console.log(`[JobRunner] ${job.id}: segmenting...`);
+        const segments = await this.pipeline.segment(job.input, context);
+        signal.throwIfAborted();
+        job = await this.update(job, { step: 'evaluate', segments, completedBatches: 0, evaluations: [] });
+      }
+
+      const segments = job.segments || [];
+      if (job.step === 'evaluate') {
+        const totalBatches = Math.ceil(segments.length / job.batchSize);
+
+        for (let batch = job.completedBatches; batch < totalBatches; batch++) {
+          console.log(`[JobRunner] ${job.id}: evaluating batch ${batch + 1}/${totalBatches}...`);
+          const batchSegments = segments.slice(batch * job.batchSize, (batch + 1) * job.batchSize);
+          const evaluations = await this.pipeline.evaluateBatch(batchSegments, job.input, context);
+          signal.throwIfAborted();
+          job = await this.update(job, {
+            completedBatches: batch + 1,
+            evaluations: [...job.evaluations, ...evaluations],
+          });
+        }
+
+        job = await this.update(job, { step: 'report' });
+      }
+
+      console.log(`[JobRunner] ${job.id}: generating report...`);
+      const report = await this.pipeline.report(job.input, segments, job.evaluations, context);
+      signal.throwIfAborted();
+      await this.update(job, {
+        status: 'completed',
+        reportId: report.id,
+        activity: undefined,
+        finishedAt: new Date().toISOString(),
+      });
+      console.log(`[JobRunner] ✅ ${job.id}: completed (report ${report.id})`);
+    } catch (error) {
+      if (signal.aborted) {
+        // cancel() で cancelled として保存済み
+        console.log(`[JobRunner] ${job.id}: cancelled`);
+      } else {
+        console.error(`[JobRunner] ❌ ${job.id}: failed at ${job.step}:`, error);
+        await this.update(job, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          activity: undefined,
+          finishedAt: new Date().toISOString(),
+        });
+      }
+    } finally {
+      this.running.delete(queuedJob.id);
+    }
+  }
+
+  private async update(job: EvaluationJob, changes: Partial<EvaluationJob>): Promise<EvaluationJob> {
+    const updated: EvaluationJob = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    await this.store.save(updated);
+    return updated;
+  }
+}
+
+function isFinished(job: EvaluationJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+function generateJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Factory function to create JobRunner instance
+ */
+export function createJobRunner(store: IJobStore, pipeline: JobPipeline, config: JobRunnerConfig = {}): JobRunner {
+  return new JobRunner(store, pipeline, config);
+}
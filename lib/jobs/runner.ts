@@ -0,0 +1,147 @@
+/**
+ * 非同期チェックジョブのパイプライン
+ *
+ * Web UI と同じ順序で /api/v2/segment → /api/v2/evaluate-batch → /api/v2/report のハンドラーを
+ * プロセス内で呼び出す（HTTP を経由しないため maxDuration の制限を受けない）。
+ *
+ * Runner はサーバー起動時（instrumentation.ts）に初期化し、再起動前に中断したジョブを再開する。
+ * Runner と Job Store は globalThis で共有し、ジョブAPIは Runner（getJob / listJobs）からジョブを取得する
+ * （ホットリロードや別バンドルの instrumentation.ts でも同じ Job Store を参照するため）。
+ *
+ * 注: サーバーレス環境ではレスポンス返却後にバックグラウンド処理が停止するため、
+ *     常駐するサーバー（next start）で実行すること。
+ */
+
+import { NextRequest } from 'next/server';
+import { POST as segmentHandler } from '@/app/api/v2/segment/route';
+import { POST as evaluateBatchHandler } from '@/app/api/v2/evaluate-batch/route';
+import { POST as reportHandler } from '@/app/api/v2/report/route';
+import { readEvaluationEventStream, type EvaluationProgressEvent } from '@/lib/evaluation-progress';
+import { createJobRunner, type JobPipeline, type JobRunner } from '@/lib/jobs/job-runner';
+import { createJobStore, getJobConcurrency } from '@/lib/jobs/factory';
+import type { JobInput } from '@/lib/jobs/interface';
+import type { AnalysisReport, Segment, SegmentEvaluation } from '@/lib/types-v2';
+
+/**
+ * ハンドラーを呼び出し、成功時の data を返す
+ *
+ * @throws Error ハンドラーがエラーを返した場合
+ */
+async function callHandler<T>(
+  handler: (request: NextRequest) => Promise<Response>,
+  path: string,
+  body: unknown,
+  signal: AbortSignal
+): Promise<T> {
+  const response = await handler(new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  }));
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(`${path}: ${result.error || `HTTP ${response.status}`}${result.message ? ` (${result.message})` : ''}`);
+  }
+  return result.data as T;
+}
+
+function describeProgress(event: EvaluationProgressEvent): string | undefined {
+  switch (event.stage) {
+    case 'rag':
+      return `ナレッジ検索完了（${event.totalChunks}チャンク）`;
+    case 'llm_request':
+      return `LLMで評価中（${event.segments}セグメント${event.attempt > 1 ? `、再試行 ${event.attempt - 1}回目` : ''}）`;
+    case 'segment_evaluated':
+      return `評価結果 ${event.index + 1}/${event.total}`;
+    default:
+      return undefined;
+  }
+}
+
+const pipeline: JobPipeline = {
+  async segment(input: JobInput, { signal }) {
+    const data = await callHandler<{ segments: Segment[] }>(segmentHandler, '/api/v2/segment', {
+      text: input.text,
+      productId: input.productId,
+    }, signal);
+    return data.segments;
+  },
+
+  async evaluateBatch(segments: Segment[], input: JobInput, { signal, onActivity }) {
+    const response = await evaluateBatchHandler(new NextRequest('http://localhost/api/v2/evaluate-batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({
+        segments,
+        productId: input.productId,
+        fullText: input.text,
+        evidence: input.evidence?.trim() ? [{ title: '提出エビデンス', text: input.evidence }] : undefined,
+        mode: input.mode,
+      }),
+      signal,
+    }));
+
+    // 進捗イベントをジョブの activity に反映
+    const result = await readEvaluationEventStream<{ success: boolean; error?: string; data: { evaluations: SegmentEvaluation[] } }>(
+      response,
+      (event) => {
+        const activity = describeProgress(event);
+        if (activity) {
+          onActivity?.(activity);
+        }
+      }
+    );
+
+    if (result.status !== 200 || !result.body.success) {
+      throw new Error(`/api/v2/evaluate-batch: ${result.body.error || `HTTP ${result.status}`}`);
+    }
+    return result.body.data.evaluations;
+  },
+
+  async report(input: JobInput, segments: Segment[], evaluations: SegmentEvaluation[], { signal }) {
+    return callHandler<AnalysisReport>(reportHandler, '/api/v2/report', {
+      input: {
+        full_text: input.text,
+        product_id: input.productId,
+        provided_evidence: input.evidence || undefined,
+      },
+      structure: {
+        overview: `${input.productId}商品の広告文チェック`,
+        mainClaims: [],
+        supportingStatements: [],
+        tone: 'promotional',
+      },
+      segments,
+      evaluations,
+    }, signal);
+  },
+};
+
+// 開発サーバーのホットリロードでも1つのRunnerを共有する
+const globalForJobs = globalThis as unknown as { jobRunner?: Promise<JobRunner> };
+
+/**
+ * Get or create global job runner (初期化時に中断したジョブを再開)
+ */
+export function getJobRunner(): Promise<JobRunner> {
+  if (!globalForJobs.jobRunner) {
+    const store = createJobStore();
+    globalForJobs.jobRunner = store.connect().then(async () => {
+      const runner = createJobRunner(store, pipeline, { concurrency: getJobConcurrency() });
+      const resumed = await runner.resumePending();
+      if (resumed > 0) {
+        console.log(`[Jobs] Resuming ${resumed} pending job(s)`);
+      }
+      return runner;
+    });
+
+    // 初期化に失敗した場合は次回再試行
+    globalForJobs.jobRunner.catch(() => {
+      globalForJobs.jobRunner = undefined;
+    });
+  }
+
+  return globalForJobs.jobRunner;
+}
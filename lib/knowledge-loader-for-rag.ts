@@ -6,11 +6,13 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { createPriorityMappingLoader } from './priority-mapping-loader';
+import { shouldLoadFile } from './knowledge-mapping';
+import { PRODUCT_IDS, ProductId } from './types';
 
 export interface KnowledgeFile {
   id: string;
   fileName: string;
-  category: 'common' | 'HA' | 'SH';
+  category: 'common' | ProductId;
   content: string;
   metadata: {
     fileName: string;
@@ -35,6 +37,8 @@ export class KnowledgeLoaderForRAG {
 
   /**
    * 全カテゴリのナレッジをロード
+   *
+   * common と、knowledge/ 配下に存在する全商品ディレクトリ（knowledge/<ProductId>/）をロード
    */
   async loadAll(): Promise<KnowledgeFile[]> {
     const files: KnowledgeFile[] = [];
@@ -44,18 +48,17 @@ export class KnowledgeLoaderForRAG {
       const commonFiles = await this.loadCategory('common');
       files.push(...commonFiles);
 
-      // Load HA knowledge
-      const haFiles = await this.loadCategory('HA');
-      files.push(...haFiles);
+      console.log(`  - common: ${commonFiles.length}`);
 
-      // Load SH knowledge
-      const shFiles = await this.loadCategory('SH');
-      files.push(...shFiles);
+      // Load product-specific knowledge
+      const productIds = await this.listProductDirectories();
+      for (const productId of productIds) {
+        const productFiles = await this.loadCategory(productId);
+        files.push(...productFiles);
+        console.log(`  - ${productId}: ${productFiles.length}`);
+      }
 
       console.log(`[KnowledgeLoader] Loaded ${files.length} knowledge files`);
-      console.log(`  - common: ${commonFiles.length}`);
-      console.log(`  - HA: ${haFiles.length}`);
-      console.log(`  - SH: ${shFiles.length}`);
 
       return files;
     } catch (error) {
@@ -64,6 +67,18 @@ export class KnowledgeLoaderForRAG {
     }
   }
 
+  /**
+   * knowledge/ 配下の商品ディレクトリ一覧を取得（PRODUCT_IDS に含まれるもののみ）
+   */
+  private async listProductDirectories(): Promise<ProductId[]> {
+    const entries = await fs.readdir(this.knowledgeDir, { withFileTypes: true });
+    const productIds = PRODUCT_IDS as readonly string[];
+
+    return entries
+      .filter(entry => entry.isDirectory() && productIds.includes(entry.name))
+      .map(entry => entry.name as ProductId);
+  }
+
   /**
    * 特定カテゴリのナレッジをロード
    */
@@ -93,8 +108,7 @@ export class KnowledgeLoaderForRAG {
           if (!mapping) {
             // Try all possible categories
             mapping = priorityMapping.get(`common/${entry.name}`) ||
-                     priorityMapping.get(`HA/${entry.name}`) ||
-                     priorityMapping.get(`SH/${entry.name}`);
+                     Array.from(priorityMapping.values()).find(m => m.fileName === entry.name);
           }
 
           // Use mapping.category as productId (not directory category)
@@ -105,7 +119,7 @@ export class KnowledgeLoaderForRAG {
           files.push({
             id: `${category}/${entry.name}`,
             fileName: entry.name,
-            category: category as 'common' | 'HA' | 'SH',
+            category: category as 'common' | ProductId,
             content,
             metadata: {
               fileName: entry.name,
@@ -136,13 +150,16 @@ export class KnowledgeLoaderForRAG {
 
   /**
    * 特定の製品IDのナレッジのみをロード
+   *
+   * 共通ナレッジは knowledge-mapping.csv で対象商品に割り当てられたファイルのみ、
+   * 商品固有ナレッジは knowledge/<ProductId>/ の全ファイル（存在しない場合は0件）
    */
-  async loadForProduct(productId: 'HA' | 'SH'): Promise<KnowledgeFile[]> {
+  async loadForProduct(productId: ProductId): Promise<KnowledgeFile[]> {
     const files: KnowledgeFile[] = [];
 
-    // Load common knowledge
+    // Load common knowledge (filtered by knowledge-mapping.csv)
     const commonFiles = await this.loadCategory('common');
-    files.push(...commonFiles);
+    files.push(...commonFiles.filter(file => shouldLoadFile(productId, file.fileName)));
 
     // Load product-specific knowledge
     const productFiles = await this.loadCategory(productId);
@@ -2,7 +2,7 @@
  * Knowledge Base Loader for RAG-based Legal Compliance Checking
  *
  * This module provides functionality to load and manage knowledge base files
- * for different products (HA/SH) and common regulations.
+ * for each product (any ProductId with a knowledge/<ID>/ directory) and common regulations.
  */
 
 import * as fs from 'fs';
@@ -20,8 +20,8 @@ export interface KnowledgeFile {
   filePath: string;
   /** Text content */
   content: string;
-  /** Category (common, HA, SH) */
-  category: 'common' | 'HA' | 'SH';
+  /** Category (common or product ID) */
+  category: 'common' | ProductId;
   /** File size in bytes */
   size: number;
 }
@@ -67,17 +67,13 @@ export class KnowledgeLoader {
   /**
    * Load product-specific knowledge files
    *
-   * @param productId - Product ID (HA or SH)
+   * @param productId - Product ID
    * @returns Array of knowledge files
    */
   async loadProductKnowledge(productId: ProductId): Promise<KnowledgeFile[]> {
-    // Only HA and SH are supported
-    if (productId !== 'HA' && productId !== 'SH') {
-      console.warn(`[KnowledgeLoader] Product ${productId} not supported yet, using empty knowledge`);
-      return [];
-    }
+    // Products without a knowledge/<ID>/ directory simply have no specific knowledge
     const productPath = path.join(this.knowledgeBasePath, productId);
-    return this.loadKnowledgeFromDirectory(productPath, productId as 'HA' | 'SH');
+    return this.loadKnowledgeFromDirectory(productPath, productId);
   }
 
   /**
@@ -86,7 +82,7 @@ export class KnowledgeLoader {
    * This method loads only the knowledge files specified in the CSV mapping
    * for the given product, and caches the result for faster subsequent access.
    *
-   * @param productId - Product ID (HA or SH)
+   * @param productId - Product ID
    * @returns Complete knowledge context
    */
   async getAllKnowledgeForProduct(productId: ProductId): Promise<KnowledgeContext> {
@@ -136,7 +132,7 @@ export class KnowledgeLoader {
   /**
    * Get formatted knowledge context string for AI prompt
    *
-   * @param productId - Product ID (HA or SH)
+   * @param productId - Product ID
    * @param maxLength - Maximum length of context (default: 50000 chars)
    * @returns Formatted knowledge string
    */
@@ -173,7 +169,7 @@ export class KnowledgeLoader {
   /**
    * Load knowledge files from a directory with CSV filtering
    *
-   * @param dirName - Directory name (e.g., 'common', 'HA', 'SH')
+   * @param dirName - Directory name (e.g., 'common', 'HA')
    * @param productId - Product ID for filtering
    * @param allowedFiles - List of allowed file names from CSV
    * @returns Array of knowledge files
@@ -210,7 +206,7 @@ export class KnowledgeLoader {
         }
 
         const stats = fs.statSync(filePath);
-        const category = dirName === 'common' ? 'common' : (dirName as 'HA' | 'SH');
+        const category = dirName === 'common' ? 'common' : productId;
 
         files.push({
           fileName,
@@ -238,7 +234,7 @@ export class KnowledgeLoader {
    */
   private async loadKnowledgeFromDirectory(
     dirPath: string,
-    category: 'common' | 'HA' | 'SH'
+    category: 'common' | ProductId
   ): Promise<KnowledgeFile[]> {
     // Check if directory exists
     if (!fs.existsSync(dirPath)) {
@@ -319,7 +315,7 @@ export class KnowledgeLoader {
         // Highest priority: comprehensive internal standards for specific product
         priorityLabel = '【Priority: HIGH】';
         priorityDescription = '第1優先（商品固有の社内基準・包括的ルール）';
-      } else if (file.category === 'HA' || file.category === 'SH') {
+      } else if (file.category !== 'common') {
         // Medium priority: product-specific regulations
         priorityLabel = '【Priority: MEDIUM】';
         priorityDescription = '第2優先（商品固有の規定）';
@@ -384,7 +380,7 @@ export function createKnowledgeLoader(knowledgeBasePath?: string): KnowledgeLoad
 /**
  * Convenience function to get knowledge context for a product
  *
- * @param productId - Product ID (HA or SH)
+ * @param productId - Product ID
  * @param knowledgeBasePath - Optional custom path to knowledge base
  * @returns Knowledge context string
  */
@@ -69,15 +69,17 @@ function parseCSVMapping(csvPath: string): Map<ProductId | '全商品', ProductK
         continue;
       }
 
-      currentRow += line;
+      // Keep the newline: multi-line cells list one file per line
+      currentRow = currentRow ? `${currentRow}\n${line}` : line;
 
       // Check if this row is complete (has 5 columns)
       // Count commas to determine if we have a complete row
       // Note: CSV cells can contain newlines, so we need to handle multi-line cells
       const commaCount = (currentRow.match(/,/g) || []).length;
+      const quoteCount = (currentRow.match(/"/g) || []).length;
 
-      // If we have at least 4 commas (5 columns), try to parse
-      if (commaCount >= 4) {
+      // If we have at least 4 commas (5 columns) and no open quoted cell, try to parse
+      if (commaCount >= 4 && quoteCount % 2 === 0) {
         // Simple CSV parsing (handles quoted fields with newlines)
         const columns = parseCSVRow(currentRow);
 
@@ -144,6 +146,29 @@ function parseCSVRow(row: string): string[] {
   return columns;
 }
 
+/**
+ * Merge the "全商品" row with a product-specific row (duplicates removed)
+ */
+function mergeMappings(
+  commonMapping: ProductKnowledgeMapping,
+  productMapping: ProductKnowledgeMapping
+): ProductKnowledgeMapping {
+  const unique = (files: string[]) => Array.from(new Set(files));
+
+  const yakujihoFiles = unique([...commonMapping.yakujihoFiles, ...productMapping.yakujihoFiles]);
+  const keihinhoFiles = unique([...commonMapping.keihinhoFiles, ...productMapping.keihinhoFiles]);
+  const otherFiles = unique([...commonMapping.otherFiles, ...productMapping.otherFiles]);
+
+  return {
+    productId: productMapping.productId,
+    category: productMapping.category,
+    yakujihoFiles,
+    keihinhoFiles,
+    otherFiles,
+    allFiles: unique([...yakujihoFiles, ...keihinhoFiles, ...otherFiles])
+  };
+}
+
 /**
  * Get knowledge mapping for a product
  */
@@ -158,15 +183,19 @@ export function getProductKnowledgeMapping(
     console.log(`[KnowledgeMapping] Loaded mappings for ${mappingCache.size} products`);
   }
 
-  // Check if product has specific mapping
   const productMapping = mappingCache.get(productId);
+  const commonMapping = mappingCache.get('全商品');
+
+  // Product rows only list product-specific additions, so combine them with "全商品"
   if (productMapping) {
-    console.log(`[KnowledgeMapping] Found specific mapping for ${productId}: ${productMapping.allFiles.length} files`);
-    return productMapping;
+    const merged = commonMapping
+      ? mergeMappings(commonMapping, productMapping)
+      : productMapping;
+    console.log(`[KnowledgeMapping] Found specific mapping for ${productId}: ${merged.allFiles.length} files`);
+    return merged;
   }
 
   // Fall back to "全商品" mapping
-  const commonMapping = mappingCache.get('全商品');
   if (commonMapping) {
     console.log(`[KnowledgeMapping] Using common mapping (全商品) for ${productId}: ${commonMapping.allFiles.length} files`);
     return {
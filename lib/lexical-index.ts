@@ -0,0 +1,297 @@
+/**
+ * Lexical Index (BM25 over character n-grams)
+ *
+ * 「注入」「浸透」「クマ」のように、法務ルールは特定の語の有無で決まることが多いが、
+ * embeddingでは短い語の一致が低く評価されやすい。
+ * KnowledgeChunker と同じチャンクに対して文字n-gramのBM25インデックスを作成し、
+ * RAGSearchService のベクトル検索と融合（Reciprocal Rank Fusion）する。
+ *
+ * 日本語は分かち書きされないため、NFKC正規化した文字バイグラムをトークンとする。
+ */
+
+import * as path from 'path';
+import { createKnowledgeLoaderForRAG } from './knowledge-loader-for-rag';
+import { createKnowledgeChunker } from './knowledge-chunker';
+import { matchesFilter } from './vector-db/filter';
+import type { SearchOptions, SearchResult, VectorDBDocument } from './vector-db/interface';
+
+/**
+ * インデックスに登録するドキュメント（embeddingは不要）
+ */
+export type LexicalDocument = Omit<VectorDBDocument, 'embedding'>;
+
+export interface LexicalIndexOptions {
+  /** n-gramの長さ（default: 2） */
+  ngramSize?: number;
+  /** BM25 k1（default: 1.2） */
+  k1?: number;
+  /** BM25 b（default: 0.75） */
+  b?: number;
+}
+
+export interface LexicalSearchOptions {
+  /** 取得する結果数（default: 20） */
+  topK?: number;
+  /** メタデータフィルター（ChromaDBのwhere句と同じ形式） */
+  filter?: SearchOptions['filter'];
+}
+
+interface IndexedDocument {
+  doc: LexicalDocument;
+  /** 正規化済みテキスト（完全一致検索用） */
+  normalizedText: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * 検索用の正規化（NFKC・小文字化・空白除去）
+ */
+export function normalizeForLexicalSearch(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * 文字n-gramに分割（n文字未満のテキストはそのまま1トークン）
+ */
+export function toCharNgrams(text: string, n: number = 2): string[] {
+  const chars = Array.from(normalizeForLexicalSearch(text));
+  if (chars.length === 0) {
+    return [];
+  }
+  if (chars.length < n) {
+    return [chars.join('')];
+  }
+
+  const grams: string[] = [];
+  for (let i = 0; i <= chars.length - n; i++) {
+    grams.push(chars.slice(i, i + n).join(''));
+  }
+  return grams;
+}
+
+/**
+ * ファイル名の比較（全角・半角スペースの違いは無視）
+ */
+function isSameFileName(a: string, b: string): boolean {
+  return a === b || normalizeForLexicalSearch(a) === normalizeForLexicalSearch(b);
+}
+
+/**
+ * BM25 Lexical Index
+ *
+ * @example
+ * const index = createLexicalIndex();
+ * index.add(chunks);
+ * const results = index.search('ヒアルロン酸を直注入', { topK: 10, filter: { productId: 'HA' } });
+ */
+export class LexicalIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+  private ngramSize: number;
+  private k1: number;
+  private b: number;
+
+  constructor(options: LexicalIndexOptions = {}) {
+    this.ngramSize = options.ngramSize || 2;
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /**
+   * ドキュメントを追加（同じIDは置き換え）
+   */
+  add(documents: LexicalDocument[]): void {
+    for (const doc of documents) {
+      this.remove(doc.id);
+
+      const grams = toCharNgrams(doc.text, this.ngramSize);
+      const termFrequencies = new Map<string, number>();
+      for (const gram of grams) {
+        termFrequencies.set(gram, (termFrequencies.get(gram) || 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+
+      this.documents.set(doc.id, {
+        doc,
+        normalizedText: normalizeForLexicalSearch(doc.text),
+        termFrequencies,
+        length: grams.length,
+      });
+      this.totalLength += grams.length;
+    }
+  }
+
+  /**
+   * ドキュメントを削除
+   */
+  remove(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) {
+      return;
+    }
+
+    for (const term of existing.termFrequencies.keys()) {
+      const df = (this.documentFrequencies.get(term) || 1) - 1;
+      if (df === 0) {
+        this.documentFrequencies.delete(term);
+      } else {
+        this.documentFrequencies.set(term, df);
+      }
+    }
+    this.totalLength -= existing.length;
+    this.documents.delete(id);
+  }
+
+  /**
+   * 登録済みドキュメント数
+   */
+  size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * BM25検索
+   *
+   * @returns スコア順の検索結果（score はBM25スコア、0-1ではない）
+   */
+  search(query: string, options: LexicalSearchOptions = {}): SearchResult[] {
+    const topK = options.topK || 20;
+    const queryTerms = Array.from(new Set(toCharNgrams(query, this.ngramSize)));
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const avgLength = this.totalLength / this.documents.size;
+    const results: SearchResult[] = [];
+
+    for (const indexed of this.documents.values()) {
+      if (options.filter && !matchesFilter(indexed.doc.metadata, options.filter)) {
+        continue;
+      }
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = indexed.termFrequencies.get(term);
+        if (!tf) {
+          continue;
+        }
+        const df = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (this.documents.size - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (this.k1 + 1)) / (tf + this.k1 * (1 - this.b + this.b * indexed.length / avgLength));
+      }
+
+      if (score > 0) {
+        results.push({ ...this.toResult(indexed), score });
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, topK);
+  }
+
+  /**
+   * 語を含むドキュメントを検索（NGキーワードなどの強制検索用）
+   *
+   * @param term - 検索語（NFKC正規化して部分一致）
+   * @param options.fileName - 指定時はこのファイルのチャンクに限定
+   * @returns BM25スコア順の検索結果
+   */
+  findContaining(term: string, options: LexicalSearchOptions & { fileName?: string } = {}): SearchResult[] {
+    const normalizedTerm = normalizeForLexicalSearch(term);
+    if (!normalizedTerm) {
+      return [];
+    }
+
+    const scores = new Map(
+      this.search(term, { filter: options.filter, topK: this.documents.size }).map(r => [r.id, r.score])
+    );
+
+    const results: SearchResult[] = [];
+    for (const indexed of this.documents.values()) {
+      if (options.fileName && !isSameFileName(indexed.doc.metadata.fileName, options.fileName)) {
+        continue;
+      }
+      if (options.filter && !matchesFilter(indexed.doc.metadata, options.filter)) {
+        continue;
+      }
+      if (!indexed.normalizedText.includes(normalizedTerm)) {
+        continue;
+      }
+      results.push({ ...this.toResult(indexed), score: scores.get(indexed.doc.id) || 0 });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, options.topK || results.length);
+  }
+
+  /**
+   * ファイルのチャンクを取得（チャンク順）
+   */
+  findByFileName(fileName: string): SearchResult[] {
+    return Array.from(this.documents.values())
+      .filter(indexed => isSameFileName(indexed.doc.metadata.fileName, fileName))
+      .sort((a, b) => (a.doc.metadata.chunkIndex ?? 0) - (b.doc.metadata.chunkIndex ?? 0))
+      .map(indexed => ({ ...this.toResult(indexed), score: 0 }));
+  }
+
+  private toResult(indexed: IndexedDocument): Omit<SearchResult, 'score'> {
+    return {
+      id: indexed.doc.id,
+      text: indexed.doc.text,
+      metadata: indexed.doc.metadata,
+    };
+  }
+}
+
+/**
+ * Factory function to create a LexicalIndex
+ */
+export function createLexicalIndex(options?: LexicalIndexOptions): LexicalIndex {
+  return new LexicalIndex(options);
+}
+
+/**
+ * ナレッジベース全体から語彙インデックスを作成
+ * Vector DBと同じ KnowledgeLoaderForRAG + KnowledgeChunker のチャンクを使用するため、チャンクIDが一致する
+ *
+ * @param knowledgeDir - ナレッジディレクトリ（default: knowledge/）
+ */
+export async function buildKnowledgeLexicalIndex(knowledgeDir?: string): Promise<LexicalIndex> {
+  const loader = createKnowledgeLoaderForRAG(knowledgeDir);
+  const chunker = createKnowledgeChunker();
+  const index = createLexicalIndex();
+
+  const files = await loader.loadAll();
+  for (const file of files) {
+    index.add(chunker.chunk(file.content, file.metadata));
+  }
+
+  console.log(`[LexicalIndex] Indexed ${index.size()} chunks from ${files.length} knowledge files`);
+  return index;
+}
+
+let sharedIndex: Promise<LexicalIndex> | null = null;
+
+/**
+ * 共有の語彙インデックス（プロセス内で1回だけ作成）
+ */
+export function getSharedKnowledgeLexicalIndex(): Promise<LexicalIndex> {
+  if (!sharedIndex) {
+    sharedIndex = buildKnowledgeLexicalIndex().catch((error) => {
+      sharedIndex = null;
+      throw error;
+    });
+  }
+  return sharedIndex;
+}
+
+/**
+ * 参照ナレッジのパス（knowledge/common/27_xxx.txt）からファイル名を取得
+ */
+export function toKnowledgeFileName(referencePath: string): string {
+  return path.basename(referencePath.replace(/\\/g, '/'));
+}
@@ -0,0 +1,105 @@
+/**
+ * LLM設定
+ * config/llm.json からプロバイダーと用途ごとのモデル名を読み込む
+ *
+ * 環境変数で上書きできる:
+ * - LLM_PROVIDER: gemini | openai-compatible | fake
+ * - LLM_BASE_URL: OpenAI互換サーバーのURL（例: http://localhost:8080/v1）
+ * - LLM_API_KEY: OpenAI互換サーバーのAPIキー（不要なサーバーでは省略）
+ * - LLM_RECORDINGS: Fakeプロバイダーが再生する記録ファイル
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import type { LLMModelConfig, LLMProviderName } from './types';
+
+const modelsSchema = z.object({
+  evaluation: z.string().min(1),
+  segmentEvaluation: z.string().min(1),
+  segmentation: z.string().min(1),
+  embedding: z.string().min(1),
+}).strict();
+
+const llmConfigSchema = z.object({
+  provider: z.enum(['gemini', 'openai-compatible', 'fake']),
+  gemini: z.object({
+    models: modelsSchema,
+  }).strict(),
+  openaiCompatible: z.object({
+    baseUrl: z.string().url(),
+    models: modelsSchema,
+  }).strict(),
+  fake: z.object({
+    recordingsFile: z.string().optional(),
+  }).strict().optional(),
+}).strict();
+
+export type LLMConfig = z.infer<typeof llmConfigSchema>;
+
+let cachedConfig: { filePath: string; config: LLMConfig } | null = null;
+
+/**
+ * デフォルトの設定ファイルパス
+ */
+export function getLLMConfigPath(): string {
+  return path.join(process.cwd(), 'config', 'llm.json');
+}
+
+/**
+ * LLM設定を読み込む（環境変数の上書きを適用済み）
+ *
+ * @param configPath - 設定ファイルパス（省略時は config/llm.json）
+ * @throws Error 設定ファイルが存在しない・不正な場合
+ */
+export function loadLLMConfig(configPath: string = getLLMConfigPath()): LLMConfig {
+  if (!cachedConfig || cachedConfig.filePath !== configPath) {
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`LLM設定ファイルが見つかりません: ${configPath}`);
+    }
+
+    const result = llmConfigSchema.safeParse(JSON.parse(fs.readFileSync(configPath, 'utf-8')));
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+      throw new Error(`LLM設定ファイルが不正です (${configPath}):\n${issues.join('\n')}`);
+    }
+
+    cachedConfig = { filePath: configPath, config: result.data };
+  }
+
+  return applyEnvOverrides(cachedConfig.config);
+}
+
+function applyEnvOverrides(config: LLMConfig): LLMConfig {
+  const provider = process.env.LLM_PROVIDER;
+  if (provider && !['gemini', 'openai-compatible', 'fake'].includes(provider)) {
+    throw new Error(`LLM_PROVIDER が不正です: ${provider}（gemini | openai-compatible | fake）`);
+  }
+
+  return {
+    ...config,
+    provider: (provider as LLMProviderName | undefined) || config.provider,
+    openaiCompatible: {
+      ...config.openaiCompatible,
+      baseUrl: process.env.LLM_BASE_URL || config.openaiCompatible.baseUrl,
+    },
+    fake: {
+      ...config.fake,
+      recordingsFile: process.env.LLM_RECORDINGS || config.fake?.recordingsFile,
+    },
+  };
+}
+
+/**
+ * プロバイダーの用途ごとのモデル名
+ */
+export function getModelConfig(config: LLMConfig = loadLLMConfig()): LLMModelConfig {
+  return config.provider === 'openai-compatible' ? config.openaiCompatible.models : config.gemini.models;
+}
+
+/**
+ * 設定キャッシュをクリア（テスト用）
+ */
+export function clearLLMConfigCache(): void {
+  cachedConfig = null;
+}
@@ -0,0 +1,87 @@
+/**
+ * LLMプロバイダー抽象（Fakeプロバイダー・JSONパース）のテスト
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect } from 'vitest';
+import {
+  FakeLLMProvider,
+  LLMReplayMissError,
+  LLMResponseParseError,
+  RecordingLLMProvider,
+  createLLMProvider,
+  loadLLMConfig,
+  parseLLMJSON,
+} from './index';
+
+describe('FakeLLMProvider', () => {
+  it('should replay recorded responses by exact prompt or substring', async () => {
+    const provider = new FakeLLMProvider({
+      recordings: [
+        { prompt: 'exact prompt', response: 'exact response' },
+        { promptIncludes: '評価してください', response: { evaluations: [{ segmentId: 'seg-1', compliance: true }] } },
+      ],
+    });
+
+    expect(await provider.generateText('exact prompt')).toBe('exact response');
+
+    const parsed = await provider.generateJSON<{ evaluations: Array<{ segmentId: string }> }>(
+      '以下のセグメントを評価してください: 目元が若返る',
+      { role: 'evaluation' }
+    );
+    expect(parsed.evaluations[0].segmentId).toBe('seg-1');
+    expect(provider.calls.map(c => c.method)).toEqual(['generateText', 'generateText']);
+  });
+
+  it('should throw LLMReplayMissError for unrecorded prompts', async () => {
+    const provider = new FakeLLMProvider({ recordings: [] });
+    await expect(provider.generateText('unknown prompt')).rejects.toBeInstanceOf(LLMReplayMissError);
+  });
+
+  it('should return deterministic normalized embeddings', async () => {
+    const provider = new FakeLLMProvider({ embeddingDimension: 64 });
+    const [a1, a2, b] = await provider.embed(['浸透は角質層まで', '浸透は角質層まで', 'ギネス世界記録']);
+
+    expect(a1).toHaveLength(64);
+    expect(a1).toEqual(a2);
+    expect(a1).not.toEqual(b);
+    expect(Math.sqrt(a1.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+  });
+
+  it('should replay responses saved by RecordingLLMProvider', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-recordings-'));
+    const file = path.join(dir, 'recordings.json');
+
+    try {
+      const recorder = new RecordingLLMProvider(
+        new FakeLLMProvider({ recordings: [{ promptIncludes: 'hello', response: '{"ok":true}' }] })
+      );
+      await recorder.generateJSON('hello world');
+      recorder.save(file);
+
+      const replay = createLLMProvider({
+        config: { ...loadLLMConfig(), provider: 'fake', fake: { recordingsFile: file } },
+      });
+      expect(replay.name).toBe('fake');
+      expect(await replay.generateJSON('hello world')).toEqual({ ok: true });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parseLLMJSON', () => {
+  it('should parse code blocks and remove invalid escapes', () => {
+    expect(parseLLMJSON('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseLLMJSON('\uFEFF{"excerpt": "\\*1 角質層まで", "path": "a\\\\b"}')).toEqual({
+      excerpt: '*1 角質層まで',
+      path: 'a\\b',
+    });
+  });
+
+  it('should throw LLMResponseParseError for non-JSON responses', () => {
+    expect(() => parseLLMJSON('not json')).toThrow(LLMResponseParseError);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Fake LLMプロバイダー（テスト・オフライン再現用）
+ *
+ * 記録済みのプロンプト/レスポンスを再生する決定的なプロバイダー。
+ * - 記録は { prompt | promptIncludes, response } の配列（JSONファイルまたは配列で指定）
+ * - 一致する記録がない場合は LLMReplayMissError
+ * - embedding は文字バイグラムのハッシュから生成する（同じテキストには常に同じベクトル）
+ *
+ * RecordingLLMProvider で実プロバイダーの呼び出しを記録し、Fakeで再生できる。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseLLMJSON } from './json';
+import type {
+  EmbedOptions,
+  GenerateOptions,
+  LLMModelRole,
+  LLMProvider,
+} from './types';
+
+/**
+ * 記録されたLLM呼び出し
+ * prompt（完全一致）または promptIncludes（部分一致）のどちらかを指定する
+ */
+export interface LLMRecording {
+  prompt?: string;
+  promptIncludes?: string;
+  /** レスポンス（オブジェクトはJSON文字列として返す） */
+  response: string | object;
+}
+
+export interface FakeLLMProviderConfig {
+  /** 記録の配列、または記録JSONファイルのパス */
+  recordings?: LLMRecording[] | string;
+  /** embeddingの次元数（デフォルト: 768、Gemini embedding-001 と同じ） */
+  embeddingDimension?: number;
+}
+
+/**
+ * 一致する記録がない
+ */
+export class LLMReplayMissError extends Error {
+  readonly prompt: string;
+
+  constructor(prompt: string) {
+    super(`No recorded LLM response matches the prompt: ${prompt.substring(0, 100)}...`);
+    this.name = 'LLMReplayMissError';
+    this.prompt = prompt;
+  }
+}
+
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  private recordings: LLMRecording[];
+  private embeddingDimension: number;
+  /** 呼び出し履歴（テストでの検証用） */
+  readonly calls: Array<{ method: 'generateText' | 'embed' | 'countTokens'; input: string | string[]; options?: GenerateOptions | EmbedOptions }> = [];
+
+  constructor(config: FakeLLMProviderConfig = {}) {
+    this.recordings = typeof config.recordings === 'string'
+      ? loadRecordings(config.recordings)
+      : config.recordings || [];
+    this.embeddingDimension = config.embeddingDimension || 768;
+  }
+
+  getModelName(role: LLMModelRole): string {
+    return `fake-${role}`;
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    this.calls.push({ method: 'generateText', input: prompt, options });
+    options.signal?.throwIfAborted();
+
+    const recording =
+      this.recordings.find((r) => r.prompt === prompt) ||
+      this.recordings.find((r) => r.prompt === undefined && r.promptIncludes !== undefined && prompt.includes(r.promptIncludes));
+
+    if (!recording) {
+      throw new LLMReplayMissError(prompt);
+    }
+
+    return typeof recording.response === 'string'
+      ? recording.response
+      : JSON.stringify(recording.response);
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options: GenerateOptions = {}): Promise<T> {
+    const text = await this.generateText(prompt, { ...options, json: true });
+    return parseLLMJSON<T>(text);
+  }
+
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    this.calls.push({ method: 'embed', input: texts, options });
+    return texts.map((text) => hashEmbedding(text, this.embeddingDimension));
+  }
+
+  async countTokens(text: string): Promise<number> {
+    this.calls.push({ method: 'countTokens', input: text });
+    return text.length;
+  }
+}
+
+/**
+ * 実プロバイダーの呼び出しを記録するラッパー
+ * save() で FakeLLMProvider が読み込める形式のJSONファイルに書き出す
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly recordings: LLMRecording[] = [];
+
+  constructor(private inner: LLMProvider) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  getModelName(role: LLMModelRole): string {
+    return this.inner.getModelName(role);
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    const response = await this.inner.generateText(prompt, options);
+    this.recordings.push({ prompt, response });
+    return response;
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options: GenerateOptions = {}): Promise<T> {
+    const text = await this.generateText(prompt, { ...options, json: true });
+    return parseLLMJSON<T>(text);
+  }
+
+  embed(texts: string[], options?: EmbedOptions): Promise<number[][]> {
+    return this.inner.embed(texts, options);
+  }
+
+  countTokens(text: string, options?: Pick<GenerateOptions, 'role' | 'model'>): Promise<number> {
+    return this.inner.countTokens(text, options);
+  }
+
+  save(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(this.recordings, null, 2), 'utf-8');
+  }
+}
+
+function loadRecordings(filePath: string): LLMRecording[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`LLM記録ファイルが見つかりません: ${filePath}`);
+  }
+
+  const recordings = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(recordings)) {
+    throw new Error(`LLM記録ファイルは配列である必要があります: ${filePath}`);
+  }
+
+  return recordings as LLMRecording[];
+}
+
+/**
+ * 文字バイグラムのハッシュ（FNV-1a）による決定的なembedding（L2正規化済み）
+ * 共通する文字列が多いテキストほどコサイン類似度が高くなる
+ */
+export function hashEmbedding(text: string, dimension = 768): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  const chars = Array.from(text);
+  const grams = chars.length < 2 ? chars : chars.slice(0, -1).map((c, i) => c + chars[i + 1]);
+
+  for (const gram of grams) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < gram.length; i++) {
+      hash ^= gram.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    vector[hash % dimension] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Factory function to create a FakeLLMProvider
+ */
+export function createFakeLLMProvider(config: FakeLLMProviderConfig = {}): FakeLLMProvider {
+  return new FakeLLMProvider(config);
+}
@@ -0,0 +1,91 @@
+/**
+ * Gemini LLMプロバイダー
+ * @google/generative-ai を使用（モデル名は config/llm.json の gemini.models）
+ */
+
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { getModelConfig, loadLLMConfig } from './config';
+import { parseLLMJSON } from './json';
+import type {
+  EmbedOptions,
+  GenerateOptions,
+  LLMModelConfig,
+  LLMModelRole,
+  LLMProvider,
+} from './types';
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  /** 用途ごとのモデル名（省略時は config/llm.json の gemini.models） */
+  models?: LLMModelConfig;
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private genAI: GoogleGenerativeAI;
+  private models: LLMModelConfig;
+
+  constructor(config: GeminiProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error('Gemini API key is required');
+    }
+
+    this.genAI = new GoogleGenerativeAI(config.apiKey);
+    this.models = config.models || getModelConfig({ ...loadLLMConfig(), provider: 'gemini' });
+  }
+
+  getModelName(role: LLMModelRole): string {
+    return this.models[role];
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const model = this.genAI.getGenerativeModel({
+      model: options.model || this.getModelName(options.role || 'evaluation'),
+      generationConfig: {
+        ...(options.json && { responseMimeType: 'application/json' }),
+        ...(options.temperature !== undefined && { temperature: options.temperature }),
+        ...(options.maxOutputTokens !== undefined && { maxOutputTokens: options.maxOutputTokens }),
+      },
+    });
+
+    const result = await model.generateContent(prompt, options.signal && { signal: options.signal });
+    return result.response.text();
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options: GenerateOptions = {}): Promise<T> {
+    const text = await this.generateText(prompt, { ...options, json: true });
+    return parseLLMJSON<T>(text);
+  }
+
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    const model = this.genAI.getGenerativeModel({ model: options.model || this.getModelName('embedding') });
+    const taskType = options.taskType === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+
+    const embeddings: number[][] = [];
+    for (const text of texts) {
+      const result = await model.embedContent({
+        content: { role: 'user', parts: [{ text }] },
+        taskType,
+      });
+      embeddings.push(result.embedding.values);
+    }
+
+    return embeddings;
+  }
+
+  async countTokens(text: string, options: Pick<GenerateOptions, 'role' | 'model'> = {}): Promise<number> {
+    const model = this.genAI.getGenerativeModel({
+      model: options.model || this.getModelName(options.role || 'evaluation'),
+    });
+
+    const result = await model.countTokens(text);
+    return result.totalTokens;
+  }
+}
+
+/**
+ * Factory function to create a GeminiProvider
+ */
+export function createGeminiProvider(config: GeminiProviderConfig): GeminiProvider {
+  return new GeminiProvider(config);
+}
@@ -0,0 +1,57 @@
+/**
+ * LLMプロバイダー
+ * config/llm.json（と環境変数）に従って Gemini / OpenAI互換 / Fake を切り替える
+ */
+
+import { loadLLMConfig, type LLMConfig } from './config';
+import { createFakeLLMProvider } from './fake-provider';
+import { createGeminiProvider } from './gemini-provider';
+import { createOpenAICompatibleProvider } from './openai-compatible-provider';
+import type { LLMProvider } from './types';
+
+export * from './types';
+export { LLMResponseParseError, parseLLMJSON } from './json';
+export { clearLLMConfigCache, getModelConfig, loadLLMConfig, type LLMConfig } from './config';
+export { GeminiProvider, createGeminiProvider } from './gemini-provider';
+export { OpenAICompatibleProvider, createOpenAICompatibleProvider, estimateTokenCount } from './openai-compatible-provider';
+export {
+  FakeLLMProvider,
+  LLMReplayMissError,
+  RecordingLLMProvider,
+  createFakeLLMProvider,
+  hashEmbedding,
+  type LLMRecording,
+} from './fake-provider';
+
+export interface CreateLLMProviderOptions {
+  /** Gemini APIキー（省略時は GEMINI_API_KEY） */
+  apiKey?: string;
+  /** 設定（省略時は config/llm.json） */
+  config?: LLMConfig;
+}
+
+/**
+ * 設定されたプロバイダーを作成
+ *
+ * @throws Error Geminiプロバイダーで APIキーがない場合
+ */
+export function createLLMProvider(options: CreateLLMProviderOptions = {}): LLMProvider {
+  const config = options.config || loadLLMConfig();
+
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: config.openaiCompatible.baseUrl,
+        apiKey: process.env.LLM_API_KEY,
+        models: config.openaiCompatible.models,
+      });
+    case 'fake':
+      return createFakeLLMProvider({ recordings: config.fake?.recordingsFile });
+    case 'gemini':
+    default:
+      return createGeminiProvider({
+        apiKey: options.apiKey || process.env.GEMINI_API_KEY || '',
+        models: config.gemini.models,
+      });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * LLMレスポンスのJSONパース
+ *
+ * LLMはJSONモードでも次のような出力を返すことがあるため、段階的に解釈する:
+ * - BOM付き・前後に説明文がある
+ * - ```json ... ``` のコードブロックで囲まれている
+ * - ナレッジから引用した \* など、JSONとして不正なエスケープを含む
+ */
+
+/**
+ * LLMレスポンスがJSONとして解釈できない
+ */
+export class LLMResponseParseError extends Error {
+  /** 生のレスポンス（ログ用） */
+  readonly responseText: string;
+
+  constructor(message: string, responseText: string) {
+    super(message);
+    this.name = 'LLMResponseParseError';
+    this.responseText = responseText;
+  }
+}
+
+/**
+ * LLMレスポンスをJSONとしてパース
+ *
+ * @param responseText - LLMのレスポンス
+ * @throws LLMResponseParseError パースできない場合
+ */
+export function parseLLMJSON<T = unknown>(responseText: string): T {
+  const text = responseText.replace(/^\uFEFF/, '').trim();
+
+  const candidates = [text];
+
+  // コードブロック、または最初の { / [ から最後の } / ] まで
+  const codeBlock = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (codeBlock) {
+    candidates.push(codeBlock[1]);
+  }
+  const jsonBody = text.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
+  if (jsonBody) {
+    candidates.push(jsonBody[1]);
+  }
+
+  let lastError: unknown;
+
+  for (const candidate of candidates) {
+    for (const source of [candidate, removeInvalidEscapes(candidate)]) {
+      try {
+        return JSON.parse(source) as T;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+  }
+
+  const reason = lastError instanceof Error ? lastError.message : String(lastError);
+  throw new LLMResponseParseError(`Failed to parse JSON from LLM response: ${reason}`, responseText);
+}
+
+/**
+ * JSONとして不正なエスケープ（\* など）のバックスラッシュを除去
+ * 有効なエスケープ: \" \\ \/ \b \f \n \r \t \uXXXX
+ */
+function removeInvalidEscapes(text: string): string {
+  return text.replace(/\\\\|\\(?!["\\/bfnrtu])/g, (match) => (match === '\\\\' ? match : ''));
+}
@@ -0,0 +1,143 @@
+/**
+ * OpenAI互換 LLMプロバイダー
+ * llama.cpp server / vLLM など、OpenAI互換HTTP APIを提供するローカルサーバー向け
+ *
+ * - POST {baseUrl}/chat/completions（response_format: json_object）
+ * - POST {baseUrl}/embeddings
+ * - POST {サーバーのルート}/tokenize（llama.cpp・vLLM）。未対応サーバーでは概算値を返す
+ */
+
+import { getModelConfig, loadLLMConfig } from './config';
+import { parseLLMJSON } from './json';
+import type {
+  EmbedOptions,
+  GenerateOptions,
+  LLMModelConfig,
+  LLMModelRole,
+  LLMProvider,
+} from './types';
+
+export interface OpenAICompatibleProviderConfig {
+  /** APIのベースURL（例: http://localhost:8080/v1） */
+  baseUrl: string;
+  /** APIキー（不要なサーバーでは省略） */
+  apiKey?: string;
+  /** 用途ごとのモデル名（省略時は config/llm.json の openaiCompatible.models） */
+  models?: LLMModelConfig;
+  /** リクエストタイムアウト（ミリ秒、デフォルト: 120秒） */
+  timeoutMs?: number;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible' as const;
+  private baseUrl: string;
+  private apiKey?: string;
+  private models: LLMModelConfig;
+  private timeoutMs: number;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.models = config.models || getModelConfig({ ...loadLLMConfig(), provider: 'openai-compatible' });
+    this.timeoutMs = config.timeoutMs || 120000;
+  }
+
+  getModelName(role: LLMModelRole): string {
+    return this.models[role];
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const response = await this.post<{ choices: Array<{ message: { content: string | null } }> }>(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model: options.model || this.getModelName(options.role || 'evaluation'),
+        messages: [{ role: 'user', content: prompt }],
+        ...(options.json && { response_format: { type: 'json_object' } }),
+        ...(options.temperature !== undefined && { temperature: options.temperature }),
+        ...(options.maxOutputTokens !== undefined && { max_tokens: options.maxOutputTokens }),
+      },
+      options.signal
+    );
+
+    const content = response.choices?.[0]?.message?.content;
+    if (content === undefined || content === null) {
+      throw new Error('Invalid response from OpenAI-compatible server: missing choices[0].message.content');
+    }
+
+    return content;
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options: GenerateOptions = {}): Promise<T> {
+    const text = await this.generateText(prompt, { ...options, json: true });
+    return parseLLMJSON<T>(text);
+  }
+
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    const response = await this.post<{ data: Array<{ index: number; embedding: number[] }> }>(
+      `${this.baseUrl}/embeddings`,
+      {
+        model: options.model || this.getModelName('embedding'),
+        input: texts,
+      }
+    );
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+
+  async countTokens(text: string, options: Pick<GenerateOptions, 'role' | 'model'> = {}): Promise<number> {
+    const model = options.model || this.getModelName(options.role || 'evaluation');
+
+    try {
+      // llama.cpp: { content } → { tokens }, vLLM: { model, prompt } → { count, tokens }
+      const response = await this.post<{ tokens?: unknown[]; count?: number }>(
+        `${new URL(this.baseUrl).origin}/tokenize`,
+        { model, content: text, prompt: text }
+      );
+
+      if (typeof response.count === 'number') return response.count;
+      if (Array.isArray(response.tokens)) return response.tokens.length;
+    } catch (error) {
+      console.warn('[LLM] /tokenize is not available, using estimated token count:', error instanceof Error ? error.message : error);
+    }
+
+    return estimateTokenCount(text);
+  }
+
+  private async post<T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      // ステータスコードをメッセージに含める（429 はクォータ超過としてオフライン評価にフォールバック）
+      throw new Error(`[${response.status} ${response.statusText}] ${url}: ${detail.substring(0, 500)}`);
+    }
+
+    return await response.json() as T;
+  }
+}
+
+/**
+ * トークン数の概算（日本語は概ね1文字1トークン、英数字は4文字1トークン）
+ */
+export function estimateTokenCount(text: string): number {
+  const asciiLength = (text.match(/[\x00-\x7F]/g) || []).length;
+  return Math.ceil(asciiLength / 4) + (text.length - asciiLength);
+}
+
+/**
+ * Factory function to create an OpenAICompatibleProvider
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleProviderConfig): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(config);
+}
@@ -0,0 +1,82 @@
+/**
+ * LLMプロバイダー共通インターフェース
+ * LLM Provider - Gemini / OpenAI互換HTTPサーバー（llama.cpp, vLLM など）/ テスト用Fake を同じ形で扱う
+ */
+
+/**
+ * 用途ごとのモデル（config/llm.json の models で指定）
+ *
+ * - evaluation: バッチ評価（/api/v2/evaluate-batch, GeminiClient）
+ * - segmentEvaluation: セグメント単位評価（/api/v2/evaluate）
+ * - segmentation: LLMによるセグメント分割（lib/gemini.ts）
+ * - embedding: RAG用のembedding
+ */
+export type LLMModelRole = 'evaluation' | 'segmentEvaluation' | 'segmentation' | 'embedding';
+
+export type LLMModelConfig = Record<LLMModelRole, string>;
+
+export type LLMProviderName = 'gemini' | 'openai-compatible' | 'fake';
+
+/**
+ * テキスト生成オプション
+ */
+export interface GenerateOptions {
+  /** 使用するモデルの用途（省略時は 'evaluation'） */
+  role?: Exclude<LLMModelRole, 'embedding'>;
+  /** モデル名（指定時は role より優先） */
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** JSONモードで生成（generateJSON では常に true） */
+  json?: boolean;
+  /** 中断用シグナル（クライアントの切断時に生成中のリクエストを中断する） */
+  signal?: AbortSignal;
+}
+
+/**
+ * embeddingのタスク種別
+ * - document: Vector DBに保存するナレッジ
+ * - query: 検索クエリ
+ */
+export type EmbedTaskType = 'document' | 'query';
+
+export interface EmbedOptions {
+  /** モデル名（省略時は config の embedding） */
+  model?: string;
+  taskType?: EmbedTaskType;
+}
+
+/**
+ * LLMプロバイダー
+ */
+export interface LLMProvider {
+  /** プロバイダー名（ログ・レスポンス表示用） */
+  readonly name: LLMProviderName;
+
+  /**
+   * テキストを生成
+   */
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+
+  /**
+   * JSONモードで生成し、パースした結果を返す
+   *
+   * @throws LLMResponseParseError レスポンスがJSONとして解釈できない場合
+   */
+  generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T>;
+
+  /**
+   * テキスト配列のembeddingを生成（入力と同じ順序で返す）
+   */
+  embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+
+  /**
+   * トークン数を数える
+   */
+  countTokens(text: string, options?: Pick<GenerateOptions, 'role' | 'model'>): Promise<number>;
+
+  /**
+   * 用途に対応するモデル名
+   */
+  getModelName(role: LLMModelRole): string;
+}
@@ -0,0 +1,56 @@
+/**
+ * 日本語形態素解析のテスト
+ * 活用形の基本形・語の途中に一致しないこと・括弧内の句点で文を区切らないこと・lemma ルールの照合
+ */
+
+import { describe, it, expect } from 'vitest';
+import { loadMorphologicalAnalyzer } from './morphological-analyzer';
+import { checkAbsoluteNGKeywords } from './ng-keywords/keyword-matcher';
+import type { AbsoluteNGKeyword } from './ng-keywords/absolute-ng';
+
+const analyzer = loadMorphologicalAnalyzer();
+
+function lemmas(text: string) {
+  return analyzer.tokenize(text).map(token => `${token.lemma}/${token.pos}`);
+}
+
+const curing: AbsoluteNGKeyword = {
+  keyword: ['治す', '治る'],
+  match: 'lemma',
+  pos: '動詞',
+  category: 'medical',
+  severity: 'critical',
+  description: '治癒表現は医療行為を想起させるため絶対NG',
+  violationType: '薬機法違反',
+};
+
+describe('morphological-analyzer', () => {
+  it('活用形に品詞と基本形を付与する', () => {
+    expect(lemmas('ハリが甦りました')).toEqual(['ハリ/名詞', 'が/助詞', '甦る/動詞', 'ます/助動詞', 'た/助動詞']);
+    expect(lemmas('よみがえった')).toEqual(['よみがえる/動詞', 'た/助動詞']);
+    expect(lemmas('ものではありません')).toEqual(['もの/名詞', 'で/助詞', 'は/助詞', 'ある/動詞', 'ます/助動詞', 'ぬ/助動詞']);
+  });
+
+  it('語の途中には一致しない', () => {
+    const tokens = analyzer.tokenize('気になる汚れを退治する');
+
+    expect(tokens.map(token => token.surface)).toContain('退治');
+    expect(tokens.some(token => token.lemma === '治す' || token.lemma === '治る')).toBe(false);
+  });
+
+  it('括弧内の句点では文を区切らない', () => {
+    const text = '友人に「すごい。」と話題！次の文です。\n最後';
+
+    expect(analyzer.splitSentences(text)).toEqual([
+      { text: '友人に「すごい。」と話題！', start: 0, end: 13 },
+      { text: '次の文です。', start: 13, end: 19 },
+      { text: '最後', start: 20, end: 22 },
+    ]);
+  });
+
+  it('lemma ルールは活用形を検出し、続く助動詞までを検出箇所とする', () => {
+    const matches = checkAbsoluteNGKeywords('ニキビが治りました。汚れを退治する洗顔。', [curing]);
+
+    expect(matches.map(match => match.matchedText)).toEqual(['治りました']);
+  });
+});
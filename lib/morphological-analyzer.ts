@@ -0,0 +1,508 @@
+/**
+ * 日本語形態素解析
+ * Morphological Analyzer - 辞書ベースの形態素解析（品詞・基本形）と文の区切り
+ *
+ * config/morphology/dictionary.json の辞書（同梱、ネイティブ依存なし）でラティスを構築し、
+ * コスト最小の経路（Viterbi）を選ぶ。
+ *
+ * - 動詞・形容詞は活用の種類から活用形（蘇ら・蘇り・蘇っ・蘇れ…）を生成し、基本形（lemma）を付与する
+ * - 辞書にない語は文字種（漢字・カタカナ・英数字の連続）で1語とする（「退治する」の「治す」のように語の途中には一致しない）
+ * - 記号は句点・読点・括弧開・括弧閉・空白・改行に分類し、文の区切り（splitSentences）に使用する
+ *
+ * 辞書の表記は lib/text-normalizer で正規化して登録するため、解析するテキストも正規化しておくこと。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { normalizeJapaneseText } from './text-normalizer';
+import { readJsonFileWithSchema } from './ng-keywords/rule-loader';
+
+export const PARTS_OF_SPEECH = [
+  '名詞', '動詞', '形容詞', '副詞', '連体詞', '接続詞', '感動詞', '助詞', '助動詞', '接頭詞', '記号',
+] as const;
+
+export type PartOfSpeech = typeof PARTS_OF_SPEECH[number];
+
+export const CONJUGATION_TYPES = [
+  '五段・カ行', '五段・ガ行', '五段・サ行', '五段・タ行', '五段・ナ行', '五段・バ行', '五段・マ行', '五段・ラ行', '五段・ワ行',
+  '一段', 'サ変', '形容詞',
+] as const;
+
+export type ConjugationType = typeof CONJUGATION_TYPES[number];
+
+export type ConjugationForm = '未然形' | '未然ウ接続' | '連用形' | '連用タ接続' | '基本形' | '仮定形' | '命令形' | '語幹';
+
+/**
+ * 形態素
+ */
+export interface MorphToken {
+  surface: string;
+  /** 解析したテキストでの位置 */
+  start: number;
+  end: number;
+  pos: PartOfSpeech;
+  /** 品詞細分類（サ変接続・格助詞・句点・括弧開 等） */
+  detail?: string;
+  /** 基本形（活用しない語・未知語は表層形） */
+  lemma: string;
+  conjugationType?: ConjugationType;
+  conjugationForm?: ConjugationForm;
+  /** 辞書にない語 */
+  unknown?: boolean;
+}
+
+/**
+ * 辞書の見出し語
+ */
+export interface MorphDictionaryEntry {
+  lemma: string;
+  pos: PartOfSpeech;
+  detail?: string;
+  /** 活用の種類（指定した場合は lemma から活用形を生成） */
+  conjugation?: ConjugationType;
+  /** 表層形（活用しない語で lemma と異なる場合。例: まし → ます） */
+  surface?: string;
+}
+
+/**
+ * 文
+ */
+export interface SentenceRange {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const dictionaryFileSchema = z.array(z.object({
+  lemma: z.string().min(1),
+  pos: z.enum(PARTS_OF_SPEECH),
+  detail: z.string().min(1).optional(),
+  conjugation: z.enum(CONJUGATION_TYPES).optional(),
+  surface: z.string().min(1).optional(),
+}).strict().superRefine((entry, ctx) => {
+  if (entry.conjugation && entry.surface) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['surface'], message: 'conjugation を指定した見出し語には surface を指定できません' });
+  }
+  if (entry.conjugation && entry.conjugation !== '形容詞' && !/[うくぐすつぬぶむる]$/.test(entry.lemma)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lemma'], message: `動詞の基本形ではありません: ${entry.lemma}` });
+  }
+  if (entry.conjugation === '形容詞' && !entry.lemma.endsWith('い')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lemma'], message: `形容詞の基本形ではありません: ${entry.lemma}` });
+  }
+}));
+
+/**
+ * 五段活用の語尾（未然形・未然ウ接続・連用形・連用タ接続・基本形・仮定形・命令形）
+ */
+const GODAN_ENDINGS: Record<string, string[]> = {
+  '五段・カ行': ['か', 'こ', 'き', 'い', 'く', 'け', 'け'],
+  '五段・ガ行': ['が', 'ご', 'ぎ', 'い', 'ぐ', 'げ', 'げ'],
+  '五段・サ行': ['さ', 'そ', 'し', 'し', 'す', 'せ', 'せ'],
+  '五段・タ行': ['た', 'と', 'ち', 'っ', 'つ', 'て', 'て'],
+  '五段・ナ行': ['な', 'の', 'に', 'ん', 'ぬ', 'ね', 'ね'],
+  '五段・バ行': ['ば', 'ぼ', 'び', 'ん', 'ぶ', 'べ', 'べ'],
+  '五段・マ行': ['ま', 'も', 'み', 'ん', 'む', 'め', 'め'],
+  '五段・ラ行': ['ら', 'ろ', 'り', 'っ', 'る', 'れ', 'れ'],
+  '五段・ワ行': ['わ', 'お', 'い', 'っ', 'う', 'え', 'え'],
+};
+
+const GODAN_FORMS: ConjugationForm[] = ['未然形', '未然ウ接続', '連用形', '連用タ接続', '基本形', '仮定形', '命令形'];
+
+/**
+ * 活用形の生成（語幹からの語尾と活用形）
+ */
+function conjugate(lemma: string, type: ConjugationType, pos: PartOfSpeech): Array<{ surface: string; form: ConjugationForm }> {
+  const stem = lemma.slice(0, -1);
+
+  if (type in GODAN_ENDINGS) {
+    return GODAN_ENDINGS[type].map((ending, i) => ({ surface: stem + ending, form: GODAN_FORMS[i] }));
+  }
+
+  switch (type) {
+    case '一段':
+      return [
+        { surface: stem, form: '連用形' },
+        { surface: stem + 'る', form: '基本形' },
+        { surface: stem + 'れ', form: '仮定形' },
+        { surface: stem + 'ろ', form: '命令形' },
+        { surface: stem + 'よ', form: '命令形' },
+      ];
+    case 'サ変': {
+      // する・〜ずる（「する」以外は語幹 + する の活用）
+      const base = lemma.slice(0, -2);
+      return [
+        { surface: base + 'し', form: '連用形' },
+        { surface: base + 'さ', form: '未然形' },
+        { surface: base + 'せ', form: '未然形' },
+        { surface: base + 'しよ', form: '未然ウ接続' },
+        { surface: base + 'する', form: '基本形' },
+        { surface: base + 'すれ', form: '仮定形' },
+        { surface: base + 'しろ', form: '命令形' },
+        { surface: base + 'せよ', form: '命令形' },
+      ];
+    }
+    case '形容詞':
+      return [
+        { surface: stem + 'かろ', form: '未然ウ接続' },
+        { surface: stem + 'かっ', form: '連用タ接続' },
+        { surface: stem + 'く', form: '連用形' },
+        { surface: stem + 'い', form: '基本形' },
+        { surface: stem + 'けれ', form: '仮定形' },
+        // 語幹（若々し + さ、美し + そう）は形容詞のみ
+        ...(pos === '形容詞' ? [{ surface: stem, form: '語幹' as const }] : []),
+      ];
+    default:
+      return [];
+  }
+}
+
+// ============================================================
+// 文字種・記号
+// ============================================================
+
+type CharClass = 'kanji' | 'hiragana' | 'katakana' | 'alnum' | 'symbol' | 'space' | 'newline' | 'other';
+
+function getCharClass(char: string): CharClass {
+  if (char === '\n' || char === '\r') return 'newline';
+  if (/\s/.test(char)) return 'space';
+  if (/[ぁ-ゟ]/.test(char)) return 'hiragana';
+  if (/[ァ-ヺー]/.test(char)) return 'katakana';
+  if (/[一-鿿㐀-䶿々豈-﫿]/.test(char)) return 'kanji';
+  if (/[0-9A-Za-z０-９Ａ-Ｚａ-ｚ]/.test(char)) return 'alnum';
+  if (/[!-/:-@[-`{-~　-〿！-／：-＠［-｀｛-･‐-⁯←-➿※]/.test(char)) return 'symbol';
+  return 'other';
+}
+
+const SYMBOL_DETAILS: Array<[RegExp, string]> = [
+  [/[。．！？!?]/, '句点'],
+  [/[、，,]/, '読点'],
+  [/[「『（(【〔［\[｛{〈《“]/, '括弧開'],
+  [/[」』）)】〕］\]｝}〉》”]/, '括弧閉'],
+];
+
+function getSymbolDetail(char: string): string {
+  return SYMBOL_DETAILS.find(([pattern]) => pattern.test(char))?.[1] ?? '一般';
+}
+
+// ============================================================
+// コスト
+// ============================================================
+
+/** 辞書の語のコスト（語数の少ない経路＝長い語を優先） */
+const KNOWN_WORD_COST = 1000;
+/** 未知語（漢字・カタカナ・英数字の連続）のコスト: 基本 + 1文字ごと */
+const UNKNOWN_WORD_COST = 1400;
+const UNKNOWN_CHAR_COST: Record<CharClass, number> = {
+  kanji: 600,
+  katakana: 100,
+  alnum: 50,
+  hiragana: 1600,
+  other: 1600,
+  symbol: 0,
+  space: 0,
+  newline: 0,
+};
+/** 文法的に接続しない組み合わせのコスト */
+const INVALID_CONNECTION_COST = 3000;
+const UNLIKELY_CONNECTION_COST = 1500;
+
+/** 名詞・助詞の後にも続く助動詞 */
+const COPULA_LEMMAS = new Set(['だ', 'です', 'らしい', 'みたい']);
+/** 連用タ接続に続く語 */
+const TA_CONNECTION = /^(?:た|て|だ|で)/;
+
+/**
+ * 前の形態素と次の形態素の接続コスト
+ */
+function connectionCost(prev: MorphToken | undefined, next: MorphToken): number {
+  const afterBoundary = !prev || prev.pos === '記号';
+  if (afterBoundary) {
+    return next.pos === '助詞' || next.pos === '助動詞' || next.detail === '接尾' ? UNLIKELY_CONNECTION_COST : 0;
+  }
+
+  switch (prev.conjugationForm) {
+    case '未然形':
+    case '未然ウ接続':
+      if (next.pos !== '助動詞') return INVALID_CONNECTION_COST;
+      break;
+    case '連用タ接続':
+      if (!TA_CONNECTION.test(next.surface) || (next.pos !== '助動詞' && next.pos !== '助詞')) return INVALID_CONNECTION_COST;
+      break;
+    case '仮定形':
+      if (next.surface !== 'ば') return INVALID_CONNECTION_COST;
+      break;
+    case '語幹':
+      if (next.detail !== '接尾' && next.pos !== '助動詞') return INVALID_CONNECTION_COST;
+      break;
+  }
+
+  if (next.pos === '助動詞' && !COPULA_LEMMAS.has(next.lemma) && !['動詞', '形容詞', '助動詞'].includes(prev.pos)) {
+    return UNLIKELY_CONNECTION_COST;
+  }
+  // 接続助詞は用言・助動詞に、接尾辞は名詞・形容詞の語幹に続く
+  if (next.detail === '接続助詞' && prev.pos === '助詞') {
+    return UNLIKELY_CONNECTION_COST;
+  }
+  if (next.detail === '接尾' && prev.pos !== '名詞' && prev.conjugationForm !== '語幹') {
+    return UNLIKELY_CONNECTION_COST;
+  }
+  return 0;
+}
+
+// ============================================================
+// Analyzer
+// ============================================================
+
+type WordTemplate = Omit<MorphToken, 'start' | 'end'>;
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  words: WordTemplate[];
+}
+
+interface LatticeNode {
+  token: MorphToken;
+  cost: number;
+  prev?: LatticeNode;
+}
+
+/**
+ * 辞書ベースの形態素解析器
+ */
+export class MorphologicalAnalyzer {
+  readonly entryCount: number;
+  private trie: TrieNode = { children: new Map(), words: [] };
+
+  constructor(entries: MorphDictionaryEntry[]) {
+    this.entryCount = entries.length;
+
+    for (const entry of entries) {
+      const lemma = normalizeJapaneseText(entry.lemma).text;
+      const forms = entry.conjugation
+        ? conjugate(lemma, entry.conjugation, entry.pos)
+        : [{ surface: normalizeJapaneseText(entry.surface ?? entry.lemma).text, form: undefined }];
+
+      for (const { surface, form } of forms) {
+        if (surface.length === 0) {
+          continue;
+        }
+        this.addWord(surface, {
+          surface,
+          pos: entry.pos,
+          ...(entry.detail && { detail: entry.detail }),
+          lemma,
+          ...(entry.conjugation && { conjugationType: entry.conjugation }),
+          ...(form && { conjugationForm: form }),
+        });
+      }
+    }
+  }
+
+  /**
+   * テキストを形態素に分割
+   *
+   * @param text - 正規化済みのテキスト
+   * @returns 形態素（テキストの全範囲を覆う）
+   */
+  tokenize(text: string): MorphToken[] {
+    if (text.length === 0) {
+      return [];
+    }
+
+    // ends[i]: 位置 i で終わる経路
+    const ends: LatticeNode[][] = Array.from({ length: text.length + 1 }, () => []);
+    ends[0].push({ token: undefined as unknown as MorphToken, cost: 0 });
+
+    for (let start = 0; start < text.length; start++) {
+      if (ends[start].length === 0) {
+        continue;
+      }
+
+      for (const token of this.candidatesAt(text, start)) {
+        const base = this.wordCost(token);
+        let best: LatticeNode | undefined;
+        for (const prev of ends[start]) {
+          const cost = prev.cost + base + connectionCost(prev.token, token);
+          if (!best || cost < best.cost) {
+            best = { token, cost, prev };
+          }
+        }
+        ends[token.end].push(best!);
+      }
+    }
+
+    let node: LatticeNode | undefined = ends[text.length].reduce((a, b) => (b.cost < a.cost ? b : a));
+    const tokens: MorphToken[] = [];
+    while (node && node.token) {
+      tokens.push(node.token);
+      node = node.prev;
+    }
+    return tokens.reverse();
+  }
+
+  /**
+   * 文に分割
+   *
+   * 句点（。！？等）と改行で区切る。括弧・かぎ括弧の中の句点では区切らない
+   * （「すごい。」と話題 → 1文）。句点の直後の閉じ括弧は前の文に含める。
+   *
+   * @param text - 正規化済みのテキスト
+   * @returns 文（前後の空白を除く、空の文は含まない）
+   */
+  splitSentences(text: string): SentenceRange[] {
+    const sentences: SentenceRange[] = [];
+    const tokens = this.tokenize(text);
+
+    let start = 0;
+    let depth = 0;
+    const push = (end: number) => {
+      const raw = text.slice(start, end);
+      const leading = raw.length - raw.trimStart().length;
+      const trimmed = raw.trim();
+      if (trimmed.length > 0) {
+        sentences.push({ text: trimmed, start: start + leading, end: start + leading + trimmed.length });
+      }
+      start = end;
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.detail === '改行') {
+        push(token.end);
+        depth = 0;
+      } else if (token.detail === '括弧開') {
+        depth++;
+      } else if (token.detail === '括弧閉') {
+        depth = Math.max(0, depth - 1);
+      } else if (token.detail === '句点' && depth === 0) {
+        // 連続する句点（！？）と閉じ括弧は同じ文
+        let end = token.end;
+        while (i + 1 < tokens.length && (tokens[i + 1].detail === '句点' || tokens[i + 1].detail === '括弧閉')) {
+          end = tokens[++i].end;
+        }
+        push(end);
+      }
+    }
+    push(text.length);
+
+    return sentences;
+  }
+
+  private addWord(surface: string, word: WordTemplate): void {
+    let node = this.trie;
+    for (const char of surface) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = { children: new Map(), words: [] };
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    if (!node.words.some(w => w.lemma === word.lemma && w.pos === word.pos && w.conjugationForm === word.conjugationForm)) {
+      node.words.push(word);
+    }
+  }
+
+  /**
+   * 位置 start から始まる候補（辞書の語と未知語）
+   */
+  private candidatesAt(text: string, start: number): MorphToken[] {
+    const candidates: MorphToken[] = [];
+
+    let node: TrieNode | undefined = this.trie;
+    for (let end = start; end < text.length && node; end++) {
+      node = node.children.get(text[end]);
+      for (const word of node?.words ?? []) {
+        candidates.push({ ...word, start, end: end + 1 });
+      }
+    }
+
+    const charClass = getCharClass(text[start]);
+    if (charClass === 'symbol' || charClass === 'space' || charClass === 'newline') {
+      const surface = text[start];
+      candidates.push({
+        surface,
+        start,
+        end: start + 1,
+        pos: '記号',
+        detail: charClass === 'symbol' ? getSymbolDetail(surface) : charClass === 'space' ? '空白' : '改行',
+        lemma: surface,
+      });
+      return candidates;
+    }
+
+    // 未知語: 同じ文字種の連続（漢字・カタカナ・英数字）と1文字
+    const lengths = new Set([1]);
+    if (charClass === 'kanji' || charClass === 'katakana' || charClass === 'alnum') {
+      let end = start + 1;
+      while (end < text.length && getCharClass(text[end]) === charClass) {
+        end++;
+      }
+      lengths.add(end - start);
+    }
+    for (const length of lengths) {
+      const surface = text.slice(start, start + length);
+      candidates.push({ surface, start, end: start + length, pos: '名詞', lemma: surface, unknown: true });
+    }
+
+    return candidates;
+  }
+
+  private wordCost(token: MorphToken): number {
+    if (!token.unknown) {
+      return token.pos === '記号' ? 0 : KNOWN_WORD_COST;
+    }
+    return UNKNOWN_WORD_COST + UNKNOWN_CHAR_COST[getCharClass(token.surface[0])] * token.surface.length;
+  }
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/**
+ * 解析器キャッシュ（ファイルパス → mtime と解析器）
+ */
+const analyzerCache = new Map<string, { mtimeMs: number; analyzer: MorphologicalAnalyzer }>();
+
+const EMPTY_ANALYZER = new MorphologicalAnalyzer([]);
+
+/**
+ * デフォルトの辞書ファイル
+ */
+export function getMorphologyDictionaryPath(): string {
+  return path.join(process.cwd(), 'config', 'morphology', 'dictionary.json');
+}
+
+/**
+ * 形態素解析器を読み込む
+ *
+ * @param filePath - 辞書ファイル（省略時は config/morphology/dictionary.json）
+ * @returns 解析器（ファイルがない場合は空の辞書の解析器。全ての語が未知語になる）
+ * @throws NGKeywordRuleError ファイルが不正な場合（ファイル名・行番号付き）
+ */
+export function loadMorphologicalAnalyzer(filePath: string = getMorphologyDictionaryPath()): MorphologicalAnalyzer {
+  if (!fs.existsSync(filePath)) {
+    return EMPTY_ANALYZER;
+  }
+
+  const { mtimeMs } = fs.statSync(filePath);
+  const cached = analyzerCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.analyzer;
+  }
+
+  const analyzer = new MorphologicalAnalyzer(readJsonFileWithSchema(filePath, dictionaryFileSchema));
+  analyzerCache.set(filePath, { mtimeMs, analyzer });
+  console.log(`[Morphological Analyzer] ✓ Loaded ${analyzer.entryCount} dictionary entries`);
+
+  return analyzer;
+}
+
+/**
+ * 解析器キャッシュをクリア（テスト用）
+ */
+export function clearMorphologicalAnalyzerCache(): void {
+  analyzerCache.clear();
+}
@@ -10,6 +10,7 @@ import {
   getConditionalNGKeywords,
   getAbsoluteNGKeywords,
   getContextDependentNGKeywords,
+  loadNGKeywordRules,
 } from './ng-keywords';
 import { checkAllNGKeywords, type KeywordMatch } from './ng-keywords/keyword-matcher';
 // NOTE: analyzeAnnotations removed - annotation validation is now handled solely by keyword-matcher.ts
@@ -17,6 +18,8 @@ import { checkAllNGKeywords, type KeywordMatch } from './ng-keywords/keyword-mat
 export interface NGKeywordValidationResult {
   hasViolations: boolean;
   matches: KeywordMatch[];
+  waivedMatches: KeywordMatch[]; // 承認済み例外（違反としてカウントしない）
+  suppressedMatches: KeywordMatch[]; // 否定・注意書き・引用の文脈のため除外（違反としてカウントしない）
   summary: {
     absolute: number;
     conditional: number;
@@ -32,16 +35,27 @@ export interface NGKeywordValidationResult {
 export class NGKeywordValidator {
   private productId?: string;
 
+  /**
+   * @throws NGKeywordRuleError config/ng-keywords/*.json に不正なエントリがある場合
+   */
   constructor(productId?: string) {
     this.productId = productId;
+
+    // 起動時にルールファイルを検証（不正なエントリはファイル名・行番号付きで報告）
+    loadNGKeywordRules();
   }
 
   private getConditionalKeywords() {
     return getConditionalNGKeywords(this.productId);
   }
 
-  private absoluteKeywords = getAbsoluteNGKeywords();
-  private contextDependentKeywords = getContextDependentNGKeywords();
+  private getAbsoluteKeywords() {
+    return getAbsoluteNGKeywords(this.productId);
+  }
+
+  private getContextDependentKeywords() {
+    return getContextDependentNGKeywords(this.productId);
+  }
 
   /**
    * セグメントテキストを検証
@@ -63,9 +77,9 @@ export class NGKeywordValidator {
     const result = checkAllNGKeywords(
       text,
       {
-        absolute: this.absoluteKeywords,
+        absolute: this.getAbsoluteKeywords(),
         conditional: this.getConditionalKeywords(),
-        contextDependent: this.contextDependentKeywords,
+        contextDependent: this.getContextDependentKeywords(),
       },
       fullContext,
       productId
@@ -98,7 +112,7 @@ export class NGKeywordValidator {
     const explicitNGKeywordsList = filteredMatches.map((m) => m.keyword);
 
     // Build instructions for Gemini (filtered)
-    const instructionsForGemini = this.buildGeminiInstructions(filteredMatches);
+    const instructionsForGemini = this.buildGeminiInstructions(filteredMatches, result.waivedMatches, result.suppressedMatches);
 
     // Update summary counts
     const filteredSummary = {
@@ -113,6 +127,8 @@ export class NGKeywordValidator {
     return {
       hasViolations: filteredMatches.length > 0,
       matches: filteredMatches,
+      waivedMatches: result.waivedMatches,
+      suppressedMatches: result.suppressedMatches,
       summary: filteredSummary,
       explicitNGKeywordsList: [...new Set(explicitNGKeywordsList)], // Unique list
       instructionsForGemini,
@@ -122,7 +138,65 @@ export class NGKeywordValidator {
   /**
    * Gemini用の指示を生成（コマンドスタックフォーマット）
    */
-  private buildGeminiInstructions(matches: KeywordMatch[]): string {
+  private buildGeminiInstructions(
+    matches: KeywordMatch[],
+    waivedMatches: KeywordMatch[] = [],
+    suppressedMatches: KeywordMatch[] = []
+  ): string {
+    return (
+      this.buildLayer1Instructions(matches) +
+      this.buildWaiverInstructions(waivedMatches) +
+      this.buildSuppressedInstructions(suppressedMatches)
+    ).trim();
+  }
+
+  /**
+   * 承認済み例外の指示（法務承認済みの表現は違反報告しない）
+   */
+  private buildWaiverInstructions(waivedMatches: KeywordMatch[]): string {
+    if (waivedMatches.length === 0) {
+      return '';
+    }
+
+    let instructions = `
+
+## 【承認済み例外】法務承認済みの表現
+
+以下の表現は法務が承認済みです。**違反として報告しないでください**：
+`;
+    for (const match of waivedMatches) {
+      instructions += `- 「${match.keyword}」（承認ID: ${match.waiver?.id}、承認者: ${match.waiver?.approver}、有効期限: ${match.waiver?.expiresAt}）\n`;
+    }
+
+    return instructions;
+  }
+
+  /**
+   * 否定・注意書き・引用の文脈で除外した表現の指示
+   */
+  private buildSuppressedInstructions(suppressedMatches: KeywordMatch[]): string {
+    if (suppressedMatches.length === 0) {
+      return '';
+    }
+
+    let instructions = `
+
+## 【文脈により除外】否定・注意書き・引用の中の表現
+
+以下の表現は、表現を否定している・注意書き・引用された質問の中で使われているため、レイヤー1で違反から除外済みです。
+**同じ表現を違反として報告しないでください**：
+`;
+    for (const match of suppressedMatches) {
+      instructions += `- 「${match.keyword}」（${match.matchContext?.reason}）\n`;
+    }
+
+    return instructions;
+  }
+
+  /**
+   * レイヤー1（TypeScript事前検証）の判定結果に基づく指示
+   */
+  private buildLayer1Instructions(matches: KeywordMatch[]): string {
     if (matches.length === 0) {
       return `
 # 【システム役割】広告法務評価AI - 判定権限階層
@@ -7,29 +7,27 @@
 export * from './conditional-ng';
 export * from './absolute-ng';
 export * from './context-dependent-ng';
+export * from './rule-loader';
 
-// Re-export all keyword lists for convenience
-import { getConditionalNGKeywords } from './conditional-ng';
-import { getAbsoluteNGKeywords } from './absolute-ng';
-import { getContextDependentNGKeywords } from './context-dependent-ng';
+import { loadNGKeywordRules } from './rule-loader';
 
-export const ALL_NG_KEYWORDS = {
-  conditional: getConditionalNGKeywords(),
-  absolute: getAbsoluteNGKeywords(),
-  contextDependent: getContextDependentNGKeywords(),
-};
+/**
+ * 全NGキーワード取得（config/ng-keywords/*.json）
+ */
+export function getAllNGKeywords() {
+  return loadNGKeywordRules();
+}
 
 /**
  * 全NGキーワード統計
  */
 export function getNGKeywordStats() {
+  const { conditional, absolute, contextDependent } = getAllNGKeywords();
+
   return {
-    conditional: ALL_NG_KEYWORDS.conditional.length,
-    absolute: ALL_NG_KEYWORDS.absolute.length,
-    contextDependent: ALL_NG_KEYWORDS.contextDependent.length,
-    total:
-      ALL_NG_KEYWORDS.conditional.length +
-      ALL_NG_KEYWORDS.absolute.length +
-      ALL_NG_KEYWORDS.contextDependent.length,
+    conditional: conditional.length,
+    absolute: absolute.length,
+    contextDependent: contextDependent.length,
+    total: conditional.length + absolute.length + contextDependent.length,
   };
 }
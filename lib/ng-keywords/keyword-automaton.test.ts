@@ -0,0 +1,76 @@
+/**
+ * NGキーワードの一括照合（Aho-Corasick）のテスト
+ * RegExp の exec ループと同じ結果になること・ルールの更新で再構築されること
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  AhoCorasick,
+  clearKeywordAutomatonCache,
+  getCompiledPatterns,
+  getKeywordAutomaton,
+  toLiteralAlternatives,
+} from './keyword-automaton';
+import { VariantDictionary } from './variant-dictionary';
+
+const dictionary = new VariantDictionary([
+  { kind: 'spelling', terms: ['染み込む', '染みこむ', 'しみこむ'] },
+]);
+
+function execAll(source: string, text: string): Array<{ index: number; text: string }> {
+  return Array.from(text.matchAll(new RegExp(source, 'g')), match => ({ index: match.index!, text: match[0] }));
+}
+
+describe('keyword-automaton', () => {
+  afterEach(() => {
+    clearKeywordAutomatonCache();
+  });
+
+  it('全ての出現を重なりも含めて検出する', () => {
+    const automaton = new AhoCorasick(['he', 'she', 'his', 'hers']);
+
+    expect(automaton.search('ushers')).toEqual([
+      { pattern: 1, start: 1 },
+      { pattern: 0, start: 2 },
+      { pattern: 3, start: 2 },
+    ]);
+  });
+
+  it('リテラルの選択だけで書かれたキーワードを選択肢に展開する', () => {
+    expect(toLiteralAlternatives('(?:染み込む|しみこむ)成分|浸透')).toEqual(['染み込む成分', 'しみこむ成分', '浸透']);
+    expect(toLiteralAlternatives('100%')).toEqual(['100%']);
+    expect(toLiteralAlternatives('\\(税込\\)')).toEqual(['(税込)']);
+    // 正規表現のキーワードは RegExp で照合する
+    expect(toLiteralAlternatives('NO.1')).toBeUndefined();
+    expect(toLiteralAlternatives('シワ+')).toBeUndefined();
+    expect(toLiteralAlternatives('\\d位')).toBeUndefined();
+  });
+
+  it('RegExp の exec ループと同じマッチを返す', () => {
+    const rules = [
+      { keyword: ['保証', '保証します', '返金保証'] },
+      { keyword: ['染み込む', 'ああ'] },
+      { keyword: 'NO.1' },
+    ];
+    const text = '全額返金保証。保証します！肌にしみこむ、ああああ。NO.1 NOX1';
+    const scan = getKeywordAutomaton(rules, dictionary).scan(text);
+
+    for (const rule of rules) {
+      for (const pattern of getCompiledPatterns(rule, dictionary)) {
+        expect(scan.find(pattern)).toEqual(execAll(pattern.source, text));
+      }
+    }
+  });
+
+  it('同じルールではオートマトンを共有し、ルールが変わると再構築する', () => {
+    const rules = [{ keyword: ['若返り'] }];
+
+    expect(getKeywordAutomaton(rules, dictionary)).toBe(getKeywordAutomaton([...rules], dictionary));
+
+    // ルールファイルの更新（新しいオブジェクトとして読み込まれる）
+    const updated = [{ keyword: ['若返り', '蘇る'] }];
+    const automaton = getKeywordAutomaton(updated, dictionary);
+    expect(automaton).not.toBe(getKeywordAutomaton(rules, dictionary));
+    expect(automaton.scan('肌が蘇る').find(getCompiledPatterns(updated[0], dictionary)[1])).toEqual([{ index: 2, text: '蘇る' }]);
+  });
+});
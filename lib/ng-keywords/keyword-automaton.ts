@@ -0,0 +1,397 @@
+/**
+ * NGキーワードの一括照合（Aho-Corasick）
+ * Keyword Automaton - リテラルのNGキーワードをセグメント本文の1回の走査で検出
+ *
+ * ルールのキーワード（正規化・表記ゆれ展開後）がリテラル（とリテラルの選択）だけで書かれている場合は
+ * Aho-Corasick オートマトンにまとめ、セグメントごとに1回だけ走査する。
+ * `.` や文字クラス等を含む正規表現のキーワードは、ルールごとにコンパイル済みの RegExp で照合する。
+ *
+ * - 照合結果は従来の `new RegExp(source, 'g')` の exec ループと同じ（重ならない最左マッチ、
+ *   同じ位置では先に書かれた選択肢を優先）
+ * - コンパイル済みのパターンはルールのオブジェクトごとにキャッシュする。ルールファイル・表記ゆれ辞書は
+ *   mtime が変わると新しいオブジェクトとして読み込まれるため、オートマトンも次回の照合時に再構築される
+ * - "match": "lemma" のルールは形態素解析（lib/morphological-analyzer）の基本形・品詞で照合する。
+ *   形態素解析はそのようなルールがある場合のみ、テキストごとに1回行う
+ */
+
+import { loadMorphologicalAnalyzer, type MorphToken } from '../morphological-analyzer';
+import { normalizePattern } from '../text-normalizer';
+import type { NGKeywordMatchMode, NGKeywordPartOfSpeech } from './rule-loader';
+import type { ExpandedPattern, VariantDictionary } from './variant-dictionary';
+
+/**
+ * 照合結果（正規化後のテキストでの位置）
+ */
+export interface PatternMatch {
+  index: number;
+  text: string;
+}
+
+/**
+ * コンパイル済みのキーワード
+ */
+export interface CompiledPattern extends ExpandedPattern {
+  /** リテラルの選択肢（正規表現の選択の順）。正規表現のキーワードは undefined */
+  literals?: string[];
+  /** リテラルでないキーワードの正規表現（g フラグ付き） */
+  regex?: RegExp;
+  /** "match": "lemma" のキーワードの基本形（表記ゆれを含む）と品詞 */
+  lemma?: { lemmas: Set<string>; pos?: NGKeywordPartOfSpeech };
+}
+
+/**
+ * getCompiledPatterns に渡すルール
+ */
+type KeywordRule = { keyword: string | string[]; match?: NGKeywordMatchMode; pos?: NGKeywordPartOfSpeech };
+
+/**
+ * リテラルの選択肢に展開する上限（超える場合は正規表現で照合）
+ */
+const MAX_LITERAL_ALTERNATIVES = 256;
+
+/**
+ * オートマトンのキャッシュの上限（商品ごとのルールの組み合わせ）
+ */
+const MAX_CACHED_AUTOMATONS = 32;
+
+/**
+ * 正規表現の特殊文字（エスケープされていない場合はリテラルとして扱わない）
+ */
+const REGEX_SPECIAL = new Set(['.', '*', '+', '?', '^', '$', '{', '}', '(', ')', '|', '[', ']', '\\']);
+
+/**
+ * Aho-Corasick オートマトン
+ *
+ * UTF-16 のコード単位で照合する（RegExp の index と同じ単位）。
+ */
+export class AhoCorasick {
+  readonly patterns: string[];
+  private transitions: Array<Map<string, number>> = [new Map()];
+  private failure: number[] = [0];
+  /** 状態で終わるパターンのインデックス（failure 先の出力を含む） */
+  private outputs: number[][] = [[]];
+
+  constructor(patterns: string[]) {
+    this.patterns = patterns;
+
+    patterns.forEach((pattern, patternIndex) => {
+      let state = 0;
+      for (const char of pattern.split('')) {
+        let next = this.transitions[state].get(char);
+        if (next === undefined) {
+          next = this.transitions.push(new Map()) - 1;
+          this.failure.push(0);
+          this.outputs.push([]);
+          this.transitions[state].set(char, next);
+        }
+        state = next;
+      }
+      this.outputs[state].push(patternIndex);
+    });
+
+    // 幅優先で failure を設定
+    const queue = Array.from(this.transitions[0].values());
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      for (const [char, next] of this.transitions[state]) {
+        let fallback = this.failure[state];
+        while (fallback > 0 && !this.transitions[fallback].has(char)) {
+          fallback = this.failure[fallback];
+        }
+        const target = this.transitions[fallback].get(char);
+        this.failure[next] = target !== undefined && target !== next ? target : 0;
+        this.outputs[next] = [...this.outputs[next], ...this.outputs[this.failure[next]]];
+        queue.push(next);
+      }
+    }
+  }
+
+  /**
+   * テキスト中の全ての出現（重なりを含む）
+   *
+   * @returns パターンのインデックスと開始位置
+   */
+  search(text: string): Array<{ pattern: number; start: number }> {
+    const hits: Array<{ pattern: number; start: number }> = [];
+    let state = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      while (state > 0 && !this.transitions[state].has(char)) {
+        state = this.failure[state];
+      }
+      state = this.transitions[state].get(char) ?? 0;
+
+      for (const pattern of this.outputs[state]) {
+        hits.push({ pattern, start: i + 1 - this.patterns[pattern].length });
+      }
+    }
+
+    return hits;
+  }
+}
+
+/**
+ * 1つのテキストの走査結果
+ */
+export class KeywordScan {
+  private tokens?: MorphToken[];
+
+  constructor(
+    private readonly text: string,
+    /** リテラル → 開始位置（昇順） */
+    private readonly literalHits: Map<string, number[]>
+  ) {}
+
+  /**
+   * キーワードのマッチ（`new RegExp(source, 'g')` の exec ループと同じ結果）
+   *
+   * "match": "lemma" のキーワードは基本形が一致する形態素から、続く助動詞（ます・た等）までをマッチとする。
+   */
+  find(pattern: CompiledPattern): PatternMatch[] {
+    if (pattern.lemma) {
+      return this.findLemma(pattern.lemma);
+    }
+
+    if (pattern.regex) {
+      return execAll(pattern.regex, this.text);
+    }
+
+    const candidates: Array<{ start: number; alternative: number; literal: string }> = [];
+    pattern.literals!.forEach((literal, alternative) => {
+      for (const start of this.literalHits.get(literal) ?? []) {
+        candidates.push({ start, alternative, literal });
+      }
+    });
+    candidates.sort((a, b) => a.start - b.start || a.alternative - b.alternative);
+
+    const matches: PatternMatch[] = [];
+    let cursor = 0;
+    for (const { start, literal } of candidates) {
+      if (start >= cursor) {
+        matches.push({ index: start, text: literal });
+        cursor = start + literal.length;
+      }
+    }
+    return matches;
+  }
+
+  private findLemma({ lemmas, pos }: NonNullable<CompiledPattern['lemma']>): PatternMatch[] {
+    this.tokens ??= loadMorphologicalAnalyzer().tokenize(this.text);
+
+    const matches: PatternMatch[] = [];
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (!lemmas.has(token.lemma) || (pos && token.pos !== pos)) {
+        continue;
+      }
+
+      let end = token.end;
+      while (i + 1 < this.tokens.length && this.tokens[i + 1].pos === '助動詞') {
+        end = this.tokens[++i].end;
+      }
+      matches.push({ index: token.start, text: this.text.slice(token.start, end) });
+    }
+    return matches;
+  }
+}
+
+/**
+ * ルールの組み合わせごとのオートマトン
+ */
+export class KeywordAutomaton {
+  private automaton: AhoCorasick;
+
+  constructor(patterns: CompiledPattern[]) {
+    const literals = new Set<string>();
+    for (const pattern of patterns) {
+      pattern.literals?.forEach(literal => literals.add(literal));
+    }
+    this.automaton = new AhoCorasick(Array.from(literals));
+  }
+
+  get literalCount(): number {
+    return this.automaton.patterns.length;
+  }
+
+  /**
+   * テキストを1回走査し、全てのリテラルの出現位置を記録
+   */
+  scan(text: string): KeywordScan {
+    const literalHits = new Map<string, number[]>();
+    for (const { pattern, start } of this.automaton.search(text)) {
+      const literal = this.automaton.patterns[pattern];
+      const starts = literalHits.get(literal);
+      if (starts) {
+        starts.push(start);
+      } else {
+        literalHits.set(literal, [start]);
+      }
+    }
+    return new KeywordScan(text, literalHits);
+  }
+}
+
+/**
+ * ルール（オブジェクト）→ 表記ゆれ辞書とコンパイル済みのキーワード
+ */
+const compiledRules = new WeakMap<object, { dictionary: VariantDictionary; patterns: CompiledPattern[] }>();
+
+/**
+ * コンパイル済みのキーワードの ID（オートマトンのキャッシュキー）
+ */
+const patternIds = new WeakMap<CompiledPattern, number>();
+let nextPatternId = 0;
+
+/**
+ * キーワードの ID の列 → オートマトン
+ */
+const automatonCache = new Map<string, KeywordAutomaton>();
+
+/**
+ * ルールのキーワードをコンパイル（ルールごとにキャッシュ）
+ *
+ * @param rule - NGキーワードのルール
+ * @param dictionary - 表記ゆれ辞書
+ * @returns keyword の各要素のコンパイル済みのキーワード（keyword と同じ順）
+ */
+export function getCompiledPatterns(rule: KeywordRule, dictionary: VariantDictionary): CompiledPattern[] {
+  const cached = compiledRules.get(rule);
+  if (cached && cached.dictionary === dictionary) {
+    return cached.patterns;
+  }
+
+  const keywords = Array.isArray(rule.keyword) ? rule.keyword : [rule.keyword];
+  const patterns = keywords.map((keyword): CompiledPattern => {
+    if (rule.match === 'lemma') {
+      const lemma = normalizePattern(keyword);
+      const lemmas = new Set([lemma, ...dictionary.getSpellings(lemma).map(normalizePattern)]);
+      return { source: lemma, expansions: [], lemma: { lemmas, pos: rule.pos } };
+    }
+
+    const expanded = dictionary.expandPattern(normalizePattern(keyword));
+    const literals = toLiteralAlternatives(expanded.source);
+    return literals
+      ? { ...expanded, literals }
+      : { ...expanded, regex: new RegExp(expanded.source, 'g') };
+  });
+  patterns.forEach(pattern => patternIds.set(pattern, nextPatternId++));
+
+  compiledRules.set(rule, { dictionary, patterns });
+  return patterns;
+}
+
+/**
+ * ルールの組み合わせのオートマトン（同じ組み合わせではリクエストをまたいで共有）
+ *
+ * @param rules - 照合するルール（商品で絞り込み済み）
+ * @param dictionary - 表記ゆれ辞書
+ */
+export function getKeywordAutomaton(
+  rules: KeywordRule[],
+  dictionary: VariantDictionary
+): KeywordAutomaton {
+  const patterns = rules.flatMap(rule => getCompiledPatterns(rule, dictionary));
+  const key = patterns.map(pattern => patternIds.get(pattern)).join(',');
+
+  const cached = automatonCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const automaton = new KeywordAutomaton(patterns);
+  if (automatonCache.size >= MAX_CACHED_AUTOMATONS) {
+    automatonCache.delete(automatonCache.keys().next().value!);
+  }
+  automatonCache.set(key, automaton);
+  console.log(`[Keyword Automaton] ✓ Built automaton: ${automaton.literalCount} literals, ${patterns.filter(p => p.regex).length} regex patterns, ${patterns.filter(p => p.lemma).length} lemma patterns`);
+
+  return automaton;
+}
+
+/**
+ * オートマトンのキャッシュをクリア（テスト用）
+ */
+export function clearKeywordAutomatonCache(): void {
+  automatonCache.clear();
+}
+
+/**
+ * 正規表現のソースがリテラルの選択だけで書かれている場合は、その選択肢を展開
+ *
+ * 例: (?:染み込む|しみこむ)成分|浸透 → ['染み込む成分', 'しみこむ成分', '浸透']
+ * 選択肢の順は正規表現がマッチを試す順（同じ位置では先の選択肢が優先される）。
+ *
+ * @returns 選択肢（リテラルとして扱えない場合は undefined）
+ */
+export function toLiteralAlternatives(source: string): string[] | undefined {
+  let position = 0;
+
+  // 選択（|）で区切られた連接を読む。group の場合は ) で終わる
+  const parseAlternation = (group: boolean): string[] | undefined => {
+    const alternatives: string[] = [];
+    let sequence = [''];
+
+    while (position < source.length) {
+      const char = source[position];
+
+      if (char === '|') {
+        alternatives.push(...sequence);
+        sequence = [''];
+        position++;
+      } else if (char === ')') {
+        if (!group) {
+          return undefined;
+        }
+        break;
+      } else if (source.startsWith('(?:', position)) {
+        position += 3;
+        const inner = parseAlternation(true);
+        if (!inner || source[position] !== ')') {
+          return undefined;
+        }
+        position++;
+        sequence = sequence.flatMap(prefix => inner.map(alternative => prefix + alternative));
+      } else if (char === '\\') {
+        const escaped = source[position + 1];
+        if (escaped === undefined || /[0-9A-Za-z]/.test(escaped)) {
+          return undefined;
+        }
+        sequence = sequence.map(prefix => prefix + escaped);
+        position += 2;
+      } else if (REGEX_SPECIAL.has(char)) {
+        return undefined;
+      } else {
+        sequence = sequence.map(prefix => prefix + char);
+        position++;
+      }
+
+      if (sequence.length + alternatives.length > MAX_LITERAL_ALTERNATIVES) {
+        return undefined;
+      }
+    }
+
+    alternatives.push(...sequence);
+    return alternatives;
+  };
+
+  const alternatives = parseAlternation(false);
+  if (!alternatives || position !== source.length || alternatives.some(alternative => alternative === '')) {
+    return undefined;
+  }
+  return alternatives;
+}
+
+function execAll(regex: RegExp, text: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  regex.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    matches.push({ index: match.index, text: match[0] });
+    if (match[0] === '') {
+      regex.lastIndex++;
+    }
+  }
+  return matches;
+}
@@ -1,6 +1,19 @@
 /**
  * NGキーワードマッチングロジック
  * NG Keyword Matching Logic
+ *
+ * テキストとルールの正規表現は lib/text-normalizer で正規化してから照合し
+ * （全角英数字・半角カナ・空白・ゼロ幅文字・長音・踊り字の表記ゆれを吸収）、
+ * KeywordMatch の keyword・matchedText・position は元のテキストの表記・位置で返す。
+ *
+ * ルールの正規表現は表記ゆれ辞書（config/ng-keywords/variants.json）で全ての表記に展開し、
+ * ルールと異なる表記で検出した場合は KeywordMatch.variantOf にルールの表記を設定する。
+ *
+ * リテラルのキーワードは keyword-automaton（Aho-Corasick）でセグメントごとに1回だけ走査し、
+ * 正規表現のキーワード・注釈等のパターンはコンパイル済みの RegExp をリクエストをまたいで再利用する。
+ *
+ * 否定・注意書き・引用の文脈で検出した表現は match-context で判定し、
+ * 除外（suppressedMatches）または重要度の引き下げとその理由を KeywordMatch.matchContext に記録する。
  */
 
 import type {
@@ -8,11 +21,17 @@ import type {
   ConditionalNGKeyword,
   ContextDependentNGKeyword,
 } from './index';
+import type { ViolationMatchContext, ViolationWaiver } from '../types-v2';
+import { findWaiver, loadWaivers, type WaiverOptions } from './waivers';
+import { classifyMatchContext, DOWNGRADED_SEVERITY } from './match-context';
+import { normalizeJapaneseText, normalizePattern, type NormalizedText } from '../text-normalizer';
+import { findMatchedVariant, loadVariantDictionary, type VariantDictionary } from './variant-dictionary';
+import { getCompiledPatterns, getKeywordAutomaton, type PatternMatch } from './keyword-automaton';
 
 export interface KeywordMatch {
   keyword: string;
   matchedText: string;
-  position: {
+  position: { // 元のテキストでの位置（正規化前）
     start: number;
     end: number;
   };
@@ -26,14 +45,58 @@ export interface KeywordMatch {
   description: string;
   referenceKnowledge?: string;
   okExamples?: string[]; // 適切な表現例（修正案の生成に使用）
+  variantOf?: string; // 表記ゆれ辞書で展開して検出した場合のルールの表記（例: 染みこむ → 染み込む）
+  waiver?: ViolationWaiver; // 承認済み例外（approved: 違反から除外 / expired: 期限切れのため違反）
+  matchContext?: ViolationMatchContext; // 否定・注意書き・引用の文脈（suppressed: 違反から除外 / downgraded: 重要度を引き下げ）
 }
 
 /**
- * キーワード配列を正規表現パターンに変換
+ * 変換済みの正規表現（表記ゆれ辞書 → フラグ/ソース → RegExp）
  */
-function keywordToPattern(keyword: string | string[]): RegExp[] {
-  const keywords = Array.isArray(keyword) ? keyword : [keyword];
-  return keywords.map((k) => new RegExp(k, 'g'));
+const normalizedRegExpCache = new WeakMap<VariantDictionary, Map<string, RegExp>>();
+
+/**
+ * ルールの正規表現（文字列・RegExp）を正規化後のテキスト用に変換（表記ゆれを展開）
+ *
+ * test() の結果が lastIndex に依存しないよう、g・y フラグのない正規表現のみキャッシュする。
+ */
+function toNormalizedRegExp(pattern: string | RegExp, dictionary: VariantDictionary): RegExp {
+  const source = typeof pattern === 'string' ? pattern : pattern.source;
+  const flags = typeof pattern === 'string' ? '' : pattern.flags;
+  const key = `${flags}/${source}`;
+
+  let cache = normalizedRegExpCache.get(dictionary);
+  if (!cache) {
+    cache = new Map();
+    normalizedRegExpCache.set(dictionary, cache);
+  }
+
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const regex = new RegExp(dictionary.expandPattern(normalizePattern(source)).source, flags);
+  if (!/[gy]/.test(flags)) {
+    cache.set(key, regex);
+  }
+  return regex;
+}
+
+/**
+ * 検出したキーワードの表示（表記ゆれで検出した場合はルールの表記を併記）
+ */
+function formatDetectedKeyword(keyword: string, variantOf?: string): string {
+  return variantOf ? `「${keyword}」（「${variantOf}」の表記ゆれ）` : `「${keyword}」`;
+}
+
+/**
+ * 正規化後のテキストでのマッチを、元のテキストの位置・表記に変換
+ */
+function toOriginalMatch(normalized: NormalizedText, match: PatternMatch): Pick<KeywordMatch, 'keyword' | 'matchedText' | 'position'> {
+  const position = normalized.toOriginalRange(match.index, match.index + match.text.length);
+  const matchedText = normalized.original.slice(position.start, position.end);
+  return { keyword: matchedText, matchedText, position };
 }
 
 /**
@@ -56,38 +119,35 @@ export function checkAbsoluteNGKeywords(
   // NOTE: detectAnnotationRanges() is NO LONGER NEEDED
   // Annotation explanation text is already filtered out by SegmentBuilder
 
-  for (const ngKeyword of keywords) {
-    const patterns = keywordToPattern(ngKeyword.keyword);
+  const normalized = normalizeJapaneseText(text);
+  const dictionary = loadVariantDictionary();
 
-    for (const pattern of patterns) {
-      const regex = new RegExp(pattern.source, 'g');
-      let match: RegExpExecArray | null;
+  const scan = getKeywordAutomaton(keywords, dictionary).scan(normalized.text);
 
-      while ((match = regex.exec(text)) !== null) {
+  for (const ngKeyword of keywords) {
+    for (const pattern of getCompiledPatterns(ngKeyword, dictionary)) {
+      for (const match of scan.find(pattern)) {
         // 「保証」が「返金保証」「全額返金保証」の文脈で使われている場合はスキップ
-        if (match[0] === '保証' || match[0] === '保証します' || match[0] === '保障') {
+        if (match.text === '保証' || match.text === '保証します' || match.text === '保障') {
           const contextStart = Math.max(0, match.index - 10);
-          const contextEnd = Math.min(text.length, match.index + match[0].length + 5);
-          const context = text.substring(contextStart, contextEnd);
+          const contextEnd = Math.min(normalized.text.length, match.index + match.text.length + 5);
+          const context = normalized.text.substring(contextStart, contextEnd);
 
           if (context.includes('返金') || context.includes('満足')) {
-            console.log(`[Keyword Matcher] ⏭️  Skipping "${match[0]}" at position ${match.index} (金銭的保証の文脈: "${context}")`);
+            console.log(`[Keyword Matcher] ⏭️  Skipping "${match.text}" at position ${match.index} (金銭的保証の文脈: "${context}")`);
             continue;
           }
         }
 
+        const variantOf = findMatchedVariant(match.text, pattern.expansions);
         matches.push({
-          keyword: match[0],
-          matchedText: match[0],
-          position: {
-            start: match.index,
-            end: match.index + match[0].length,
-          },
+          ...toOriginalMatch(normalized, match),
+          ...(variantOf && { variantOf }),
           type: 'absolute',
           category: ngKeyword.category,
           severity: ngKeyword.severity,
           violationType: ngKeyword.violationType,
-          reason: `完全NGキーワード「${match[0]}」を検出`,
+          reason: `完全NGキーワード${formatDetectedKeyword(match.text, variantOf)}を検出`,
           description: ngKeyword.description,
           referenceKnowledge: ngKeyword.referenceKnowledge,
         });
@@ -113,7 +173,6 @@ export function checkConditionalNGKeywords(
   fullContext?: string
 ): KeywordMatch[] {
   const matches: KeywordMatch[] = [];
-  const contextText = fullContext || text;
 
   // Skip annotation explanation segments (e.g., "※1背爪表面に", "※2殺菌は消毒の作用機序として")
   // These are reference materials, not advertising text to be checked
@@ -123,6 +182,10 @@ export function checkConditionalNGKeywords(
     return [];
   }
 
+  const normalized = normalizeJapaneseText(text);
+  const dictionary = loadVariantDictionary();
+  const contextText = normalizeJapaneseText(fullContext || text).text;
+
   // NOTE: detectAnnotationRanges() is NO LONGER NEEDED
   // Annotation explanation text is already filtered out by SegmentBuilder
   // Segments only contain advertising text with annotation markers (※1, ※2)
@@ -131,40 +194,34 @@ export function checkConditionalNGKeywords(
   // Track matched ranges to avoid duplicate matches from overlapping keywords
   const matchedRanges: Array<{start: number; end: number; keyword: string}> = [];
 
-  for (const ngKeyword of keywords) {
-    const patterns = keywordToPattern(ngKeyword.keyword);
-
-    for (const pattern of patterns) {
-      const regex = new RegExp(pattern.source, 'g');
-      let match: RegExpExecArray | null;
+  const scan = getKeywordAutomaton(keywords, dictionary).scan(normalized.text);
 
-      while ((match = regex.exec(text)) !== null) {
+  for (const ngKeyword of keywords) {
+    for (const pattern of getCompiledPatterns(ngKeyword, dictionary)) {
+      for (const match of scan.find(pattern)) {
         const matchStart = match.index;
-        const matchEnd = match.index + match[0].length;
+        const matchEnd = match.index + match.text.length;
 
         // Check if this match overlaps with a longer keyword that was already matched
-        const matchedKeywordLength = match[0].length;
+        const matchedKeywordLength = match.text.length;
         const overlaps = matchedRanges.some(range =>
           matchStart >= range.start && matchEnd <= range.end && matchedKeywordLength < range.keyword.length
         );
 
         if (overlaps) {
-          console.log(`[Keyword Matcher] ⏭️  Skipping "${match[0]}" at position ${match.index} (overlaps with longer keyword)`);
+          console.log(`[Keyword Matcher] ⏭️  Skipping "${match.text}" at position ${match.index} (overlaps with longer keyword)`);
           continue;
         }
 
         // Check if required annotation exists
-        const annotationPattern =
-          typeof ngKeyword.requiredAnnotation === 'string'
-            ? new RegExp(ngKeyword.requiredAnnotation)
-            : ngKeyword.requiredAnnotation;
+        const annotationPattern = toNormalizedRegExp(ngKeyword.requiredAnnotation, dictionary);
 
         // Extract annotation text:
         // IMPORTANT: The annotation marker (※1, ※2, etc.) must be IMMEDIATELY after the keyword
         // to avoid false positives from other keywords' annotations.
         // Example: "ヒアルロン酸でクマ※1" - the ※1 belongs to "クマ", NOT "ヒアルロン酸"
 
-        const keywordEnd = match.index + match[0].length;
+        const keywordEnd = match.index + match.text.length;
         const immediateProximityRange = 3; // Allow up to 3 chars (e.g., space + ※)
 
         // Check for annotation marker IMMEDIATELY after keyword (within 3 chars)
@@ -230,10 +287,7 @@ export function checkConditionalNGKeywords(
         // Check exceptions
         if (!hasRequiredAnnotation && ngKeyword.exceptions) {
           for (const exception of ngKeyword.exceptions) {
-            const exceptionPattern =
-              typeof exception.allowedPattern === 'string'
-                ? new RegExp(exception.allowedPattern)
-                : exception.allowedPattern;
+            const exceptionPattern = toNormalizedRegExp(exception.allowedPattern, dictionary);
 
             // For exceptions, check the full context
             if (exceptionPattern.test(contextText)) {
@@ -247,21 +301,19 @@ export function checkConditionalNGKeywords(
         matchedRanges.push({
           start: matchStart,
           end: matchEnd,
-          keyword: match[0]
+          keyword: match.text
         });
 
         if (!hasRequiredAnnotation) {
+          const variantOf = findMatchedVariant(match.text, pattern.expansions);
           matches.push({
-            keyword: match[0],
-            matchedText: match[0],
-            position: {
-              start: match.index,
-              end: match.index + match[0].length,
-            },
+            ...toOriginalMatch(normalized, match),
+            ...(variantOf && { variantOf }),
             type: 'conditional',
             category: ngKeyword.category,
             severity: ngKeyword.severity || 'high',
-            reason: `条件付きNGキーワード「${match[0]}」を検出（必須注釈なし）`,
+            violationType: ngKeyword.violationType,
+            reason: `条件付きNGキーワード${formatDetectedKeyword(match.text, variantOf)}を検出（必須注釈なし）`,
             hasRequiredAnnotation: false,
             requiredAnnotation: ngKeyword.requiredAnnotation,
             description: ngKeyword.description,
@@ -285,7 +337,6 @@ export function checkContextDependentNGKeywords(
   fullContext?: string
 ): KeywordMatch[] {
   const matches: KeywordMatch[] = [];
-  const contextText = fullContext || text;
 
   // Skip annotation explanation segments (e.g., "※1背爪表面に", "※2殺菌は消毒の作用機序として")
   // These are reference materials, not advertising text to be checked
@@ -298,21 +349,22 @@ export function checkContextDependentNGKeywords(
   // NOTE: detectAnnotationRanges() is NO LONGER NEEDED
   // Annotation explanation text is already filtered out by SegmentBuilder
 
-  for (const ngKeyword of keywords) {
-    const patterns = keywordToPattern(ngKeyword.keyword);
+  const normalized = normalizeJapaneseText(text);
+  const dictionary = loadVariantDictionary();
+  const contextText = normalizeJapaneseText(fullContext || text).text;
 
-    for (const pattern of patterns) {
-      const regex = new RegExp(pattern.source, 'g');
-      let match: RegExpExecArray | null;
+  const scan = getKeywordAutomaton(keywords, dictionary).scan(normalized.text);
 
-      while ((match = regex.exec(text)) !== null) {
+  for (const ngKeyword of keywords) {
+    for (const pattern of getCompiledPatterns(ngKeyword, dictionary)) {
+      for (const match of scan.find(pattern)) {
         // Check if matches NG pattern
         let isNG = false;
         let ngReason = '';
         let severity = 'high' as const;
 
         for (const ngPattern of ngKeyword.ngPatterns) {
-          if (ngPattern.pattern.test(contextText)) {
+          if (toNormalizedRegExp(ngPattern.pattern, dictionary).test(contextText)) {
             isNG = true;
             ngReason = ngPattern.reason;
             severity = ngPattern.severity;
@@ -323,7 +375,7 @@ export function checkContextDependentNGKeywords(
         // Check if matches OK pattern (override NG)
         if (isNG) {
           for (const okPattern of ngKeyword.okPatterns) {
-            if (okPattern.pattern.test(contextText)) {
+            if (toNormalizedRegExp(okPattern.pattern, dictionary).test(contextText)) {
               isNG = false;
               break;
             }
@@ -331,17 +383,15 @@ export function checkContextDependentNGKeywords(
         }
 
         if (isNG) {
+          const variantOf = findMatchedVariant(match.text, pattern.expansions);
           matches.push({
-            keyword: match[0],
-            matchedText: match[0],
-            position: {
-              start: match.index,
-              end: match.index + match[0].length,
-            },
+            ...toOriginalMatch(normalized, match),
+            ...(variantOf && { variantOf }),
             type: 'context-dependent',
             category: ngKeyword.category,
             severity,
-            reason: `文脈依存NGキーワード「${match[0]}」を検出（${ngReason}）`,
+            violationType: ngKeyword.violationType,
+            reason: `文脈依存NGキーワード${formatDetectedKeyword(match.text, variantOf)}を検出（${ngReason}）`,
             description: ngKeyword.description,
             referenceKnowledge: ngKeyword.referenceKnowledge,
           });
@@ -355,6 +405,13 @@ export function checkContextDependentNGKeywords(
 
 /**
  * 全NGキーワードチェック（統合）
+ *
+ * productId 指定時は config/waivers/<productId>.json の承認済み例外を適用する。
+ * 有効な例外に一致したマッチは matches から waivedMatches に移し、
+ * 期限切れの例外に一致したマッチは waiver（status: 'expired'）付きで matches に残す。
+ *
+ * 否定・注意書き・引用の文脈で検出したマッチは、除外する場合は suppressedMatches に移し、
+ * 重要度を引き下げる場合は severity を medium にして matches に残す（いずれも matchContext に理由を記録）。
  */
 export function checkAllNGKeywords(
   text: string,
@@ -364,9 +421,12 @@ export function checkAllNGKeywords(
     contextDependent: ContextDependentNGKeyword[];
   },
   fullContext?: string,
-  productId?: string
+  productId?: string,
+  waiverOptions: WaiverOptions = {}
 ): {
   matches: KeywordMatch[];
+  waivedMatches: KeywordMatch[];
+  suppressedMatches: KeywordMatch[];
   summary: {
     absolute: number;
     conditional: number;
@@ -375,6 +435,8 @@ export function checkAllNGKeywords(
     critical: number;
     high: number;
     medium: number;
+    waived: number;
+    suppressed: number;
   };
 } {
   // 商品固有のannotationRulesをConditionalNGKeywordsとして追加（リグレッション防止）
@@ -427,11 +489,47 @@ export function checkAllNGKeywords(
     fullContext
   );
 
-  const allMatches = [
+  // 承認済み例外の適用（キーワード + セグメント本文の文脈で判定）
+  const waivers = productId ? loadWaivers(productId, waiverOptions.waiversDir) : [];
+  const applyWaiver = (match: KeywordMatch): KeywordMatch => {
+    const waiver = findWaiver(waivers, match.keyword, text, waiverOptions.now);
+    if (waiver?.status === 'expired') {
+      console.log(`[Keyword Matcher] ⌛ Waiver ${waiver.id} for "${match.keyword}" expired on ${waiver.expiresAt}`);
+    }
+    return waiver ? { ...match, waiver } : match;
+  };
+  const isWaived = (match: KeywordMatch) => match.waiver?.status === 'approved';
+
+  // 否定・注意書き・引用の文脈の判定（セグメント本文での位置で判定）
+  const applyMatchContext = (match: KeywordMatch): KeywordMatch => {
+    const matchContext = classifyMatchContext(text, match.position);
+    if (!matchContext) {
+      return match;
+    }
+    console.log(`[Keyword Matcher] 🔇 "${match.keyword}" ${matchContext.action}: ${matchContext.reason}`);
+    // medium 以下のマッチは重要度を変更しない（理由のみ記録）
+    const isDowngradable = match.severity === 'critical' || match.severity === 'high';
+    return matchContext.action === 'downgraded' && isDowngradable
+      ? {
+        ...match,
+        severity: DOWNGRADED_SEVERITY,
+        matchContext: { ...matchContext, ...(match.severity && { originalSeverity: match.severity }) },
+      }
+      : { ...match, matchContext };
+  };
+  const isSuppressed = (match: KeywordMatch) => match.matchContext?.action === 'suppressed';
+
+  const classifiedMatches = [
     ...absoluteMatches,
     ...conditionalMatches,
     ...contextDependentMatches,
-  ];
+  ].map(applyMatchContext);
+  const suppressedMatches = classifiedMatches.filter(isSuppressed);
+
+  const checkedMatches = classifiedMatches.filter((m) => !isSuppressed(m)).map(applyWaiver);
+
+  const allMatches = checkedMatches.filter((m) => !isWaived(m));
+  const waivedMatches = checkedMatches.filter(isWaived);
 
   // Count by severity
   const criticalCount = allMatches.filter((m) => m.severity === 'critical').length;
@@ -440,14 +538,18 @@ export function checkAllNGKeywords(
 
   return {
     matches: allMatches,
+    waivedMatches,
+    suppressedMatches,
     summary: {
-      absolute: absoluteMatches.length,
-      conditional: conditionalMatches.length,
-      contextDependent: contextDependentMatches.length,
+      absolute: allMatches.filter((m) => m.type === 'absolute').length,
+      conditional: allMatches.filter((m) => m.type === 'conditional').length,
+      contextDependent: allMatches.filter((m) => m.type === 'context-dependent').length,
       total: allMatches.length,
       critical: criticalCount,
       high: highCount,
       medium: mediumCount,
+      waived: waivedMatches.length,
+      suppressed: suppressedMatches.length,
     },
   };
 }
@@ -0,0 +1,86 @@
+/**
+ * NGキーワード検出箇所の文脈判定のテスト
+ * 否定・注意書き・引用の中の表現の除外・重要度の引き下げと、その理由の記録
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyMatchContext } from './match-context';
+import { checkAllNGKeywords } from './keyword-matcher';
+import type { AbsoluteNGKeyword } from './absolute-ng';
+
+const rejuvenation: AbsoluteNGKeyword = {
+  keyword: ['若返り', '治療'],
+  category: 'rejuvenation',
+  severity: 'critical',
+  description: '若返り・治療の表現は承認された効能効果を逸脱',
+  violationType: '薬機法違反',
+};
+
+function check(text: string) {
+  return checkAllNGKeywords(text, { absolute: [rejuvenation], conditional: [], contextDependent: [] });
+}
+
+function positionOf(text: string, keyword: string) {
+  const start = text.indexOf(keyword);
+  return { start, end: start + keyword.length };
+}
+
+describe('match-context', () => {
+  it('否定している表現は理由付きで除外する', () => {
+    const result = check('本品は若返りを謳うものではありません。');
+
+    expect(result.matches).toHaveLength(0);
+    expect(result.suppressedMatches).toHaveLength(1);
+    expect(result.suppressedMatches[0].matchContext).toMatchObject({
+      kind: 'negation',
+      action: 'suppressed',
+      cue: 'ものではありません',
+    });
+    expect(result.summary.suppressed).toBe(1);
+
+    // 直後の否定
+    expect(check('本品は若返りではありません').suppressedMatches).toHaveLength(1);
+    expect(check('治療することはありません').suppressedMatches[0].matchContext?.cue).toBe('ことはありません');
+  });
+
+  it('注意書きは否定があれば除外、なければ重要度を引き下げる', () => {
+    const negated = check('うるおいを与えます。※治療を目的としたものではありません');
+    expect(negated.suppressedMatches[0].matchContext).toMatchObject({ kind: 'disclaimer', action: 'suppressed' });
+
+    const [match] = check('※若返りには個人差があります').matches;
+    expect(match.severity).toBe('medium');
+    expect(match.matchContext).toMatchObject({ kind: 'disclaimer', action: 'downgraded', originalSeverity: 'critical' });
+  });
+
+  it('引用の中の質問は除外し、体験談は重要度を引き下げる', () => {
+    const question = 'お客様から「若返りますか？」とよく聞かれます。';
+    expect(classifyMatchContext(question, positionOf(question, '若返り'))).toMatchObject({
+      kind: 'quotation',
+      action: 'suppressed',
+      cue: '「',
+    });
+
+    const testimonial = '「若返りを実感しました」（40代女性）';
+    expect(classifyMatchContext(testimonial, positionOf(testimonial, '若返り'))).toMatchObject({
+      kind: 'quotation',
+      action: 'downgraded',
+    });
+  });
+
+  it('否定・注意書き・引用の文脈でない表現と反語はそのまま検出する', () => {
+    expect(check('飲むだけで若返り！').matches[0].matchContext).toBeUndefined();
+
+    // 反語（〜ではないでしょうか）は否定として扱わない
+    const rhetorical = '若返りではないでしょうか。';
+    expect(classifyMatchContext(rhetorical, positionOf(rhetorical, '若返り'))).toBeUndefined();
+
+    // 同じ文の別の動詞の否定（肯定の広告表現）は対象外
+    expect(check('若返り効果は他社には真似できません').matches).toHaveLength(1);
+    expect(check('若返りを実感、もう後悔しません').matches).toHaveLength(1);
+    expect(check('若返りで年齢を気にしません').matches).toHaveLength(1);
+
+    // 前の文の否定は対象外
+    const separate = 'これは薬ではありません。若返りします。';
+    expect(classifyMatchContext(separate, positionOf(separate, '若返り'))).toBeUndefined();
+  });
+});
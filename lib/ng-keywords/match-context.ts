@@ -0,0 +1,134 @@
+/**
+ * NGキーワード検出箇所の文脈判定
+ * Match Context Classifier - 否定・注意書き・引用の文脈で使われた表現を判定
+ *
+ * 「若返りを謳うものではありません」「※治療を目的としたものではありません」のように
+ * 表現を否定している場合や、お客様の質問を引用している場合は、キーワードが含まれていても
+ * 効能効果の標榜にはあたらない。検出箇所の前後を判定し、除外（suppressed）または
+ * 重要度の引き下げ（downgraded）とその理由を記録する。
+ *
+ * - negation: 検出した表現そのものを否定している（直後の〜ではありません、〜を謳う・目的とした + ものではありません）→ 除外。
+ *   同じ文の別の動詞の否定（真似できません・後悔しません 等）は対象外
+ * - disclaimer: ※・注 等で始まる注意書きの文 → 否定表現があれば除外、なければ重要度を引き下げ
+ * - quotation: 「」『』等の引用の中 → 質問（〜？・〜か）なら除外、それ以外（体験談等）は重要度を引き下げ
+ */
+
+import type { ViolationMatchContext } from '../types-v2';
+
+/**
+ * 重要度を引き下げた検出の重要度
+ */
+export const DOWNGRADED_SEVERITY = 'medium' as const;
+
+/**
+ * 文の区切り
+ */
+const SENTENCE_BOUNDARY = /[。！？!?\n]/;
+
+/**
+ * 検出した表現そのものの否定（検出箇所の直後から照合）
+ * - 直後の否定: 若返りではありません / 治療することはありません（送り仮名・する 等の2文字まで）
+ * - 標榜の否定: 若返りを謳うものではありません / 治療を目的としたものではありません
+ * 「〜ではないでしょうか」「〜ではありませんか」のような反語は否定として扱わない
+ */
+const NEGATION_CUE = /^(?:[ぁ-ゖ]{0,2}?|(?:効果|効能)?を(?:謳|うた|標榜|目的と|意図|約束|保証)[ぁ-ゖ]{0,3}?)((?:もの|わけ|こと)?(?:では|じゃ)(?:ありません|ございません|ない)|(?:こと|もの)は(?:ありません|ございません|ない))(?!\s*(?:か|でしょう|だろう|のでは))/;
+
+/**
+ * 注意書きの文の先頭
+ */
+const DISCLAIMER_MARKER = /^\s*(?:※|＊|\*|注[)）:：]|（注）|\(注\)|【注意】|【ご注意】)/;
+
+const QUOTE_PAIRS: Record<string, string> = {
+  '「': '」',
+  '『': '』',
+  '“': '”',
+  '"': '"',
+};
+
+/**
+ * 引用の中の質問
+ */
+const QUESTION = /(?:[？?]|か)\s*$/;
+
+/**
+ * 検出箇所の文脈を判定
+ *
+ * @param text - 検出したテキスト（セグメント本文）
+ * @param position - 検出箇所（text での位置）
+ * @returns 文脈による除外・重要度の引き下げ（該当しない場合は undefined）
+ */
+export function classifyMatchContext(
+  text: string,
+  position: { start: number; end: number }
+): ViolationMatchContext | undefined {
+  const sentence = getSentence(text, position);
+  const after = text.slice(position.end, sentence.end);
+  const negation = after.match(NEGATION_CUE)?.[1];
+  const disclaimer = text.slice(sentence.start, sentence.end).match(DISCLAIMER_MARKER)?.[0].trim();
+
+  if (disclaimer) {
+    return negation
+      ? { kind: 'disclaimer', action: 'suppressed', cue: negation, reason: `注意書きで「${negation}」と否定しているため除外` }
+      : { kind: 'disclaimer', action: 'downgraded', cue: disclaimer, reason: `注意書き（${disclaimer}）内の表現のため重要度を引き下げ` };
+  }
+
+  if (negation) {
+    return { kind: 'negation', action: 'suppressed', cue: negation, reason: `「${negation}」と否定しているため除外` };
+  }
+
+  const quotation = findEnclosingQuote(text, position);
+  if (quotation) {
+    return QUESTION.test(quotation.content)
+      ? { kind: 'quotation', action: 'suppressed', cue: quotation.open, reason: '引用された質問の中の表現のため除外' }
+      : { kind: 'quotation', action: 'downgraded', cue: quotation.open, reason: '引用（体験談・お客様の声等）の中の表現のため重要度を引き下げ' };
+  }
+
+  return undefined;
+}
+
+/**
+ * 検出箇所を含む文の範囲
+ */
+function getSentence(text: string, position: { start: number; end: number }): { start: number; end: number } {
+  let start = position.start;
+  while (start > 0 && !SENTENCE_BOUNDARY.test(text[start - 1])) {
+    start--;
+  }
+
+  let end = position.end;
+  while (end < text.length && !SENTENCE_BOUNDARY.test(text[end])) {
+    end++;
+  }
+  // 文末の「？」等は引用・否定の判定に含める
+  return { start, end: Math.min(text.length, end + 1) };
+}
+
+/**
+ * 検出箇所を囲む引用符（同じ段落の中で閉じていること）
+ */
+function findEnclosingQuote(
+  text: string,
+  position: { start: number; end: number }
+): { open: string; content: string } | undefined {
+  const paragraphStart = text.lastIndexOf('\n', position.start - 1) + 1;
+  const newline = text.indexOf('\n', position.end);
+  const paragraphEnd = newline < 0 ? text.length : newline;
+
+  for (let i = position.start - 1; i >= paragraphStart; i--) {
+    const close = QUOTE_PAIRS[text[i]];
+    if (!close) {
+      continue;
+    }
+    // 検出箇所より前で閉じている引用は対象外
+    const closedBefore = text.indexOf(close, i + 1);
+    if (close !== text[i] && closedBefore >= 0 && closedBefore < position.start) {
+      continue;
+    }
+    const end = text.indexOf(close, position.end);
+    if (end >= 0 && end < paragraphEnd) {
+      return { open: text[i], content: text.slice(i + 1, end) };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,40 @@
+/**
+ * NGキーワードルール例文テスト
+ * config/ng-keywords/*.json の okExamples / ngExamples から自動生成
+ *
+ * ルールを追加すると、そのルールの例文がテストケースとして追加される。
+ * ルールの knownIssues に記述した例文はスキップし（理由をテスト名に表示）、
+ * 期待どおりに判定されるようになったら knownIssues から削除するよう失敗させる。
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectRuleExamples, listRulesForSelfTest, selfTestRule } from './rule-self-check';
+
+describe('NG keyword rule examples', () => {
+  for (const { entry, index } of listRulesForSelfTest()) {
+    const { ok, ng } = collectRuleExamples(entry);
+    if (ok.length === 0 && ng.length === 0) continue;
+
+    const keywords = Array.isArray(entry.rule.keyword) ? entry.rule.keyword : [entry.rule.keyword];
+
+    describe(`${entry.type}[${index}] ${keywords.join('/')}`, () => {
+      const { examples } = selfTestRule(entry, index);
+
+      for (const example of examples) {
+        const name = example.kind === 'ng'
+          ? `should detect NG example "${example.text}"`
+          : `should not detect OK example "${example.text}"`;
+
+        if (example.knownIssue && !example.passed) {
+          it.skip(`${name} (known issue: ${example.knownIssue})`, () => {});
+          continue;
+        }
+
+        it(name, () => {
+          expect(example.knownIssue, 'resolved: remove this example from knownIssues').toBeUndefined();
+          expect(example.passed, `matched: ${example.matchedKeywords.join(', ') || '(none)'}`).toBe(true);
+        });
+      }
+    });
+  }
+});
@@ -0,0 +1,179 @@
+/**
+ * NGキーワードルールローダーのテスト
+ * config/ng-keywords/*.json の読み込みと不正エントリの報告
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  clearNGKeywordRuleCache,
+  loadNGKeywordRuleFile,
+  loadNGKeywordRules,
+  NGKeywordRuleError,
+} from './rule-loader';
+
+describe('loadNGKeywordRules - config/ng-keywords', () => {
+  it('should load and compile the bundled rule files', () => {
+    const rules = loadNGKeywordRules();
+
+    expect(rules.absolute.length).toBeGreaterThan(0);
+    expect(rules.conditional.length).toBeGreaterThan(0);
+    expect(rules.contextDependent.length).toBeGreaterThan(0);
+
+    for (const rule of rules.conditional) {
+      expect(rule.requiredAnnotation).toBeInstanceOf(RegExp);
+    }
+    for (const rule of rules.contextDependent) {
+      expect(rule.ngPatterns.every((p) => p.pattern instanceof RegExp)).toBe(true);
+    }
+  });
+});
+
+describe('loadNGKeywordRuleFile - bad entries', () => {
+  let rulesDir: string;
+
+  beforeEach(() => {
+    rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-rules-'));
+    clearNGKeywordRuleCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(rulesDir, { recursive: true, force: true });
+    clearNGKeywordRuleCache();
+  });
+
+  const writeRules = (fileName: string, content: string) => {
+    fs.writeFileSync(path.join(rulesDir, fileName), content);
+  };
+
+  const getIssues = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(NGKeywordRuleError);
+      return (error as NGKeywordRuleError).issues;
+    }
+    throw new Error('NGKeywordRuleError was not thrown');
+  };
+
+  it('should report an invalid regex with its file and line', () => {
+    writeRules('conditional.json', [
+      '[',
+      '  {',
+      '    "keyword": ["浸透"],',
+      '    "category": "penetration",',
+      '    "requiredAnnotation": "※(角質層",',
+      '    "description": "浸透表現には注釈が必須",',
+      '    "okExamples": [],',
+      '    "ngExamples": []',
+      '  }',
+      ']',
+    ].join('\n'));
+
+    const issues = getIssues(() => loadNGKeywordRuleFile('conditional', rulesDir));
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].file).toMatch(/conditional\.json$/);
+    expect(issues[0].line).toBe(5);
+    expect(issues[0].path).toBe('[0].requiredAnnotation');
+    expect(issues[0].message).toContain('不正な正規表現です');
+  });
+
+  it('should report unknown values and fields on the offending entry', () => {
+    writeRules('absolute.json', JSON.stringify([
+      {
+        keyword: '若返り',
+        category: 'rejuvenation',
+        severity: 'critical',
+        description: 'OK',
+        violationType: '薬機法違反',
+      },
+      {
+        keyword: '完治',
+        category: 'medical',
+        severity: 'critical',
+        description: '完治表現',
+        violationType: '医師法違反',
+        refrenceKnowledge: 'typo',
+      },
+    ], null, 2));
+
+    const issues = getIssues(() => loadNGKeywordRuleFile('absolute', rulesDir));
+    const byPath = Object.fromEntries(issues.map((issue) => [issue.path, issue]));
+
+    // violationType は2件目の14行目、未知のキーはエントリ開始行（9行目）で報告
+    expect(byPath['[1].violationType'].line).toBe(14);
+    expect(byPath['[1]'].line).toBe(9);
+    expect(byPath['[1]'].message).toContain('refrenceKnowledge');
+  });
+
+  it('should reject regex keywords and stray pos for lemma matching', () => {
+    writeRules('absolute.json', JSON.stringify([
+      {
+        keyword: ['治す', '治(る|ります)'],
+        match: 'lemma',
+        pos: '動詞',
+        category: 'medical',
+        severity: 'critical',
+        description: '治癒表現',
+        violationType: '薬機法違反',
+      },
+      {
+        keyword: '若返り',
+        pos: '名詞',
+        category: 'rejuvenation',
+        severity: 'critical',
+        description: '若返り表現',
+        violationType: '薬機法違反',
+      },
+    ], null, 2));
+
+    const issues = getIssues(() => loadNGKeywordRuleFile('absolute', rulesDir));
+    const byPath = Object.fromEntries(issues.map((issue) => [issue.path, issue]));
+
+    expect(byPath['[0].keyword[1]'].message).toContain('基本形');
+    expect(byPath['[1].pos'].message).toContain('"match": "lemma"');
+  });
+
+  it('should reject knownIssues that are not examples of the rule', () => {
+    writeRules('conditional.json', JSON.stringify([
+      {
+        keyword: '浸透',
+        category: 'penetration',
+        requiredAnnotation: '※.{0,20}角質層',
+        description: '浸透表現',
+        okExamples: ['角質層へ浸透'],
+        ngExamples: ['肌に浸透'],
+        knownIssues: [
+          { example: '角質層へ浸透', reason: '本文中の範囲は注釈として判定されない' },
+          { example: '角質層まで浸透', reason: '例文にない' },
+        ],
+      },
+    ], null, 2));
+
+    const issues = getIssues(() => loadNGKeywordRuleFile('conditional', rulesDir));
+
+    expect(issues.map((issue) => issue.path)).toEqual(['[0].knownIssues[1].example']);
+  });
+
+  it('should report JSON syntax errors with a line number', () => {
+    writeRules('context-dependent.json', '[\n  {\n    "keyword": "若々しい",\n  }\n]');
+
+    const issues = getIssues(() => loadNGKeywordRuleFile('context-dependent', rulesDir));
+
+    expect(issues[0].message).toContain('JSON構文エラー');
+    expect(issues[0].line).toBe(4);
+  });
+
+  it('should aggregate issues from all rule files', () => {
+    writeRules('absolute.json', '[]');
+    writeRules('conditional.json', '[{"keyword": []}]');
+
+    const issues = getIssues(() => loadNGKeywordRules(rulesDir));
+    const files = new Set(issues.map((issue) => path.basename(issue.file)));
+
+    expect(files).toEqual(new Set(['conditional.json', 'context-dependent.json']));
+  });
+});
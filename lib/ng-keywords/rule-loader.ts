@@ -0,0 +1,524 @@
+/**
+ * NGキーワードルールローダー
+ * NG Keyword Rule Loader - config/ng-keywords/*.json からルールを読み込み、zodで検証
+ *
+ * 法務レビュアーがTypeScriptを編集せずにルールを更新できるよう、
+ * NGキーワード辞書はJSONファイルで管理する。
+ * - absolute.json: 完全NGキーワード
+ * - conditional.json: 条件付きNGキーワード（注釈必須）
+ * - context-dependent.json: 文脈依存NGキーワード
+ *
+ * keyword / requiredAnnotation / pattern 等は正規表現の文字列として記述する。
+ * "match": "lemma" のルールは keyword を基本形（例: 治る）として形態素解析の結果と照合し、
+ * 活用形（治ります・治った）を検出する。語の途中（退治する）には一致しない。
+ * 不正なエントリは「ファイル:行 パス メッセージ」の形式で報告する。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { isProductSupported, loadProductConfig } from '../product-config-loader';
+import type { AbsoluteNGKeyword } from './absolute-ng';
+import type { ConditionalNGKeyword } from './conditional-ng';
+import type { ContextDependentNGKeyword } from './context-dependent-ng';
+
+export type NGViolationType = '薬機法違反' | '社内基準違反' | '景表法違反' | '特商法違反';
+
+export type NGKeywordRuleType = 'absolute' | 'conditional' | 'context-dependent';
+
+/**
+ * キーワードの照合方法（substring: 正規表現で部分一致 / lemma: 形態素の基本形で一致）
+ */
+export type NGKeywordMatchMode = 'substring' | 'lemma';
+
+/**
+ * match: 'lemma' のルールで指定できる品詞
+ */
+export type NGKeywordPartOfSpeech = '名詞' | '動詞' | '形容詞' | '副詞';
+
+/**
+ * 現在のマッチングロジックでは期待どおりに判定できない例文（ルール自己テストで既知の問題として報告する）
+ */
+export interface NGKeywordKnownIssue {
+  /** okExamples / ngExamples（文脈依存ルールは ngPatterns / okPatterns の example を含む）のいずれか */
+  example: string;
+  /** 期待どおりに判定できない理由 */
+  reason: string;
+}
+
+/**
+ * ルール種別ごとのファイル名
+ */
+export const NG_KEYWORD_RULE_FILES: Record<NGKeywordRuleType, string> = {
+  absolute: 'absolute.json',
+  conditional: 'conditional.json',
+  'context-dependent': 'context-dependent.json',
+};
+
+export interface NGKeywordRuleSet {
+  absolute: AbsoluteNGKeyword[];
+  conditional: ConditionalNGKeyword[];
+  contextDependent: ContextDependentNGKeyword[];
+}
+
+export interface NGKeywordRuleIssue {
+  file: string;
+  line?: number;
+  path: string;
+  message: string;
+}
+
+/**
+ * ルールファイル不正エラー
+ *
+ * JSON構文エラー・スキーマ違反・不正な正規表現をまとめて保持します。
+ */
+export class NGKeywordRuleError extends Error {
+  readonly issues: NGKeywordRuleIssue[];
+
+  constructor(issues: NGKeywordRuleIssue[]) {
+    super(
+      `Invalid NG keyword rules (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n` +
+      issues.map(formatIssue).join('\n')
+    );
+    this.name = 'NGKeywordRuleError';
+    this.issues = issues;
+  }
+}
+
+function formatIssue(issue: NGKeywordRuleIssue): string {
+  const location = issue.line !== undefined ? `${issue.file}:${issue.line}` : issue.file;
+  return `  ${location}${issue.path ? ` ${issue.path}` : ''}: ${issue.message}`;
+}
+
+// ============================================================
+// Schemas
+// ============================================================
+
+/**
+ * 正規表現の文字列（new RegExp() でコンパイルできること）
+ */
+export const regexSourceSchema = z.string().min(1, '空の正規表現は指定できません').superRefine((source, ctx) => {
+  try {
+    new RegExp(source);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `不正な正規表現です: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+const regexSchema = regexSourceSchema.transform((source) => new RegExp(source));
+
+const keywordSchema = z.union([
+  regexSourceSchema,
+  z.array(regexSourceSchema).min(1, 'keyword を1つ以上指定してください'),
+]);
+
+const violationTypeSchema = z.enum(['薬機法違反', '社内基準違反', '景表法違反', '特商法違反']);
+
+/**
+ * 全ルール種別で共通の任意項目
+ */
+const commonRuleFields = {
+  description: z.string().min(1),
+  referenceKnowledge: z.string().optional(),
+  productCategories: z.array(z.string().min(1)).min(1).optional(),
+  match: z.enum(['substring', 'lemma']).optional(),
+  pos: z.enum(['名詞', '動詞', '形容詞', '副詞']).optional(),
+  knownIssues: z.array(z.object({
+    example: z.string().min(1),
+    reason: z.string().min(1),
+  }).strict()).optional(),
+};
+
+/**
+ * match: 'lemma' のルールの keyword は基本形（正規表現の記号を含まない）、pos は match: 'lemma' の場合のみ
+ */
+function refineMatchMode(rule: { keyword: string | string[]; match?: NGKeywordMatchMode; pos?: NGKeywordPartOfSpeech }, ctx: z.RefinementCtx): void {
+  if (rule.match !== 'lemma') {
+    if (rule.pos) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pos'], message: 'pos は "match": "lemma" のルールでのみ指定できます' });
+    }
+    return;
+  }
+
+  const keywords = Array.isArray(rule.keyword) ? rule.keyword : [rule.keyword];
+  keywords.forEach((keyword, index) => {
+    if (/[.*+?^${}()|[\]\\]/.test(keyword)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: Array.isArray(rule.keyword) ? ['keyword', index] : ['keyword'],
+        message: `"match": "lemma" の keyword には基本形を指定してください（正規表現は使用できません）: ${keyword}`,
+      });
+    }
+  });
+}
+
+/**
+ * knownIssues の example はルールの例文のいずれかであること
+ */
+function refineKnownIssues(
+  rule: {
+    knownIssues?: NGKeywordKnownIssue[];
+    okExamples?: string[];
+    ngExamples?: string[];
+    ngPatterns?: Array<{ example: string }>;
+    okPatterns?: Array<{ example: string }>;
+  },
+  ctx: z.RefinementCtx
+): void {
+  const examples = new Set([
+    ...(rule.okExamples || []),
+    ...(rule.ngExamples || []),
+    ...(rule.ngPatterns || []).map((p) => p.example),
+    ...(rule.okPatterns || []).map((p) => p.example),
+  ]);
+
+  rule.knownIssues?.forEach((issue, index) => {
+    if (!examples.has(issue.example)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['knownIssues', index, 'example'],
+        message: `ルールの例文に含まれていません: ${issue.example}`,
+      });
+    }
+  });
+}
+
+const absoluteRuleSchema = z.object({
+  keyword: keywordSchema,
+  category: z.enum(['rejuvenation', 'guarantee', 'medical', 'out-of-scope']),
+  severity: z.enum(['high', 'critical']),
+  violationType: violationTypeSchema,
+  okExamples: z.array(z.string()).optional(),
+  ngExamples: z.array(z.string()).optional(),
+  ...commonRuleFields,
+}).strict().superRefine(refineMatchMode).superRefine(refineKnownIssues);
+
+const conditionalRuleSchema = z.object({
+  keyword: keywordSchema,
+  category: z.enum(['penetration', 'ingredient', 'kuma', 'medical-effect', 'guarantee']),
+  requiredAnnotation: regexSchema,
+  okExamples: z.array(z.string()),
+  ngExamples: z.array(z.string()),
+  exceptions: z.array(z.object({
+    condition: z.string().min(1),
+    allowedPattern: regexSchema,
+  }).strict()).optional(),
+  severity: z.enum(['medium', 'high']).optional(),
+  violationType: violationTypeSchema.optional(),
+  ...commonRuleFields,
+}).strict().superRefine(refineMatchMode).superRefine(refineKnownIssues);
+
+const contextDependentRuleSchema = z.object({
+  keyword: keywordSchema,
+  category: z.enum(['youthful', 'facility', 'brightness', 'kuma-improvement', 'limited-time']),
+  ngPatterns: z.array(z.object({
+    pattern: regexSchema,
+    reason: z.string().min(1),
+    example: z.string(),
+    severity: z.literal('high'),
+  }).strict()).min(1, 'ngPatterns を1つ以上指定してください'),
+  okPatterns: z.array(z.object({
+    pattern: regexSchema,
+    example: z.string(),
+  }).strict()),
+  okExamples: z.array(z.string()).optional(),
+  ngExamples: z.array(z.string()).optional(),
+  violationType: violationTypeSchema.optional(),
+  ...commonRuleFields,
+}).strict().superRefine(refineMatchMode).superRefine(refineKnownIssues);
+
+const ruleFileSchemas = {
+  absolute: z.array(absoluteRuleSchema),
+  conditional: z.array(conditionalRuleSchema),
+  'context-dependent': z.array(contextDependentRuleSchema),
+} satisfies Record<NGKeywordRuleType, z.ZodTypeAny>;
+
+type RuleOf<T extends NGKeywordRuleType> = {
+  absolute: AbsoluteNGKeyword;
+  conditional: ConditionalNGKeyword;
+  'context-dependent': ContextDependentNGKeyword;
+}[T];
+
+// スキーマの出力型がインターフェースと一致することをコンパイル時に保証
+const _typeCheck: { [T in NGKeywordRuleType]: z.ZodType<RuleOf<T>[], z.ZodTypeDef, unknown> } = ruleFileSchemas;
+void _typeCheck;
+
+// ============================================================
+// Loader
+// ============================================================
+
+/**
+ * ルールキャッシュ（ファイルパス → mtime と検証済みルール）
+ * ファイルが更新された場合は次回読み込み時に再検証する
+ */
+const ruleCache = new Map<string, { mtimeMs: number; rules: unknown[] }>();
+
+/**
+ * デフォルトのルールディレクトリ
+ */
+export function getNGKeywordRulesDir(): string {
+  return path.join(process.cwd(), 'config', 'ng-keywords');
+}
+
+/**
+ * ルールファイルを読み込み、検証する
+ *
+ * @param type - ルール種別
+ * @param rulesDir - ルールディレクトリ（省略時は config/ng-keywords）
+ * @returns 検証済みのルール配列（正規表現はコンパイル済み）
+ * @throws NGKeywordRuleError ファイルが存在しない・JSONが不正・スキーマ違反の場合
+ *
+ * @example
+ * const rules = loadNGKeywordRuleFile('conditional');
+ * console.log(rules[0].requiredAnnotation); // => /※.{0,20}角質層/
+ */
+export function loadNGKeywordRuleFile<T extends NGKeywordRuleType>(
+  type: T,
+  rulesDir: string = getNGKeywordRulesDir()
+): RuleOf<T>[] {
+  const filePath = path.join(rulesDir, NG_KEYWORD_RULE_FILES[type]);
+  const displayPath = path.relative(process.cwd(), filePath) || filePath;
+
+  if (!fs.existsSync(filePath)) {
+    throw new NGKeywordRuleError([
+      { file: displayPath, path: '', message: 'ルールファイルが見つかりません' },
+    ]);
+  }
+
+  const { mtimeMs } = fs.statSync(filePath);
+  const cached = ruleCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.rules as RuleOf<T>[];
+  }
+
+  const rules = readJsonFileWithSchema(filePath, ruleFileSchemas[type]) as RuleOf<T>[];
+  ruleCache.set(filePath, { mtimeMs, rules });
+  console.log(`[NG Keyword Rules] ✓ Loaded ${rules.length} ${type} rules from ${displayPath}`);
+
+  return rules;
+}
+
+/**
+ * JSONファイルを読み込み、zodスキーマで検証する
+ *
+ * ルールファイル・承認済み例外ファイルで共通。エラーは行番号付きで報告する。
+ *
+ * @param filePath - JSONファイルのパス（存在すること）
+ * @param schema - 検証用スキーマ
+ * @throws NGKeywordRuleError JSONが不正・スキーマ違反の場合
+ */
+export function readJsonFileWithSchema<S extends z.ZodTypeAny>(filePath: string, schema: S): z.output<S> {
+  const displayPath = path.relative(process.cwd(), filePath) || filePath;
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = message.match(/position (\d+)/);
+    throw new NGKeywordRuleError([{
+      file: displayPath,
+      line: position ? lineAt(content, Number(position[1])) : undefined,
+      path: '',
+      message: `JSON構文エラー: ${message}`,
+    }]);
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    const lineIndex = buildJsonLineIndex(content);
+    throw new NGKeywordRuleError(result.error.issues.map((issue) => ({
+      file: displayPath,
+      line: findLine(lineIndex, issue.path),
+      path: formatJsonPath(issue.path),
+      message: issue.message,
+    })));
+  }
+
+  return result.data;
+}
+
+/**
+ * 全ルールファイルを読み込む
+ *
+ * 複数ファイルにエラーがある場合もまとめて1つの NGKeywordRuleError として報告する。
+ *
+ * @param rulesDir - ルールディレクトリ（省略時は config/ng-keywords）
+ * @throws NGKeywordRuleError いずれかのファイルが不正な場合
+ */
+export function loadNGKeywordRules(rulesDir: string = getNGKeywordRulesDir()): NGKeywordRuleSet {
+  const issues: NGKeywordRuleIssue[] = [];
+
+  const load = <T extends NGKeywordRuleType>(type: T): RuleOf<T>[] => {
+    try {
+      return loadNGKeywordRuleFile(type, rulesDir);
+    } catch (error) {
+      if (error instanceof NGKeywordRuleError) {
+        issues.push(...error.issues);
+        return [];
+      }
+      throw error;
+    }
+  };
+
+  const ruleSet: NGKeywordRuleSet = {
+    absolute: load('absolute'),
+    conditional: load('conditional'),
+    contextDependent: load('context-dependent'),
+  };
+
+  if (issues.length > 0) {
+    throw new NGKeywordRuleError(issues);
+  }
+
+  return ruleSet;
+}
+
+/**
+ * ルールキャッシュをクリア（テスト用）
+ */
+export function clearNGKeywordRuleCache(): void {
+  ruleCache.clear();
+}
+
+/**
+ * productCategories で商品に適用されるルールに絞り込む
+ *
+ * productCategories には商品ID（'SH'）または商品カテゴリ（'化粧品'）を指定できる。
+ * 商品カテゴリは config/products/<ID>.json の category から解決する。
+ * productCategories が未指定のルールは全商品に適用される。
+ *
+ * @param rules - ルール配列
+ * @param productId - 商品ID（省略時は全ルールを返す）
+ */
+export function filterRulesByProduct<T extends { productCategories?: string[] }>(
+  rules: T[],
+  productId?: string
+): T[] {
+  if (!productId) {
+    return rules;
+  }
+
+  const productCategory = resolveProductCategory(productId);
+
+  return rules.filter((rule) => {
+    if (!rule.productCategories) {
+      return true;
+    }
+    return rule.productCategories.includes(productId) ||
+      (productCategory !== undefined && rule.productCategories.includes(productCategory));
+  });
+}
+
+/**
+ * 商品IDから商品カテゴリ（化粧品 / 新指定医薬部外品 等）を解決
+ * 設定ファイルが存在しない場合は undefined
+ */
+function resolveProductCategory(productId: string): string | undefined {
+  try {
+    return isProductSupported(productId) ? loadProductConfig(productId).category : undefined;
+  } catch (error) {
+    console.warn('[NG Keyword Rules] Failed to resolve product category:', error);
+    return undefined;
+  }
+}
+
+// ============================================================
+// JSON line lookup
+// ============================================================
+
+/**
+ * zodのissue path を表示用に整形（例: [3].ngPatterns[0].pattern）
+ */
+function formatJsonPath(jsonPath: (string | number)[]): string {
+  return jsonPath
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+/**
+ * issue path に対応する行番号を取得
+ * 該当キーが存在しない（必須項目の欠落など）場合は親要素の行を返す
+ */
+function findLine(lineIndex: Map<string, number>, jsonPath: (string | number)[]): number | undefined {
+  for (let length = jsonPath.length; length >= 0; length--) {
+    const line = lineIndex.get(formatJsonPath(jsonPath.slice(0, length)));
+    if (line !== undefined) {
+      return line;
+    }
+  }
+  return undefined;
+}
+
+function lineAt(content: string, position: number): number {
+  return content.slice(0, position).split('\n').length;
+}
+
+/**
+ * JSONテキストを走査し、各値のパスと開始行の対応表を作成
+ * JSON.parse に成功したテキストのみを対象とする
+ */
+function buildJsonLineIndex(content: string): Map<string, number> {
+  const lineIndex = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (pos < content.length && /\s/.test(content[pos])) {
+      if (content[pos] === '\n') line++;
+      pos++;
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos++;
+    while (content[pos] !== '"') {
+      if (content[pos] === '\\') pos++;
+      pos++;
+    }
+    pos++;
+    return JSON.parse(content.slice(start, pos)) as string;
+  };
+
+  const readValue = (jsonPath: (string | number)[]) => {
+    skipWhitespace();
+    lineIndex.set(formatJsonPath(jsonPath), line);
+
+    const char = content[pos];
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      pos++;
+      skipWhitespace();
+      if (content[pos] === close) {
+        pos++;
+        return;
+      }
+      for (let index = 0; ; index++) {
+        skipWhitespace();
+        let key: string | number = index;
+        if (char === '{') {
+          key = readString();
+          skipWhitespace();
+          pos++; // ':'
+        }
+        readValue([...jsonPath, key]);
+        skipWhitespace();
+        if (content[pos++] === close) return;
+      }
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (pos < content.length && !/[\s,\]}]/.test(content[pos])) pos++;
+    }
+  };
+
+  readValue([]);
+  return lineIndex;
+}
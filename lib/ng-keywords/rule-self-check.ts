@@ -0,0 +1,223 @@
+/**
+ * NGキーワードルール自己テスト
+ * Rule Self-Test - 各ルールの okExamples / ngExamples を checkAllNGKeywords に通して検証
+ *
+ * - ngExamples（および文脈依存ルールの ngPatterns[].example）はそのルールで検出されること
+ * - okExamples（および文脈依存ルールの okPatterns[].example）はそのルールで検出されないこと
+ *
+ * 各ルールは単独で checkAllNGKeywords に渡すため、他ルールの影響を受けずに
+ * 「そのルールが誤検知しないこと」を確認できる。
+ *
+ * 現在のマッチングロジックでは期待どおりに判定できない例文は、ルールJSONの knownIssues に理由とともに記述する。
+ * 既知の問題も失敗として集計し（knownIssues）、解消済みなのに knownIssues に残っている例文は失敗とする。
+ */
+
+import { checkAllNGKeywords, type KeywordMatch } from './keyword-matcher';
+import { loadNGKeywordRules, type NGKeywordRuleType } from './rule-loader';
+import type { AbsoluteNGKeyword } from './absolute-ng';
+import type { ConditionalNGKeyword } from './conditional-ng';
+import type { ContextDependentNGKeyword } from './context-dependent-ng';
+
+export interface RuleExampleResult {
+  kind: 'ok' | 'ng';
+  text: string;
+  passed: boolean;
+  knownIssue?: string; // ルールの knownIssues に記述された理由
+  matchedKeywords: string[];
+}
+
+export interface RuleSelfTestResult {
+  type: NGKeywordRuleType;
+  index: number; // ルールファイル内の位置（0始まり）
+  keywords: string[];
+  description: string;
+  examples: RuleExampleResult[];
+  passed: boolean; // 全例文が期待どおり（既知の問題を含む）
+}
+
+export interface RuleSelfTestSummary {
+  rules: number;
+  passedRules: number; // 例文のないルールは含まない
+  failedRules: number;
+  examples: number;
+  failedExamples: number; // 既知の問題を除く
+  knownIssues: number; // knownIssues に記述された、期待どおりに判定できない例文
+  resolvedKnownIssues: number; // knownIssues に記述されているが期待どおりに判定された例文（knownIssues から削除すること）
+  rulesWithoutExamples: number;
+}
+
+type AnyRule =
+  | { type: 'absolute'; rule: AbsoluteNGKeyword }
+  | { type: 'conditional'; rule: ConditionalNGKeyword }
+  | { type: 'context-dependent'; rule: ContextDependentNGKeyword };
+
+/**
+ * ルールのOK例・NG例を収集
+ */
+export function collectRuleExamples(entry: AnyRule): { ok: string[]; ng: string[] } {
+  const ok = [...(entry.rule.okExamples || [])];
+  const ng = [...(entry.rule.ngExamples || [])];
+
+  if (entry.type === 'context-dependent') {
+    ng.push(...entry.rule.ngPatterns.map((p) => p.example));
+    ok.push(...entry.rule.okPatterns.map((p) => p.example));
+  }
+
+  return { ok: ok.filter(Boolean), ng: ng.filter(Boolean) };
+}
+
+/**
+ * 1つの例文を、対象ルールのみを使って checkAllNGKeywords で検証
+ */
+function matchExample(entry: AnyRule, text: string): KeywordMatch[] {
+  const keywords = {
+    absolute: entry.type === 'absolute' ? [entry.rule] : [],
+    conditional: entry.type === 'conditional' ? [entry.rule] : [],
+    contextDependent: entry.type === 'context-dependent' ? [entry.rule] : [],
+  };
+
+  return checkAllNGKeywords(text, keywords).matches;
+}
+
+/**
+ * 1ルール分の自己テスト
+ */
+export function selfTestRule(entry: AnyRule, index: number): RuleSelfTestResult {
+  const { ok, ng } = collectRuleExamples(entry);
+  const knownIssues = new Map((entry.rule.knownIssues || []).map((issue) => [issue.example, issue.reason]));
+
+  const examples: RuleExampleResult[] = [
+    ...ng.map((text) => ({ kind: 'ng' as const, text })),
+    ...ok.map((text) => ({ kind: 'ok' as const, text })),
+  ].map(({ kind, text }) => {
+    const matches = matchExample(entry, text);
+    const knownIssue = knownIssues.get(text);
+    return {
+      kind,
+      text,
+      passed: kind === 'ng' ? matches.length > 0 : matches.length === 0,
+      ...(knownIssue && { knownIssue }),
+      matchedKeywords: matches.map((m) => m.keyword),
+    };
+  });
+
+  const keywords = Array.isArray(entry.rule.keyword) ? entry.rule.keyword : [entry.rule.keyword];
+
+  return {
+    type: entry.type,
+    index,
+    keywords,
+    description: entry.rule.description,
+    examples,
+    passed: examples.every((e) => e.passed && !e.knownIssue),
+  };
+}
+
+/**
+ * 全ルールの一覧（種別付き）を取得
+ *
+ * @param rulesDir - ルールディレクトリ（省略時は config/ng-keywords）
+ */
+export function listRulesForSelfTest(rulesDir?: string): { entry: AnyRule; index: number }[] {
+  const rules = loadNGKeywordRules(rulesDir);
+
+  return [
+    ...rules.absolute.map((rule, index) => ({ entry: { type: 'absolute' as const, rule }, index })),
+    ...rules.conditional.map((rule, index) => ({ entry: { type: 'conditional' as const, rule }, index })),
+    ...rules.contextDependent.map((rule, index) => ({ entry: { type: 'context-dependent' as const, rule }, index })),
+  ];
+}
+
+/**
+ * 全ルールの自己テストを実行
+ *
+ * @param rulesDir - ルールディレクトリ（省略時は config/ng-keywords）
+ */
+export function runRuleSelfTest(rulesDir?: string): {
+  results: RuleSelfTestResult[];
+  summary: RuleSelfTestSummary;
+} {
+  const results = listRulesForSelfTest(rulesDir).map(({ entry, index }) => selfTestRule(entry, index));
+  const allExamples = results.flatMap((r) => r.examples);
+
+  return {
+    results,
+    summary: {
+      rules: results.length,
+      passedRules: results.filter((r) => r.passed && r.examples.length > 0).length,
+      failedRules: results.filter((r) => !r.passed).length,
+      examples: allExamples.length,
+      failedExamples: allExamples.filter((e) => !e.passed && !e.knownIssue).length,
+      knownIssues: allExamples.filter((e) => !e.passed && e.knownIssue).length,
+      resolvedKnownIssues: allExamples.filter((e) => e.passed && e.knownIssue).length,
+      rulesWithoutExamples: results.filter((r) => r.examples.length === 0).length,
+    },
+  };
+}
+
+/**
+ * ルール別のpass/fail表を整形
+ */
+export function formatRuleSelfTestTable(results: RuleSelfTestResult[]): string {
+  const rows = results.map((r) => {
+    const ng = r.examples.filter((e) => e.kind === 'ng');
+    const ok = r.examples.filter((e) => e.kind === 'ok');
+    const hasUnexpectedFailure = r.examples.some((e) => e.passed === Boolean(e.knownIssue));
+    const status = r.examples.length === 0 ? 'SKIP' : r.passed ? 'PASS' : hasUnexpectedFailure ? 'FAIL' : 'KNOWN';
+    return [
+      status,
+      `${r.type}[${r.index}]`,
+      truncate(r.keywords.join('/'), 30),
+      `${ng.filter((e) => e.passed).length}/${ng.length}`,
+      `${ok.filter((e) => e.passed).length}/${ok.length}`,
+    ];
+  });
+
+  const header = ['結果', 'ルール', 'キーワード', 'NG例', 'OK例'];
+  const widths = header.map((h, i) => Math.max(displayWidth(h), ...rows.map((row) => displayWidth(row[i]))));
+  const formatRow = (row: string[]) => row.map((cell, i) => padEnd(cell, widths[i])).join(' | ');
+
+  const lines = [formatRow(header), widths.map((w) => '-'.repeat(w)).join('-|-'), ...rows.map(formatRow)];
+
+  const describeExample = (r: RuleSelfTestResult, e: RuleExampleResult) =>
+    e.passed
+      ? `${r.type}[${r.index}] knownIssues の例文が期待どおりに判定されました（knownIssues から削除してください）: "${e.text}"`
+      : e.kind === 'ng'
+        ? `${r.type}[${r.index}] NG例が検出されませんでした: "${e.text}"`
+        : `${r.type}[${r.index}] OK例が誤検知されました: "${e.text}" (${e.matchedKeywords.join(', ')})`;
+
+  const failures = results.flatMap((r) =>
+    r.examples.filter((e) => e.passed === Boolean(e.knownIssue)).map((e) => `  ✗ ${describeExample(r, e)}`)
+  );
+  const knownIssues = results.flatMap((r) =>
+    r.examples.filter((e) => !e.passed && e.knownIssue).map((e) => `  △ ${describeExample(r, e)}\n      理由: ${e.knownIssue}`)
+  );
+
+  if (failures.length > 0) {
+    lines.push('', '失敗した例文:', ...failures);
+  }
+  if (knownIssues.length > 0) {
+    lines.push('', '既知の問題（ルールの knownIssues）:', ...knownIssues);
+  }
+
+  return lines.join('\n');
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * 全角文字を幅2として表示幅を計算
+ */
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+function padEnd(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - displayWidth(text)));
+}
@@ -0,0 +1,83 @@
+/**
+ * 表記ゆれ・類義語辞書のテスト
+ * config/ng-keywords/variants.json によるルールの展開・検出した表記の報告・クエリ展開
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkConditionalNGKeywords } from './keyword-matcher';
+import { NGKeywordRuleError } from './rule-loader';
+import type { ConditionalNGKeyword } from './conditional-ng';
+import {
+  VariantDictionary,
+  clearVariantDictionaryCache,
+  findMatchedVariant,
+  loadVariantDictionary,
+} from './variant-dictionary';
+
+const dictionary = new VariantDictionary([
+  { kind: 'spelling', terms: ['染み込む', '染みこむ', '染込む'] },
+  { kind: 'spelling', terms: ['シワ', 'しわ', '皺'] },
+  { kind: 'synonym', terms: ['医師', 'ドクター', '専門医'] },
+]);
+
+describe('variant-dictionary', () => {
+  afterEach(() => {
+    clearVariantDictionaryCache();
+  });
+
+  it('ルールの正規表現に含まれる表記を全ての表記に展開する', () => {
+    const expanded = dictionary.expandPattern('浸透|染み込む');
+
+    expect(expanded.source).toBe('浸透|(?:染み込む|染みこむ|染込む)');
+    expect(new RegExp(expanded.source).test('肌に染込む')).toBe(true);
+    expect(findMatchedVariant('染込む', expanded.expansions)).toBe('染み込む');
+    expect(findMatchedVariant('染み込む', expanded.expansions)).toBeUndefined();
+
+    // 文字クラスの中・量指定子の直前は展開しない
+    expect(dictionary.expandPattern('[シワ]が').source).toBe('[シワ]が');
+    expect(dictionary.expandPattern('シワ+').source).toBe('シワ+');
+  });
+
+  it('ルールと異なる表記で検出した場合はルールの表記を報告する', () => {
+    const keywords: ConditionalNGKeyword[] = [{
+      keyword: ['浸透', '染み込む'],
+      category: 'penetration',
+      description: '浸透には角質層までの注釈が必要',
+      requiredAnnotation: '※.{0,20}角質層',
+      okExamples: ['浸透※1 ※1角質層まで'],
+      ngExamples: ['肌に染み込む'],
+    }];
+
+    const [match] = checkConditionalNGKeywords('肌にしみこむ美容液', keywords);
+
+    expect(match.matchedText).toBe('しみこむ');
+    expect(match.variantOf).toBe('染み込む');
+    expect(match.reason).toContain('「しみこむ」（「染み込む」の表記ゆれ）');
+  });
+
+  it('表記ゆれは全ての表記、類義語は基準語からクエリを展開する', () => {
+    expect(dictionary.expandQuery('皺対策の表現')).toEqual(['皺対策の表現', 'シワ対策の表現', 'しわ対策の表現']);
+    expect(dictionary.expandQuery('医師監修')).toEqual(['医師監修', 'ドクター監修', '専門医監修']);
+    expect(dictionary.expandQuery('ドクター監修')).toEqual(['ドクター監修']);
+    expect(dictionary.getSpellings('しわ')).toEqual(['しわ', 'シワ', '皺']);
+  });
+
+  it('複数の表記ゆれグループに含まれる表記はファイル名・行番号付きで報告する', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'variants-'));
+    const filePath = path.join(dir, 'variants.json');
+    fs.writeFileSync(filePath, JSON.stringify([
+      { kind: 'spelling', terms: ['シワ', 'しわ'] },
+      { kind: 'spelling', terms: ['皺', 'しわ'] },
+    ], null, 2));
+
+    try {
+      expect(() => loadVariantDictionary(filePath)).toThrow(NGKeywordRuleError);
+      expect(() => loadVariantDictionary(filePath)).toThrow(/variants\.json:\d+ \[1\]\.terms\[1\]: 「しわ」は \[0\]/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
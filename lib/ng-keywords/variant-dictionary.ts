@@ -0,0 +1,258 @@
+/**
+ * 表記ゆれ・類義語辞書
+ * Variant Dictionary - NGキーワードのマッチング・セグメント分割・RAGのクエリ展開で共通の辞書
+ *
+ * config/ng-keywords/variants.json に記述する:
+ * [
+ *   { "kind": "spelling", "terms": ["染み込む", "染みこむ", "染込む", "しみ込む", "しみこむ"] },
+ *   { "kind": "synonym", "terms": ["浸透", "染み込む", "注入", "到達", "届く"], "category": "薬機法" }
+ * ]
+ *
+ * - spelling: 同じ語の表記ゆれ（ひらがな・カタカナ・漢字、送り仮名）。
+ *   ルールの正規表現に含まれる表記を全ての表記に展開するため、ルールには1つの表記だけを書けばよい。
+ *   2文字以下のひらがなだけの表記（くま・しみ・しわ 等）は「くまなく」「しみじみ」のような一般的な語の一部に一致するため登録しない
+ * - synonym: 類義語（RAGのクエリ展開のみで使用）。先頭の語を基準語とし、基準語を含むクエリを他の語に置き換える
+ *
+ * 全角・半角や長音等の表記ゆれは lib/text-normalizer で吸収するため、辞書には記述しない。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { normalizeJapaneseText } from '../text-normalizer';
+import { getNGKeywordRulesDir, readJsonFileWithSchema } from './rule-loader';
+
+export type VariantGroupKind = 'spelling' | 'synonym';
+
+export interface VariantGroup {
+  kind: VariantGroupKind;
+  terms: string[];
+  category?: string;
+}
+
+/**
+ * 表記ゆれで展開したルールの正規表現
+ */
+export interface ExpandedPattern {
+  /** 展開後の正規表現のソース */
+  source: string;
+  /** 展開したルールの表記（正規化後）と、その全ての表記 */
+  expansions: Array<{ term: string; variants: string[] }>;
+}
+
+const variantFileSchema = z.array(z.object({
+  kind: z.enum(['spelling', 'synonym']),
+  terms: z.array(z.string().min(1)).min(2, 'terms を2つ以上指定してください'),
+  category: z.string().min(1).optional(),
+}).strict()).superRefine((groups, ctx) => {
+  // 1つの表記は1つの表記ゆれグループにのみ属する
+  const seen = new Map<string, number>();
+  groups.forEach((group, index) => {
+    if (group.kind !== 'spelling') {
+      return;
+    }
+    group.terms.forEach((term, termIndex) => {
+      const normalized = normalizeJapaneseText(term).text;
+      const previous = seen.get(normalized);
+      if (previous !== undefined && previous !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'terms', termIndex],
+          message: `「${term}」は [${previous}] の表記ゆれグループにも含まれています`,
+        });
+      }
+      seen.set(normalized, index);
+    });
+  });
+});
+
+/**
+ * 直後に置くと表記の一部だけに作用する量指定子（展開すると意味が変わるため展開しない）
+ */
+const QUANTIFIER = /^[*+?{]/;
+
+/**
+ * 表記ゆれ・類義語辞書
+ */
+export class VariantDictionary {
+  readonly groups: VariantGroup[];
+  /** 正規化後の表記 → 同じグループの全ての表記（正規化後、長い順） */
+  private spellings = new Map<string, string[]>();
+  /** 正規化後の表記（長い順、正規表現内での照合用） */
+  private spellingTerms: string[];
+  private patternCache = new Map<string, ExpandedPattern>();
+
+  constructor(groups: VariantGroup[]) {
+    this.groups = groups;
+
+    for (const group of groups.filter(g => g.kind === 'spelling')) {
+      const variants = Array.from(new Set(group.terms.map(term => normalizeJapaneseText(term).text)))
+        .sort((a, b) => b.length - a.length);
+      for (const variant of variants) {
+        this.spellings.set(variant, variants);
+      }
+    }
+    this.spellingTerms = Array.from(this.spellings.keys()).sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * 表記ゆれを含む全ての表記（辞書にない場合は term のみ）
+   *
+   * @returns 辞書に記述された表記（正規化前）
+   */
+  getSpellings(term: string): string[] {
+    const normalized = normalizeJapaneseText(term).text;
+    const group = this.groups.find(g =>
+      g.kind === 'spelling' && g.terms.some(t => normalizeJapaneseText(t).text === normalized)
+    );
+    return group ? Array.from(new Set([term, ...group.terms])) : [term];
+  }
+
+  /**
+   * ルールの正規表現（正規化後のソース）に含まれる表記を、全ての表記の選択に展開
+   *
+   * 例: 染み込む|浸透 → (?:染み込む|染みこむ|しみ込む|しみこむ|染込む)|浸透
+   * 文字クラス・エスケープの中と、直後に量指定子がある表記は展開しない。
+   */
+  expandPattern(source: string): ExpandedPattern {
+    const cached = this.patternCache.get(source);
+    if (cached) {
+      return cached;
+    }
+
+    const expansions: ExpandedPattern['expansions'] = [];
+    let result = '';
+    let inClass = false;
+
+    for (let i = 0; i < source.length;) {
+      const term = inClass ? undefined : this.spellingTerms.find(t => {
+        const escaped = escapeRegExp(t);
+        return source.startsWith(escaped, i) && !QUANTIFIER.test(source.slice(i + escaped.length));
+      });
+
+      if (term) {
+        const variants = this.spellings.get(term)!;
+        result += `(?:${variants.map(escapeRegExp).join('|')})`;
+        if (!expansions.some(e => e.term === term)) {
+          expansions.push({ term, variants });
+        }
+        i += escapeRegExp(term).length;
+        continue;
+      }
+
+      const char = source[i];
+      if (char === '\\') {
+        result += source.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      if (char === '[' && !inClass) {
+        inClass = true;
+      } else if (char === ']' && inClass) {
+        inClass = false;
+      }
+      result += char;
+      i++;
+    }
+
+    const expanded = { source: result, expansions };
+    this.patternCache.set(source, expanded);
+    return expanded;
+  }
+
+  /**
+   * 検索クエリを表記ゆれ・類義語で展開（RAGのクエリ展開）
+   *
+   * @param query - 元のクエリ
+   * @param limit - 展開後のクエリの最大数（元のクエリを含む）
+   * @returns 元のクエリを先頭とするクエリの配列
+   */
+  expandQuery(query: string, limit = 5): string[] {
+    const queries = [query];
+
+    for (const group of this.groups) {
+      // 類義語は基準語（先頭の語）を含むクエリのみ展開
+      const candidates = group.kind === 'synonym'
+        ? group.terms.slice(0, 1)
+        : [...group.terms].sort((a, b) => b.length - a.length);
+      const term = candidates.find(t => query.includes(t));
+      if (!term) {
+        continue;
+      }
+
+      for (const other of group.terms) {
+        const expanded = query.replace(term, other);
+        if (other !== term && !queries.includes(expanded)) {
+          queries.push(expanded);
+        }
+      }
+    }
+
+    return queries.slice(0, limit);
+  }
+}
+
+/**
+ * 展開した正規表現のマッチから、表記ゆれで検出したルールの表記を取得
+ *
+ * @param matchedText - マッチした文字列（正規化後）
+ * @returns ルールの表記（ルールの表記のまま検出した場合は undefined）
+ */
+export function findMatchedVariant(matchedText: string, expansions: ExpandedPattern['expansions']): string | undefined {
+  for (const { term, variants } of expansions) {
+    if (!matchedText.includes(term) && variants.some(variant => matchedText.includes(variant))) {
+      return term;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 辞書キャッシュ（ファイルパス → mtime と辞書）
+ */
+const dictionaryCache = new Map<string, { mtimeMs: number; dictionary: VariantDictionary }>();
+
+const EMPTY_DICTIONARY = new VariantDictionary([]);
+
+/**
+ * デフォルトの辞書ファイル
+ */
+export function getVariantDictionaryPath(): string {
+  return path.join(getNGKeywordRulesDir(), 'variants.json');
+}
+
+/**
+ * 表記ゆれ・類義語辞書を読み込む
+ *
+ * @param filePath - 辞書ファイル（省略時は config/ng-keywords/variants.json）
+ * @returns 辞書（ファイルがない場合は空の辞書）
+ * @throws NGKeywordRuleError ファイルが不正な場合（ファイル名・行番号付き）
+ */
+export function loadVariantDictionary(filePath: string = getVariantDictionaryPath()): VariantDictionary {
+  if (!fs.existsSync(filePath)) {
+    return EMPTY_DICTIONARY;
+  }
+
+  const { mtimeMs } = fs.statSync(filePath);
+  const cached = dictionaryCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.dictionary;
+  }
+
+  const dictionary = new VariantDictionary(readJsonFileWithSchema(filePath, variantFileSchema));
+  dictionaryCache.set(filePath, { mtimeMs, dictionary });
+  console.log(`[Variant Dictionary] ✓ Loaded ${dictionary.groups.length} variant groups`);
+
+  return dictionary;
+}
+
+/**
+ * 辞書キャッシュをクリア（テスト用）
+ */
+export function clearVariantDictionaryCache(): void {
+  dictionaryCache.clear();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
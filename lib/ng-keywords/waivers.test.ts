@@ -0,0 +1,130 @@
+/**
+ * 承認済み例外（Waiver）のテスト
+ * config/waivers/<ProductId>.json の適用と有効期限切れの扱い
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Violation } from '../types-v2';
+import { mergeViolations } from '../utils/deduplication';
+import { checkAllNGKeywords } from './keyword-matcher';
+import { NGKeywordRuleError } from './rule-loader';
+import { clearWaiverCache, loadWaivers, splitWaivedViolations } from './waivers';
+
+const keywords = {
+  absolute: [{
+    keyword: ['若返り', '若返る'],
+    category: 'rejuvenation' as const,
+    severity: 'critical' as const,
+    description: '「若返り」は医薬品的な効能効果の表現です。',
+    violationType: '薬機法違反' as const,
+  }],
+  conditional: [],
+  contextDependent: [],
+};
+
+const text = '肌が若返る体験を（個人の感想です）';
+
+describe('waivers', () => {
+  let waiversDir: string;
+
+  beforeEach(() => {
+    waiversDir = fs.mkdtempSync(path.join(os.tmpdir(), 'waivers-'));
+    clearWaiverCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(waiversDir, { recursive: true, force: true });
+  });
+
+  function writeWaivers(productId: string, waivers: unknown[]): void {
+    fs.writeFileSync(path.join(waiversDir, `${productId}.json`), JSON.stringify(waivers, null, 2));
+  }
+
+  const waiver = {
+    id: 'HA-2025-001',
+    keyword: '若返る',
+    contextPattern: '個人の感想',
+    approver: '法務部 山田',
+    expiresAt: '2026-03-31',
+  };
+
+  it('should move matches covered by an active waiver to waivedMatches', () => {
+    writeWaivers('HA', [waiver]);
+
+    const result = checkAllNGKeywords(text, keywords, undefined, 'HA', {
+      waiversDir,
+      now: new Date('2026-03-31T12:00:00+09:00'),
+    });
+
+    expect(result.matches).toHaveLength(0);
+    expect(result.waivedMatches).toHaveLength(1);
+    expect(result.waivedMatches[0].waiver).toMatchObject({ id: 'HA-2025-001', status: 'approved' });
+    expect(result.summary.total).toBe(0);
+    expect(result.summary.waived).toBe(1);
+  });
+
+  it('should keep the violation when the waiver has expired', () => {
+    writeWaivers('HA', [waiver]);
+
+    const result = checkAllNGKeywords(text, keywords, undefined, 'HA', {
+      waiversDir,
+      now: new Date('2026-04-01T00:00:00+09:00'),
+    });
+
+    expect(result.waivedMatches).toHaveLength(0);
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].waiver?.status).toBe('expired');
+  });
+
+  it('should not apply the waiver when the context pattern does not match', () => {
+    writeWaivers('HA', [waiver]);
+
+    const result = checkAllNGKeywords('肌が若返る', keywords, undefined, 'HA', {
+      waiversDir,
+      now: new Date('2026-01-01T00:00:00+09:00'),
+    });
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].waiver).toBeUndefined();
+  });
+
+  it('should mark waived violations in mergeViolations', () => {
+    writeWaivers('HA', [waiver]);
+
+    const violation: Violation = {
+      type: '薬機法違反',
+      severity: 'high',
+      description: '「若返る」は医薬品的な効能効果の表現です。',
+      referenceKnowledge: { file: '', excerpt: '' },
+      correctionSuggestion: '削除してください',
+    };
+
+    const active = splitWaivedViolations(mergeViolations([violation], {
+      productId: 'HA',
+      segmentText: text,
+      waiversDir,
+      now: new Date('2026-01-01T00:00:00+09:00'),
+    }));
+    expect(active.violations).toHaveLength(0);
+    expect(active.waivedViolations[0].waiver?.approver).toBe('法務部 山田');
+
+    const expired = splitWaivedViolations(mergeViolations([violation], {
+      productId: 'HA',
+      segmentText: text,
+      waiversDir,
+      now: new Date('2026-05-01T00:00:00+09:00'),
+    }));
+    expect(expired.waivedViolations).toHaveLength(0);
+    expect(expired.violations[0].notes).toContain('期限切れ');
+  });
+
+  it('should report invalid waiver entries with file name and line', () => {
+    writeWaivers('HA', [{ ...waiver, expiresAt: '2026/03/31' }]);
+
+    expect(() => loadWaivers('HA', waiversDir)).toThrow(NGKeywordRuleError);
+    expect(() => loadWaivers('HA', waiversDir)).toThrow(/HA\.json:\d+ \[0\]\.expiresAt/);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * 承認済み例外（Waiver）
+ * Approved Exceptions - 法務が承認済みの表現をNG判定から除外し、レポートに「承認済み例外」として表示
+ *
+ * config/waivers/<ProductId>.json に商品ごとに記述する:
+ * [
+ *   {
+ *     "id": "HA-2025-001",
+ *     "keyword": "全額返金保証",
+ *     "contextPattern": "全額返金保証（.{0,20}詳細",
+ *     "approver": "法務部",
+ *     "expiresAt": "2026-03-31",
+ *     "reason": "遷移先に返金条件を明記済み"
+ *   }
+ * ]
+ *
+ * - keyword: 検出されたキーワード（完全一致）
+ * - contextPattern: セグメント本文に対する正規表現。一致した場合のみ例外を適用
+ * - expiresAt: 有効期限（この日を含む、JST）。期限切れの例外は違反に戻る
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import type { Violation, ViolationWaiver } from '../types-v2';
+import { readJsonFileWithSchema, regexSourceSchema } from './rule-loader';
+
+export interface NGKeywordWaiver {
+  id: string;
+  keyword: string;
+  contextPattern: RegExp;
+  approver: string;
+  approvedAt?: string;
+  expiresAt: string;
+  reason?: string;
+}
+
+export interface WaiverOptions {
+  /** 判定基準日時（省略時は現在時刻） */
+  now?: Date;
+  /** 承認済み例外ディレクトリ（省略時は config/waivers） */
+  waiversDir?: string;
+}
+
+const dateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'YYYY-MM-DD形式で指定してください')
+  .refine((value) => !Number.isNaN(toEndOfDayJST(value).getTime()), '存在しない日付です');
+
+const waiverFileSchema = z.array(z.object({
+  id: z.string().min(1),
+  keyword: z.string().min(1),
+  contextPattern: regexSourceSchema.transform((source) => new RegExp(source)),
+  approver: z.string().min(1, '承認者を指定してください'),
+  approvedAt: dateSchema.optional(),
+  expiresAt: dateSchema,
+  reason: z.string().optional(),
+}).strict()).superRefine((waivers, ctx) => {
+  const seen = new Set<string>();
+  waivers.forEach((waiver, index) => {
+    if (seen.has(waiver.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `id が重複しています: ${waiver.id}` });
+    }
+    seen.add(waiver.id);
+  });
+});
+
+/**
+ * 承認済み例外キャッシュ（ファイルパス → mtime と検証済み例外）
+ */
+const waiverCache = new Map<string, { mtimeMs: number; waivers: NGKeywordWaiver[] }>();
+
+/**
+ * デフォルトの承認済み例外ディレクトリ
+ */
+export function getWaiversDir(): string {
+  return path.join(process.cwd(), 'config', 'waivers');
+}
+
+/**
+ * 商品の承認済み例外を読み込む
+ *
+ * @param productId - 商品ID
+ * @param waiversDir - 承認済み例外ディレクトリ（省略時は config/waivers）
+ * @returns 承認済み例外（ファイルがない場合は空配列）
+ * @throws NGKeywordRuleError ファイルが不正な場合（ファイル名・行番号付き）
+ */
+export function loadWaivers(productId: string, waiversDir: string = getWaiversDir()): NGKeywordWaiver[] {
+  const filePath = path.join(waiversDir, `${productId}.json`);
+
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const { mtimeMs } = fs.statSync(filePath);
+  const cached = waiverCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.waivers;
+  }
+
+  const waivers = readJsonFileWithSchema(filePath, waiverFileSchema);
+  waiverCache.set(filePath, { mtimeMs, waivers });
+  console.log(`[Waivers] ✓ Loaded ${waivers.length} waivers for ${productId}`);
+
+  return waivers;
+}
+
+/**
+ * 承認済み例外キャッシュをクリア（テスト用）
+ */
+export function clearWaiverCache(): void {
+  waiverCache.clear();
+}
+
+/**
+ * 有効期限切れかどうか（expiresAt の日の終わり JST まで有効）
+ */
+export function isWaiverExpired(waiver: Pick<NGKeywordWaiver, 'expiresAt'>, now: Date = new Date()): boolean {
+  return now.getTime() > toEndOfDayJST(waiver.expiresAt).getTime();
+}
+
+function toEndOfDayJST(date: string): Date {
+  return new Date(`${date}T23:59:59.999+09:00`);
+}
+
+/**
+ * キーワードと文脈に一致する承認済み例外を検索
+ *
+ * 有効な例外を優先し、期限切れの例外しかない場合は status: 'expired' を返す。
+ *
+ * @param waivers - 承認済み例外
+ * @param keyword - 検出されたキーワード
+ * @param context - セグメント本文
+ */
+export function findWaiver(
+  waivers: NGKeywordWaiver[],
+  keyword: string,
+  context: string,
+  now: Date = new Date()
+): ViolationWaiver | undefined {
+  const candidates = waivers.filter((w) => w.keyword === keyword && w.contextPattern.test(context));
+  const active = candidates.find((w) => !isWaiverExpired(w, now));
+  const waiver = active || candidates[0];
+
+  if (!waiver) {
+    return undefined;
+  }
+
+  return {
+    id: waiver.id,
+    approver: waiver.approver,
+    expiresAt: waiver.expiresAt,
+    reason: waiver.reason,
+    status: active ? 'approved' : 'expired',
+  };
+}
+
+/**
+ * 期限切れ例外の備考文
+ */
+export function formatExpiredWaiverNote(waiver: ViolationWaiver): string {
+  return `承認済み例外（${waiver.id}、承認者: ${waiver.approver}）は ${waiver.expiresAt} で期限切れのため違反として扱います`;
+}
+
+/**
+ * 違反に承認済み例外を適用（waiver を付与）
+ *
+ * description に例外のキーワードを含み、セグメント本文が contextPattern に一致する違反が対象。
+ * 有効な例外は status: 'approved'、期限切れは status: 'expired'（備考付き）となる。
+ *
+ * @param violations - 違反配列
+ * @param productId - 商品ID
+ * @param context - セグメント本文
+ * @returns waiver を付与した違反配列（元の配列は変更しない）
+ */
+export function applyWaiversToViolations(
+  violations: Violation[],
+  productId: string,
+  context: string,
+  options: WaiverOptions = {}
+): Violation[] {
+  const waivers = loadWaivers(productId, options.waiversDir);
+  if (waivers.length === 0) {
+    return violations;
+  }
+
+  return violations.map((violation) => {
+    if (violation.waiver) {
+      return violation;
+    }
+
+    const matched = waivers
+      .filter((w) => violation.description.includes(w.keyword))
+      .map((w) => findWaiver([w], w.keyword, context, options.now))
+      .filter((w): w is ViolationWaiver => w !== undefined);
+    const waiver = matched.find((w) => w.status === 'approved') || matched[0];
+
+    if (!waiver) {
+      return violation;
+    }
+
+    return {
+      ...violation,
+      waiver,
+      notes: waiver.status === 'expired'
+        ? [violation.notes, formatExpiredWaiverNote(waiver)].filter(Boolean).join(' / ')
+        : violation.notes,
+    };
+  });
+}
+
+/**
+ * 承認済み例外（status: 'approved'）の違反を分離
+ */
+export function splitWaivedViolations(violations: Violation[]): {
+  violations: Violation[];
+  waivedViolations: Violation[];
+} {
+  return {
+    violations: violations.filter((v) => v.waiver?.status !== 'approved'),
+    waivedViolations: violations.filter((v) => v.waiver?.status === 'approved'),
+  };
+}
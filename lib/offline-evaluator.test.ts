@@ -0,0 +1,75 @@
+/**
+ * オフライン評価（LLMレビューなし）のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createOfflineEvaluator, isLLMUnavailableError } from './offline-evaluator';
+
+const now = new Date('2025-01-01T00:00:00Z');
+
+describe('OfflineEvaluator', () => {
+  it('should build violations from NG keyword matches with local knowledge excerpts', () => {
+    const evaluator = createOfflineEvaluator('HA', { now });
+    const [evaluation] = evaluator.evaluate([{ id: 'seg-1', text: '目元が若返る' }]);
+
+    expect(evaluation.segmentId).toBe('seg-1');
+    expect(evaluation.compliance).toBe(false);
+    expect(evaluation.evaluationMode).toBe('offline');
+    expect(evaluation.evaluatedAt).toBe(now.toISOString());
+
+    const violation = evaluation.violations.find(v => v.description.includes('若返'));
+    expect(violation).toBeDefined();
+    expect(violation!.type).toBe('薬機法違反');
+    expect(violation!.severity).toBe('high');
+    expect(violation!.referenceKnowledge.file).toBe('knowledge/common/27_若々しい印象や若見え表現について.txt');
+    expect(violation!.referenceKnowledge.excerpt).not.toBe(violation!.description);
+  });
+
+  it('should detect period mismatches without Gemini', () => {
+    const evaluator = createOfflineEvaluator('HA', { now });
+    const [evaluation] = evaluator.evaluate([{ id: 'seg-1', text: '6年連続 ※2020年～2024年' }]);
+
+    const violation = evaluation.violations.find(v => v.description.includes('6年連続'));
+    expect(violation).toBeDefined();
+    expect(violation!.type).toBe('景表法違反');
+    expect(violation!.referenceKnowledge.file).toContain('44_ギネス世界記録');
+  });
+
+  it('should mark compliant segments and skip annotation explanations', () => {
+    const evaluator = createOfflineEvaluator('HA', { now });
+    const evaluations = evaluator.evaluate([
+      { id: 'seg-1', text: '毎日のスキンケアに' },
+      { id: 'seg-2', text: '※1角質層まで' },
+    ]);
+
+    expect(evaluations.map(e => e.compliance)).toEqual([true, true]);
+    expect(evaluations.every(e => e.violations.length === 0)).toBe(true);
+  });
+
+  it('should return the same result for the same input', () => {
+    const segments = [{ id: 'seg-1', text: '肌に浸透して若返る' }];
+    const first = createOfflineEvaluator('HA', { now }).evaluate(segments);
+    const second = createOfflineEvaluator('HA', { now }).evaluate(segments);
+
+    const strip = (e: typeof first) => e.map(({ processingTimeMs: _ms, ...rest }) => rest);
+    expect(strip(second)).toEqual(strip(first));
+  });
+
+  it('should resolve knowledge files whose names differ only in whitespace', () => {
+    const evaluator = createOfflineEvaluator('HA', { now });
+    const excerpt = evaluator.findKnowledgeExcerpt(
+      'knowledge/HA/55_【薬事・景表法・社内ルールまとめ】『ヒアロディープパッチ』　.txt',
+      ['ヒアロディープパッチ']
+    );
+
+    expect(excerpt).toBeDefined();
+  });
+});
+
+describe('isLLMUnavailableError', () => {
+  it('should detect quota and API key errors', () => {
+    expect(isLLMUnavailableError(new Error('[GoogleGenerativeAI Error]: [429 Too Many Requests] Resource has been exhausted (e.g. check quota).'))).toBe(true);
+    expect(isLLMUnavailableError(new Error('API key not valid. Please pass a valid API key.'))).toBe(true);
+    expect(isLLMUnavailableError(new Error('Invalid response format: missing evaluations array'))).toBe(false);
+  });
+});
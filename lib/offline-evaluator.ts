@@ -0,0 +1,283 @@
+/**
+ * オフライン評価（LLMレビューなし）
+ * Offline Evaluator - Gemini を使わず、ルールベース検証のみで SegmentEvaluation を生成
+ *
+ * パイプライン:
+ *   RuleBasedSegmenter（/api/v2/segment）
+ *   → NGKeywordValidator → validateGuinnessRecord → validatePeriodConsistency
+ *   → /api/v2/report
+ *
+ * - referenceKnowledge はローカルの knowledge/ ファイルから抜粋する（RAG・Embedding不使用）
+ * - 同じ入力に対して常に同じ違反を返すため、CI や Google に接続できない環境で使用できる
+ * - 生成した評価には evaluationMode: 'offline' を付与し、レポートで「LLMレビュー未実施」と表示する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SegmentEvaluation, Violation, ViolationType } from './types-v2';
+import { isAnnotationExplanationSegment } from './annotation-analyzer';
+import { validateGuinnessRecord } from './guinness-record-validator';
+import { createNGKeywordValidator, type NGKeywordValidator } from './ng-keyword-validator';
+import type { KeywordMatch } from './ng-keywords/keyword-matcher';
+import { formatExpiredWaiverNote, splitWaivedViolations } from './ng-keywords/waivers';
+import { validatePeriodConsistency } from './period-expression-analyzer';
+import { mergeViolations } from './utils/deduplication';
+import { attachViolationSpans, toKeywordMatchSpan, type SpanSegment } from './violation-spans';
+
+/**
+ * ギネス記録・期間表現の違反で参照するナレッジ
+ */
+const GUINNESS_KNOWLEDGE_FILE = 'knowledge/common/44_ギネス世界記録™について.txt';
+
+/**
+ * 抜粋の最大文字数
+ */
+const MAX_EXCERPT_LENGTH = 300;
+
+export interface OfflineEvaluatorOptions {
+  /** リポジトリルート（knowledge/ の親ディレクトリ、省略時は process.cwd()） */
+  baseDir?: string;
+  /** 評価日時（省略時は現在時刻）。テスト・CIで evaluatedAt を固定する場合に指定 */
+  now?: Date;
+}
+
+/**
+ * LLMを使わないルールベース評価
+ */
+export class OfflineEvaluator {
+  private productId: string;
+  private baseDir: string;
+  private now?: Date;
+  private validator: NGKeywordValidator;
+  private knowledgeCache = new Map<string, string | null>();
+
+  /**
+   * @throws NGKeywordRuleError config/ng-keywords/*.json に不正なエントリがある場合
+   */
+  constructor(productId: string, options: OfflineEvaluatorOptions = {}) {
+    this.productId = productId;
+    this.baseDir = options.baseDir || process.cwd();
+    this.now = options.now;
+    this.validator = createNGKeywordValidator();
+  }
+
+  /**
+   * セグメント配列を評価（入力と同じ順序で返す）
+   *
+   * セグメントに position がある場合は、違反に広告文全体での違反箇所（spans）を設定する。
+   */
+  evaluate(segments: SpanSegment[], fullText?: string): SegmentEvaluation[] {
+    return attachViolationSpans(segments.map((segment) => this.evaluateSegment(segment, fullText)), segments);
+  }
+
+  /**
+   * 1セグメントを評価
+   */
+  evaluateSegment(segment: SpanSegment, fullText?: string): SegmentEvaluation {
+    const startTime = Date.now();
+
+    // 注釈説明文（※1...で始まる）は広告文ではないため評価対象外
+    if (isAnnotationExplanationSegment(segment)) {
+      return this.buildEvaluation(segment.id, [], [], startTime);
+    }
+
+    // 1. NGキーワード（承認済み例外は waivedMatches、否定・注意書き・引用の文脈で除外した表現は suppressedMatches に分離済み）
+    const ngResult = this.validator.validate(segment.text, fullText, this.productId);
+
+    // 2. ギネス記録
+    const guinnessResult = validateGuinnessRecord(segment.text, fullText);
+
+    // 3. 期間表現
+    const periodResult = validatePeriodConsistency(segment.text, fullText);
+
+    const violations: Violation[] = [
+      ...ngResult.matches.map((match) => this.toNGKeywordViolation(match, segment)),
+      ...guinnessResult.violations.map((v) => this.toRuleViolation(v, ['期間', 'ギネス'])),
+      ...periodResult.violations.map((v) => this.toRuleViolation(v, ['期間', '連続'])),
+    ];
+
+    const { violations: remaining, waivedViolations } = splitWaivedViolations(
+      mergeViolations(violations, { productId: this.productId, segmentText: segment.text })
+    );
+    const waived = mergeViolations([
+      ...ngResult.waivedMatches.map((match) => this.toNGKeywordViolation(match, segment)),
+      ...waivedViolations,
+    ]);
+
+    const suppressed = ngResult.suppressedMatches.map((match) => this.toNGKeywordViolation(match, segment));
+
+    return this.buildEvaluation(segment.id, remaining, waived, startTime, suppressed);
+  }
+
+  private buildEvaluation(
+    segmentId: string,
+    violations: Violation[],
+    waivedViolations: Violation[],
+    startTime: number,
+    suppressedViolations: Violation[] = []
+  ): SegmentEvaluation {
+    return {
+      segmentId,
+      compliance: violations.length === 0,
+      violations,
+      ...(waivedViolations.length > 0 && { waivedViolations }),
+      ...(suppressedViolations.length > 0 && { suppressedViolations }),
+      evaluationMode: 'offline',
+      evaluatedAt: (this.now || new Date()).toISOString(),
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * NGキーワード検出結果を違反に変換
+   */
+  private toNGKeywordViolation(match: KeywordMatch, segment: SpanSegment): Violation {
+    const span = toKeywordMatchSpan(match, segment);
+    const type = (match.violationType || (match.category === 'limited-time' ? '景表法違反' : '薬機法違反')) as ViolationType;
+    const description = match.description || match.reason;
+    const file = match.referenceKnowledge || '';
+
+    let correctionSuggestion = '適切な注釈を追加してください';
+    if (match.okExamples && match.okExamples.length > 0) {
+      correctionSuggestion = match.okExamples[0];
+    } else if (match.type === 'absolute') {
+      correctionSuggestion = `「${match.keyword}」は使用できません。表現を修正してください。`;
+    }
+
+    return {
+      type,
+      // 'critical' はレポート・検証スキーマ上 'high' として扱う
+      severity: match.severity === 'medium' ? 'medium' : 'high',
+      description: description.includes(match.keyword) ? description : `「${match.keyword}」${description}`,
+      referenceKnowledge: {
+        file,
+        excerpt: this.findKnowledgeExcerpt(file, [match.keyword, match.matchedText]) || description,
+      },
+      correctionSuggestion,
+      confidence: 1.0,
+      ...(match.waiver && { waiver: match.waiver }),
+      ...(match.waiver?.status === 'expired' && { notes: formatExpiredWaiverNote(match.waiver) }),
+      ...(span && { spans: [span] }),
+      ...(match.matchContext && { matchContext: match.matchContext }),
+    };
+  }
+
+  /**
+   * ギネス記録・期間表現の検証結果を違反に変換
+   */
+  private toRuleViolation(
+    violation: {
+      severity: 'high' | 'medium';
+      description: string;
+      correctionSuggestion: string;
+      referenceKnowledge?: { file: string; excerpt: string };
+    },
+    excerptKeywords: string[]
+  ): Violation {
+    const reference = violation.referenceKnowledge || {
+      file: GUINNESS_KNOWLEDGE_FILE,
+      excerpt: this.findKnowledgeExcerpt(GUINNESS_KNOWLEDGE_FILE, excerptKeywords) || violation.description,
+    };
+
+    return {
+      type: '景表法違反',
+      severity: violation.severity,
+      description: violation.description,
+      referenceKnowledge: reference,
+      correctionSuggestion: violation.correctionSuggestion,
+      confidence: 1.0,
+    };
+  }
+
+  /**
+   * ナレッジファイルからキーワードを含む段落を抜粋
+   *
+   * 見出し行（# ...）とファイル先頭のタイトル行は除き、最初に一致した段落を返す。
+   *
+   * @param file - ナレッジファイル（リポジトリルートからの相対パス）
+   * @param keywords - 検索キーワード（先頭から順に試す）
+   * @returns 抜粋（ファイルがない・一致しない場合は undefined）
+   */
+  findKnowledgeExcerpt(file: string, keywords: string[]): string | undefined {
+    const content = file ? this.readKnowledgeFile(file) : null;
+    if (!content) {
+      return undefined;
+    }
+
+    const lines = content.split(/\r?\n/);
+
+    for (const keyword of keywords.filter(Boolean)) {
+      const index = lines.findIndex((line, i) =>
+        i > 0 && !line.trim().startsWith('#') && line.includes(keyword)
+      );
+      if (index === -1) continue;
+
+      // 一致した行から空行までを段落として抜粋
+      const paragraph: string[] = [];
+      for (let i = index; i < lines.length && lines[i].trim() !== ''; i++) {
+        paragraph.push(lines[i].trim());
+      }
+
+      const excerpt = paragraph.join('\n');
+      return excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.substring(0, MAX_EXCERPT_LENGTH)}…` : excerpt;
+    }
+
+    return undefined;
+  }
+
+  private readKnowledgeFile(file: string): string | null {
+    if (this.knowledgeCache.has(file)) {
+      return this.knowledgeCache.get(file)!;
+    }
+
+    const filePath = this.resolveKnowledgeFile(file);
+    const content = filePath ? fs.readFileSync(filePath, 'utf-8') : null;
+    if (!filePath) {
+      console.warn(`[Offline Evaluator] Knowledge file not found: ${file}`);
+    }
+
+    this.knowledgeCache.set(file, content);
+    return content;
+  }
+
+  /**
+   * ナレッジファイルのパスを解決
+   *
+   * ルール側のファイル名は全角スペース・Unicode正規化の違いを含むことがあるため、
+   * 完全一致しない場合は同じディレクトリ内を NFKC + 空白除去で比較する。
+   */
+  private resolveKnowledgeFile(file: string): string | undefined {
+    const filePath = path.resolve(this.baseDir, file);
+    if (fs.existsSync(filePath)) {
+      return filePath;
+    }
+
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      return undefined;
+    }
+
+    const normalize = (name: string) => name.normalize('NFKC').replace(/\s/g, '');
+    const target = normalize(path.basename(filePath));
+    const candidate = fs.readdirSync(dir).find((name) => normalize(name) === target);
+
+    return candidate ? path.join(dir, candidate) : undefined;
+  }
+}
+
+/**
+ * Factory function to create an OfflineEvaluator
+ */
+export function createOfflineEvaluator(productId: string, options?: OfflineEvaluatorOptions): OfflineEvaluator {
+  return new OfflineEvaluator(productId, options);
+}
+
+/**
+ * LLMが利用できないエラーかどうか
+ * クォータ超過・レート制限・APIキー不正・OpenAI互換サーバーに接続できない場合はオフライン評価にフォールバックする
+ */
+export function isLLMUnavailableError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+
+  return /\b429\b|quota|RESOURCE_EXHAUSTED|rate limit|API key not valid|API_KEY_INVALID|PERMISSION_DENIED|fetch failed|ECONNREFUSED/i.test(message);
+}
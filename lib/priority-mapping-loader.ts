@@ -5,13 +5,14 @@
 
 import fs from 'fs/promises';
 import path from 'path';
+import { ProductId } from './types';
 
 export interface PriorityMapping {
   fileName: string;
   priority: 1 | 2 | 3;
   legalDomain: '薬機法' | '景表法' | '特商法';
   knowledgeType: 'company_standard' | 'law' | 'government_guideline' | 'industry_guideline';
-  category: 'common' | 'HA' | 'SH';
+  category: 'common' | ProductId;
 }
 
 export class PriorityMappingLoader {
@@ -0,0 +1,60 @@
+/**
+ * 商品設定ローダーのテスト
+ * 全42商品対応: config/products/<ID>.json の有無で対応可否を判定
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assertSupportedProduct,
+  getRequiredKeywords,
+  getSupportedProductIds,
+  isProductSupported,
+  loadProductConfig,
+  UnsupportedProductError,
+} from './product-config-loader';
+import { getConditionalNGKeywords } from './ng-keywords/conditional-ng';
+
+describe('Product support', () => {
+  it('should treat products with a config file as supported', () => {
+    expect(isProductSupported('HA')).toBe(true);
+    expect(isProductSupported('SH')).toBe(true);
+    expect(getSupportedProductIds()).toEqual(expect.arrayContaining(['HA', 'SH']));
+  });
+
+  it('should reject a known ProductId without a config file', () => {
+    // ZS is in PRODUCT_IDS but has no config/products/ZS.json
+    expect(isProductSupported('ZS')).toBe(false);
+    expect(() => assertSupportedProduct('ZS')).toThrow(UnsupportedProductError);
+    expect(() => loadProductConfig('ZS')).toThrow(UnsupportedProductError);
+  });
+
+  it('should reject an unknown product ID', () => {
+    expect(isProductSupported('XX')).toBe(false);
+
+    try {
+      assertSupportedProduct('XX');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnsupportedProductError);
+      expect((error as UnsupportedProductError).productId).toBe('XX');
+    }
+  });
+});
+
+describe('getRequiredKeywords', () => {
+  it('should fall back to annotationRules when segmentationKeywords is not defined', () => {
+    expect(getRequiredKeywords(loadProductConfig('SH'))).toEqual(['殺菌', '10秒']);
+  });
+});
+
+describe('getConditionalNGKeywords - productCategories', () => {
+  it('should apply category-scoped rules by the product category in config', () => {
+    const haRules = getConditionalNGKeywords('HA').map(k => k.description);
+    const shRules = getConditionalNGKeywords('SH').map(k => k.description);
+
+    // HA is 化粧品, SH is 新指定医薬部外品
+    expect(haRules).toContain('浸透表現には「※角質層まで」等の注釈が必須（化粧品用）');
+    expect(shRules).not.toContain('浸透表現には「※角質層まで」等の注釈が必須（化粧品用）');
+    expect(shRules).toContain('浸透表現には「※背爪表面に」等の注釈が必須（SH商品用：新指定医薬部外品）');
+  });
+});
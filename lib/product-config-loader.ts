@@ -14,12 +14,91 @@ import { ProductId, PRODUCT_IDS } from './types';
  */
 const configCache = new Map<ProductId, ProductConfig>();
 
+/**
+ * 未対応商品エラー
+ *
+ * 商品IDが PRODUCT_IDS に含まれない、または config/products/<ID>.json が
+ * 存在しない場合にスローされます（APIでは400として返却）。
+ */
+export class UnsupportedProductError extends Error {
+  readonly productId: string;
+
+  constructor(productId: string) {
+    super(`Unsupported product: ${productId}. config/products/${productId}.json が存在しないため、この商品はチェックできません`);
+    this.name = 'UnsupportedProductError';
+    this.productId = productId;
+  }
+}
+
+/**
+ * 商品設定ファイルのパスを取得
+ */
+function getConfigPath(productId: string): string {
+  return path.join(process.cwd(), 'config', 'products', `${productId}.json`);
+}
+
+/**
+ * 商品がサポートされているか（設定ファイルが存在するか）を判定
+ *
+ * @param productId - 商品ID（任意の文字列）
+ * @returns PRODUCT_IDS に含まれ、かつ設定ファイルが存在する場合 true
+ */
+export function isProductSupported(productId: string): productId is ProductId {
+  return (PRODUCT_IDS as readonly string[]).includes(productId) && fs.existsSync(getConfigPath(productId));
+}
+
+/**
+ * 設定ファイルが存在する商品IDの一覧を取得
+ *
+ * @returns サポート対象の商品ID配列（PRODUCT_IDS の順序）
+ */
+export function getSupportedProductIds(): ProductId[] {
+  return PRODUCT_IDS.filter(productId => isProductSupported(productId));
+}
+
+/**
+ * 商品IDがサポートされていることを保証する
+ *
+ * @param productId - 商品ID（任意の文字列）
+ * @returns ProductId として型付けされた商品ID
+ * @throws UnsupportedProductError 未対応の商品の場合
+ *
+ * @example
+ * const productId = assertSupportedProduct(body.productId); // 'ZZ' → UnsupportedProductError
+ */
+export function assertSupportedProduct(productId: string): ProductId {
+  if (!isProductSupported(productId)) {
+    throw new UnsupportedProductError(productId);
+  }
+  return productId;
+}
+
+/**
+ * 注釈が必要なキーワード一覧を取得
+ *
+ * segmentationKeywords.required が定義されていればそれを、
+ * なければ annotationRules で required: true のキーワードを返します。
+ *
+ * @param config - 商品設定
+ * @returns 注釈必須キーワード配列
+ */
+export function getRequiredKeywords(config: ProductConfig): string[] {
+  if (config.segmentationKeywords?.required) {
+    return config.segmentationKeywords.required;
+  }
+
+  return Object.entries(config.annotationRules || {})
+    .filter(([, rule]) => rule.required)
+    .map(([keyword]) => keyword);
+}
+
 /**
  * 商品設定を読み込む
  *
  * @param productId - 商品ID
  * @returns 商品設定
- * @throws 設定ファイルが存在しない、またはバリデーションエラーの場合
+ * @throws UnsupportedProductError 設定ファイルが存在しない場合
+ * @throws バリデーションエラーの場合
  *
  * @example
  * const config = loadProductConfig('HA');
@@ -32,11 +111,11 @@ export function loadProductConfig(productId: ProductId): ProductConfig {
   }
 
   // JSONファイル読み込み
-  const configPath = path.join(process.cwd(), 'config', 'products', `${productId}.json`);
+  const configPath = getConfigPath(productId);
 
   if (!fs.existsSync(configPath)) {
     console.warn(`[Product Config] Config file not found: ${configPath}`);
-    throw new Error(`Product config not found for ${productId}. Please create config/products/${productId}.json`);
+    throw new UnsupportedProductError(productId);
   }
 
   try {
@@ -171,12 +250,12 @@ export function validateProductConfig(config: ProductConfig): ValidationResult {
 export function loadAllProductConfigs(): Map<ProductId, ProductConfig> {
   const configs = new Map<ProductId, ProductConfig>();
 
-  for (const productId of PRODUCT_IDS) {
+  for (const productId of getSupportedProductIds()) {
     try {
       const config = loadProductConfig(productId);
       configs.set(productId, config);
     } catch (error) {
-      // 設定ファイルが存在しない商品はスキップ（ログのみ）
+      // 不正な設定ファイルはスキップ（ログのみ）
       console.warn(`[Product Config] Skipping ${productId}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
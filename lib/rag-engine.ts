@@ -5,9 +5,10 @@
  * Provides optimized search with re-ranking and product-specific weighting.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createLLMProvider, type LLMProvider } from './llm';
 import { ProductId } from './types';
 import { GeminiFileManager } from './gemini-file-manager';
+import { loadVariantDictionary, type VariantDictionary } from './ng-keywords/variant-dictionary';
 
 /**
  * Search query for RAG
@@ -34,7 +35,7 @@ export interface SearchResult {
   /** Relevance score (0-1) */
   relevanceScore: number;
   /** Category (common, HA, SH) */
-  category: 'common' | 'HA' | 'SH';
+  category: 'common' | ProductId;
   /** Is from company standards file */
   isCompanyStandard: boolean;
   /** Original file URI */
@@ -57,33 +58,20 @@ export interface RAGSearchResult {
   searchTimeMs: number;
 }
 
-/**
- * Similar expression mapping
- */
-interface SimilarExpression {
-  /** Base term */
-  baseTerm: string;
-  /** Similar expressions */
-  similarTerms: string[];
-  /** Category (薬機法, 景表法, etc.) */
-  category: string;
-}
-
 /**
  * RAG Engine for advanced knowledge retrieval
  */
 export class RAGEngine {
-  private genAI: GoogleGenerativeAI;
+  private llm: LLMProvider;
   private fileManager: GeminiFileManager;
-  private similarExpressions: Map<string, SimilarExpression>;
+  private variantDictionary: VariantDictionary;
 
   constructor(apiKey: string, fileManager: GeminiFileManager) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.llm = createLLMProvider({ apiKey });
     this.fileManager = fileManager;
-    this.similarExpressions = new Map();
 
-    // Initialize similar expressions dictionary
-    this.initializeSimilarExpressions();
+    // Spelling variants and synonyms shared with the NG keyword rules (config/ng-keywords/variants.json)
+    this.variantDictionary = loadVariantDictionary();
   }
 
   /**
@@ -187,8 +175,6 @@ export class RAGEngine {
 
     for (const query of queries) {
       try {
-        const model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite' });
-
         const prompt = `
 以下のナレッジベースから、クエリ「${query}」に関連する情報を抽出してください。
 
@@ -215,8 +201,7 @@ export class RAGEngine {
 関連する情報がない場合は、空の配列を返してください。
 `;
 
-        const result = await model.generateContent(prompt);
-        const responseText = result.response.text();
+        const responseText = await this.llm.generateText(prompt, { role: 'evaluation' });
 
         // Parse JSON response
         const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -232,7 +217,7 @@ export class RAGEngine {
                 excerpt: item.excerpt,
                 fileName: item.fileName,
                 relevanceScore: item.relevanceScore || 0.5,
-                category: category as 'common' | 'HA' | 'SH',
+                category: category as 'common' | ProductId,
                 isCompanyStandard: item.isCompanyStandard || item.fileName.includes('【薬事・景表法・社内ルールまとめ】'),
                 fileUri: uploadedFile?.fileUri,
               });
@@ -301,28 +286,13 @@ export class RAGEngine {
   }
 
   /**
-   * Expand query with similar legal terms
+   * Expand query with spelling variants and similar legal terms
    *
    * @param query - Original query
    * @returns Array of query variations
    */
   private expandQueryWithSimilarTerms(query: string): string[] {
-    const queries = [query]; // Start with original
-
-    // Find similar terms in query
-    for (const [baseTerm, mapping] of this.similarExpressions.entries()) {
-      if (query.includes(baseTerm)) {
-        // Add queries with similar terms
-        for (const similarTerm of mapping.similarTerms) {
-          const expandedQuery = query.replace(baseTerm, similarTerm);
-          if (!queries.includes(expandedQuery)) {
-            queries.push(expandedQuery);
-          }
-        }
-      }
-    }
-
-    return queries.slice(0, 5); // Limit to 5 variations
+    return this.variantDictionary.expandQuery(query, 5); // Limit to 5 variations
   }
 
   /**
@@ -364,94 +334,6 @@ export class RAGEngine {
 
     return sections.join('\n');
   }
-
-  /**
-   * Initialize dictionary of similar expressions for legal terms
-   *
-   * This helps expand search queries to catch variations of the same concept.
-   */
-  private initializeSimilarExpressions(): void {
-    const expressions: SimilarExpression[] = [
-      // 薬機法関連
-      {
-        baseTerm: '浸透',
-        similarTerms: ['注入', '到達', '届く', 'デリバリー', '送達'],
-        category: '薬機法',
-      },
-      {
-        baseTerm: 'シワ',
-        similarTerms: ['しわ', '皺', '小じわ', '小ジワ', 'シワシワ'],
-        category: '薬機法',
-      },
-      {
-        baseTerm: 'シミ',
-        similarTerms: ['しみ', 'そばかす', 'くすみ', '色素沈着', '黒ずみ'],
-        category: '薬機法',
-      },
-      {
-        baseTerm: '美白',
-        similarTerms: ['ホワイトニング', '白肌', '透明感', 'ブライトニング'],
-        category: '薬機法',
-      },
-      {
-        baseTerm: '医師',
-        similarTerms: ['ドクター', '医療従事者', '専門医', '皮膚科医'],
-        category: '薬機法',
-      },
-
-      // 景表法関連
-      {
-        baseTerm: 'No.1',
-        similarTerms: ['ナンバーワン', '第1位', '1位', 'トップ', '最も売れている'],
-        category: '景表法',
-      },
-      {
-        baseTerm: '世界一',
-        similarTerms: ['世界No.1', '世界最大', '世界トップ', '世界で最も'],
-        category: '景表法',
-      },
-      {
-        baseTerm: 'リピート率',
-        similarTerms: ['継続率', 'リピーター率', '再購入率', '定期購入率'],
-        category: '景表法',
-      },
-
-      // 特商法関連
-      {
-        baseTerm: '今なら',
-        similarTerms: ['いまなら', '今だけ', 'いまだけ', '期間限定', '本日限り'],
-        category: '特商法',
-      },
-      {
-        baseTerm: '全額返金',
-        similarTerms: ['返金保証', '全額保証', '100%返金', '満足保証'],
-        category: '特商法',
-      },
-      {
-        baseTerm: '実質無料',
-        similarTerms: ['実質0円', '実質タダ', '無料同然', '実質ゼロ円'],
-        category: '特商法',
-      },
-
-      // 共通表現
-      {
-        baseTerm: '専用',
-        similarTerms: ['用', '向け', 'のための', 'に特化した'],
-        category: '共通',
-      },
-      {
-        baseTerm: '効果',
-        similarTerms: ['効能', '効き目', '作用', '働き'],
-        category: '共通',
-      },
-    ];
-
-    for (const expr of expressions) {
-      this.similarExpressions.set(expr.baseTerm, expr);
-    }
-
-    console.log(`[RAG] Initialized ${this.similarExpressions.size} similar expression mappings`);
-  }
 }
 
 /**
@@ -0,0 +1,124 @@
+/**
+ * RAGSearchService ハイブリッド検索（ベクトル + BM25語彙検索）のテスト
+ *
+ * Fake LLMプロバイダー（決定的なembedding）と LocalVectorDB（メモリのみ）を使用
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EmbeddingService } from './embedding-service';
+import { createFakeLLMProvider } from './llm';
+import { createLexicalIndex, toCharNgrams } from './lexical-index';
+import { createForcedLexicalQueries, createRAGSearchService } from './rag-search';
+import { createLocalVectorDB } from './vector-db/local-vector-db';
+import type { LexicalDocument } from './lexical-index';
+
+const chunks: LexicalDocument[] = [
+  { id: 'common-07-0', text: '浸透の範囲について。浸透は角質層までに限定すること。', metadata: { fileName: '07_浸透の範囲について.txt', category: 'common', priority: 1 } },
+  { id: 'common-09-0', text: '医療行為を想起させる表現（針、注入）は使用不可。', metadata: { fileName: '09_医療行為について.txt', category: 'common', priority: 1 } },
+  { id: 'common-27-0', text: '若々しい印象や若見え表現について。若返りは効能効果の範囲外。', metadata: { fileName: '27_若々しい印象や若見え表現について.txt', category: 'common', priority: 1 } },
+  { id: 'common-44-0', text: 'ギネス世界記録の表示には期間の注釈が必要。', metadata: { fileName: '44_ギネス世界記録について.txt', category: 'common', priority: 2 } },
+];
+
+async function createService() {
+  const provider = createFakeLLMProvider({ embeddingDimension: 256 });
+  const embeddingService = new EmbeddingService({ provider });
+  const vectorDB = createLocalVectorDB({ persist: false });
+  await vectorDB.connect();
+
+  const embeddings = await provider.embed(chunks.map(c => c.text));
+  await vectorDB.upsert(chunks.map((c, i) => ({ ...c, embedding: embeddings[i] })));
+
+  const lexicalIndex = createLexicalIndex();
+  lexicalIndex.add(chunks);
+
+  return { embeddingService, vectorDB, lexicalIndex };
+}
+
+describe('LexicalIndex', () => {
+  it('should rank chunks containing the exact term first', () => {
+    const index = createLexicalIndex();
+    index.add(chunks);
+
+    expect(toCharNgrams('ク マ')).toEqual(['クマ']);
+    expect(index.search('ヒアルロン酸を直注入')[0].id).toBe('common-09-0');
+    expect(index.search('注入', { filter: { category: 'HA' } })).toEqual([]);
+  });
+});
+
+describe('RAGSearchService (hybrid)', () => {
+  it('should retrieve lexically matching chunks that vector search misses', async () => {
+    const { embeddingService, vectorDB, lexicalIndex } = await createService();
+    const query = 'ヒアルロン酸を直注入';
+
+    const vectorOnly = await createRAGSearchService(embeddingService, vectorDB)
+      .search(query, { topK: 5, minSimilarity: 0.3 });
+    expect(vectorOnly.searchResults.map(r => r.id)).not.toContain('common-09-0');
+
+    const hybrid = await createRAGSearchService(embeddingService, vectorDB, lexicalIndex)
+      .search(query, { topK: 5, minSimilarity: 0.3 });
+    const hit = hybrid.searchResults.find(r => r.id === 'common-09-0');
+    expect(hit).toBeDefined();
+    expect(hit!.retrieval?.lexicalScore).toBeGreaterThan(0);
+    expect(hybrid.relevantKnowledge).toContain('語句一致あり');
+  });
+
+  it('should disable lexical fusion when lexicalWeight is 0', async () => {
+    const { embeddingService, vectorDB, lexicalIndex } = await createService();
+
+    const result = await createRAGSearchService(embeddingService, vectorDB, lexicalIndex)
+      .search('ヒアルロン酸を直注入', { topK: 5, minSimilarity: 0.3, fusion: { lexicalWeight: 0 } });
+
+    expect(result.searchResults.map(r => r.id)).not.toContain('common-09-0');
+  });
+
+  it('should always include reference files of matched NG keywords', async () => {
+    const { embeddingService, vectorDB, lexicalIndex } = await createService();
+
+    const forcedQueries = createForcedLexicalQueries([
+      { matchedText: '若返る', referenceKnowledge: 'knowledge/common/27_若々しい印象や若見え表現について.txt' },
+      { matchedText: '若返る', referenceKnowledge: 'knowledge/common/27_若々しい印象や若見え表現について.txt' },
+    ]);
+    expect(forcedQueries).toHaveLength(1);
+
+    const result = await createRAGSearchService(embeddingService, vectorDB, lexicalIndex)
+      .search('今すぐ購入', { topK: 5, minSimilarity: 0.9, forcedQueries });
+
+    expect(result.searchResults[0].id).toBe('common-27-0');
+    expect(result.searchResults[0].retrieval?.forcedBy).toBe('若返る');
+    expect(result.relevantKnowledge).toContain('検出キーワード「若返る」の関連ナレッジ');
+  });
+});
+
+describe('RAGSearchService.searchPerSegment', () => {
+  it('should retrieve knowledge for each segment and deduplicate chunks', async () => {
+    const { embeddingService, vectorDB, lexicalIndex } = await createService();
+
+    const result = await createRAGSearchService(embeddingService, vectorDB, lexicalIndex).searchPerSegment([
+      { id: 'seg-1', text: '浸透は角質層まで' },
+      { id: 'seg-2', text: 'ギネス世界記録を達成' },
+      { id: 'seg-3', text: '角質層まで浸透' },
+      { id: 'seg-4', text: '   ' },
+    ], { topK: 1, minSimilarity: 0.3 });
+
+    expect(result.segments.map(s => s.chunkIds)).toEqual([['common-07-0'], ['common-44-0'], ['common-07-0'], []]);
+    expect(result.searchResults.map(r => r.id)).toEqual(['common-07-0', 'common-44-0']);
+    expect(result.segments[1].knowledgeNumbers).toEqual([2]);
+    expect(result.segments[1].relevantKnowledge).toContain('44_ギネス世界記録について.txt');
+    expect(result.segments[1].relevantKnowledge).not.toContain('07_浸透の範囲について.txt');
+  });
+
+  it('should allocate the context budget to each segment top chunk first', async () => {
+    const { embeddingService, vectorDB, lexicalIndex } = await createService();
+    const budget = chunks[0].text.length + chunks[3].text.length;
+
+    const result = await createRAGSearchService(embeddingService, vectorDB, lexicalIndex).searchPerSegment([
+      { id: 'seg-1', text: '浸透の範囲について。浸透は角質層までに限定すること。若見え' },
+      { id: 'seg-2', text: 'ギネス世界記録の表示には期間の注釈が必要。' },
+    ], { topK: 3, minSimilarity: 0.3, maxContextChars: budget });
+
+    expect(result.segments[0].chunkIds[0]).toBe('common-07-0');
+    expect(result.segments[1].chunkIds[0]).toBe('common-44-0');
+    expect(result.searchResults.reduce((sum, r) => sum + r.text.length, 0)).toBeLessThanOrEqual(budget);
+    expect(result.segments.flatMap(s => s.droppedChunkIds).length).toBeGreaterThan(0);
+  });
+});
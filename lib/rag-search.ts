@@ -3,12 +3,47 @@
  *
  * セマンティック検索とコンテキスト生成
  * Vector DBから関連ナレッジを検索して、評価用のコンテキストを生成
+ *
+ * 語彙インデックス（LexicalIndex）を渡すとハイブリッド検索になる:
+ * ベクトル検索とBM25（文字n-gram）の順位を Reciprocal Rank Fusion で融合し、
+ * 「注入」「浸透」「クマ」など語の一致で決まるルールも取りこぼさない。
  */
 
 import { TaskType } from '@google/generative-ai';
 import { EmbeddingService } from './embedding-service';
 import { IVectorDB, SearchResult, SearchOptions } from './vector-db/interface';
 import { ProductId } from './types';
+import { shouldLoadFile } from './knowledge-mapping';
+import { LexicalIndex, toKnowledgeFileName } from './lexical-index';
+import type { KeywordMatch } from './ng-keywords/keyword-matcher';
+
+/**
+ * ハイブリッド検索の融合設定（Reciprocal Rank Fusion）
+ *
+ * score = vectorWeight / (rrfK + ベクトル順位) + lexicalWeight / (rrfK + 語彙順位)
+ */
+export interface RAGFusionOptions {
+  /** ベクトル検索の重み（default: 1） */
+  vectorWeight?: number;
+
+  /** 語彙検索の重み（default: 1、0 でベクトル検索のみ） */
+  lexicalWeight?: number;
+
+  /** RRFの定数k（default: 60） */
+  rrfK?: number;
+}
+
+/**
+ * 強制語彙検索クエリ
+ * 語を含むチャンク（と参照ファイル）を類似度に関係なく必ず検索結果に含める
+ */
+export interface ForcedLexicalQuery {
+  /** 検索語（NGキーワードの一致テキストなど） */
+  term: string;
+
+  /** 必ず含める参照ナレッジ（knowledge/common/27_xxx.txt またはファイル名） */
+  referenceFile?: string;
+}
 
 /**
  * RAG検索オプション
@@ -25,6 +60,15 @@ export interface RAGSearchOptions {
 
   /** デバッグ情報を含める（default: false） */
   debug?: boolean;
+
+  /** ハイブリッド検索の融合設定（語彙インデックス設定時のみ有効） */
+  fusion?: RAGFusionOptions;
+
+  /**
+   * 強制語彙検索（語彙インデックス設定時のみ有効）
+   * NGKeywordValidator の検出結果は createForcedLexicalQueries() で変換できる
+   */
+  forcedQueries?: ForcedLexicalQuery[];
 }
 
 /**
@@ -54,6 +98,61 @@ export interface RAGSearchResult {
   };
 }
 
+/**
+ * セグメント単位検索のクエリ
+ */
+export interface RAGSegmentQuery {
+  /** セグメントID */
+  id: string;
+
+  /** セグメントテキスト */
+  text: string;
+
+  /** このセグメントの強制語彙検索（セグメントで検出されたNGキーワードなど） */
+  forcedQueries?: ForcedLexicalQuery[];
+}
+
+/**
+ * セグメント単位検索のオプション
+ * topK はセグメントごとの取得数
+ */
+export interface RAGPerSegmentSearchOptions extends RAGSearchOptions {
+  /**
+   * ナレッジ本文の合計文字数の上限（default: 30000）
+   * 各セグメントの順位ごとに順番に割り当てるため、1セグメントが予算を独占しない
+   */
+  maxContextChars?: number;
+}
+
+/**
+ * セグメントごとの検索結果
+ */
+export interface RAGSegmentKnowledge {
+  /** セグメントID */
+  segmentId: string;
+
+  /** このセグメントに割り当てられたチャンクID（セグメント内の順位順） */
+  chunkIds: string[];
+
+  /** 共有ナレッジ（RAGPerSegmentResult.relevantKnowledge）内のナレッジ番号（1始まり） */
+  knowledgeNumbers: number[];
+
+  /** 予算超過で除外されたチャンクID */
+  droppedChunkIds: string[];
+
+  /** このセグメントのチャンクのみの評価用ナレッジテキスト（セグメント単位で評価する場合に使用） */
+  relevantKnowledge: string;
+}
+
+/**
+ * セグメント単位検索の結果
+ * relevantKnowledge / searchResults は全セグメントの重複除去済みチャンク
+ */
+export interface RAGPerSegmentResult extends RAGSearchResult {
+  /** セグメントごとの使用チャンク */
+  segments: RAGSegmentKnowledge[];
+}
+
 /**
  * RAG Search Service
  *
@@ -72,7 +171,8 @@ export interface RAGSearchResult {
 export class RAGSearchService {
   constructor(
     private embeddingService: EmbeddingService,
-    private vectorDB: IVectorDB
+    private vectorDB: IVectorDB,
+    private lexicalIndex?: LexicalIndex
   ) {}
 
   /**
@@ -116,41 +216,8 @@ export class RAGSearchService {
 
       console.log(`[RAG Search] Query embedding generated (${embeddingResult.embedding.length} dims)`);
 
-      // Step 2: Product-specific prioritized search (Issue #35)
-      console.log('[RAG Search] Starting product-specific prioritized search...');
-
-      // Search strategy:
-      // 1. First search product-specific knowledge (productId=productId)
-      // 2. Then search common knowledge (category=common)
-      // 3. Merge results with product-specific taking priority
-
-      const productSpecificResults = options.productId
-        ? await this.priorityBasedSearch(
-            embeddingResult.embedding,
-            {
-              topK,
-              minScore: minSimilarity,
-              filter: { productId: options.productId }, // Product-specific only (fixed: use productId instead of category)
-            }
-          )
-        : [];
-
-      console.log(`[RAG Search] Product-specific search: ${productSpecificResults.length} results`);
-
-      // Common knowledge search (always included)
-      const commonResults = await this.priorityBasedSearch(
-        embeddingResult.embedding,
-        {
-          topK,
-          minScore: minSimilarity,
-          filter: { category: 'common' }, // Common knowledge only
-        }
-      );
-
-      console.log(`[RAG Search] Common knowledge search: ${commonResults.length} results`);
-
-      // Merge results: product-specific first, then common
-      const searchResults = [...productSpecificResults, ...commonResults];
+      // Step 2: 検索（商品固有 → 共通ナレッジ、語彙インデックスがあれば融合）
+      const searchResults = await this.retrieve(segmentText, embeddingResult.embedding, { ...options, topK, minSimilarity });
 
       console.log(`[RAG Search] Found ${searchResults.length} relevant knowledge chunks`);
 
@@ -184,6 +251,61 @@ export class RAGSearchService {
     }
   }
 
+  /**
+   * クエリembeddingでナレッジを検索（商品固有 → 共通ナレッジ）
+   */
+  private async retrieve(
+    segmentText: string,
+    embedding: number[],
+    options: RAGSearchOptions & { topK: number; minSimilarity: number }
+  ): Promise<SearchResult[]> {
+    const { topK, minSimilarity } = options;
+
+    // Product-specific prioritized search (Issue #35)
+    console.log('[RAG Search] Starting product-specific prioritized search...');
+
+    // Search strategy:
+    // 1. First search product-specific knowledge (productId=productId)
+    // 2. Then search common knowledge (category=common)
+    // 3. Merge results with product-specific taking priority
+
+    const productSpecificResults = options.productId
+      ? await this.priorityBasedSearch(
+          embedding,
+          {
+            topK,
+            minScore: minSimilarity,
+            filter: { productId: options.productId }, // Product-specific only (fixed: use productId instead of category)
+          }
+        )
+      : [];
+
+    console.log(`[RAG Search] Product-specific search: ${productSpecificResults.length} results`);
+
+    // Common knowledge search (always included)
+    const commonCandidates = await this.priorityBasedSearch(
+      embedding,
+      {
+        topK,
+        minScore: minSimilarity,
+        filter: { category: 'common' }, // Common knowledge only
+      }
+    );
+
+    // 商品指定時は knowledge-mapping.csv でその商品に割り当てられた共通ナレッジのみ使用
+    const productId = options.productId;
+    const commonResults = productId
+      ? commonCandidates.filter(r => shouldLoadFile(productId, String(r.metadata.fileName ?? '')))
+      : commonCandidates;
+
+    console.log(`[RAG Search] Common knowledge search: ${commonResults.length} results (${commonCandidates.length - commonResults.length} excluded by knowledge mapping)`);
+
+    // Merge results: forced lexical matches first, then product-specific, then common
+    return this.lexicalIndex
+      ? this.hybridMerge(segmentText, productSpecificResults, commonResults, { ...options, topK })
+      : [...productSpecificResults, ...commonResults];
+  }
+
   /**
    * Priority-based cascading search (Issue #32)
    *
@@ -216,7 +338,7 @@ export class RAGSearchService {
     const p1Results = await this.vectorDB.search(embedding, {
       topK: topK * 2, // Get more to ensure enough after filtering
       minScore,
-      filter: p1Filter as any,
+      filter: p1Filter,
     });
     console.log(`[RAG Search] [P1] Found ${p1Results.length} results`);
     allResults.push(...p1Results);
@@ -235,7 +357,7 @@ export class RAGSearchService {
     const p2Results = await this.vectorDB.search(embedding, {
       topK: topK * 2,
       minScore,
-      filter: p2Filter as any,
+      filter: p2Filter,
     });
     console.log(`[RAG Search] [P2] Found ${p2Results.length} results`);
     allResults.push(...p2Results);
@@ -254,7 +376,7 @@ export class RAGSearchService {
     const p3Results = await this.vectorDB.search(embedding, {
       topK: topK * 2,
       minScore,
-      filter: p3Filter as any,
+      filter: p3Filter,
     });
     console.log(`[RAG Search] [P3] Found ${p3Results.length} results`);
     allResults.push(...p3Results);
@@ -263,6 +385,91 @@ export class RAGSearchService {
     return this.sortAndLimitResults(allResults, topK);
   }
 
+  /**
+   * ベクトル検索結果と語彙検索結果を融合し、強制語彙検索の結果を先頭に追加
+   *
+   * 商品固有・共通ナレッジそれぞれで融合する（商品固有を優先する検索戦略は維持）
+   */
+  private hybridMerge(
+    segmentText: string,
+    productSpecificResults: SearchResult[],
+    commonResults: SearchResult[],
+    options: RAGSearchOptions & { topK: number }
+  ): SearchResult[] {
+    const lexicalIndex = this.lexicalIndex!;
+    const { topK, productId } = options;
+    const fusion = options.fusion || {};
+
+    const lexicalProduct = productId
+      ? lexicalIndex.search(segmentText, { topK: topK * 2, filter: { productId } })
+      : [];
+    const lexicalCommon = lexicalIndex
+      .search(segmentText, { topK: topK * 2, filter: { category: 'common' } })
+      .filter(r => !productId || shouldLoadFile(productId, String(r.metadata.fileName ?? '')));
+
+    console.log(`[RAG Search] Lexical search: ${lexicalProduct.length} product-specific, ${lexicalCommon.length} common results`);
+
+    const forcedResults = this.forcedSearch(options.forcedQueries || [], productId);
+    if (forcedResults.length > 0) {
+      console.log(`[RAG Search] Forced lexical queries: ${forcedResults.length} chunks (${forcedResults.map(r => r.retrieval?.forcedBy).join(', ')})`);
+    }
+
+    const fused = [
+      ...forcedResults,
+      ...fuseRankings(productSpecificResults, lexicalProduct, fusion, topK),
+      ...fuseRankings(commonResults, lexicalCommon, fusion, topK),
+    ];
+
+    // Remove duplicates (same ID, first occurrence wins)
+    const seen = new Set<string>();
+    return fused.filter(r => {
+      if (seen.has(r.id)) {
+        return false;
+      }
+      seen.add(r.id);
+      return true;
+    });
+  }
+
+  /**
+   * 強制語彙検索: 語を含むチャンクと参照ファイルのチャンクを取得
+   */
+  private forcedSearch(queries: ForcedLexicalQuery[], productId?: ProductId): SearchResult[] {
+    const lexicalIndex = this.lexicalIndex!;
+    const results: SearchResult[] = [];
+
+    for (const query of queries) {
+      const forced = (r: SearchResult): SearchResult => ({
+        ...r,
+        score: 1,
+        retrieval: { ...r.retrieval, lexicalScore: r.score, forcedBy: query.term },
+      });
+
+      // 参照ファイル: 語を含むチャンク、なければ先頭チャンク
+      if (query.referenceFile) {
+        const fileName = toKnowledgeFileName(query.referenceFile);
+        const fileHits = lexicalIndex.findContaining(query.term, { fileName, topK: 1 });
+        const fileChunk = fileHits[0] || lexicalIndex.findByFileName(fileName)[0];
+        if (fileChunk) {
+          results.push(forced(fileChunk));
+        } else {
+          console.warn(`[RAG Search] Forced reference file not found in lexical index: ${query.referenceFile}`);
+        }
+      }
+
+      // 語を含むチャンク（商品固有 + 商品に割り当てられた共通ナレッジ）
+      const termHits = lexicalIndex
+        .findContaining(query.term, {
+          filter: productId ? { $or: [{ productId }, { category: 'common' }] } : undefined,
+        })
+        .filter(r => !productId || r.metadata.category !== 'common' || shouldLoadFile(productId, String(r.metadata.fileName ?? '')))
+        .slice(0, 2);
+      results.push(...termHits.map(forced));
+    }
+
+    return results;
+  }
+
   /**
    * Sort results by priority (ascending) then score (descending), and limit to topK
    */
@@ -287,13 +494,139 @@ export class RAGSearchService {
     return uniqueResults.slice(0, topK);
   }
 
+  /**
+   * セグメント単位でナレッジを検索
+   *
+   * 全セグメントを結合した1クエリでは長いセグメントに検索結果が偏るため、
+   * セグメントごとにクエリembedding（embedBatch で一括生成）を作成して検索し、
+   * 結果を重複除去して1つのナレッジにまとめる。
+   *
+   * ナレッジの文字数予算は「各セグメントの1位 → 各セグメントの2位 → ...」の順に割り当てる。
+   * 他のセグメントで採用済みのチャンクは予算を消費しない。
+   * 検出キーワードの参照ナレッジ（強制語彙検索）は予算に関係なく含める。
+   *
+   * @param segments - セグメント配列
+   * @param options - 検索オプション（topK はセグメントごと）
+   * @returns 重複除去済みのナレッジと、セグメントごとの使用チャンク
+   *
+   * @example
+   * const result = await ragService.searchPerSegment(
+   *   [{ id: 'seg-1', text: 'ヒアルロン酸を直注入' }, { id: 'seg-2', text: '今だけ半額' }],
+   *   { topK: 10, productId: 'HA', maxContextChars: 20000 }
+   * );
+   * // result.segments[0].knowledgeNumbers → [1, 3]（result.relevantKnowledge 内のナレッジ番号）
+   */
+  async searchPerSegment(
+    segments: RAGSegmentQuery[],
+    options: RAGPerSegmentSearchOptions = {}
+  ): Promise<RAGPerSegmentResult> {
+    const startTime = Date.now();
+
+    const topK = options.topK || 20;
+    const minSimilarity = options.minSimilarity || 0.3;
+    const maxContextChars = options.maxContextChars ?? 30000;
+
+    console.log(`[RAG Search] Per-segment search for ${segments.length} segments (topK=${topK}/segment, maxContextChars=${maxContextChars})`);
+
+    try {
+      // Step 1: 空でないセグメントのクエリembeddingを一括生成
+      const queryIndices = segments
+        .map((segment, index) => (segment.text.trim() ? index : -1))
+        .filter(index => index >= 0);
+      const embeddings = new Map<number, number[]>();
+      if (queryIndices.length > 0) {
+        const batch = await this.embeddingService.embedBatch(
+          queryIndices.map(index => segments[index].text),
+          TaskType.RETRIEVAL_QUERY
+        );
+        queryIndices.forEach((segmentIndex, i) => embeddings.set(segmentIndex, batch.embeddings[i]));
+      }
+
+      // Step 2: セグメントごとに検索
+      const rankings: SearchResult[][] = [];
+      for (let index = 0; index < segments.length; index++) {
+        const embedding = embeddings.get(index);
+        const segment = segments[index];
+        rankings.push(embedding
+          ? await this.retrieve(segment.text, embedding, {
+              ...options,
+              topK,
+              minSimilarity,
+              forcedQueries: [...(options.forcedQueries || []), ...(segment.forcedQueries || [])],
+            })
+          : []);
+      }
+
+      // Step 3: 順位ごとにセグメントを巡回して予算を割り当て
+      const selected = new Map<string, SearchResult>();
+      const assigned: string[][] = segments.map(() => []);
+      const dropped: string[][] = segments.map(() => []);
+      let usedChars = 0;
+
+      const maxRank = Math.max(0, ...rankings.map(r => r.length));
+      for (let rank = 0; rank < maxRank; rank++) {
+        rankings.forEach((ranking, segmentIndex) => {
+          const result = ranking[rank];
+          if (!result) {
+            return;
+          }
+          if (!selected.has(result.id)) {
+            if (!result.retrieval?.forcedBy && usedChars + result.text.length > maxContextChars) {
+              dropped[segmentIndex].push(result.id);
+              return;
+            }
+            selected.set(result.id, result);
+            usedChars += result.text.length;
+          }
+          assigned[segmentIndex].push(result.id);
+        });
+      }
+
+      const searchResults = Array.from(selected.values());
+      const knowledgeNumbers = new Map(searchResults.map((r, i) => [r.id, i + 1]));
+
+      const segmentResults: RAGSegmentKnowledge[] = segments.map((segment, index) => ({
+        segmentId: segment.id,
+        chunkIds: assigned[index],
+        knowledgeNumbers: assigned[index].map(id => knowledgeNumbers.get(id)!),
+        droppedChunkIds: dropped[index],
+        relevantKnowledge: this.formatSearchResults(assigned[index].map(id => selected.get(id)!)),
+      }));
+
+      const droppedCount = dropped.reduce((sum, ids) => sum + ids.length, 0);
+      const searchTimeMs = Date.now() - startTime;
+      console.log(`[RAG Search] ✅ Per-segment search completed in ${searchTimeMs}ms: ${searchResults.length} unique chunks, ${usedChars} chars (${droppedCount} dropped by budget)`);
+
+      return {
+        relevantKnowledge: this.formatSearchResults(searchResults),
+        searchResults,
+        segments: segmentResults,
+        debugInfo: options.debug ? {
+          queryEmbeddingPreview: (embeddings.get(queryIndices[0]) || []).slice(0, 10),
+          searchTimeMs,
+          topResults: searchResults.slice(0, 5).map(r => ({
+            score: r.score,
+            text: r.text.substring(0, 100) + '...',
+            metadata: r.metadata,
+          })),
+        } : undefined,
+      };
+    } catch (error) {
+      console.error('[RAG Search] Per-segment search failed:', error);
+      throw new Error(
+        `RAG search failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * 複数セグメントをバッチ検索
    *
    * バッチ評価API用に、複数セグメントのナレッジを一度に検索
+   * （searchPerSegment のセグメントIDなし版）
    *
    * @param segmentTexts - セグメントテキスト配列
-   * @param options - 検索オプション
+   * @param options - 検索オプション（topK はセグメントごと）
    * @returns RAG検索結果
    *
    * @example
@@ -304,18 +637,14 @@ export class RAGSearchService {
    */
   async searchBatch(
     segmentTexts: string[],
-    options: RAGSearchOptions = {}
-  ): Promise<RAGSearchResult> {
+    options: RAGPerSegmentSearchOptions = {}
+  ): Promise<RAGPerSegmentResult> {
     console.log(`[RAG Search] Batch searching for ${segmentTexts.length} segments...`);
 
-    // 全セグメントを結合して検索
-    // より高度なアプローチ: 各セグメントを個別に検索してマージ
-    const combinedText = segmentTexts.join('\n');
-
-    return this.search(combinedText, {
-      ...options,
-      topK: (options.topK || 20) * segmentTexts.length, // セグメント数に応じてtopKを増やす
-    });
+    return this.searchPerSegment(
+      segmentTexts.map((text, index) => ({ id: `segment-${index + 1}`, text })),
+      options
+    );
   }
 
   /**
@@ -356,7 +685,7 @@ export class RAGSearchService {
       const metadata = result.metadata;
       const priority = metadata.priority || 99;
       const priorityLabel = priority === 1 ? '【P1: 会社基準】' : priority === 2 ? '【P2: 法律】' : '【P3: ガイドライン】';
-      const score = `類似度: ${(result.score * 100).toFixed(1)}%`;
+      const score = formatRetrievalScore(result);
 
       // Knowledge type display
       const knowledgeTypeMap = {
@@ -412,16 +741,103 @@ ${sections.join('\n')}
   }
 }
 
+/**
+ * Reciprocal Rank Fusion
+ *
+ * 融合スコアは両方で1位の場合を1として正規化し、score に設定する
+ */
+function fuseRankings(
+  vectorResults: SearchResult[],
+  lexicalResults: SearchResult[],
+  fusion: RAGFusionOptions,
+  topK: number
+): SearchResult[] {
+  const vectorWeight = fusion.vectorWeight ?? 1;
+  const lexicalWeight = fusion.lexicalWeight ?? 1;
+  const rrfK = fusion.rrfK ?? 60;
+  const maxScore = (vectorWeight + lexicalWeight) / (rrfK + 1) || 1;
+
+  const fused = new Map<string, { result: SearchResult; score: number; vectorScore?: number; lexicalScore?: number }>();
+
+  vectorResults.forEach((result, rank) => {
+    fused.set(result.id, { result, score: vectorWeight / (rrfK + rank + 1), vectorScore: result.score });
+  });
+
+  if (lexicalWeight > 0) {
+    lexicalResults.forEach((result, rank) => {
+      const entry = fused.get(result.id) || { result, score: 0 };
+      entry.score += lexicalWeight / (rrfK + rank + 1);
+      entry.lexicalScore = result.score;
+      fused.set(result.id, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ result, score, vectorScore, lexicalScore }) => ({
+      ...result,
+      score: score / maxScore,
+      retrieval: { vectorScore, lexicalScore },
+    }));
+}
+
+/**
+ * ナレッジのスコア表示
+ */
+function formatRetrievalScore(result: SearchResult): string {
+  const retrieval = result.retrieval;
+  if (!retrieval) {
+    return `類似度: ${(result.score * 100).toFixed(1)}%`;
+  }
+  if (retrieval.forcedBy) {
+    return `検出キーワード「${retrieval.forcedBy}」の関連ナレッジ`;
+  }
+
+  const details = [
+    retrieval.vectorScore !== undefined ? `類似度 ${(retrieval.vectorScore * 100).toFixed(1)}%` : undefined,
+    retrieval.lexicalScore !== undefined ? '語句一致あり' : undefined,
+  ].filter(Boolean).join('、');
+
+  return `関連度: ${(result.score * 100).toFixed(1)}%（${details}）`;
+}
+
+/**
+ * NGKeywordValidator の検出結果を強制語彙検索クエリに変換
+ * 一致したテキスト（表記ゆれで検出した場合はルールの表記も）と、ルールの参照ナレッジファイルを必ず検索結果に含める
+ */
+export function createForcedLexicalQueries(
+  matches: Array<Pick<KeywordMatch, 'matchedText' | 'referenceKnowledge' | 'variantOf'>>
+): ForcedLexicalQuery[] {
+  const queries = new Map<string, ForcedLexicalQuery>();
+
+  for (const match of matches) {
+    for (const term of [match.matchedText.trim(), match.variantOf]) {
+      if (!term) {
+        continue;
+      }
+      const key = `${term}\u0000${match.referenceKnowledge || ''}`;
+      if (!queries.has(key)) {
+        queries.set(key, { term, referenceFile: match.referenceKnowledge });
+      }
+    }
+  }
+
+  return Array.from(queries.values());
+}
+
 /**
  * RAGSearchServiceのファクトリ関数
  *
  * @param embeddingService - Embedding service
  * @param vectorDB - Vector DB
+ * @param lexicalIndex - 語彙インデックス（指定時はハイブリッド検索）
  * @returns RAGSearchService instance
  */
 export function createRAGSearchService(
   embeddingService: EmbeddingService,
-  vectorDB: IVectorDB
+  vectorDB: IVectorDB,
+  lexicalIndex?: LexicalIndex
 ): RAGSearchService {
-  return new RAGSearchService(embeddingService, vectorDB);
+  return new RAGSearchService(embeddingService, vectorDB, lexicalIndex);
 }
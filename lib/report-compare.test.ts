@@ -0,0 +1,85 @@
+/**
+ * レポート比較（セグメントの対応付け・違反の追加/解消/変更）のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { alignReportSegments, compareReports, formatReportComparisonMarkdown } from './report-compare';
+import type { ComparableReport } from './report-compare';
+import type { Segment, SegmentEvaluation, Violation, ViolationSeverity } from './types-v2';
+
+const segments = (...texts: string[]): Segment[] => texts.map((text, i) => ({
+  id: `seg_${String(i + 1).padStart(3, '0')}`,
+  text,
+  type: 'claim',
+  position: { start: 0, end: text.length },
+}));
+
+const violation = (keyword: string, severity: ViolationSeverity = 'high'): Violation => ({
+  type: '薬機法違反',
+  severity,
+  description: `「${keyword}」は承認された効能効果を逸脱しています`,
+  referenceKnowledge: { file: 'knowledge/common/薬機法.txt', excerpt: null },
+  correctionSuggestion: '表現を修正してください',
+});
+
+const evaluation = (segmentId: string, violations: Violation[] = []): SegmentEvaluation => ({
+  segmentId,
+  compliance: violations.length === 0,
+  violations,
+  evaluatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('alignReportSegments', () => {
+  it('should align similar segments in order and leave unmatched ones', () => {
+    const alignment = alignReportSegments(
+      segments('ヒアルロン酸を贅沢に配合した美容液', 'シワが消える', '今なら送料無料'),
+      segments('新商品のご案内', 'ヒアルロン酸を贅沢に配合した美容クリーム', '今なら送料無料でお届け')
+    );
+
+    expect(alignment.pairs.map(p => [p.baseSegmentId, p.targetSegmentId])).toEqual([
+      ['seg_001', 'seg_002'],
+      ['seg_003', 'seg_003'],
+    ]);
+    expect(alignment.removedSegmentIds).toEqual(['seg_002']);
+    expect(alignment.addedSegmentIds).toEqual(['seg_001']);
+  });
+});
+
+describe('compareReports', () => {
+  it('should report added, removed and changed violations with severity deltas', () => {
+    const base: ComparableReport = {
+      id: 'report_base',
+      segments: segments('シワが消える美容液', '医師も推薦', '今だけ半額'),
+      evaluations: [
+        evaluation('seg_001', [violation('シワが消える', 'medium')]),
+        evaluation('seg_002', [violation('医師も推薦')]),
+        evaluation('seg_003', [violation('今だけ', 'low')]),
+      ],
+    };
+    const target: ComparableReport = {
+      id: 'report_target',
+      segments: segments('シワが消える美容液です', '今だけ半額', '最安値'),
+      evaluations: [
+        evaluation('seg_001', [violation('シワが消える', 'high')]),
+        evaluation('seg_002', [violation('今だけ', 'low')]),
+        evaluation('seg_003', [violation('最安値')]),
+      ],
+    };
+
+    const comparison = compareReports(base, target);
+
+    expect(comparison.changed).toHaveLength(1);
+    expect(comparison.changed[0]).toMatchObject({ baseSegmentId: 'seg_001', targetSegmentId: 'seg_001', severityDelta: 1 });
+    expect(comparison.removed.map(d => [d.segmentText, d.severityDelta])).toEqual([['医師も推薦', -3]]);
+    expect(comparison.added.map(d => [d.segmentText, d.severityDelta])).toEqual([['最安値', 3]]);
+    expect(comparison.summary).toMatchObject({ baseViolations: 3, targetViolations: 3, unchanged: 1 });
+    expect(comparison.summary.bySeverity.high).toEqual({ base: 1, target: 2, delta: 1 });
+    expect(comparison.summary.bySeverity.medium).toEqual({ base: 1, target: 0, delta: -1 });
+
+    const markdown = formatReportComparisonMarkdown(comparison, base, target);
+    expect(markdown).toContain('## 🔀 レポート比較');
+    expect(markdown).toContain('- **違反数**: 3件 → 3件（0）');
+    expect(markdown).toContain('（中 → 高、+1）');
+    expect(markdown).toContain('### ✅ 解消された違反');
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Report Comparison
+ * 2つのレポート（AnalysisReport）の違反の比較
+ *
+ * ナレッジ更新前後の同じ広告文、HAの広告文をSHに流用した場合など、任意の2つのレポートを比較する。
+ * （同じ広告文書の版の比較は lib/ad-documents/version-diff.ts）
+ *
+ * - セグメントは本文の類似度（文字bigramのDice係数）で順序を保って対応付ける
+ * - 対応するセグメントの違反を重複除去と同じキー（キーワード・参照ファイル）で比較し、
+ *   added（比較先で追加）/ removed（比較先で解消）/ changed（重要度・違反タイプが変化）に分類する
+ * - 対応するセグメント間で一致しない違反は、文書全体で同じキーの違反と対応付ける（セグメントの分割・統合対策）
+ */
+
+import { toCharNgrams } from './lexical-index';
+import { generateViolationKey } from './utils/deduplication';
+import type { AnalysisReport, Violation, ViolationSeverity } from './types-v2';
+
+/**
+ * 比較に使うレポートの項目（保存済みレポート・リクエストで渡されたレポート）
+ */
+export type ComparableReport = Pick<AnalysisReport, 'segments' | 'evaluations'>
+  & Partial<Pick<AnalysisReport, 'id' | 'input' | 'generatedAt'>>;
+
+export interface ReportCompareOptions {
+  /** セグメントを対応付ける最小類似度（default: 0.5） */
+  minSimilarity?: number;
+}
+
+export interface SegmentAlignment {
+  baseSegmentId: string;
+  targetSegmentId: string;
+  /** 本文の類似度（0-1） */
+  similarity: number;
+}
+
+export type ViolationDeltaStatus = 'added' | 'removed' | 'changed';
+
+export interface ViolationDelta {
+  status: ViolationDeltaStatus;
+  /** 比較元のセグメントID（removed / changed） */
+  baseSegmentId?: string;
+  /** 比較先のセグメントID（added / changed） */
+  targetSegmentId?: string;
+  /** セグメント本文（removed の場合は比較元の本文） */
+  segmentText: string;
+  /** 比較元の違反（removed / changed） */
+  base?: Violation;
+  /** 比較先の違反（added / changed） */
+  target?: Violation;
+  /** 重要度の変化（比較先 - 比較元、low=1 〜 critical=4、added は +重要度、removed は -重要度） */
+  severityDelta: number;
+}
+
+export interface ReportComparison {
+  baseReportId?: string;
+  targetReportId?: string;
+  alignment: {
+    pairs: SegmentAlignment[];
+    /** 比較元にのみ存在するセグメント */
+    removedSegmentIds: string[];
+    /** 比較先にのみ存在するセグメント */
+    addedSegmentIds: string[];
+  };
+  added: ViolationDelta[];
+  removed: ViolationDelta[];
+  changed: ViolationDelta[];
+  summary: {
+    baseViolations: number;
+    targetViolations: number;
+    added: number;
+    removed: number;
+    changed: number;
+    /** 重要度・違反タイプが同じまま残っている違反 */
+    unchanged: number;
+    bySeverity: Record<ViolationSeverity, { base: number; target: number; delta: number }>;
+  };
+}
+
+const SEVERITY_RANK: Record<ViolationSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+const SEVERITY_LABELS: Record<ViolationSeverity, string> = {
+  critical: '最高',
+  high: '高',
+  medium: '中',
+  low: '低',
+};
+
+/**
+ * 本文の類似度（文字bigramのDice係数）
+ */
+export function segmentTextSimilarity(a: string, b: string): number {
+  const gramsA = toCharNgrams(a);
+  const gramsB = toCharNgrams(b);
+  if (gramsA.length === 0 || gramsB.length === 0) {
+    return gramsA.length === gramsB.length ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const gram of gramsA) {
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (const gram of gramsB) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * overlap) / (gramsA.length + gramsB.length);
+}
+
+/**
+ * セグメントを本文の類似度で対応付け（順序を保ち、類似度の合計が最大になる組み合わせ）
+ */
+export function alignReportSegments(
+  base: ComparableReport['segments'],
+  target: ComparableReport['segments'],
+  minSimilarity: number = 0.5
+): ReportComparison['alignment'] {
+  const similarity = base.map(b => target.map(t => segmentTextSimilarity(b.text, t.text)));
+
+  // score[i][j] = base[i..], target[j..] の最大スコア
+  const score = Array.from({ length: base.length + 1 }, () => new Array<number>(target.length + 1).fill(0));
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = target.length - 1; j >= 0; j--) {
+      const match = similarity[i][j] >= minSimilarity ? score[i + 1][j + 1] + similarity[i][j] : -Infinity;
+      score[i][j] = Math.max(match, score[i + 1][j], score[i][j + 1]);
+    }
+  }
+
+  const pairs: SegmentAlignment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < target.length) {
+    if (similarity[i][j] >= minSimilarity && score[i][j] === score[i + 1][j + 1] + similarity[i][j]) {
+      pairs.push({ baseSegmentId: base[i].id, targetSegmentId: target[j].id, similarity: Math.round(similarity[i][j] * 1000) / 1000 });
+      i++;
+      j++;
+    } else if (score[i + 1][j] >= score[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const alignedBase = new Set(pairs.map(p => p.baseSegmentId));
+  const alignedTarget = new Set(pairs.map(p => p.targetSegmentId));
+
+  return {
+    pairs,
+    removedSegmentIds: base.filter(s => !alignedBase.has(s.id)).map(s => s.id),
+    addedSegmentIds: target.filter(s => !alignedTarget.has(s.id)).map(s => s.id),
+  };
+}
+
+/**
+ * 2つのレポートの違反を比較
+ *
+ * @param base - 比較元のレポート
+ * @param target - 比較先のレポート
+ */
+export function compareReports(
+  base: ComparableReport,
+  target: ComparableReport,
+  options: ReportCompareOptions = {}
+): ReportComparison {
+  const alignment = alignReportSegments(base.segments, target.segments, options.minSimilarity);
+  const baseTexts = new Map(base.segments.map(s => [s.id, s.text]));
+  const targetTexts = new Map(target.segments.map(s => [s.id, s.text]));
+
+  type Entry = { segmentId: string; violation: Violation; key: string };
+  const toEntries = (report: ComparableReport): Entry[] => report.evaluations.flatMap(evaluation =>
+    evaluation.violations.map(violation => ({ segmentId: evaluation.segmentId, violation, key: generateViolationKey(violation) }))
+  );
+
+  const remainingBase = toEntries(base);
+  const remainingTarget = toEntries(target);
+  const matched: Array<{ base: Entry; target: Entry }> = [];
+
+  const matchEntries = (isCandidate: (b: Entry, t: Entry) => boolean) => {
+    for (let t = 0; t < remainingTarget.length; t++) {
+      const b = remainingBase.findIndex(entry => isCandidate(entry, remainingTarget[t]));
+      if (b >= 0) {
+        matched.push({ base: remainingBase.splice(b, 1)[0], target: remainingTarget.splice(t, 1)[0] });
+        t--;
+      }
+    }
+  };
+
+  // 1. 対応するセグメント内の同じ違反 → 2. 文書全体の同じ違反
+  const alignedTargetIds = new Map(alignment.pairs.map(p => [p.baseSegmentId, p.targetSegmentId]));
+  matchEntries((b, t) => b.key === t.key && alignedTargetIds.get(b.segmentId) === t.segmentId);
+  matchEntries((b, t) => b.key === t.key);
+
+  const changed: ViolationDelta[] = matched
+    .filter(({ base: b, target: t }) => b.violation.severity !== t.violation.severity || b.violation.type !== t.violation.type)
+    .map(({ base: b, target: t }) => ({
+      status: 'changed',
+      baseSegmentId: b.segmentId,
+      targetSegmentId: t.segmentId,
+      segmentText: targetTexts.get(t.segmentId) || '',
+      base: b.violation,
+      target: t.violation,
+      severityDelta: SEVERITY_RANK[t.violation.severity] - SEVERITY_RANK[b.violation.severity],
+    }));
+
+  const added: ViolationDelta[] = remainingTarget.map(t => ({
+    status: 'added',
+    targetSegmentId: t.segmentId,
+    segmentText: targetTexts.get(t.segmentId) || '',
+    target: t.violation,
+    severityDelta: SEVERITY_RANK[t.violation.severity],
+  }));
+
+  const removed: ViolationDelta[] = remainingBase.map(b => ({
+    status: 'removed',
+    baseSegmentId: b.segmentId,
+    segmentText: baseTexts.get(b.segmentId) || '',
+    base: b.violation,
+    severityDelta: -SEVERITY_RANK[b.violation.severity],
+  }));
+
+  const severities: ViolationSeverity[] = ['critical', 'high', 'medium', 'low'];
+  const countBySeverity = (report: ComparableReport, severity: ViolationSeverity) =>
+    report.evaluations.reduce((sum, e) => sum + e.violations.filter(v => v.severity === severity).length, 0);
+
+  return {
+    ...(base.id && { baseReportId: base.id }),
+    ...(target.id && { targetReportId: target.id }),
+    alignment,
+    added,
+    removed,
+    changed,
+    summary: {
+      baseViolations: base.evaluations.reduce((sum, e) => sum + e.violations.length, 0),
+      targetViolations: target.evaluations.reduce((sum, e) => sum + e.violations.length, 0),
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+      unchanged: matched.length - changed.length,
+      bySeverity: Object.fromEntries(severities.map(severity => {
+        const baseCount = countBySeverity(base, severity);
+        const targetCount = countBySeverity(target, severity);
+        return [severity, { base: baseCount, target: targetCount, delta: targetCount - baseCount }];
+      })) as ReportComparison['summary']['bySeverity'],
+    },
+  };
+}
+
+/**
+ * 比較結果のMarkdown（レポートと同じ形式のセクション）
+ */
+export function formatReportComparisonMarkdown(
+  comparison: ReportComparison,
+  base: ComparableReport,
+  target: ComparableReport
+): string {
+  const { summary, alignment } = comparison;
+  const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+  let markdown = `## 🔀 レポート比較
+
+- **比較元**: ${describeReport(base)}
+- **比較先**: ${describeReport(target)}
+- **セグメント**: 対応 ${alignment.pairs.length}件 / 比較元のみ ${alignment.removedSegmentIds.length}件 / 比較先のみ ${alignment.addedSegmentIds.length}件
+- **違反数**: ${summary.baseViolations}件 → ${summary.targetViolations}件（${signed(summary.targetViolations - summary.baseViolations)}）
+- **内訳**: 追加 ${summary.added}件 / 解消 ${summary.removed}件 / 変更 ${summary.changed}件 / 変化なし ${summary.unchanged}件
+
+### 重要度別
+${(Object.keys(summary.bySeverity) as ViolationSeverity[])
+    .filter(severity => summary.bySeverity[severity].base > 0 || summary.bySeverity[severity].target > 0)
+    .map(severity => {
+      const { base: b, target: t, delta } = summary.bySeverity[severity];
+      return `- **${SEVERITY_LABELS[severity]}**: ${b}件 → ${t}件（${signed(delta)}）`;
+    })
+    .join('\n') || '- 違反なし'}
+
+`;
+
+  const formatDeltas = (title: string, deltas: ViolationDelta[], format: (delta: ViolationDelta) => string) => {
+    if (deltas.length === 0) {
+      return '';
+    }
+    return `### ${title}\n\n${deltas.map(delta => `- "${delta.segmentText.trim()}"\n  - ${format(delta)}`).join('\n')}\n\n`;
+  };
+
+  markdown += formatDeltas('🆕 追加された違反', comparison.added, ({ target: v }) =>
+    `**${v!.type}**（${SEVERITY_LABELS[v!.severity]}）: ${v!.description}`);
+  markdown += formatDeltas('✅ 解消された違反', comparison.removed, ({ base: v }) =>
+    `**${v!.type}**（${SEVERITY_LABELS[v!.severity]}）: ${v!.description}`);
+  markdown += formatDeltas('🔄 変更された違反', comparison.changed, ({ base: b, target: t, severityDelta }) =>
+    `**${b!.type === t!.type ? t!.type : `${b!.type} → ${t!.type}`}**（${SEVERITY_LABELS[b!.severity]} → ${SEVERITY_LABELS[t!.severity]}、${signed(severityDelta)}）: ${t!.description}`);
+
+  if (summary.added + summary.removed + summary.changed === 0) {
+    markdown += `✅ 違反に変化はありません。\n\n`;
+  }
+
+  markdown += `---\n`;
+  return markdown;
+}
+
+function describeReport(report: ComparableReport): string {
+  const details = [
+    report.input?.product_id,
+    report.generatedAt && new Date(report.generatedAt).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' }),
+  ].filter(Boolean);
+
+  return `${report.id || '（未保存のレポート）'}${details.length > 0 ? `（${details.join('、')}）` : ''}`;
+}
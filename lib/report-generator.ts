@@ -0,0 +1,397 @@
+/**
+ * Report Generator
+ * 評価結果からレポート（AnalysisReport・Markdown）を生成
+ *
+ * /api/v2/report と CLI（scripts/adcheck.ts）で共通して使用する。
+ */
+
+import type {
+  AnalysisReport,
+  ReportDocumentVersion,
+  Segment,
+  SegmentEvaluation,
+  TextStructure,
+  ViolationSeverity,
+  ViolationType,
+} from './types-v2';
+import type { UserInput } from './types';
+
+/**
+ * レポートの統計情報
+ */
+export interface ReportStatistics {
+  totalSegments: number;
+  compliantSegments: number;
+  nonCompliantSegments: number;
+  totalViolations: number;
+  violationsByType: Record<ViolationType, number>;
+  violationsBySeverity: Record<ViolationSeverity, number>;
+  waivedViolations: number;
+  /** 否定・注意書き・引用の文脈で除外したNGキーワード */
+  suppressedViolations: number;
+  llmSkippedSegments: number;
+  evaluationMode: 'llm' | 'offline' | 'mixed';
+}
+
+export interface BuildReportParams {
+  input: UserInput;
+  structure: TextStructure;
+  segments: Segment[];
+  evaluations: SegmentEvaluation[];
+  /** 広告文書の版（改訂版の場合は前の版との比較をレポートに含める） */
+  documentVersion?: ReportDocumentVersion;
+  /** 処理開始時刻（totalProcessingTimeMs の計算用、省略時は 0） */
+  startTime?: number;
+}
+
+/**
+ * 評価結果から最終レポートを構築（統計情報の集約・総合評価・Markdownレポートの生成）
+ */
+export function buildAnalysisReport(params: BuildReportParams): AnalysisReport {
+  const { input, structure, segments, evaluations, documentVersion } = params;
+  const statistics = aggregateStatistics(segments, evaluations);
+  const overallStatus = determineOverallStatus(statistics);
+  const markdown = generateMarkdownReport(input, structure, segments, evaluations, statistics, overallStatus, documentVersion);
+
+  return {
+    id: generateReportId(),
+    input,
+    structure,
+    segments,
+    evaluations,
+    evaluationMode: statistics.evaluationMode,
+    ...(documentVersion && { documentVersion }),
+    summary: {
+      totalSegments: statistics.totalSegments,
+      compliantSegments: statistics.compliantSegments,
+      totalViolations: statistics.totalViolations,
+      violationsByType: statistics.violationsByType,
+      violationsBySeverity: statistics.violationsBySeverity,
+      ...(statistics.waivedViolations > 0 && { waivedViolations: statistics.waivedViolations }),
+      ...(statistics.suppressedViolations > 0 && { suppressedViolations: statistics.suppressedViolations }),
+    },
+    markdown,
+    generatedAt: new Date().toISOString(),
+    totalProcessingTimeMs: params.startTime !== undefined ? Date.now() - params.startTime : 0,
+  };
+}
+
+/**
+ * Helper: 統計情報を集約
+ */
+export function aggregateStatistics(
+  segments: Segment[],
+  evaluations: SegmentEvaluation[]
+): ReportStatistics {
+  const compliantSegments = evaluations.filter(e => e.compliance).length;
+  const allViolations = evaluations.flatMap(e => e.violations);
+
+  const violationsByType: Record<ViolationType, number> = {
+    '社内基準違反': 0,
+    '薬機法違反': 0,
+    '景表法違反': 0,
+    '特商法違反': 0,
+    'その他': 0,
+  };
+
+  const violationsBySeverity: Record<ViolationSeverity, number> = {
+    critical: 0,
+    high: 0,
+    medium: 0,
+    low: 0,
+  };
+
+  allViolations.forEach(violation => {
+    violationsByType[violation.type]++;
+    violationsBySeverity[violation.severity]++;
+  });
+
+  // LLMレビュー未実施（オフライン評価）のセグメント
+  const llmSkippedSegments = evaluations.filter(e => e.evaluationMode === 'offline').length;
+  const evaluationMode = llmSkippedSegments === 0
+    ? 'llm'
+    : llmSkippedSegments === evaluations.length ? 'offline' : 'mixed';
+
+  return {
+    totalSegments: segments.length,
+    compliantSegments,
+    nonCompliantSegments: segments.length - compliantSegments,
+    totalViolations: allViolations.length,
+    violationsByType,
+    violationsBySeverity,
+    waivedViolations: evaluations.reduce((sum, e) => sum + (e.waivedViolations?.length || 0), 0),
+    suppressedViolations: evaluations.reduce((sum, e) => sum + (e.suppressedViolations?.length || 0), 0),
+    llmSkippedSegments,
+    evaluationMode,
+  };
+}
+
+/**
+ * Helper: 総合評価ステータスを決定（OK/要修正の2段階）
+ */
+export function determineOverallStatus(statistics: ReportStatistics): string {
+  if (statistics.totalViolations === 0) {
+    return 'OK';
+  } else {
+    return '要修正';
+  }
+}
+
+/**
+ * Helper: Markdownレポートを生成
+ */
+export function generateMarkdownReport(
+  input: UserInput,
+  structure: TextStructure,
+  segments: Segment[],
+  evaluations: SegmentEvaluation[],
+  statistics: ReportStatistics,
+  overallStatus: string,
+  documentVersion?: ReportDocumentVersion
+): string {
+  const statusEmoji = overallStatus === 'OK' ? '✅' : '❌';
+  const timestamp = new Date().toLocaleString('ja-JP', {
+    timeZone: 'Asia/Tokyo',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  let markdown = `# 広告文リーガルチェック結果
+
+## 📊 総合評価
+
+- **判定**: ${statusEmoji} **${overallStatus}**
+- **商品ID**: ${input.product_id}
+- **検査日時**: ${timestamp}
+- **広告文長**: ${input.full_text.length}文字
+${formatLLMReviewStatus(statistics)}
+---
+
+## 📈 統計情報
+
+### セグメント分析
+- **総セグメント数**: ${statistics.totalSegments}件
+- **適合セグメント数**: ${statistics.compliantSegments}件
+- **違反セグメント数**: ${statistics.nonCompliantSegments}件
+
+### 違反タイプ別
+- **社内基準違反**: ${statistics.violationsByType['社内基準違反']}件
+- **薬機法違反**: ${statistics.violationsByType['薬機法違反']}件
+- **景表法違反**: ${statistics.violationsByType['景表法違反']}件
+- **特商法違反**: ${statistics.violationsByType['特商法違反']}件
+- **その他**: ${statistics.violationsByType['その他']}件
+${statistics.waivedViolations > 0 ? `\n### 承認済み例外\n- **承認済み例外**: ${statistics.waivedViolations}件（違反件数には含みません）\n` : ''}${statistics.suppressedViolations > 0 ? `\n### 文脈により除外\n- **否定・注意書き・引用の中の表現**: ${statistics.suppressedViolations}件（違反件数には含みません）\n` : ''}
+---
+${documentVersion ? formatVersionComparison(documentVersion) : ''}
+## 📝 要修正セグメント
+
+`;
+
+  // 要修正セグメントのみを表示
+  let violationCount = 0;
+  evaluations.forEach((evaluation, index) => {
+    const segment = segments.find(s => s.id === evaluation.segmentId);
+    if (!segment) return;
+
+    // 違反がないセグメントはスキップ
+    if (evaluation.violations.length === 0) return;
+
+    violationCount++;
+    const segmentNumber = index + 1;
+
+    markdown += `### セグメント ${segmentNumber}: "${segment.text}"
+
+**判定**: ❌ 要修正
+
+#### 違反内容
+
+`;
+
+    evaluation.violations.forEach((violation, vIndex) => {
+      const variantSpan = violation.spans?.find(span => span.variantOf);
+
+      markdown += `##### ${vIndex + 1}. ${violation.type}
+
+**説明**:
+${violation.description}
+${variantSpan ? `\n🔤 **表記ゆれ**: 「${variantSpan.text}」をルールの表記「${variantSpan.variantOf}」として検出\n` : ''}${violation.matchContext?.action === 'downgraded' ? `\n🔉 **重要度の引き下げ**: ${violation.matchContext.reason}${violation.matchContext.originalSeverity ? `（${violation.matchContext.originalSeverity} → ${violation.severity}）` : ''}\n` : ''}
+📖 **参考ナレッジ**: ${violation.referenceKnowledge.file}
+${violation.referenceKnowledge.section ? `- **条項**: ${violation.referenceKnowledge.section}` : ''}
+> ${violation.referenceKnowledge.excerpt || '引用元が見つかりませんでした'}
+
+✏️ **修正案**:
+\`\`\`
+${violation.correctionSuggestion}
+\`\`\`
+
+${violation.notes ? `**備考**: ${violation.notes}` : ''}
+
+`;
+    });
+
+    // エビデンス情報
+    if (evaluation.supportingEvidence && evaluation.supportingEvidence.length > 0) {
+      markdown += `#### サポートエビデンス\n\n`;
+      evaluation.supportingEvidence.forEach((evidence, eIndex) => {
+        markdown += `${eIndex + 1}. ${evidence}\n`;
+      });
+      markdown += `\n`;
+    }
+
+    markdown += `---\n\n`;
+  });
+
+  // 違反がない場合のメッセージ
+  if (violationCount === 0) {
+    markdown += `✅ 全てのセグメントが基準を満たしています。\n\n---\n\n`;
+  }
+
+  // 承認済み例外（違反から除外された表現）
+  if (statistics.waivedViolations > 0) {
+    markdown += `## ✔️ 承認済み例外\n\n`;
+
+    evaluations.forEach((evaluation, index) => {
+      const segment = segments.find(s => s.id === evaluation.segmentId);
+      if (!segment || !evaluation.waivedViolations || evaluation.waivedViolations.length === 0) return;
+
+      markdown += `### セグメント ${index + 1}: "${segment.text}"\n\n`;
+      evaluation.waivedViolations.forEach((violation) => {
+        const waiver = violation.waiver;
+        markdown += `- **${violation.type}**: ${violation.description}\n`;
+        if (waiver) {
+          markdown += `  - **例外ID**: ${waiver.id} / **承認者**: ${waiver.approver} / **有効期限**: ${waiver.expiresAt}\n`;
+          if (waiver.reason) {
+            markdown += `  - **理由**: ${waiver.reason}\n`;
+          }
+        }
+      });
+      markdown += `\n`;
+    });
+
+    markdown += `---\n\n`;
+  }
+
+  // 否定・注意書き・引用の文脈で除外したNGキーワード
+  if (statistics.suppressedViolations > 0) {
+    markdown += `## 🔇 文脈により除外した検出\n\n`;
+
+    evaluations.forEach((evaluation, index) => {
+      const segment = segments.find(s => s.id === evaluation.segmentId);
+      if (!segment || !evaluation.suppressedViolations || evaluation.suppressedViolations.length === 0) return;
+
+      markdown += `### セグメント ${index + 1}: "${segment.text}"\n\n`;
+      evaluation.suppressedViolations.forEach((violation) => {
+        markdown += `- **${violation.type}**: ${violation.description}\n`;
+        if (violation.matchContext) {
+          markdown += `  - **除外理由**: ${violation.matchContext.reason}\n`;
+        }
+      });
+      markdown += `\n`;
+    });
+
+    markdown += `---\n\n`;
+  }
+
+  markdown += `---
+
+**レポート生成日時**: ${timestamp}
+**分析システム**: Ad Legal Checker V2
+`;
+
+  return markdown;
+}
+
+/**
+ * Helper: 広告文書の版の比較（前の版で解消・新規・継続の違反）
+ */
+function formatVersionComparison(documentVersion: ReportDocumentVersion): string {
+  const { diffSummary, comparison } = documentVersion;
+
+  if (documentVersion.baseVersion === undefined || !comparison) {
+    return `
+## 🔄 版の比較
+
+- **文書ID**: ${documentVersion.documentId}
+- **版**: v${documentVersion.version}（初版のため比較なし）
+
+---
+`;
+  }
+
+  const formatChanges = (title: string, changes: typeof comparison.fixed) => {
+    if (changes.length === 0) {
+      return '';
+    }
+    return `\n### ${title}\n${changes.map(c => `- **${c.violation.type}**: ${c.violation.description}（"${c.segmentText}"）`).join('\n')}\n`;
+  };
+
+  return `
+## 🔄 版の比較（v${comparison.fromVersion} → v${comparison.toVersion}）
+
+- **文書ID**: ${documentVersion.documentId}
+- **再評価したセグメント**: 変更 ${diffSummary.changed}件 / 追加 ${diffSummary.added}件 / 注釈の変更 ${diffSummary.context}件
+- **前回の評価を引き継いだセグメント**: ${diffSummary.unchanged}件
+- **削除されたセグメント**: ${diffSummary.removed}件
+- **違反**: 解消 ${comparison.fixed.length}件 / 新規 ${comparison.new.length}件 / 継続 ${comparison.open.length}件
+${formatChanges('✅ 解消した違反', comparison.fixed)}${formatChanges('🆕 新たな違反', comparison.new)}${formatChanges('⏳ 継続中の違反', comparison.open)}
+---
+`;
+}
+
+/**
+ * Helper: LLMレビューの実施状況（オフライン評価の場合は未実施であることを明示）
+ */
+function formatLLMReviewStatus(statistics: ReportStatistics): string {
+  if (statistics.evaluationMode === 'llm') {
+    return '';
+  }
+
+  const scope = statistics.evaluationMode === 'offline'
+    ? '全セグメント'
+    : `${statistics.llmSkippedSegments}/${statistics.totalSegments}セグメント`;
+
+  return `- **LLMレビュー**: ⚠️ 未実施（${scope}、オフラインモード）
+
+> ⚠️ **LLMレビュー未実施**: ルールベース検証（NGキーワード・ギネス記録・期間表現）のみの結果です。
+> 文脈に依存する違反は検出されていない可能性があります。
+`;
+}
+
+/**
+ * Helper: セグメントタイプを日本語に翻訳
+ * (現在は未使用だが、将来の拡張用に保持)
+ */
+function _translateSegmentType(type: string): string {
+  const typeMap: Record<string, string> = {
+    claim: '主張・訴求',
+    explanation: '説明・詳細',
+    evidence: '根拠・エビデンス',
+    cta: 'アクションフレーズ',
+    disclaimer: '免責事項',
+  };
+  return typeMap[type] || type;
+}
+
+/**
+ * Helper: 重要度を日本語に翻訳
+ * (現在は未使用だが、将来の拡張用に保持)
+ */
+function _translateSeverity(severity: ViolationSeverity): string {
+  const severityMap: Record<ViolationSeverity, string> = {
+    critical: '最高',
+    high: '高',
+    medium: '中',
+    low: '低',
+  };
+  return severityMap[severity];
+}
+
+/**
+ * Helper: レポートIDを生成
+ */
+export function generateReportId(): string {
+  return `report_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,66 @@
+/**
+ * レポートの SARIF 2.1.0 変換のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkCopy } from './copy-check';
+import { createOfflineEvaluator } from './offline-evaluator';
+import { buildSarifLog, getSarifRegion, getSarifRuleId } from './report-sarif';
+import type { Violation } from './types-v2';
+
+describe('report-sarif', () => {
+  it('違反をルール・level・メッセージ・修正案・位置に変換する', async () => {
+    const evaluator = createOfflineEvaluator('HA', { now: new Date('2024-01-01T00:00:00Z') });
+    const { report } = await checkCopy('copy/lp.md', '保湿ケアに。\n今だけ50%オフ！', 'HA', async (segments, fullText) => evaluator.evaluate(segments, fullText));
+
+    expect(report.segments[1].position.line).toBe(2);
+
+    const log = buildSarifLog([{ report, uri: 'copy/lp.md' }], { knowledgeBaseUri: 'https://example.com/repo/blob/main/' });
+    const [run] = log.runs;
+    expect(log.version).toBe('2.1.0');
+
+    const result = run.results.find(r => r.locations[0].physicalLocation.region?.snippet.text === '今だけ');
+    expect(result).toBeDefined();
+    expect(result!.level).toBe('error');
+    expect(result!.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'copy/lp.md' },
+      region: expect.objectContaining({ startLine: 2, startColumn: 1, endLine: 2, endColumn: 4, charOffset: 7, charLength: 3 }),
+    });
+    // 修正案は助言のためメッセージにのみ含め、置換（fixes）は出力しない
+    expect(result!.message.text).toContain('修正案: ');
+    expect(result).not.toHaveProperty('fixes');
+
+    const rule = run.tool.driver.rules[result!.ruleIndex];
+    expect(rule.id).toBe(result!.ruleId);
+    expect(rule.id).toMatch(/^premiums-representations\//);
+    expect(rule.helpUri).toMatch(/^https:\/\/example\.com\/repo\/blob\/main\/knowledge\/common\/42_%E4%BB%8A/);
+
+    // 絶対 URI の接頭辞がない場合は helpUri を出力せず、ナレッジファイルのパスを properties に出力する
+    const [relativeRule] = buildSarifLog([{ report, uri: 'copy/lp.md' }]).runs[0].tool.driver.rules
+      .filter(r => r.id === rule.id);
+    expect(relativeRule.helpUri).toBeUndefined();
+    expect(relativeRule.properties.knowledgeFile).toMatch(/^knowledge\/common\/42_/);
+  });
+
+  it('行は SegmentPosition.line から数え、列は文字位置から計算する', () => {
+    const text = 'abc\ndef\nghi jkl';
+    const region = getSarifRegion(
+      text,
+      { position: { start: 4, end: 15, line: 2 } },
+      { spans: [{ start: 12, end: 15, text: 'jkl', source: 'quote' }] }
+    );
+
+    expect(region).toMatchObject({ startLine: 3, startColumn: 5, endLine: 3, endColumn: 8, snippet: { text: 'jkl' } });
+    expect(getSarifRegion(text, undefined, {})).toBeUndefined();
+  });
+
+  it('ルールIDは ViolationType と参照ナレッジのファイル名から作成する', () => {
+    const violation = {
+      type: '薬機法違反',
+      referenceKnowledge: { file: 'knowledge/common/31_特定成分の特記表示.txt', excerpt: null },
+    } as Violation;
+
+    expect(getSarifRuleId(violation)).toBe('pmd-act/31_特定成分の特記表示');
+    expect(getSarifRuleId({ ...violation, referenceKnowledge: { file: '', excerpt: null } })).toBe('pmd-act');
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Report SARIF Export
+ * レポート（AnalysisReport）を SARIF 2.1.0 に変換
+ *
+ * コードレビューツール（GitHub code scanning 等）で、変更した行の横に違反を表示するために使用する。
+ *
+ * - ルール: ViolationType と参照ナレッジの組み合わせ（例: pmd-act/31_特定成分の特記表示）。
+ *   参照ナレッジの URL（なければ knowledgeBaseUri + ナレッジファイルのパス）を helpUri とする。
+ *   SARIF の helpUri は絶対 URI のため、絶対 URI にならない場合は出力せず、パスは properties.knowledgeFile に出力する
+ * - 結果: 違反ごとに level（ViolationSeverity から変換）・メッセージ（修正案を含む）・位置。
+ *   correctionSuggestion は差し替え用のテキストではなく修正の助言のため、fixes（置換）は出力しない
+ * - 広告文のファイル: uriBaseId（%SRCROOT%）からの相対 URI、または file:// の URI
+ * - 位置: 行は SegmentPosition.line（ない場合は広告文全体から計算）、列は文字位置から計算（UTF-16 単位）
+ * - 承認済み例外（waivedViolations）は suppressions 付きの結果として出力する
+ * - 否定・注意書き・引用の文脈で除外した検出（suppressedViolations）は kind: inSource の suppressions 付きで出力する
+ */
+
+import type {
+  AnalysisReport,
+  Segment,
+  Violation,
+  ViolationSeverity,
+  ViolationType,
+} from './types-v2';
+
+export const SARIF_VERSION = '2.1.0';
+export const SARIF_SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * 相対 URI の基準（チェックを実行したディレクトリ。通常はリポジトリのルート）
+ */
+export const SARIF_SRCROOT = '%SRCROOT%';
+
+/**
+ * SARIF に出力するツール名
+ */
+const TOOL_NAME = 'ad-legal-checker';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * ViolationSeverity → SARIF level
+ */
+export const SARIF_LEVELS: Record<ViolationSeverity, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+/**
+ * ルールIDの接頭辞（ViolationType ごと）
+ */
+const RULE_ID_PREFIXES: Record<ViolationType, string> = {
+  '社内基準違反': 'internal',
+  '薬機法違反': 'pmd-act',
+  '景表法違反': 'premiums-representations',
+  '特商法違反': 'specified-commercial-transactions',
+  'その他': 'other',
+};
+
+export interface SarifMessage {
+  text: string;
+}
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  charOffset: number;
+  charLength: number;
+  snippet: SarifMessage;
+}
+
+export interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: SarifArtifactLocation;
+    region?: SarifRegion;
+  };
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  fullDescription?: SarifMessage;
+  helpUri?: string;
+  help?: SarifMessage;
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[]; knowledgeFile?: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: SarifLocation[];
+  suppressions?: Array<{ kind: 'external' | 'inSource'; status: 'accepted'; justification: string }>;
+  properties: {
+    severity: ViolationSeverity;
+    violationType: ViolationType;
+    segmentId: string;
+    reportId: string;
+    productId: string;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: Array<{
+    tool: { driver: { name: string; rules: SarifRule[] } };
+    originalUriBaseIds?: Record<string, { uri: string }>;
+    columnKind: 'utf16CodeUnits';
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * SARIF に出力するレポート（uri: 広告文のファイルの URI。uriBaseId を指定した場合はその基準からの相対 URI）
+ */
+export interface SarifReportEntry {
+  report: AnalysisReport;
+  uri: string;
+  uriBaseId?: string;
+}
+
+export interface SarifExportOptions {
+  /**
+   * ナレッジファイルの helpUri の接頭辞（例: https://github.com/<org>/<repo>/blob/main/）
+   * 参照ナレッジに url がある場合は url を使用する。省略時（または絶対 URI でない場合）は helpUri を出力しない
+   */
+  knowledgeBaseUri?: string;
+  /** uriBaseId の基準の URI（例: { '%SRCROOT%': 'file:///home/user/repo/' }） */
+  originalUriBaseIds?: Record<string, string>;
+}
+
+/**
+ * レポートを SARIF ログに変換（複数のレポートは1つの run にまとめ、ルールは共有する）
+ */
+export function buildSarifLog(entries: SarifReportEntry[], options: SarifExportOptions = {}): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  const getRuleIndex = (violation: Violation): number => {
+    const id = getSarifRuleId(violation);
+    let index = ruleIndexes.get(id);
+    if (index === undefined) {
+      index = rules.push(toSarifRule(id, violation, options)) - 1;
+      ruleIndexes.set(id, index);
+    }
+    return index;
+  };
+
+  for (const { report, uri, uriBaseId } of entries) {
+    const artifactLocation: SarifArtifactLocation = { uri, ...(uriBaseId && { uriBaseId }) };
+    const segments = new Map(report.segments.map(segment => [segment.id, segment]));
+
+    for (const evaluation of report.evaluations) {
+      const segment = segments.get(evaluation.segmentId);
+      const violations = [
+        ...evaluation.violations.map(violation => ({ violation, waived: false })),
+        ...(evaluation.waivedViolations || []).map(violation => ({ violation, waived: true })),
+        ...(evaluation.suppressedViolations || []).map(violation => ({ violation, waived: false })),
+      ];
+
+      for (const { violation, waived } of violations) {
+        const ruleIndex = getRuleIndex(violation);
+        const region = getSarifRegion(report.input.full_text, segment, violation);
+        const suggestion = violation.correctionSuggestion.trim();
+
+        results.push({
+          ruleId: rules[ruleIndex].id,
+          ruleIndex,
+          level: SARIF_LEVELS[violation.severity],
+          message: { text: suggestion ? `${violation.description}\n修正案: ${suggestion}` : violation.description },
+          locations: [{
+            physicalLocation: {
+              artifactLocation,
+              ...(region && { region }),
+            },
+          }],
+          ...(waived && violation.waiver && {
+            suppressions: [{
+              kind: 'external' as const,
+              status: 'accepted' as const,
+              justification: `承認済み例外 ${violation.waiver.id}（${violation.waiver.approver}、${violation.waiver.expiresAt}まで）${violation.waiver.reason ? `: ${violation.waiver.reason}` : ''}`,
+            }],
+          }),
+          ...(violation.matchContext?.action === 'suppressed' && {
+            suppressions: [{
+              kind: 'inSource' as const,
+              status: 'accepted' as const,
+              justification: violation.matchContext.reason,
+            }],
+          }),
+          properties: {
+            severity: violation.severity,
+            violationType: violation.type,
+            segmentId: evaluation.segmentId,
+            reportId: report.id,
+            productId: report.input.product_id,
+          },
+        });
+      }
+    }
+  }
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: SARIF_VERSION,
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules } },
+      ...(options.originalUriBaseIds && {
+        originalUriBaseIds: Object.fromEntries(
+          Object.entries(options.originalUriBaseIds).map(([id, uri]) => [id, { uri }])
+        ),
+      }),
+      columnKind: 'utf16CodeUnits',
+      results,
+    }],
+  };
+}
+
+/**
+ * SARIF ログをJSON文字列に変換
+ */
+export function formatSarif(entries: SarifReportEntry[], options?: SarifExportOptions): string {
+  return JSON.stringify(buildSarifLog(entries, options), null, 2) + '\n';
+}
+
+/**
+ * 違反のルールID（ViolationType の接頭辞 + 参照ナレッジのファイル名）
+ */
+export function getSarifRuleId(violation: Violation): string {
+  const prefix = RULE_ID_PREFIXES[violation.type] || RULE_ID_PREFIXES['その他'];
+  const knowledge = violation.referenceKnowledge?.file
+    ?.split('/').pop()
+    ?.replace(/\.[^.]+$/, '');
+  return knowledge ? `${prefix}/${knowledge}` : prefix;
+}
+
+/**
+ * 違反の位置（違反箇所 spans、なければセグメント全体）
+ *
+ * @returns 位置を特定できない場合は undefined
+ */
+export function getSarifRegion(
+  fullText: string,
+  segment: Pick<Segment, 'position'> | undefined,
+  violation: Pick<Violation, 'spans'>
+): SarifRegion | undefined {
+  const span = violation.spans?.[0];
+  const start = span?.start ?? segment?.position?.start;
+  const end = span?.end ?? segment?.position?.end;
+  if (start === undefined || end === undefined || end > fullText.length) {
+    return undefined;
+  }
+
+  // 行はセグメントの開始行（SegmentPosition.line）から数える
+  const base = segment?.position?.line !== undefined && segment.position.start <= start
+    ? { offset: segment.position.start, line: segment.position.line }
+    : { offset: 0, line: 1 };
+  const toLineColumn = (offset: number) => ({
+    line: base.line + countLineBreaks(fullText.slice(base.offset, offset)),
+    column: offset - (fullText.lastIndexOf('\n', offset - 1) + 1) + 1,
+  });
+
+  const startPosition = toLineColumn(start);
+  const endPosition = toLineColumn(end);
+  return {
+    startLine: startPosition.line,
+    startColumn: startPosition.column,
+    endLine: endPosition.line,
+    endColumn: endPosition.column,
+    charOffset: start,
+    charLength: end - start,
+    snippet: { text: fullText.slice(start, end) },
+  };
+}
+
+function toSarifRule(id: string, violation: Violation, options: SarifExportOptions): SarifRule {
+  const knowledge = violation.referenceKnowledge;
+  const helpUri = [
+    knowledge?.url,
+    knowledge?.file && options.knowledgeBaseUri ? `${options.knowledgeBaseUri}${encodeURI(knowledge.file)}` : undefined,
+  ].find(uri => uri && isAbsoluteUri(uri));
+
+  return {
+    id,
+    name: id.split('/').pop()!,
+    shortDescription: { text: violation.type },
+    ...(knowledge?.file && { fullDescription: { text: `${violation.type}（${knowledge.file}${knowledge.section ? ` ${knowledge.section}` : ''}）` } }),
+    ...(helpUri && { helpUri }),
+    ...(knowledge?.excerpt && { help: { text: knowledge.excerpt } }),
+    defaultConfiguration: { level: SARIF_LEVELS[violation.severity] },
+    properties: {
+      tags: ['ad-compliance', violation.type],
+      ...(knowledge?.file && { knowledgeFile: knowledge.file }),
+    },
+  };
+}
+
+/**
+ * スキーム付きの絶対 URI か（SARIF の helpUri の要件）
+ */
+export function isAbsoluteUri(value: string): boolean {
+  try {
+    return /^[a-z][a-z0-9+.-]*:/i.test(value) && Boolean(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function countLineBreaks(text: string): number {
+  return (text.match(/\n/g) || []).length;
+}
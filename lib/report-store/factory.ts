@@ -0,0 +1,92 @@
+/**
+ * Report Store Factory
+ *
+ * 環境変数で保存先を切り替える:
+ * - REPORT_STORE: file（default、REPORT_STORE_PATH、default: .cache/reports）| memory（プロセス内のみ、再起動で消える）
+ * - REPORT_RETENTION_DAYS: 保存期間（日数、default: 90、0 で無期限）
+ */
+
+import type { IReportStore } from './interface';
+import { createFileReportStore, getDefaultReportStoreDirectory, type FileReportStoreConfig } from './file-report-store';
+
+export type ReportStoreBackend = 'file' | 'memory';
+
+export interface ReportStoreFactoryConfig {
+  /** 実装（省略時は REPORT_STORE 環境変数、未設定なら file） */
+  backend?: ReportStoreBackend;
+  /** FileReportStore設定（directory 省略時は REPORT_STORE_PATH、retentionDays 省略時は REPORT_RETENTION_DAYS） */
+  file?: FileReportStoreConfig;
+}
+
+/**
+ * 使用するReport Store実装
+ *
+ * @throws Error REPORT_STORE が不正な場合
+ */
+export function getReportStoreBackend(): ReportStoreBackend {
+  const backend = process.env.REPORT_STORE || 'file';
+  if (backend !== 'file' && backend !== 'memory') {
+    throw new Error(`REPORT_STORE が不正です: ${backend}（file | memory）`);
+  }
+  return backend;
+}
+
+/**
+ * レポートの保存期間（日数）
+ *
+ * @throws Error REPORT_RETENTION_DAYS が不正な場合
+ */
+export function getReportRetentionDays(): number {
+  const value = process.env.REPORT_RETENTION_DAYS;
+  if (value === undefined || value === '') {
+    return 90;
+  }
+
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`REPORT_RETENTION_DAYS が不正です: ${value}（0 以上の日数）`);
+  }
+  return days;
+}
+
+/**
+ * Report Storeを作成（接続は呼び出し側で connect() する）
+ */
+export function createReportStore(config: ReportStoreFactoryConfig = {}): IReportStore {
+  const backend = config.backend || getReportStoreBackend();
+
+  return createFileReportStore({
+    directory: process.env.REPORT_STORE_PATH || undefined,
+    retentionDays: getReportRetentionDays(),
+    persist: backend === 'file',
+    ...config.file,
+  });
+}
+
+/**
+ * 保存先の表示用ラベル（ログ用）
+ */
+export function describeReportStore(backend: ReportStoreBackend = getReportStoreBackend()): string {
+  return backend === 'memory'
+    ? 'in-memory'
+    : `FileReportStore (${process.env.REPORT_STORE_PATH || getDefaultReportStoreDirectory()})`;
+}
+
+let globalReportStore: Promise<IReportStore> | null = null;
+
+/**
+ * Get or create global report store instance (connected)
+ */
+export function getReportStore(): Promise<IReportStore> {
+  if (!globalReportStore) {
+    const store = createReportStore();
+    globalReportStore = store.connect().then(() => store);
+
+    // 接続に失敗した場合は次回再試行
+    globalReportStore.catch(() => {
+      globalReportStore = null;
+    });
+  }
+
+  return globalReportStore;
+}
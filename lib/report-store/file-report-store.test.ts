@@ -0,0 +1,88 @@
+/**
+ * FileReportStore（レポートの保存・一覧・削除・保存期間）のテスト
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, it, expect } from 'vitest';
+import { createFileReportStore } from './file-report-store';
+import type { AnalysisReport } from '../types-v2';
+
+function makeReport(id: string, productId: string, generatedAt: string, totalViolations: number): AnalysisReport {
+  return {
+    id,
+    input: { full_text: `${id} の広告文`, product_id: productId },
+    structure: { overview: '広告', mainClaims: [], supportingStatements: [] },
+    segments: [],
+    evaluations: [],
+    summary: {
+      totalSegments: 1,
+      compliantSegments: totalViolations === 0 ? 1 : 0,
+      totalViolations,
+      violationsByType: {} as AnalysisReport['summary']['violationsByType'],
+      violationsBySeverity: {} as AnalysisReport['summary']['violationsBySeverity'],
+    },
+    markdown: `# ${id}`,
+    generatedAt,
+    totalProcessingTimeMs: 0,
+  } as AnalysisReport;
+}
+
+let tmpDir: string | undefined;
+
+afterEach(() => {
+  if (tmpDir) {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  }
+});
+
+describe('FileReportStore', () => {
+  it('should persist reports to files and reload them', async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-store-'));
+    const store = createFileReportStore({ directory: tmpDir, retentionDays: 0 });
+    await store.connect();
+    await store.save(makeReport('report_1', 'HA', '2024-01-01T00:00:00.000Z', 0));
+
+    expect(fs.existsSync(path.join(tmpDir, 'report_1.json'))).toBe(true);
+
+    const reloaded = createFileReportStore({ directory: tmpDir, retentionDays: 0 });
+    await reloaded.connect();
+    expect((await reloaded.get('report_1'))?.markdown).toBe('# report_1');
+    expect(await reloaded.get('../report_1')).toBeNull();
+
+    expect(await reloaded.delete('report_1')).toBe(true);
+    expect(await reloaded.delete('report_1')).toBe(false);
+    expect(fs.existsSync(path.join(tmpDir, 'report_1.json'))).toBe(false);
+  });
+
+  it('should list reports newest first with filters and pagination', async () => {
+    const store = createFileReportStore({ persist: false, retentionDays: 0 });
+    await store.connect();
+    await store.save(makeReport('report_1', 'HA', '2024-01-01T00:00:00.000Z', 0));
+    await store.save(makeReport('report_2', 'SH', '2024-01-15T00:00:00.000Z', 2));
+    await store.save(makeReport('report_3', 'HA', '2024-01-31T12:00:00.000Z', 1));
+
+    const all = await store.list({ pageSize: 2 });
+    expect(all).toMatchObject({ total: 3, page: 1, pageSize: 2, totalPages: 2 });
+    expect(all.reports.map(r => r.id)).toEqual(['report_3', 'report_2']);
+    expect((await store.list({ page: 2, pageSize: 2 })).reports.map(r => r.id)).toEqual(['report_1']);
+
+    expect((await store.list({ productId: 'HA' })).reports.map(r => r.id)).toEqual(['report_3', 'report_1']);
+    expect((await store.list({ status: 'non_compliant' })).reports.map(r => r.id)).toEqual(['report_3', 'report_2']);
+    expect((await store.list({ from: '2024-01-10', to: '2024-01-31' })).reports.map(r => r.id)).toEqual(['report_3', 'report_2']);
+  });
+
+  it('should purge reports older than the retention period', async () => {
+    const store = createFileReportStore({ persist: false, retentionDays: 30 });
+    await store.connect();
+    await store.save(makeReport('report_old', 'HA', new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString(), 0));
+    await store.save(makeReport('report_new', 'HA', new Date().toISOString(), 0));
+
+    expect(await store.get('report_old')).toBeNull();
+    expect((await store.list()).reports.map(r => r.id)).toEqual(['report_new']);
+    expect(await store.purgeExpired(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000))).toBe(1);
+    expect((await store.list()).total).toBe(0);
+  });
+});
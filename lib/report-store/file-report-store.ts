@@ -0,0 +1,249 @@
+/**
+ * File Report Store Implementation
+ *
+ * レポートを1件ずつJSONファイルとして保存する組み込みのReport Store（外部DB不要）
+ *
+ * - 保存先: .cache/reports/<reportId>.json（一時ファイルに書き込んでからリネーム）
+ * - 一覧・絞り込み用の概要（ReportSummary）のみメモリ上に保持し、本文は取得時にファイルから読み込む
+ * - retentionDays を過ぎたレポートは connect・保存・取得・一覧のたびに削除する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AnalysisReport } from '../types-v2';
+import type {
+  IReportStore,
+  ReportListQuery,
+  ReportListResult,
+  ReportSummary,
+} from './interface';
+
+export interface FileReportStoreConfig {
+  /** 保存先ディレクトリ（default: .cache/reports） */
+  directory?: string;
+  /** ファイルに保存するか（default: true、false の場合はメモリのみ） */
+  persist?: boolean;
+  /** 保存期間（日数、0 以下で無期限、default: 90） */
+  retentionDays?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const TEXT_PREVIEW_LENGTH = 80;
+
+/**
+ * ファイル名として安全なレポートID（generateReportId() の形式を含む）
+ */
+const REPORT_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * デフォルトの保存先ディレクトリ
+ */
+export function getDefaultReportStoreDirectory(): string {
+  return path.join(process.cwd(), '.cache', 'reports');
+}
+
+/**
+ * レポートIDの形式チェック（パストラバーサル対策）
+ */
+export function isValidReportId(id: string): boolean {
+  return REPORT_ID_PATTERN.test(id);
+}
+
+/**
+ * レポートから一覧用の概要を作成
+ */
+export function summarizeReport(report: AnalysisReport): ReportSummary {
+  const text = report.input.full_text.replace(/\s+/g, ' ').trim();
+
+  return {
+    id: report.id,
+    productId: report.input.product_id,
+    status: report.summary.totalViolations === 0 ? 'compliant' : 'non_compliant',
+    generatedAt: report.generatedAt,
+    totalSegments: report.summary.totalSegments,
+    totalViolations: report.summary.totalViolations,
+    ...(report.evaluationMode && { evaluationMode: report.evaluationMode }),
+    textPreview: text.length > TEXT_PREVIEW_LENGTH ? `${text.slice(0, TEXT_PREVIEW_LENGTH)}…` : text,
+  };
+}
+
+/**
+ * File Report Store Implementation
+ */
+export class FileReportStore implements IReportStore {
+  private summaries = new Map<string, ReportSummary>();
+  /** persist: false の場合のレポート本文 */
+  private memoryReports = new Map<string, AnalysisReport>();
+  private connected = false;
+  private directory: string;
+  private persist: boolean;
+  private retentionDays: number;
+
+  constructor(config: FileReportStoreConfig = {}) {
+    this.directory = config.directory || getDefaultReportStoreDirectory();
+    this.persist = config.persist !== false;
+    this.retentionDays = config.retentionDays ?? 90;
+  }
+
+  async connect(): Promise<void> {
+    this.summaries.clear();
+    this.memoryReports.clear();
+
+    if (this.persist && fs.existsSync(this.directory)) {
+      for (const fileName of fs.readdirSync(this.directory)) {
+        if (!fileName.endsWith('.json')) {
+          continue;
+        }
+
+        const filePath = path.join(this.directory, fileName);
+        try {
+          const report = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as AnalysisReport;
+          this.summaries.set(report.id, summarizeReport(report));
+        } catch (error) {
+          // 壊れたファイルは一覧から除外（削除はしない）
+          console.warn(`[FileReportStore] Skipped unreadable report (${filePath}): ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    this.connected = true;
+    const purged = await this.purgeExpired();
+    console.log(`[FileReportStore] ✅ Connected (${this.persist ? this.directory : 'in-memory'}, ${this.summaries.size} reports${purged > 0 ? `, purged ${purged}` : ''})`);
+  }
+
+  async save(report: AnalysisReport): Promise<void> {
+    this.assertConnected();
+
+    if (!isValidReportId(report.id)) {
+      throw new Error(`Invalid report ID: ${report.id}`);
+    }
+
+    if (this.persist) {
+      fs.mkdirSync(this.directory, { recursive: true });
+      const filePath = this.getFilePath(report.id);
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(report), 'utf-8');
+      fs.renameSync(tmpPath, filePath);
+    } else {
+      this.memoryReports.set(report.id, report);
+    }
+
+    this.summaries.set(report.id, summarizeReport(report));
+    await this.purgeExpired();
+  }
+
+  async get(id: string): Promise<AnalysisReport | null> {
+    this.assertConnected();
+    await this.purgeExpired();
+
+    if (!isValidReportId(id) || !this.summaries.has(id)) {
+      return null;
+    }
+
+    if (!this.persist) {
+      return this.memoryReports.get(id) || null;
+    }
+
+    const filePath = this.getFilePath(id);
+    if (!fs.existsSync(filePath)) {
+      // 別プロセスで削除された場合
+      this.summaries.delete(id);
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as AnalysisReport;
+  }
+
+  async list(query: ReportListQuery = {}): Promise<ReportListResult> {
+    this.assertConnected();
+    await this.purgeExpired();
+
+    const from = query.from ? new Date(query.from).getTime() : undefined;
+    // 日付のみ（YYYY-MM-DD）の上限はその日の終わりまで含める
+    const to = query.to
+      ? new Date(query.to).getTime() + (/^\d{4}-\d{2}-\d{2}$/.test(query.to) ? 24 * 60 * 60 * 1000 - 1 : 0)
+      : undefined;
+
+    const matched = Array.from(this.summaries.values())
+      .filter(summary => {
+        const generatedAt = new Date(summary.generatedAt).getTime();
+        return (!query.productId || summary.productId === query.productId)
+          && (!query.status || summary.status === query.status)
+          && (from === undefined || generatedAt >= from)
+          && (to === undefined || generatedAt <= to);
+      })
+      .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt) || b.id.localeCompare(a.id));
+
+    const pageSize = Math.min(Math.max(1, query.pageSize || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const page = Math.max(1, query.page || 1);
+
+    return {
+      reports: matched.slice((page - 1) * pageSize, page * pageSize),
+      total: matched.length,
+      page,
+      pageSize,
+      totalPages: Math.ceil(matched.length / pageSize),
+    };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.assertConnected();
+
+    if (!isValidReportId(id) || !this.summaries.has(id)) {
+      return false;
+    }
+
+    this.remove(id);
+    console.log(`[FileReportStore] Deleted report: ${id}`);
+    return true;
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    this.assertConnected();
+
+    if (this.retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = now.getTime() - this.retentionDays * 24 * 60 * 60 * 1000;
+    const expiredIds = Array.from(this.summaries.values())
+      .filter(summary => new Date(summary.generatedAt).getTime() < cutoff)
+      .map(summary => summary.id);
+
+    for (const id of expiredIds) {
+      this.remove(id);
+    }
+
+    if (expiredIds.length > 0) {
+      console.log(`[FileReportStore] Purged ${expiredIds.length} reports older than ${this.retentionDays} days`);
+    }
+    return expiredIds.length;
+  }
+
+  private remove(id: string): void {
+    this.summaries.delete(id);
+    this.memoryReports.delete(id);
+
+    if (this.persist) {
+      fs.rmSync(this.getFilePath(id), { force: true });
+    }
+  }
+
+  private getFilePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private assertConnected(): void {
+    if (!this.connected) {
+      throw new Error('Not connected to FileReportStore');
+    }
+  }
+}
+
+/**
+ * Factory function to create FileReportStore instance
+ */
+export function createFileReportStore(config: FileReportStoreConfig = {}): FileReportStore {
+  return new FileReportStore(config);
+}
@@ -0,0 +1,115 @@
+/**
+ * Report Store Interface
+ *
+ * 生成したレポート（AnalysisReport）の保存先を抽象化するインターフェース
+ * 過去のチェック結果の再表示・法務への共有リンク（GET /api/v2/reports/:id）に使用する
+ */
+
+import type { AnalysisReport } from '../types-v2';
+
+/**
+ * レポートの総合評価（違反なし = compliant）
+ */
+export type ReportStatus = 'compliant' | 'non_compliant';
+
+/**
+ * 一覧表示用のレポート概要
+ */
+export interface ReportSummary {
+  /** レポートID */
+  id: string;
+
+  /** 商品ID */
+  productId: string;
+
+  /** 総合評価 */
+  status: ReportStatus;
+
+  /** 生成日時（ISO timestamp） */
+  generatedAt: string;
+
+  /** セグメント数 */
+  totalSegments: number;
+
+  /** 違反数 */
+  totalViolations: number;
+
+  /** 評価モード */
+  evaluationMode?: AnalysisReport['evaluationMode'];
+
+  /** 広告文の先頭（一覧表示用） */
+  textPreview: string;
+}
+
+/**
+ * 一覧の検索条件
+ */
+export interface ReportListQuery {
+  /** 商品IDで絞り込み */
+  productId?: string;
+
+  /** 総合評価で絞り込み */
+  status?: ReportStatus;
+
+  /** 生成日時の下限（ISO timestamp または YYYY-MM-DD、この日時を含む） */
+  from?: string;
+
+  /** 生成日時の上限（ISO timestamp または YYYY-MM-DD（その日の終わりまで）、この日時を含む） */
+  to?: string;
+
+  /** ページ番号（1始まり、default: 1） */
+  page?: number;
+
+  /** 1ページの件数（default: 20） */
+  pageSize?: number;
+}
+
+/**
+ * 一覧の検索結果（生成日時の新しい順）
+ */
+export interface ReportListResult {
+  reports: ReportSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/**
+ * Report Store Interface
+ */
+export interface IReportStore {
+  /**
+   * 保存先を読み込み、保存期間を過ぎたレポートを削除
+   */
+  connect(): Promise<void>;
+
+  /**
+   * レポートを保存（同じIDのレポートは上書き）
+   */
+  save(report: AnalysisReport): Promise<void>;
+
+  /**
+   * レポートを取得（存在しない・保存期間切れの場合は null）
+   */
+  get(id: string): Promise<AnalysisReport | null>;
+
+  /**
+   * レポート一覧を取得
+   */
+  list(query?: ReportListQuery): Promise<ReportListResult>;
+
+  /**
+   * レポートを削除
+   *
+   * @returns 削除した場合 true、存在しない場合 false
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * 保存期間を過ぎたレポートを削除
+   *
+   * @returns 削除した件数
+   */
+  purgeExpired(now?: Date): Promise<number>;
+}
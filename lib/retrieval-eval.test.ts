@@ -0,0 +1,152 @@
+/**
+ * RAG検索評価ハーネス（ゴールドセット・recall@k・MRR）のテスト
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect } from 'vitest';
+import { EmbeddingService } from './embedding-service';
+import { createFakeLLMProvider } from './llm';
+import { createLexicalIndex } from './lexical-index';
+import { createRAGSearchService } from './rag-search';
+import {
+  RetrievalGoldSetError,
+  buildInMemoryKnowledgeIndex,
+  compareWithRetrievalBaseline,
+  evaluateRetrieval,
+  loadRetrievalBaseline,
+  loadRetrievalGoldSet,
+  scoreRetrieval,
+  validateRetrievalGoldSet,
+  type RetrievalEvalReport,
+  type RetrievalGoldSet,
+} from './retrieval-eval';
+import { createLocalVectorDB } from './vector-db/local-vector-db';
+import type { SearchResult } from './vector-db/interface';
+
+const result = (id: string, fileName: string, text = '', category = 'common'): SearchResult => ({
+  id,
+  text,
+  score: 0.5,
+  metadata: { fileName, category },
+});
+
+describe('loadRetrievalGoldSet', () => {
+  it('should load the bundled gold set and find every expected knowledge file', () => {
+    const goldSet = loadRetrievalGoldSet();
+
+    expect(goldSet.queries.length).toBeGreaterThanOrEqual(15);
+    expect(validateRetrievalGoldSet(goldSet)).toEqual([]);
+  });
+
+  it('should reject invalid gold sets', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'retrieval-gold-'));
+    const file = path.join(dir, 'gold.json');
+
+    try {
+      fs.writeFileSync(file, JSON.stringify({ version: 1, queries: [{ id: 'q1', productId: 'HA', text: '浸透', expected: [] }] }));
+      expect(() => loadRetrievalGoldSet(file)).toThrow(RetrievalGoldSetError);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('scoreRetrieval', () => {
+  it('should compute ranks, recall@k and reciprocal rank', () => {
+    const scored = scoreRetrieval(
+      {
+        id: 'q1',
+        productId: 'HA',
+        text: '浸透',
+        expected: [{ file: '07_浸透の範囲について.txt' }, { file: '55_まとめ.txt', section: '浸透' }],
+      },
+      [
+        result('a', '09_医療行為について.txt'),
+        result('b', '55_まとめ.txt', 'ギネスについて'),
+        result('c', '07_浸透の範囲について.txt'),
+        result('d', '55_まとめ.txt', '浸透は角質層まで'),
+      ],
+      [1, 3, 5]
+    );
+
+    expect(scored.expectedRanks.map(e => e.rank)).toEqual([3, 4]);
+    expect(scored.firstRelevantRank).toBe(3);
+    expect(scored.reciprocalRank).toBeCloseTo(1 / 3);
+    expect(scored.recallAtK).toEqual({ 1: 0, 3: 0.5, 5: 1 });
+  });
+
+  it('should rank common knowledge separately from the product-specific results listed before it', () => {
+    const scored = scoreRetrieval(
+      { id: 'q1', productId: 'HA', text: '浸透', expected: [{ file: '07_浸透の範囲について.txt' }] },
+      [
+        result('p1', 'HA_商品情報.txt', '', 'HA'),
+        result('p2', 'HA_商品情報.txt', '', 'HA'),
+        result('c1', '07_浸透の範囲について.txt'),
+      ],
+      [1, 3]
+    );
+
+    expect(scored.expectedRanks.map(e => e.rank)).toEqual([1]);
+    expect(scored.recallAtK).toEqual({ 1: 1, 3: 1 });
+  });
+});
+
+describe('evaluateRetrieval', () => {
+  it('should report recall@k, MRR and misses with the deterministic local embedder', async () => {
+    const provider = createFakeLLMProvider({ embeddingDimension: 256 });
+    const chunks = [
+      { id: 'c1', text: '浸透の範囲について。浸透は角質層までに限定すること。', metadata: { fileName: '07_浸透の範囲について.txt', category: 'common', priority: 1 as const } },
+      { id: 'c2', text: 'ギネス世界記録の表示には期間の注釈が必要。', metadata: { fileName: '44_ギネス世界記録™について.txt', category: 'common', priority: 1 as const } },
+    ];
+    const vectorDB = createLocalVectorDB({ persist: false });
+    await vectorDB.connect();
+    const embeddings = await provider.embed(chunks.map(c => c.text));
+    await vectorDB.upsert(chunks.map((c, i) => ({ ...c, embedding: embeddings[i] })));
+    const lexicalIndex = createLexicalIndex();
+    lexicalIndex.add(chunks);
+
+    const goldSet: RetrievalGoldSet = {
+      version: 1,
+      queries: [
+        { id: 'penetration', productId: 'HA', text: '角質層まで浸透', expected: [{ file: '07_浸透の範囲について.txt' }] },
+        { id: 'missing', productId: 'HA', text: '角質層まで浸透', expected: [{ file: '25_クマ表現について.txt' }] },
+      ],
+    };
+
+    const report = await evaluateRetrieval(
+      createRAGSearchService(new EmbeddingService({ provider }), vectorDB, lexicalIndex),
+      goldSet,
+      { k: [1, 5] }
+    );
+
+    expect(report.summary.recallAtK).toEqual({ 1: 0.5, 5: 0.5 });
+    expect(report.summary.mrr).toBe(0.5);
+    expect(report.summary.misses).toEqual([{ queryId: 'missing', expected: { file: '25_クマ表現について.txt' }, rank: null }]);
+  });
+
+  it('should not fall below the committed baseline with the bundled knowledge and gold set', async () => {
+    const provider = createFakeLLMProvider();
+    const { vectorDB, lexicalIndex } = await buildInMemoryKnowledgeIndex(provider);
+
+    const report = await evaluateRetrieval(
+      createRAGSearchService(new EmbeddingService({ provider }), vectorDB, lexicalIndex),
+      loadRetrievalGoldSet()
+    );
+
+    expect(compareWithRetrievalBaseline(report, loadRetrievalBaseline())).toEqual([]);
+  }, 60_000);
+});
+
+describe('compareWithRetrievalBaseline', () => {
+  it('should report metrics below the baseline and ignore k missing from the report', () => {
+    const report = {
+      summary: { k: [1, 5], recallAtK: { 1: 0.5, 5: 0.9 }, mrr: 0.6 },
+    } as unknown as RetrievalEvalReport;
+
+    expect(compareWithRetrievalBaseline(report, { version: 1, recallAtK: { '1': 0.6, '5': 0.9, '10': 1 }, mrr: 0.6 })).toEqual([
+      'recall@1: 50.0%（ベースライン: 60.0%）',
+    ]);
+  });
+});
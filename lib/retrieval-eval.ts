@@ -0,0 +1,459 @@
+/**
+ * Retrieval Evaluation Harness
+ * RAG検索の評価 - ゴールドセット（広告表現 → 取得されるべきナレッジ）に対して
+ * RAGSearchService を実行し、recall@k・MRR・クエリ別の取りこぼしを集計する。
+ *
+ * KnowledgeChunker・priorityBasedSearch・minSimilarity などを変更したときに、
+ * 検索品質が改善したか・劣化したかを数値で比較するために使用する。
+ *
+ * ゴールドセット: config/retrieval/gold-set.json
+ * - expected[].file: 取得されるべきナレッジファイル名
+ * - expected[].section: 指定時はこの語句を含むチャンクのみ正解（大きなまとめファイル用）
+ *
+ * RAGSearchService は商品固有ナレッジと共通ナレッジをそれぞれ topK 件検索して連結するため、
+ * 順位は商品固有・共通ナレッジそれぞれの検索結果内で数える。
+ *
+ * embeddingは FakeLLMProvider（文字バイグラムのハッシュ、決定的）に差し替えられるため、
+ * APIキー・ChromaDBなしでも実行できる（scripts/eval-retrieval.ts）。
+ *
+ * ベースライン: config/retrieval/baseline.json
+ * - 決定的なembedding・デフォルト設定での recall@k・MRR。これを下回った場合は劣化として報告する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { createKnowledgeLoaderForRAG } from './knowledge-loader-for-rag';
+import { createKnowledgeChunker } from './knowledge-chunker';
+import { shouldLoadFile } from './knowledge-mapping';
+import { createLexicalIndex, normalizeForLexicalSearch, type LexicalIndex } from './lexical-index';
+import { createLocalVectorDB, type LocalVectorDB } from './vector-db/local-vector-db';
+import { PRODUCT_IDS, type ProductId } from './types';
+import type { LLMProvider } from './llm/types';
+import type { RAGFusionOptions, RAGSearchService } from './rag-search';
+import type { SearchResult } from './vector-db/interface';
+
+const expectedKnowledgeSchema = z.object({
+  file: z.string().min(1),
+  section: z.string().min(1).optional(),
+});
+
+const goldQuerySchema = z.object({
+  id: z.string().min(1),
+  productId: z.string().min(1),
+  text: z.string().min(1),
+  expected: z.array(expectedKnowledgeSchema).min(1),
+  note: z.string().optional(),
+});
+
+export const retrievalGoldSetSchema = z.object({
+  version: z.literal(1),
+  description: z.string().optional(),
+  queries: z.array(goldQuerySchema).min(1),
+});
+
+export const retrievalBaselineSchema = z.object({
+  version: z.literal(1),
+  description: z.string().optional(),
+  /** k → recall@k */
+  recallAtK: z.record(z.string().regex(/^\d+$/), z.number().min(0).max(1)),
+  mrr: z.number().min(0).max(1),
+});
+
+export type ExpectedKnowledge = z.infer<typeof expectedKnowledgeSchema>;
+export type RetrievalGoldQuery = z.infer<typeof goldQuerySchema>;
+export type RetrievalGoldSet = z.infer<typeof retrievalGoldSetSchema>;
+export type RetrievalBaseline = z.infer<typeof retrievalBaselineSchema>;
+
+/**
+ * ゴールドセット・ベースラインの読み込みエラー
+ */
+export class RetrievalGoldSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetrievalGoldSetError';
+  }
+}
+
+export interface RetrievalEvalOptions {
+  /** recall@k を集計する k（default: [1, 3, 5, 10]） */
+  k?: number[];
+  /** 検索件数（default: 20、最大の k 以上にすること） */
+  topK?: number;
+  /** 最小類似度（default: 0.3） */
+  minSimilarity?: number;
+  /** ハイブリッド検索の融合設定 */
+  fusion?: RAGFusionOptions;
+}
+
+export interface RetrievalQueryResult {
+  id: string;
+  productId: string;
+  text: string;
+  /** 各期待ナレッジの順位（商品固有・共通ナレッジそれぞれの検索結果内、1始まり、取得されなければ null） */
+  expectedRanks: Array<ExpectedKnowledge & { rank: number | null }>;
+  /** 最初の正解チャンクの順位（1始まり、なければ null） */
+  firstRelevantRank: number | null;
+  reciprocalRank: number;
+  /** k → 取得できた期待ナレッジの割合 */
+  recallAtK: Record<number, number>;
+  /** 商品固有・共通ナレッジそれぞれ上位の検索結果（取りこぼし調査用） */
+  topResults: Array<{ id: string; fileName: string; score: number }>;
+}
+
+export interface RetrievalMiss {
+  queryId: string;
+  expected: ExpectedKnowledge;
+  /** 検索結果内の順位（最大の k より下位なら順位、取得されなければ null） */
+  rank: number | null;
+}
+
+export interface RetrievalEvalReport {
+  results: RetrievalQueryResult[];
+  summary: {
+    queries: number;
+    k: number[];
+    /** k → 全クエリ平均の recall@k */
+    recallAtK: Record<number, number>;
+    mrr: number;
+    /** 最大の k 以内に取得できなかった期待ナレッジ */
+    misses: RetrievalMiss[];
+  };
+}
+
+/**
+ * デフォルトのゴールドセットのパス
+ */
+export function getDefaultRetrievalGoldSetPath(): string {
+  return path.join(process.cwd(), 'config', 'retrieval', 'gold-set.json');
+}
+
+/**
+ * ゴールドセットを読み込み
+ *
+ * @throws RetrievalGoldSetError ファイルが存在しない・形式が不正な場合
+ */
+export function loadRetrievalGoldSet(filePath: string = getDefaultRetrievalGoldSetPath()): RetrievalGoldSet {
+  if (!fs.existsSync(filePath)) {
+    throw new RetrievalGoldSetError(`Gold set not found: ${filePath}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new RetrievalGoldSetError(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = retrievalGoldSetSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `  - ${issue.path.join('.')}: ${issue.message}`).join('\n');
+    throw new RetrievalGoldSetError(`Invalid gold set ${filePath}:\n${issues}`);
+  }
+
+  const ids = parsed.data.queries.map(q => q.id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    throw new RetrievalGoldSetError(`Duplicate query ids in ${filePath}: ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * デフォルトのベースラインのパス
+ */
+export function getDefaultRetrievalBaselinePath(): string {
+  return path.join(process.cwd(), 'config', 'retrieval', 'baseline.json');
+}
+
+/**
+ * ベースラインを読み込み
+ *
+ * @throws RetrievalGoldSetError ファイルが存在しない・形式が不正な場合
+ */
+export function loadRetrievalBaseline(filePath: string = getDefaultRetrievalBaselinePath()): RetrievalBaseline {
+  if (!fs.existsSync(filePath)) {
+    throw new RetrievalGoldSetError(`Baseline not found: ${filePath}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new RetrievalGoldSetError(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = retrievalBaselineSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `  - ${issue.path.join('.')}: ${issue.message}`).join('\n');
+    throw new RetrievalGoldSetError(`Invalid baseline ${filePath}:\n${issues}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * 評価結果からベースラインを作成
+ */
+export function toRetrievalBaseline(report: RetrievalEvalReport, description?: string): RetrievalBaseline {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    version: 1,
+    ...(description && { description }),
+    recallAtK: Object.fromEntries(report.summary.k.map(k => [String(k), round(report.summary.recallAtK[k])])),
+    mrr: round(report.summary.mrr),
+  };
+}
+
+/**
+ * 評価結果をベースラインと比較
+ *
+ * @returns ベースラインを下回った指標（空なら劣化なし）。ベースラインにない k は比較しない
+ */
+export function compareWithRetrievalBaseline(report: RetrievalEvalReport, baseline: RetrievalBaseline): string[] {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  // ベースラインは小数第3位に丸めて保存している
+  const tolerance = 0.0005;
+  const regressions: string[] = [];
+
+  for (const [k, expected] of Object.entries(baseline.recallAtK)) {
+    const actual = report.summary.recallAtK[Number(k)];
+    if (actual !== undefined && actual < expected - tolerance) {
+      regressions.push(`recall@${k}: ${percent(actual)}（ベースライン: ${percent(expected)}）`);
+    }
+  }
+
+  if (report.summary.mrr < baseline.mrr - tolerance) {
+    regressions.push(`MRR: ${report.summary.mrr.toFixed(3)}（ベースライン: ${baseline.mrr.toFixed(3)}）`);
+  }
+
+  return regressions;
+}
+
+/**
+ * ゴールドセットの期待ナレッジを検証
+ * ナレッジディレクトリに存在しないファイル、商品に割り当てられていない共通ナレッジ（検索で取得されない）を返す
+ *
+ * @param knowledgeDir - ナレッジディレクトリ（default: knowledge/）
+ * @returns 問題の一覧（空なら問題なし）
+ */
+export function validateRetrievalGoldSet(
+  goldSet: RetrievalGoldSet,
+  knowledgeDir: string = path.join(process.cwd(), 'knowledge')
+): string[] {
+  const listFiles = (category: string) => {
+    const dir = path.join(knowledgeDir, category);
+    return fs.existsSync(dir) ? fs.readdirSync(dir).map(normalizeForLexicalSearch) : [];
+  };
+  const commonFiles = new Set(listFiles('common'));
+  const productFiles = new Map<string, Set<string>>();
+
+  const problems: string[] = [];
+  for (const query of goldSet.queries) {
+    if (!(PRODUCT_IDS as readonly string[]).includes(query.productId)) {
+      problems.push(`${query.id}: unknown productId ${query.productId}`);
+      continue;
+    }
+    if (!productFiles.has(query.productId)) {
+      productFiles.set(query.productId, new Set(listFiles(query.productId)));
+    }
+
+    for (const expected of query.expected) {
+      const fileName = normalizeForLexicalSearch(expected.file);
+      if (productFiles.get(query.productId)!.has(fileName)) {
+        continue;
+      }
+      if (!commonFiles.has(fileName)) {
+        problems.push(`${query.id}: ${expected.file} not found in knowledge/common or knowledge/${query.productId}`);
+      } else if (!shouldLoadFile(query.productId as ProductId, expected.file)) {
+        problems.push(`${query.id}: ${expected.file} is not mapped to ${query.productId} in knowledge-mapping.csv`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * 検索結果のチャンクが期待ナレッジに一致するか
+ */
+function matchesExpected(result: SearchResult, expected: ExpectedKnowledge): boolean {
+  if (normalizeForLexicalSearch(String(result.metadata.fileName ?? '')) !== normalizeForLexicalSearch(expected.file)) {
+    return false;
+  }
+  return !expected.section || normalizeForLexicalSearch(result.text).includes(normalizeForLexicalSearch(expected.section));
+}
+
+/**
+ * 検索結果内の順位（1始まり、なければ null）
+ */
+function findRank(results: SearchResult[], predicate: (result: SearchResult) => boolean): number | null {
+  const index = results.findIndex(predicate);
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * 1クエリの検索結果を採点
+ *
+ * 順位は商品固有・共通ナレッジそれぞれの検索結果内で数える（共通ナレッジが商品固有の後ろに連結されるため）
+ */
+export function scoreRetrieval(
+  query: RetrievalGoldQuery,
+  searchResults: SearchResult[],
+  k: number[]
+): RetrievalQueryResult {
+  const groups = [
+    searchResults.filter(r => r.metadata.category !== 'common'),
+    searchResults.filter(r => r.metadata.category === 'common'),
+  ];
+  const rankInGroups = (predicate: (result: SearchResult) => boolean) => {
+    const ranks = groups.map(group => findRank(group, predicate)).filter((rank): rank is number => rank !== null);
+    return ranks.length > 0 ? Math.min(...ranks) : null;
+  };
+
+  const expectedRanks = query.expected.map(expected => ({
+    ...expected,
+    rank: rankInGroups(r => matchesExpected(r, expected)),
+  }));
+
+  const firstRelevantRank = rankInGroups(r => query.expected.some(expected => matchesExpected(r, expected)));
+
+  const recallAtK: Record<number, number> = {};
+  for (const cutoff of k) {
+    const found = expectedRanks.filter(e => e.rank !== null && e.rank <= cutoff).length;
+    recallAtK[cutoff] = found / expectedRanks.length;
+  }
+
+  return {
+    id: query.id,
+    productId: query.productId,
+    text: query.text,
+    expectedRanks,
+    firstRelevantRank,
+    reciprocalRank: firstRelevantRank ? 1 / firstRelevantRank : 0,
+    recallAtK,
+    topResults: groups.flatMap(group => group.slice(0, 5)).map(r => ({
+      id: r.id,
+      fileName: String(r.metadata.fileName ?? ''),
+      score: r.score,
+    })),
+  };
+}
+
+/**
+ * ゴールドセット全体を評価
+ *
+ * 強制語彙検索（forcedQueries）は使用しない（検索そのものの品質を測るため）
+ */
+export async function evaluateRetrieval(
+  ragSearchService: RAGSearchService,
+  goldSet: RetrievalGoldSet,
+  options: RetrievalEvalOptions = {}
+): Promise<RetrievalEvalReport> {
+  const k = Array.from(new Set(options.k || [1, 3, 5, 10])).sort((a, b) => a - b);
+  const maxK = k[k.length - 1];
+  const topK = Math.max(options.topK || 20, maxK);
+
+  const results: RetrievalQueryResult[] = [];
+  for (const query of goldSet.queries) {
+    const { searchResults } = await ragSearchService.search(query.text, {
+      topK,
+      minSimilarity: options.minSimilarity ?? 0.3,
+      productId: query.productId as ProductId,
+      fusion: options.fusion,
+    });
+    results.push(scoreRetrieval(query, searchResults, k));
+  }
+
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  const recallAtK: Record<number, number> = {};
+  for (const cutoff of k) {
+    recallAtK[cutoff] = mean(results.map(r => r.recallAtK[cutoff]));
+  }
+
+  const misses: RetrievalMiss[] = results.flatMap(r =>
+    r.expectedRanks
+      .filter(e => e.rank === null || e.rank > maxK)
+      .map(({ rank, ...expected }) => ({ queryId: r.id, expected, rank }))
+  );
+
+  return {
+    results,
+    summary: {
+      queries: results.length,
+      k,
+      recallAtK,
+      mrr: mean(results.map(r => r.reciprocalRank)),
+      misses,
+    },
+  };
+}
+
+/**
+ * 評価結果をテキストで整形
+ */
+export function formatRetrievalEvalReport(report: RetrievalEvalReport): string {
+  const { summary } = report;
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const maxK = summary.k[summary.k.length - 1];
+
+  const lines = [
+    `クエリ数: ${summary.queries}`,
+    ...summary.k.map(k => `recall@${k}: ${percent(summary.recallAtK[k])}`),
+    `MRR: ${summary.mrr.toFixed(3)}`,
+    '',
+    'クエリ別:',
+    ...report.results.map(r => {
+      const ranks = r.expectedRanks.map(e => `${e.file}${e.section ? `#${e.section}` : ''}=${e.rank ?? '-'}`).join(', ');
+      return `  ${r.firstRelevantRank && r.firstRelevantRank <= maxK ? '✓' : '✗'} ${r.id} (${r.productId}) RR=${r.reciprocalRank.toFixed(2)} ${ranks}`;
+    }),
+  ];
+
+  if (summary.misses.length > 0) {
+    lines.push('', `取りこぼし（上位${maxK}件に含まれない期待ナレッジ）: ${summary.misses.length}件`);
+    for (const miss of summary.misses) {
+      const result = report.results.find(r => r.id === miss.queryId)!;
+      lines.push(`  - ${miss.queryId}: ${miss.expected.file}${miss.expected.section ? `#${miss.expected.section}` : ''}（順位: ${miss.rank ?? '圏外'}）`);
+      lines.push(`    クエリ: ${result.text.substring(0, 60)}`);
+      lines.push(`    上位: ${Array.from(new Set(result.topResults.map(t => t.fileName))).join(' / ') || '(なし)'}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * ナレッジベース全体からメモリ上のVector DBと語彙インデックスを作成
+ * 評価用（ChromaDB・セットアップ済みVector DBを使わずに、指定プロバイダーのembeddingで索引する）
+ *
+ * @param provider - embeddingに使うLLMプロバイダー（FakeLLMProvider ならオフライン・決定的）
+ * @param knowledgeDir - ナレッジディレクトリ（default: knowledge/）
+ */
+export async function buildInMemoryKnowledgeIndex(
+  provider: LLMProvider,
+  knowledgeDir?: string
+): Promise<{ vectorDB: LocalVectorDB; lexicalIndex: LexicalIndex; chunkCount: number }> {
+  const loader = createKnowledgeLoaderForRAG(knowledgeDir);
+  const chunker = createKnowledgeChunker();
+
+  const files = await loader.loadAll();
+  const chunks = files.flatMap(file => chunker.chunk(file.content, file.metadata));
+
+  const vectorDB = createLocalVectorDB({ persist: false });
+  await vectorDB.connect();
+
+  const batchSize = 100;
+  for (let i = 0; i < chunks.length; i += batchSize) {
+    const batch = chunks.slice(i, i + batchSize);
+    const embeddings = await provider.embed(batch.map(c => c.text), { taskType: 'document' });
+    await vectorDB.upsert(batch.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] })));
+  }
+
+  const lexicalIndex = createLexicalIndex();
+  lexicalIndex.add(chunks);
+
+  return { vectorDB, lexicalIndex, chunkCount: chunks.length };
+}
@@ -7,6 +7,10 @@
 
 import { Token, SegmentCandidate, KeywordRule as _KeywordRule, SegmentationConfig } from './types';
 import { ProductConfig } from '../product-config.schema';
+import { getRequiredKeywords } from '../product-config-loader';
+import { loadVariantDictionary } from '../ng-keywords/variant-dictionary';
+import { loadMorphologicalAnalyzer } from '../morphological-analyzer';
+import { normalizeJapaneseText } from '../text-normalizer';
 
 /**
  * KeywordDetector
@@ -147,25 +151,32 @@ export class KeywordDetector {
   /**
    * 商品固有キーワードを検出
    *
-   * config/products/{productId}.json の annotationRules で required: true のキーワード
+   * config/products/{productId}.json の以下のキーワードを対象とする
+   * - annotationRules で required: true のキーワード（または segmentationKeywords.required）
+   * - segmentationKeywords.contextDependent / prohibited
+   *
+   * 表記ゆれ辞書（config/ng-keywords/variants.json）の表記も同じキーワードとして検出する
    */
   private static detectProductKeywords(tokens: Token[], productConfig: ProductConfig): SegmentCandidate[] {
     const candidates: SegmentCandidate[] = [];
 
-    if (!productConfig.annotationRules) {
+    const keywords = new Set<string>([
+      ...getRequiredKeywords(productConfig),
+      ...(productConfig.segmentationKeywords?.contextDependent || []),
+      ...(productConfig.segmentationKeywords?.prohibited || []),
+    ]);
+
+    if (keywords.size === 0) {
       return candidates;
     }
 
     const text = tokens.map((t) => t.text).join('');
+    const dictionary = loadVariantDictionary();
 
-    // annotationRules から required: true のキーワードを取得
-    for (const [keyword, rule] of Object.entries(productConfig.annotationRules)) {
-      if (!rule.required) {
-        continue;
-      }
-
-      // キーワードを含む文を検出
-      const pattern = new RegExp(`[^。\n]*${this.escapeRegExp(keyword)}[^。\n]*`, 'g');
+    for (const keyword of keywords) {
+      // キーワード（いずれかの表記）を含む文を検出
+      const spellings = dictionary.getSpellings(keyword).map((spelling) => this.escapeRegExp(spelling));
+      const pattern = new RegExp(`[^。\n]*(?:${spellings.join('|')})[^。\n]*`, 'g');
       const matches = this.findMatches(text, pattern, tokens);
 
       for (const match of matches) {
@@ -186,25 +197,36 @@ export class KeywordDetector {
    *
    * 全てのトークンタイプ（sentence, text, annotation-marker, annotation-text）を
    * セグメント候補として追加し、テキストの全範囲をカバーする
+   * sentence / text は形態素解析の文の区切りで候補にする（「すごい。」と話題！ のような
+   * 括弧内の句点では区切らない）。
    */
   private static detectSentences(tokens: Token[]): SegmentCandidate[] {
     const candidates: SegmentCandidate[] = [];
+    let run: Token[] = [];
+
+    const flushRun = () => {
+      candidates.push(...this.splitRunIntoSentences(run));
+      run = [];
+    };
 
     for (const token of tokens) {
+      if (token.type === 'sentence' || token.type === 'text') {
+        // 連続する sentence / text トークンはまとめて文に区切る
+        if (run.length > 0 && run[run.length - 1].end !== token.start) {
+          flushRun();
+        }
+        run.push(token);
+        continue;
+      }
+      flushRun();
+
       if (token.text.trim().length === 0) {
         continue; // 空白のみのトークンはスキップ
       }
 
       // 全てのトークンタイプをセグメント候補として追加
       // これにより、100%のテキストカバレッジを実現
-      if (token.type === 'sentence' || token.type === 'text') {
-        candidates.push({
-          tokens: [token],
-          type: 'explanation',
-          importance: 0.5,
-          priority: 10, // 低優先度
-        });
-      } else if (token.type === 'annotation-marker') {
+      if (token.type === 'annotation-marker') {
         // 注釈マーカーは後でマージされる可能性があるが、
         // マージされなかった場合のために候補として追加
         candidates.push({
@@ -224,6 +246,46 @@ export class KeywordDetector {
       }
     }
 
+    flushRun();
+
+    return candidates;
+  }
+
+  /**
+   * 連続する sentence / text トークンを文ごとのセグメント候補にする
+   *
+   * 各候補は文と重なるトークン（文の区切りがトークンの途中にある場合は両方の文に含まれる）。
+   */
+  private static splitRunIntoSentences(run: Token[]): SegmentCandidate[] {
+    if (run.length === 0) {
+      return [];
+    }
+
+    const runStart = run[0].start;
+    const normalized = normalizeJapaneseText(run.map(token => token.text).join(''));
+    const candidates: SegmentCandidate[] = [];
+    const seen = new Set<string>();
+
+    for (const sentence of loadMorphologicalAnalyzer().splitSentences(normalized.text)) {
+      const range = normalized.toOriginalRange(sentence.start, sentence.end);
+      const start = runStart + range.start;
+      const end = runStart + range.end;
+      const sentenceTokens = run.filter(token => token.start < end && token.end > start);
+
+      const key = sentenceTokens.map(token => token.start).join(',');
+      if (sentenceTokens.length === 0 || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      candidates.push({
+        tokens: sentenceTokens,
+        type: 'explanation',
+        importance: 0.5,
+        priority: 10, // 低優先度
+      });
+    }
+
     return candidates;
   }
 
@@ -225,7 +225,7 @@ export class SegmentBuilder {
       position: {
         start,
         end,
-        // lineは既存のSegment型に含まれていないため除外
+        line: originalText.slice(0, start).split('\n').length,
       },
     };
 
@@ -0,0 +1,71 @@
+/**
+ * 日本語テキストの正規化・オフセットマップのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeJapaneseText, normalizePattern } from './text-normalizer';
+import { checkAbsoluteNGKeywords, checkConditionalNGKeywords } from './ng-keywords/keyword-matcher';
+import type { AbsoluteNGKeyword, ConditionalNGKeyword } from './ng-keywords';
+
+describe('text-normalizer', () => {
+  it('全角英数字・半角カナ・空白・ゼロ幅文字を正規化する', () => {
+    expect(normalizeJapaneseText('ＮＯ．１').text).toBe('NO.1');
+    expect(normalizeJapaneseText('ｼﾜｶﾞｷｴﾙ').text).toBe('シワガキエル');
+    expect(normalizeJapaneseText('若\u3000返り').text).toBe('若返り');
+    expect(normalizeJapaneseText('若\u200B返り').text).toBe('若返り');
+    // 英単語の間の空白・改行は残す
+    expect(normalizeJapaneseText('Deep Patch\n若返り').text).toBe('Deep Patch\n若返り');
+  });
+
+  it('長音の表記ゆれと踊り字を正規化する', () => {
+    expect(normalizeJapaneseText('アンチエイジ―ング').text).toBe('アンチエイジーング');
+    expect(normalizeJapaneseText('ナンバーーワン').text).toBe('ナンバーワン');
+    expect(normalizeJapaneseText('ｱﾝﾁｴｲｼﾞﾝｸﾞ').text).toBe('アンチエイジング');
+    expect(normalizeJapaneseText('若々しい').text).toBe('若若しい');
+    expect(normalizeJapaneseText('いすゞ').text).toBe('いすず');
+    // 数字の範囲のハイフンは長音にしない
+    expect(normalizeJapaneseText('2020-2024').text).toBe('2020-2024');
+  });
+
+  it('正規化後の範囲を元のテキストの範囲に変換する', () => {
+    const normalized = normalizeJapaneseText('肌が若\u3000返り、ｼﾜｶﾞ消える');
+
+    const youth = normalized.text.indexOf('若返り');
+    expect(normalized.toOriginalRange(youth, youth + 3)).toEqual({ start: 2, end: 6 });
+
+    const wrinkle = normalized.text.indexOf('シワガ');
+    expect(normalized.toOriginalRange(wrinkle, wrinkle + 3)).toEqual({ start: 7, end: 11 });
+    expect(normalized.toNormalizedOffset(7)).toBe(wrinkle);
+    expect(normalized.toNormalizedOffset(3)).toBe(youth + 1);
+  });
+
+  it('ルールの正規表現に同じ正規化を適用し、正規化で生じた記号をエスケープする', () => {
+    expect(normalizePattern('若々しい|（税込）')).toBe('若若しい|\\(税込\\)');
+    expect(normalizePattern('※.{0,20}角質層')).toBe('※.{0,20}角質層');
+    expect(normalizePattern('[０-９]+％')).toBe('[0-9]+%');
+  });
+
+  it('NGキーワードを正規化後のテキストで検出し、元のテキストの位置・表記で返す', () => {
+    const absolute: AbsoluteNGKeyword[] = [{
+      keyword: ['若返り'],
+      category: 'rejuvenation',
+      severity: 'critical',
+      description: '若返りの表現は承認された効能効果を逸脱',
+      violationType: '薬機法違反',
+    }];
+    const [match] = checkAbsoluteNGKeywords('肌が若\u3000返り！', absolute);
+
+    expect(match.matchedText).toBe('若\u3000返り');
+    expect(match.position).toEqual({ start: 2, end: 6 });
+
+    const conditional: ConditionalNGKeyword[] = [{
+      keyword: '浸透',
+      category: 'penetration',
+      description: '浸透には角質層までの注釈が必要',
+      requiredAnnotation: '※.{0,20}角質層',
+      okExamples: ['浸透※1 ※1角質層まで'],
+      ngExamples: ['浸透'],
+    }];
+    expect(checkConditionalNGKeywords('浸\u200B透する', conditional)[0].position).toEqual({ start: 0, end: 3 });
+  });
+});
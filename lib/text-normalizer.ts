@@ -0,0 +1,228 @@
+/**
+ * Text Normalizer
+ * 日本語テキストの正規化（NGキーワード・ギネス記録等のルールエンジンで共通）
+ *
+ * 広告文の表記ゆれで違反を見逃さないよう、ルールエンジンは正規化後のテキストで照合し、
+ * 検出位置はオフセットマップで元のテキストの位置に戻して報告する。
+ *
+ * 正規化の内容:
+ * 1. NFKC（全角英数字・記号 → 半角、半角カナ → 全角カナ、半角の濁点・半濁点の結合）
+ * 2. ゼロ幅文字（U+200B〜U+200D・U+2060・U+FEFF）とソフトハイフンの除去
+ * 3. 日本語の文字に隣接する空白（全角スペースを含む）の除去（改行は残す）
+ * 4. カタカナの後のハイフン・ダッシュ・波線を長音符「ー」に統一し、連続する長音符を1つにまとめる
+ * 5. 踊り字（々・ゝ・ゞ・ヽ・ヾ）を直前の文字に展開
+ *
+ * ルールの正規表現にも normalizePattern() で同じ正規化を適用し、ルールとテキストの表記を揃える。
+ */
+
+/**
+ * 正規化したテキストと、元のテキストとの対応
+ */
+export interface NormalizedText {
+  /** 元のテキスト */
+  original: string;
+  /** 正規化後のテキスト */
+  text: string;
+  /** 正規化後の範囲 [start, end) を元のテキストの範囲に変換 */
+  toOriginalRange(start: number, end: number): { start: number; end: number };
+  /** 元のテキストの位置を正規化後の位置に変換（除去された文字の位置は次の文字の位置） */
+  toNormalizedOffset(offset: number): number;
+}
+
+/**
+ * 正規化後の1文字（UTF-16 単位）と元のテキストでの範囲
+ */
+interface MappedChar {
+  char: string;
+  start: number;
+  end: number;
+}
+
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF\u00AD]/;
+const HORIZONTAL_SPACE = /[^\S\r\n]/;
+/** 結合文字と半角の濁点・半濁点（直前の文字とまとめて NFKC を適用） */
+const COMBINING_MARK = /[\p{M}\uFF9E\uFF9F]/u;
+/** 長音の代わりに使われるハイフン・ダッシュ・波線 */
+const LONG_VOWEL_VARIANTS = /[-~\u2010-\u2015\u2212\u301C]/;
+const KATAKANA = /[\u30A1-\u30FA\u30FC]/;
+const HAN = /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/;
+const HIRAGANA = /[\u3041-\u3096]/;
+
+/**
+ * 正規化で ASCII の記号になった文字（全角括弧等）を正規表現のリテラルとして扱うためのエスケープ
+ */
+const REGEXP_SYNTAX = /[\\^$.|?*+()[\]{}/]/g;
+
+/**
+ * 日本語テキストを正規化し、元のテキストとのオフセットマップを作成
+ */
+export function normalizeJapaneseText(original: string): NormalizedText {
+  const chars = mergeLongVowels(expandIterationMarks(removeSpaces(toNfkcChars(original))));
+  const text = chars.map(c => c.char).join('');
+
+  return {
+    original,
+    text,
+    toOriginalRange(start: number, end: number) {
+      if (chars.length === 0) {
+        return { start: 0, end: 0 };
+      }
+      const from = Math.max(0, Math.min(start, chars.length));
+      const to = Math.max(from, Math.min(end, chars.length));
+      return {
+        start: from < chars.length ? chars[from].start : original.length,
+        end: to > from ? chars[to - 1].end : (from < chars.length ? chars[from].start : original.length),
+      };
+    },
+    toNormalizedOffset(offset: number) {
+      const index = chars.findIndex(c => c.end > offset);
+      return index < 0 ? text.length : index;
+    },
+  };
+}
+
+/**
+ * ルールの正規表現のソースに、テキストと同じ正規化を適用
+ *
+ * エスケープシーケンスと ASCII の文字（正規表現の構文）はそのまま残し、
+ * 非 ASCII の文字列のみ正規化する（正規化で生じた括弧・ピリオド等はエスケープする）。
+ */
+export function normalizePattern(source: string): string {
+  let result = '';
+  let literal = '';
+
+  const flush = () => {
+    if (literal) {
+      result += normalizeJapaneseText(literal).text.replace(REGEXP_SYNTAX, '\\$&');
+      literal = '';
+    }
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char.charCodeAt(0) > 0x7f) {
+      literal += char;
+      continue;
+    }
+    flush();
+    if (char === '\\' && i + 1 < source.length) {
+      result += source.slice(i, i + 2);
+      i++;
+    } else {
+      result += char;
+    }
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * 1. NFKC・ゼロ幅文字の除去（基底文字と後続の結合文字をまとめて正規化）
+ */
+function toNfkcChars(original: string): MappedChar[] {
+  const chars: MappedChar[] = [];
+  let i = 0;
+
+  while (i < original.length) {
+    const start = i;
+    i += codePointLength(original, i);
+    while (i < original.length && COMBINING_MARK.test(original[i])) {
+      i += codePointLength(original, i);
+    }
+
+    const unit = original.slice(start, i);
+    if (ZERO_WIDTH.test(unit)) {
+      continue;
+    }
+    for (const char of unit.normalize('NFKC').split('')) {
+      chars.push({ char, start, end: i });
+    }
+  }
+
+  return chars;
+}
+
+/**
+ * 2. 日本語の文字（非 ASCII）に隣接する空白の除去
+ */
+function removeSpaces(chars: MappedChar[]): MappedChar[] {
+  return chars.filter((c, index) => {
+    if (!HORIZONTAL_SPACE.test(c.char)) {
+      return true;
+    }
+    const previous = findNonSpace(chars, index, -1);
+    const next = findNonSpace(chars, index, 1);
+    return !((previous && isNonAscii(previous.char)) || (next && isNonAscii(next.char)));
+  });
+}
+
+/**
+ * 3. 踊り字の展開（々 → 直前の漢字、ゝゞ → 直前のひらがな、ヽヾ → 直前のカタカナ）
+ */
+function expandIterationMarks(chars: MappedChar[]): MappedChar[] {
+  const result: MappedChar[] = [];
+
+  for (const c of chars) {
+    const previous = result[result.length - 1]?.char;
+    let char = c.char;
+
+    if (previous && char === '々' && HAN.test(previous)) {
+      char = previous;
+    } else if (previous && (char === 'ゝ' || char === 'ゞ') && HIRAGANA.test(previous)) {
+      char = char === 'ゞ' ? voice(previous) : previous;
+    } else if (previous && (char === 'ヽ' || char === 'ヾ') && KATAKANA.test(previous) && previous !== 'ー') {
+      char = char === 'ヾ' ? voice(previous) : previous;
+    }
+
+    result.push({ ...c, char });
+  }
+
+  return result;
+}
+
+/**
+ * 4. カタカナの後の長音の表記ゆれを「ー」に統一し、連続する「ー」を1つにまとめる
+ */
+function mergeLongVowels(chars: MappedChar[]): MappedChar[] {
+  const result: MappedChar[] = [];
+
+  for (const c of chars) {
+    const previous = result[result.length - 1];
+    const char = previous && KATAKANA.test(previous.char) && LONG_VOWEL_VARIANTS.test(c.char) ? 'ー' : c.char;
+
+    if (char === 'ー' && previous?.char === 'ー') {
+      previous.end = c.end;
+      continue;
+    }
+    result.push({ ...c, char });
+  }
+
+  return result;
+}
+
+function findNonSpace(chars: MappedChar[], index: number, step: 1 | -1): MappedChar | undefined {
+  for (let i = index + step; i >= 0 && i < chars.length; i += step) {
+    if (!HORIZONTAL_SPACE.test(chars[i].char)) {
+      return chars[i];
+    }
+  }
+  return undefined;
+}
+
+function isNonAscii(char: string): boolean {
+  return char.charCodeAt(0) > 0x7f;
+}
+
+/**
+ * 濁点付きの文字（濁点を付けられない文字はそのまま）
+ */
+function voice(char: string): string {
+  const voiced = (char + '\u3099').normalize('NFC');
+  return voiced.length === 1 ? voiced : char;
+}
+
+function codePointLength(text: string, index: number): number {
+  const code = text.charCodeAt(index);
+  return code >= 0xd800 && code <= 0xdbff && index + 1 < text.length ? 2 : 1;
+}
@@ -9,6 +9,8 @@
  */
 
 import { ProductId, UserInput } from './types';
+import type { LLMProvider } from './llm/types';
+import type { VersionComparison, VersionDiff } from './ad-documents/version-diff';
 
 /**
  * Text structure analysis result
@@ -93,6 +95,64 @@ export interface KnowledgeReference {
   url?: string;
 }
 
+/**
+ * Approved exception (waiver) matched to a violation
+ * 承認済み例外 - config/waivers/<ProductId>.json で法務が承認した表現
+ */
+export interface ViolationWaiver {
+  /** Waiver identifier */
+  id: string;
+  /** Person or team who approved the expression */
+  approver: string;
+  /** Last valid date (YYYY-MM-DD, inclusive, JST) */
+  expiresAt: string;
+  /** Reason for the approval */
+  reason?: string;
+  /** approved: 有効な承認済み例外 / expired: 期限切れ（違反として扱う） */
+  status: 'approved' | 'expired';
+}
+
+/**
+ * Character span of a violation within the original text (input.full_text)
+ * 違反箇所 - レポート画面のハイライト表示に使用
+ */
+export interface ViolationSpan {
+  /** Starting character index in the original text (0-based) */
+  start: number;
+  /** Ending character index (exclusive) */
+  end: number;
+  /** Text at the span */
+  text: string;
+  /** keyword: NGキーワードの検出位置 / quote: 指摘で引用された表現の位置 */
+  source: 'keyword' | 'quote';
+  /** 表記ゆれ辞書で展開して検出した場合のルールの表記（text はルールと異なる表記） */
+  variantOf?: string;
+}
+
+/**
+ * 否定・注意書き・引用の文脈の判定（NGキーワードの検出箇所）
+ * - negation: 表現を否定している（〜ものではありません 等）
+ * - disclaimer: ※・注 等の注意書きの中
+ * - quotation: 「」等の引用の中（お客様の質問・体験談等）
+ */
+export type MatchContextKind = 'negation' | 'disclaimer' | 'quotation';
+
+/**
+ * suppressed: 違反から除外 / downgraded: 違反として残し重要度を引き下げ
+ */
+export type MatchContextAction = 'suppressed' | 'downgraded';
+
+export interface ViolationMatchContext {
+  kind: MatchContextKind;
+  action: MatchContextAction;
+  /** 判定の根拠となった表現（例: ものではありません、※、「） */
+  cue: string;
+  /** レビュー用の理由 */
+  reason: string;
+  /** 引き下げ前の重要度（downgraded の場合） */
+  originalSeverity?: ViolationSeverity | 'critical';
+}
+
 /**
  * Violation detected in a segment
  */
@@ -111,8 +171,21 @@ export interface Violation {
   confidence?: number;
   /** Additional context or notes */
   notes?: string;
+  /** Matched waiver (status 'approved' = 承認済み例外, 'expired' = still a violation) */
+  waiver?: ViolationWaiver;
+  /** Locations of the offending expression in the original text (empty if not located) */
+  spans?: ViolationSpan[];
+  /** Negation / disclaimer / quotation context of an NG keyword match (suppressed or downgraded) */
+  matchContext?: ViolationMatchContext;
 }
 
+/**
+ * How a segment was evaluated
+ * - llm: ルールベース検証 + Gemini によるレビュー
+ * - offline: ルールベース検証のみ（LLMレビュー未実施）
+ */
+export type EvaluationMode = 'llm' | 'offline';
+
 /**
  * Evaluation result for a single segment
  */
@@ -123,14 +196,37 @@ export interface SegmentEvaluation {
   compliance: boolean;
   /** List of violations found (empty if compliant) */
   violations: Violation[];
+  /** Violations covered by an active waiver (承認済み例外, not counted as violations) */
+  waivedViolations?: Violation[];
+  /** NG keyword matches suppressed by negation / disclaimer / quotation context (not counted as violations) */
+  suppressedViolations?: Violation[];
   /** Supporting evidence found (if any) */
   supportingEvidence?: string[];
+  /** Evaluation mode ('offline' = LLM review skipped) */
+  evaluationMode?: EvaluationMode;
   /** Evaluation timestamp */
   evaluatedAt: string;
   /** Processing time in milliseconds */
   processingTimeMs?: number;
 }
 
+/**
+ * Ad document version referenced by a report
+ * 改訂版のチェック: 前の版との差分と違反の比較（fixed / new / open）
+ */
+export interface ReportDocumentVersion {
+  /** Ad document ID */
+  documentId: string;
+  /** Version number */
+  version: number;
+  /** Version compared against (undefined for the first version) */
+  baseVersion?: number;
+  /** Segment diff summary against the base version */
+  diffSummary: VersionDiff['summary'];
+  /** Violations fixed / newly introduced / still open since the base version */
+  comparison?: VersionComparison;
+}
+
 /**
  * Complete analysis report
  */
@@ -157,7 +253,15 @@ export interface AnalysisReport {
     violationsByType: Record<ViolationType, number>;
     /** Violations by severity */
     violationsBySeverity: Record<ViolationSeverity, number>;
+    /** Violations covered by an active waiver (承認済み例外) */
+    waivedViolations?: number;
+    /** NG keyword matches suppressed by context (否定・注意書き・引用) */
+    suppressedViolations?: number;
   };
+  /** Evaluation mode of the whole report ('mixed' = some segments skipped LLM review) */
+  evaluationMode?: EvaluationMode | 'mixed';
+  /** Ad document version this report was generated for (広告文書の版) */
+  documentVersion?: ReportDocumentVersion;
   /** Final report in markdown format */
   markdown: string;
   /** Generation timestamp */
@@ -184,9 +288,11 @@ export interface RetryConfig {
  * Gemini API client configuration
  */
 export interface GeminiClientConfig {
-  /** Google Gemini API key */
-  apiKey: string;
-  /** Model name (default: gemini-2.5-flash-lite) */
+  /** Google Gemini API key (provider 指定時は不要) */
+  apiKey?: string;
+  /** LLM provider (default: Gemini provider created from apiKey) */
+  provider?: LLMProvider;
+  /** Model name (default: config/llm.json の models.evaluation) */
   model?: string;
   /** Request timeout in milliseconds */
   timeoutMs?: number;
@@ -42,6 +42,8 @@ export interface Segment {
   position?: {
     start: number;
     end: number;
+    /** 開始位置の行番号（1始まり） */
+    line?: number;
   };
 }
 
@@ -6,6 +6,18 @@
  */
 
 import type { Violation } from '../types-v2';
+import { applyWaiversToViolations, type WaiverOptions } from '../ng-keywords/waivers';
+import { mergeViolationSpans } from '../violation-spans';
+
+/**
+ * 承認済み例外の適用条件
+ */
+export interface ViolationWaiverContext extends WaiverOptions {
+  /** 商品ID（config/waivers/<productId>.json） */
+  productId: string;
+  /** セグメント本文（contextPattern の判定対象） */
+  segmentText: string;
+}
 
 /**
  * 違反の重複を除去
@@ -55,8 +67,9 @@ export function deduplicateViolations(violations: Violation[]): Violation[] {
  * - 参照ファイル（あれば）
  *
  * 注意: 違反タイプは含めない（同じキーワード・同じ問題なら、違反タイプに関係なく重複とみなす）
+ * 版の比較（lib/ad-documents/version-diff.ts）でも同じ違反の判定に使用する
  */
-function generateViolationKey(violation: Violation): string {
+export function generateViolationKey(violation: Violation): string {
   // descriptionからキーワードを抽出
   const keyword = extractKeyword(violation.description);
 
@@ -99,12 +112,25 @@ function extractKeyword(description: string): string {
  * 1. referenceKnowledge.fileがあるものを優先
  * 2. referenceKnowledge.excerptが長いものを優先
  * 3. descriptionが長いものを優先
+ *
+ * waiverContext を指定した場合、承認済み例外に一致する違反に waiver を付与する
+ * （status: 'approved' は splitWaivedViolations で違反から分離する）。
+ * 違反箇所（spans）は統合した違反のものを全て引き継ぐ。
  */
-export function mergeViolations(violations: Violation[]): Violation[] {
+export function mergeViolations(violations: Violation[], waiverContext?: ViolationWaiverContext): Violation[] {
   if (!violations || violations.length === 0) {
     return [];
   }
 
+  if (waiverContext) {
+    violations = applyWaiversToViolations(
+      violations,
+      waiverContext.productId,
+      waiverContext.segmentText,
+      waiverContext
+    );
+  }
+
   const violationMap = new Map<string, Violation>();
 
   for (const violation of violations) {
@@ -117,8 +143,15 @@ export function mergeViolations(violations: Violation[]): Violation[] {
       violationMap.set(key, violation);
     } else {
       // 既存のものとマージ（より詳細なものを優先）
+      // 承認済み例外の情報・違反箇所はどちらかに付いていれば引き継ぐ
       const merged = selectBetterViolation(existing, violation);
-      violationMap.set(key, merged);
+      const waiver = merged.waiver || existing.waiver || violation.waiver;
+      const spans = mergeViolationSpans(existing.spans, violation.spans);
+      violationMap.set(key, {
+        ...merged,
+        ...(waiver && { waiver }),
+        ...(spans.length > 0 && { spans }),
+      });
     }
   }
 
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { PRODUCT_IDS } from './types';
+import { evidenceDocumentSchema } from './evidence-matcher';
 
 /**
  * ユーザー入力のバリデーションスキーマ
@@ -34,6 +35,18 @@ export const segmentSchema = z.object({
   }).optional()
 });
 
+/**
+ * APIリクエストの商品IDスキーマ
+ *
+ * 形式のみを検証します。対応可否（config/products/<ID>.json の有無）は
+ * 各APIで assertSupportedProduct() により判定し、未対応の場合は
+ * UnsupportedProductError として返却します。
+ */
+export const productIdSchema = z.string({
+  required_error: '商品IDを選択してください',
+  invalid_type_error: '有効な商品IDを選択してください'
+}).min(1, '商品IDを選択してください');
+
 /**
  * セグメント化リクエストのバリデーションスキーマ
  * Issue #14: 入力制限を50,000文字 → 5,000文字に変更（現実的な上限）
@@ -42,10 +55,7 @@ export const segmentRequestSchema = z.object({
   text: z.string()
     .min(1, 'テキストを入力してください')
     .max(5000, '5,000文字以内で入力してください'),
-  productId: z.enum(['HA', 'SH'], {
-    required_error: '商品IDを選択してください',
-    invalid_type_error: '有効な商品ID（HA/SH）を選択してください'
-  }),
+  productId: productIdSchema,
   apiKey: z.string()
     .min(1, 'Gemini APIキーが必要です')
     .regex(/^[\w-]+$/, '無効なAPIキー形式です')
@@ -123,7 +133,28 @@ export const violationSchema = z.object({
     return val;
   }),
   confidence: z.number().min(0).max(1).optional(),
-  notes: z.string().optional()
+  notes: z.string().optional(),
+  waiver: z.object({
+    id: z.string(),
+    approver: z.string(),
+    expiresAt: z.string(),
+    reason: z.string().optional(),
+    status: z.enum(['approved', 'expired'])
+  }).optional(),
+  spans: z.array(z.object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    text: z.string(),
+    source: z.enum(['keyword', 'quote']),
+    variantOf: z.string().optional()
+  })).optional(),
+  matchContext: z.object({
+    kind: z.enum(['negation', 'disclaimer', 'quotation']),
+    action: z.enum(['suppressed', 'downgraded']),
+    cue: z.string(),
+    reason: z.string(),
+    originalSeverity: z.enum(['critical', 'high', 'medium', 'low']).optional()
+  }).optional()
 });
 
 /**
@@ -133,7 +164,10 @@ export const segmentEvaluationSchema = z.object({
   segmentId: z.string().min(1, '無効なセグメントIDです'),
   compliance: z.boolean(),
   violations: z.array(violationSchema),
+  waivedViolations: z.array(violationSchema).optional(),
+  suppressedViolations: z.array(violationSchema).optional(),
   supportingEvidence: z.array(z.string()).optional(),
+  evaluationMode: z.enum(['llm', 'offline']).optional(),
   evaluatedAt: z.string().datetime(),
   processingTimeMs: z.number().int().min(0).optional()
 });
@@ -157,4 +191,98 @@ export const reportRequestSchema = z.object({
   structure: textStructureSchema,
   segments: z.array(segmentV2Schema).min(1, '少なくとも1つのセグメントが必要です'),
   evaluations: z.array(segmentEvaluationSchema).min(1, '少なくとも1つの評価が必要です'),
+  document: z.object({
+    id: z.string().min(1),
+    version: z.number().int().min(1),
+  }).optional(), // 広告文書の版（指定時は前の版との違反の比較をレポートに含める）
+});
+
+/**
+ * Report list query schema (GET /api/v2/reports)
+ */
+export const reportListQuerySchema = z.object({
+  productId: productIdSchema.optional(),
+  status: z.enum(['compliant', 'non_compliant']).optional(),
+  from: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  to: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+/**
+ * Ad document creation schema (POST /api/v2/documents)
+ */
+export const adDocumentCreateSchema = z.object({
+  productId: productIdSchema,
+  title: z.string().max(200, '200文字以内で入力してください').optional(),
+});
+
+/**
+ * Ad document version schema (POST /api/v2/documents/:id/versions)
+ */
+export const adDocumentVersionSchema = z.object({
+  text: segmentRequestSchema.shape.text,
+  evidence: z.array(evidenceDocumentSchema).max(20).optional(),
+});
+
+/**
+ * Ad document version evaluations schema (PUT /api/v2/documents/:id/versions/:version)
+ */
+export const adDocumentEvaluationsSchema = z.object({
+  evaluations: z.array(segmentEvaluationSchema),
+});
+
+/**
+ * Job creation schema (POST /api/v2/jobs)
+ */
+export const jobCreateSchema = z.object({
+  text: segmentRequestSchema.shape.text,
+  productId: productIdSchema,
+  evidence: z.string().max(20000, '20,000文字以内で入力してください').optional(),
+  mode: z.enum(['llm', 'offline']).optional(),
+});
+
+/**
+ * Job list query schema (GET /api/v2/jobs)
+ */
+export const jobListQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional(),
+});
+
+/**
+ * Bulk check request schema (POST /api/v2/bulk)
+ * content はアップロードファイル（CSV / JSONL）の内容
+ */
+export const bulkCreateSchema = z.object({
+  content: z.string()
+    .min(1, 'ファイルが空です')
+    .max(5_000_000, 'ファイルは5MB以内にしてください'),
+  format: z.enum(['csv', 'jsonl']).optional(),
+  fileName: z.string().max(255).optional(),
+  mode: z.enum(['llm', 'offline']).optional(),
+});
+
+/**
+ * Report comparison request schema (POST /api/v2/report/compare)
+ * 比較元・比較先は保存済みレポートのID、またはレポート本体（/api/v2/report の出力）
+ */
+const comparableReportSchema = z.union([
+  z.object({
+    id: z.string().min(1, '無効なレポートIDです'),
+  }).strict(),
+  z.object({
+    report: z.object({
+      id: z.string().optional(),
+      input: userInputSchema.optional(),
+      segments: z.array(segmentV2Schema).min(1, '少なくとも1つのセグメントが必要です'),
+      evaluations: z.array(segmentEvaluationSchema),
+      generatedAt: z.string().optional(),
+    }),
+  }),
+]);
+
+export const reportCompareRequestSchema = z.object({
+  base: comparableReportSchema,
+  target: comparableReportSchema,
+  minSimilarity: z.number().min(0).max(1).optional(),
 });
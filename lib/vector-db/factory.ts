@@ -0,0 +1,63 @@
+/**
+ * Vector DB Factory
+ *
+ * 環境変数 VECTOR_DB で実装を切り替える:
+ * - chroma（default）: ChromaDBサーバー（CHROMA_URL）
+ * - local: プロセス内Vector DB（VECTOR_DB_PATH、default: .cache/vector-db/ad_checker_knowledge.json）
+ */
+
+import type { IVectorDB } from './interface';
+import { createChromaVectorDB, type ChromaDBConfig } from './chroma-db';
+import { createLocalVectorDB, type LocalVectorDBConfig } from './local-vector-db';
+
+export type VectorDBBackend = 'chroma' | 'local';
+
+export interface VectorDBFactoryConfig {
+  /** 実装（省略時は VECTOR_DB 環境変数、未設定なら chroma） */
+  backend?: VectorDBBackend;
+  /** ChromaDB設定（url 省略時は CHROMA_URL） */
+  chroma?: Partial<ChromaDBConfig>;
+  /** LocalVectorDB設定（filePath 省略時は VECTOR_DB_PATH） */
+  local?: LocalVectorDBConfig;
+}
+
+/**
+ * 使用するVector DB実装
+ *
+ * @throws Error VECTOR_DB が不正な場合
+ */
+export function getVectorDBBackend(): VectorDBBackend {
+  const backend = process.env.VECTOR_DB || 'chroma';
+  if (backend !== 'chroma' && backend !== 'local') {
+    throw new Error(`VECTOR_DB が不正です: ${backend}（chroma | local）`);
+  }
+  return backend;
+}
+
+/**
+ * Vector DBを作成（接続は呼び出し側で connect() する）
+ */
+export function createVectorDB(config: VectorDBFactoryConfig = {}): IVectorDB {
+  const backend = config.backend || getVectorDBBackend();
+
+  if (backend === 'local') {
+    return createLocalVectorDB({
+      filePath: process.env.VECTOR_DB_PATH || undefined,
+      ...config.local,
+    });
+  }
+
+  return createChromaVectorDB({
+    url: process.env.CHROMA_URL || 'http://localhost:8000',
+    ...config.chroma,
+  });
+}
+
+/**
+ * 接続先の表示用ラベル（ログ用）
+ */
+export function describeVectorDB(backend: VectorDBBackend = getVectorDBBackend()): string {
+  return backend === 'local'
+    ? `LocalVectorDB (${process.env.VECTOR_DB_PATH || '.cache/vector-db/ad_checker_knowledge.json'})`
+    : `ChromaDB (${process.env.CHROMA_URL || 'http://localhost:8000'})`;
+}
@@ -0,0 +1,62 @@
+/**
+ * Vector DB メタデータフィルター
+ *
+ * ChromaDBのwhere句と同じ形式でメタデータを判定する（LocalVectorDB・語彙インデックスで共通）
+ * - { key: value }（完全一致）
+ * - { key: { $eq | $ne | $in | $nin | $gt | $gte | $lt | $lte: operand } }
+ * - { $and: [...] }, { $or: [...] }
+ */
+
+import type { MetadataFilter, VectorDBDocument } from './interface';
+
+type Metadata = VectorDBDocument['metadata'];
+type MetadataValue = Metadata[string];
+
+/**
+ * ChromaDB形式のwhere句でメタデータを判定
+ */
+export function matchesFilter(metadata: Metadata, filter: MetadataFilter): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as MetadataFilter[]).every((sub) => matchesFilter(metadata, sub));
+    }
+    if (key === '$or') {
+      return (condition as MetadataFilter[]).some((sub) => matchesFilter(metadata, sub));
+    }
+    if (condition === undefined) {
+      return true;
+    }
+
+    const value = metadata[key];
+    if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+      return value === condition;
+    }
+
+    return Object.entries(condition as Record<string, unknown>).every(([op, operand]) =>
+      matchesOperator(value, op, operand)
+    );
+  });
+}
+
+function matchesOperator(value: MetadataValue, op: string, operand: unknown): boolean {
+  switch (op) {
+    case '$eq':
+      return value === operand;
+    case '$ne':
+      return value !== operand;
+    case '$in':
+      return (operand as unknown[]).includes(value);
+    case '$nin':
+      return !(operand as unknown[]).includes(value);
+    case '$gt':
+      return typeof value === 'number' && value > (operand as number);
+    case '$gte':
+      return typeof value === 'number' && value >= (operand as number);
+    case '$lt':
+      return typeof value === 'number' && value < (operand as number);
+    case '$lte':
+      return typeof value === 'number' && value <= (operand as number);
+    default:
+      throw new Error(`Unsupported filter operator: ${op}`);
+  }
+}
@@ -61,8 +61,64 @@ export interface SearchResult {
 
   /** 類似度スコア（0-1、高いほど類似） */
   score: number;
+
+  /** ハイブリッド検索の内訳（RAGSearchService が語彙検索と融合した場合のみ） */
+  retrieval?: {
+    /** ベクトル検索の類似度（ベクトル検索でヒットしなかった場合は undefined） */
+    vectorScore?: number;
+    /** 語彙検索（BM25）のスコア（語彙検索でヒットしなかった場合は undefined） */
+    lexicalScore?: number;
+    /** 強制語彙検索でヒットした語（NGキーワードなど） */
+    forcedBy?: string;
+  };
+}
+
+/**
+ * メタデータの値の条件（完全一致、または比較演算子）
+ */
+export type MetadataCondition =
+  | string
+  | number
+  | boolean
+  | {
+      $eq?: string | number | boolean;
+      $ne?: string | number | boolean;
+      $in?: Array<string | number | boolean>;
+      $nin?: Array<string | number | boolean>;
+      $gt?: number;
+      $gte?: number;
+      $lt?: number;
+      $lte?: number;
+    };
+
+/**
+ * メタデータのキーごとの条件
+ */
+export interface MetadataFieldFilter {
+  /** 商品IDでフィルタ */
+  productId?: MetadataCondition;
+
+  /** カテゴリでフィルタ */
+  category?: MetadataCondition;
+
+  /** ルールタイプでフィルタ */
+  ruleType?: MetadataCondition;
+
+  /** 重要度でフィルタ */
+  severity?: 'high' | 'medium' | 'low';
+
+  /** カスタムフィルター */
+  [key: string]: MetadataCondition | undefined;
 }
 
+/**
+ * メタデータフィルター（ChromaDBのwhere句と同じ形式。$and / $or で組み合わせ可能）
+ */
+export type MetadataFilter =
+  | MetadataFieldFilter
+  | { $and: MetadataFilter[] }
+  | { $or: MetadataFilter[] };
+
 /**
  * 検索オプション
  */
@@ -74,22 +130,7 @@ export interface SearchOptions {
   minScore?: number;
 
   /** メタデータフィルター */
-  filter?: {
-    /** 商品IDでフィルタ */
-    productId?: string;
-
-    /** カテゴリでフィルタ */
-    category?: string;
-
-    /** ルールタイプでフィルタ */
-    ruleType?: string;
-
-    /** 重要度でフィルタ */
-    severity?: 'high' | 'medium' | 'low';
-
-    /** カスタムフィルター */
-    [key: string]: string | number | boolean | undefined;
-  };
+  filter?: MetadataFilter;
 }
 
 /**
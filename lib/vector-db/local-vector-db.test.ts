@@ -0,0 +1,84 @@
+/**
+ * LocalVectorDB（プロセス内Vector DB）のテスト
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, it, expect } from 'vitest';
+import { createLocalVectorDB } from './local-vector-db';
+import { matchesFilter } from './filter';
+import type { VectorDBDocument } from './interface';
+
+const documents: VectorDBDocument[] = [
+  { id: 'ha-1', text: '浸透は角質層まで', embedding: [1, 0, 0], metadata: { fileName: 'a.txt', category: 'HA', productId: 'HA', priority: 1 } },
+  { id: 'ha-2', text: '注入表現', embedding: [0.8, 0.6, 0], metadata: { fileName: 'b.txt', category: 'HA', productId: 'HA', priority: 2 } },
+  { id: 'common-1', text: 'ギネス世界記録', embedding: [0, 1, 0], metadata: { fileName: 'c.txt', category: 'common', priority: 1 } },
+];
+
+let tmpDir: string | undefined;
+
+afterEach(() => {
+  if (tmpDir) {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  }
+});
+
+describe('LocalVectorDB', () => {
+  it('should search by cosine similarity with minScore and topK', async () => {
+    const db = createLocalVectorDB({ persist: false });
+    await db.connect();
+    await db.upsert(documents);
+
+    const results = await db.search([1, 0, 0], { topK: 5, minScore: 0.5 });
+    expect(results.map(r => r.id)).toEqual(['ha-1', 'ha-2']);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[1].score).toBeCloseTo(0.8);
+
+    expect(await db.search([1, 0, 0], { topK: 1, minScore: 0 })).toHaveLength(1);
+  });
+
+  it('should apply ChromaDB-style metadata filters to search and count', async () => {
+    const db = createLocalVectorDB({ persist: false });
+    await db.connect();
+    await db.upsert(documents);
+
+    const filtered = await db.search([1, 0, 0], {
+      minScore: 0,
+      filter: { $and: [{ productId: { $eq: 'HA' } }, { priority: { $eq: 2 } }] },
+    });
+    expect(filtered.map(r => r.id)).toEqual(['ha-2']);
+
+    expect(await db.count()).toBe(3);
+    expect(await db.count({ productId: 'HA' })).toBe(2);
+    expect(await db.count({ category: 'common' })).toBe(1);
+    expect(matchesFilter(documents[2].metadata, { $or: [{ productId: 'SH' }, { priority: { $lte: 1 } }] })).toBe(true);
+  });
+
+  it('should persist upserts, deletes and clear to the file', async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-vector-db-'));
+    const filePath = path.join(tmpDir, 'knowledge.json');
+
+    const db = createLocalVectorDB({ filePath });
+    await db.connect();
+    await db.upsert(documents);
+    await db.delete(['ha-2']);
+    await db.close();
+
+    const reopened = createLocalVectorDB({ filePath });
+    await reopened.connect();
+    expect(await reopened.count()).toBe(2);
+    expect((await reopened.search([0, 1, 0], { topK: 1 }))[0].text).toBe('ギネス世界記録');
+
+    await reopened.clear();
+    const cleared = createLocalVectorDB({ filePath });
+    await cleared.connect();
+    expect(await cleared.count()).toBe(0);
+  });
+
+  it('should require connect() before use', async () => {
+    const db = createLocalVectorDB({ persist: false });
+    await expect(db.count()).rejects.toThrow('Not connected to LocalVectorDB');
+  });
+});
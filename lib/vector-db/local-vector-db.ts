@@ -0,0 +1,251 @@
+/**
+ * Local Vector Database Implementation (In-process, file-persisted)
+ *
+ * ChromaDBサーバーなしで動作するpure TypeScriptのVector DB。
+ * 小規模デプロイ・テスト・Dockerなしの開発環境向け。
+ *
+ * - ドキュメントはメモリ上に保持し、変更時に .cache/vector-db/<collection>.json へ保存
+ * - 検索は全件のコサイン類似度（ナレッジベース規模（数千チャンク）なら十分高速）
+ * - フィルターはChromaDBのwhere句と同じ形式（{ key: value }, $eq/$ne/$in/$nin/$gt/$gte/$lt/$lte, $and/$or）
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  IVectorDB,
+  VectorDBDocument,
+  SearchResult,
+  SearchOptions,
+} from './interface';
+import { matchesFilter } from './filter';
+
+export interface LocalVectorDBConfig {
+  /** コレクション名（default: ad_checker_knowledge） */
+  collectionName?: string;
+  /** 保存先ファイル（default: .cache/vector-db/<collectionName>.json） */
+  filePath?: string;
+  /** ファイルに保存するか（default: true、false の場合はメモリのみ） */
+  persist?: boolean;
+}
+
+/**
+ * 保存ファイルの形式
+ */
+interface LocalVectorDBFile {
+  version: 1;
+  collectionName: string;
+  updatedAt: string;
+  documents: VectorDBDocument[];
+}
+
+type Metadata = VectorDBDocument['metadata'];
+
+/**
+ * デフォルトの保存先ファイル
+ */
+export function getDefaultLocalVectorDBPath(collectionName: string = 'ad_checker_knowledge'): string {
+  return path.join(process.cwd(), '.cache', 'vector-db', `${collectionName}.json`);
+}
+
+/**
+ * Local Vector Database Implementation
+ */
+export class LocalVectorDB implements IVectorDB {
+  private documents = new Map<string, VectorDBDocument>();
+  private norms = new Map<string, number>();
+  private connected = false;
+  private collectionName: string;
+  private filePath: string;
+  private persist: boolean;
+
+  constructor(config: LocalVectorDBConfig = {}) {
+    this.collectionName = config.collectionName || 'ad_checker_knowledge';
+    this.filePath = config.filePath || getDefaultLocalVectorDBPath(this.collectionName);
+    this.persist = config.persist !== false;
+  }
+
+  async connect(): Promise<void> {
+    this.documents.clear();
+    this.norms.clear();
+
+    if (this.persist && fs.existsSync(this.filePath)) {
+      try {
+        const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as LocalVectorDBFile;
+        for (const doc of data.documents) {
+          this.setDocument(doc);
+        }
+      } catch (error) {
+        throw new Error(`LocalVectorDB load failed (${this.filePath}): ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    this.connected = true;
+    console.log(`[LocalVectorDB] ✅ Connected (${this.persist ? this.filePath : 'in-memory'}, ${this.documents.size} documents)`);
+  }
+
+  async upsert(documents: VectorDBDocument[]): Promise<void> {
+    this.assertConnected();
+
+    if (documents.length === 0) {
+      console.warn('[LocalVectorDB] Upsert called with empty documents array');
+      return;
+    }
+
+    for (const doc of documents) {
+      if (!doc.embedding || doc.embedding.length === 0) {
+        throw new Error(`LocalVectorDB upsert failed: document ${doc.id} has no embedding`);
+      }
+      this.setDocument(doc);
+    }
+
+    this.save();
+    console.log(`[LocalVectorDB] ✅ Upserted ${documents.length} documents`);
+  }
+
+  async search(queryEmbedding: number[], options?: SearchOptions): Promise<SearchResult[]> {
+    this.assertConnected();
+
+    const topK = options?.topK || 20;
+    const minScore = options?.minScore ?? 0.5;
+    const filter = options?.filter;
+    const queryNorm = vectorNorm(queryEmbedding);
+
+    const results: SearchResult[] = [];
+    for (const doc of this.documents.values()) {
+      if (filter && !matchesFilter(doc.metadata, filter)) {
+        continue;
+      }
+
+      const score = cosineSimilarity(queryEmbedding, queryNorm, doc.embedding, this.norms.get(doc.id)!);
+      if (score < minScore) {
+        continue;
+      }
+
+      results.push({ id: doc.id, text: doc.text, metadata: doc.metadata, score });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, topK);
+  }
+
+  async count(filter?: SearchOptions['filter']): Promise<number> {
+    this.assertConnected();
+
+    if (!filter) {
+      return this.documents.size;
+    }
+
+    let count = 0;
+    for (const doc of this.documents.values()) {
+      if (matchesFilter(doc.metadata, filter)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    this.assertConnected();
+
+    for (const id of ids) {
+      this.documents.delete(id);
+      this.norms.delete(id);
+    }
+
+    this.save();
+    console.log(`[LocalVectorDB] Deleted ${ids.length} documents`);
+  }
+
+  async clear(): Promise<void> {
+    this.assertConnected();
+
+    this.documents.clear();
+    this.norms.clear();
+
+    this.save();
+    console.log(`[LocalVectorDB] Cleared collection: ${this.collectionName}`);
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+    console.log('[LocalVectorDB] Connection closed');
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * 保存先ファイルのパス
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private setDocument(doc: VectorDBDocument): void {
+    // undefined のメタデータはChromaDBと同様に保存しない
+    const metadata = Object.fromEntries(
+      Object.entries(doc.metadata || {}).filter(([, value]) => value !== undefined)
+    ) as Metadata;
+
+    this.documents.set(doc.id, { id: doc.id, text: doc.text, embedding: doc.embedding, metadata });
+    this.norms.set(doc.id, vectorNorm(doc.embedding));
+  }
+
+  /**
+   * ファイルに保存（一時ファイルに書き込んでからリネーム）
+   */
+  private save(): void {
+    if (!this.persist) {
+      return;
+    }
+
+    const data: LocalVectorDBFile = {
+      version: 1,
+      collectionName: this.collectionName,
+      updatedAt: new Date().toISOString(),
+      documents: Array.from(this.documents.values()),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data), 'utf-8');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private assertConnected(): void {
+    if (!this.connected) {
+      throw new Error('Not connected to LocalVectorDB');
+    }
+  }
+}
+
+function vectorNorm(vector: number[]): number {
+  let sum = 0;
+  for (const v of vector) {
+    sum += v * v;
+  }
+  return Math.sqrt(sum);
+}
+
+function cosineSimilarity(a: number[], normA: number, b: number[], normB: number): number {
+  if (a.length !== b.length) {
+    throw new Error(`Embedding dimension mismatch: query=${a.length}, document=${b.length}`);
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot / (normA * normB);
+}
+
+/**
+ * Factory function to create LocalVectorDB instance
+ */
+export function createLocalVectorDB(config: LocalVectorDBConfig = {}): LocalVectorDB {
+  return new LocalVectorDB(config);
+}
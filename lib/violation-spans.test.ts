@@ -0,0 +1,80 @@
+/**
+ * 違反箇所（spans）の計算・ハイライト区間のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  attachViolationSpans,
+  buildHighlightRanges,
+  extractQuotedExpressions,
+  toKeywordMatchSpan,
+} from './violation-spans';
+import type { SegmentEvaluation, Violation } from './types-v2';
+
+const violation = (description: string, severity: Violation['severity'] = 'high'): Violation => ({
+  type: '薬機法違反',
+  severity,
+  description,
+  referenceKnowledge: { file: 'knowledge/common/薬機法.txt', excerpt: null },
+  correctionSuggestion: '表現を修正してください',
+});
+
+describe('toKeywordMatchSpan / attachViolationSpans', () => {
+  const fullText = '目元ケアに。\nシワが消える美容液で、シワが消える毎日を。';
+  const segment = { id: 'seg_002', text: 'シワが消える美容液で、シワが消える毎日を。', position: { start: 7 } };
+
+  it('should offset keyword matches by the segment position', () => {
+    const span = toKeywordMatchSpan({ matchedText: '美容液', position: { start: 6, end: 9 } }, segment);
+
+    expect(span).toEqual({ start: 13, end: 16, text: '美容液', source: 'keyword' });
+    expect(fullText.slice(span!.start, span!.end)).toBe('美容液');
+    expect(toKeywordMatchSpan({ matchedText: '美容液', position: { start: 6, end: 9 } }, { id: 'x', text: '' })).toBeUndefined();
+  });
+
+  it('should locate every occurrence of quoted expressions for LLM findings', () => {
+    expect(extractQuotedExpressions('「シワが消える…毎日」という表現は『医薬品的』です')).toEqual(['シワが消える', '毎日', '医薬品的']);
+
+    const keywordSpan = { start: 13, end: 16, text: '美容液', source: 'keyword' as const };
+    const evaluations: SegmentEvaluation[] = [{
+      segmentId: 'seg_002',
+      compliance: false,
+      violations: [
+        violation('「シワが消える」という表現は効能効果の逸脱です'),
+        { ...violation('「美容液」の表示'), spans: [keywordSpan] },
+        violation('「ハリ」は見つからない表現です'),
+      ],
+      evaluatedAt: '2024-01-01T00:00:00.000Z',
+    }];
+
+    const [result] = attachViolationSpans(evaluations, [segment]);
+
+    expect(result.violations[0].spans?.map(s => fullText.slice(s.start, s.end))).toEqual(['シワが消える', 'シワが消える']);
+    expect(result.violations[0].spans?.[0].source).toBe('quote');
+    expect(result.violations[1].spans).toEqual([keywordSpan]);
+    expect(result.violations[2].spans).toBeUndefined();
+  });
+});
+
+describe('buildHighlightRanges', () => {
+  it('should split overlapping spans and keep the highest severity', () => {
+    const text = '今だけ半額でシワが消える';
+    const high = { ...violation('「シワが消える」'), spans: [{ start: 6, end: 12, text: 'シワが消える', source: 'quote' as const }] };
+    const medium = {
+      ...violation('「半額でシワ」', 'medium'),
+      spans: [
+        { start: 3, end: 8, text: '半額でシワ', source: 'quote' as const },
+        { start: 0, end: 3, text: '一致しない', source: 'quote' as const }, // 本文と一致しない位置は無視
+      ],
+    };
+
+    const ranges = buildHighlightRanges(text, [high, medium]);
+
+    expect(ranges.map(r => [r.text, r.severity, r.violations.length])).toEqual([
+      ['今だけ', undefined, 0],
+      ['半額で', 'medium', 1],
+      ['シワ', 'high', 2],
+      ['が消える', 'high', 1],
+    ]);
+    expect(ranges.map(r => r.text).join('')).toBe(text);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Violation Spans
+ * 違反箇所の文字位置（広告文全体 input.full_text に対する位置）
+ *
+ * - NGキーワード: KeywordMatch.position（セグメント内の位置）+ Segment.position.start
+ *   （表記ゆれで検出した場合は KeywordMatch.variantOf も保持）
+ * - LLMの指摘: description の「」『』で引用された表現をセグメント本文から検索
+ *
+ * レポート画面のハイライト表示（components/InlineAdView.tsx）で使用する。
+ * クライアントからも読み込むため、fs に依存するモジュールを import しないこと。
+ */
+
+import type { SegmentEvaluation, SegmentPosition, Violation, ViolationSeverity, ViolationSpan } from './types-v2';
+import type { KeywordMatch } from './ng-keywords/keyword-matcher';
+
+/**
+ * 位置の計算に使うセグメントの項目（position がない場合は位置を特定できない）
+ */
+export interface SpanSegment {
+  id: string;
+  text: string;
+  position?: Pick<SegmentPosition, 'start'>;
+}
+
+/**
+ * NGキーワードの検出位置を広告文全体の位置に変換
+ *
+ * @returns 違反箇所（セグメントの位置が不明な場合は undefined）
+ */
+export function toKeywordMatchSpan(
+  match: Pick<KeywordMatch, 'matchedText' | 'position' | 'variantOf'>,
+  segment: SpanSegment
+): ViolationSpan | undefined {
+  if (!segment.position) {
+    return undefined;
+  }
+
+  return {
+    start: segment.position.start + match.position.start,
+    end: segment.position.start + match.position.end,
+    text: match.matchedText,
+    source: 'keyword',
+    ...(match.variantOf && { variantOf: match.variantOf }),
+  };
+}
+
+/**
+ * description で引用された表現を抽出
+ *
+ * 例: 「シワが消える」という表現は… → ['シワが消える']
+ * 「今だけ…半額」のように省略記号を含む場合は前後を別の表現として扱う。
+ */
+export function extractQuotedExpressions(description: string): string[] {
+  const expressions: string[] = [];
+
+  for (const match of description.matchAll(/[「『]([^」』]+)[」』]/g)) {
+    for (const part of match[1].split(/…+|\.{3,}|[〜～]/)) {
+      const expression = part.trim();
+      if (expression.length >= 2 && !expressions.includes(expression)) {
+        expressions.push(expression);
+      }
+    }
+  }
+
+  return expressions;
+}
+
+/**
+ * description で引用された表現をセグメント本文から検索
+ *
+ * @returns 違反箇所（見つからない・セグメントの位置が不明な場合は空配列）
+ */
+export function locateQuotedSpans(violation: Pick<Violation, 'description'>, segment: SpanSegment): ViolationSpan[] {
+  if (!segment.position) {
+    return [];
+  }
+
+  const spans: ViolationSpan[] = [];
+  for (const expression of extractQuotedExpressions(violation.description)) {
+    let index = segment.text.indexOf(expression);
+    while (index >= 0) {
+      spans.push({
+        start: segment.position.start + index,
+        end: segment.position.start + index + expression.length,
+        text: expression,
+        source: 'quote',
+      });
+      index = segment.text.indexOf(expression, index + expression.length);
+    }
+  }
+
+  return mergeViolationSpans(spans);
+}
+
+/**
+ * 違反箇所の統合（同じ位置の重複を除き、開始位置順に並べる）
+ */
+export function mergeViolationSpans(...spanLists: Array<ViolationSpan[] | undefined>): ViolationSpan[] {
+  const spans = new Map<string, ViolationSpan>();
+  for (const span of spanLists.flatMap(list => list || [])) {
+    const key = `${span.start}:${span.end}`;
+    // NGキーワードの検出位置を優先
+    if (!spans.has(key) || span.source === 'keyword') {
+      spans.set(key, span);
+    }
+  }
+
+  return Array.from(spans.values()).sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * 違反箇所が未設定の違反（LLMの指摘など）に、引用された表現の位置を設定
+ */
+export function attachViolationSpans<T extends SegmentEvaluation>(evaluations: T[], segments: SpanSegment[]): T[] {
+  const segmentMap = new Map(segments.map(segment => [segment.id, segment]));
+
+  const withSpans = (violations: Violation[], segment: SpanSegment): Violation[] => violations.map(violation => {
+    if (violation.spans && violation.spans.length > 0) {
+      return violation;
+    }
+    const spans = locateQuotedSpans(violation, segment);
+    return spans.length > 0 ? { ...violation, spans } : violation;
+  });
+
+  return evaluations.map(evaluation => {
+    const segment = segmentMap.get(evaluation.segmentId);
+    if (!segment?.position) {
+      return evaluation;
+    }
+
+    return {
+      ...evaluation,
+      violations: withSpans(evaluation.violations, segment),
+      ...(evaluation.waivedViolations && { waivedViolations: withSpans(evaluation.waivedViolations, segment) }),
+      ...(evaluation.suppressedViolations && { suppressedViolations: withSpans(evaluation.suppressedViolations, segment) }),
+    };
+  });
+}
+
+/**
+ * ハイライト表示の区間（広告文全体を違反箇所の境界で分割したもの）
+ */
+export interface HighlightRange {
+  start: number;
+  end: number;
+  text: string;
+  /** この区間を含む違反（違反箇所がない区間は空配列） */
+  violations: Violation[];
+  /** 含まれる違反の最も高い重要度 */
+  severity?: ViolationSeverity;
+}
+
+const SEVERITY_RANK: Record<ViolationSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+/**
+ * 広告文全体を違反箇所の境界で分割
+ *
+ * 違反箇所の位置と本文が一致しない場合（別の広告文のレポートなど）はその違反箇所を無視する。
+ * 重なり合う違反箇所は区間ごとに全ての違反を保持し、最も高い重要度で表示する。
+ */
+export function buildHighlightRanges(fullText: string, violations: Violation[]): HighlightRange[] {
+  const located = violations.flatMap(violation => (violation.spans || [])
+    .filter(span => span.end > span.start && fullText.slice(span.start, span.end) === span.text)
+    .map(span => ({ span, violation })));
+
+  const boundaries = Array.from(new Set([
+    0,
+    fullText.length,
+    ...located.flatMap(({ span }) => [span.start, span.end]),
+  ])).sort((a, b) => a - b);
+
+  const ranges: HighlightRange[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const covering = located
+      .filter(({ span }) => span.start <= start && span.end >= end)
+      .map(({ violation }) => violation)
+      .filter((violation, index, list) => list.indexOf(violation) === index);
+
+    const severity = covering.reduce<ViolationSeverity | undefined>(
+      (max, v) => (!max || SEVERITY_RANK[v.severity] > SEVERITY_RANK[max] ? v.severity : max),
+      undefined
+    );
+
+    ranges.push({
+      start,
+      end,
+      text: fullText.slice(start, end),
+      violations: covering,
+      ...(severity && { severity }),
+    });
+  }
+
+  return ranges;
+}
@@ -8,6 +8,8 @@ const nextConfig = {
   // Exclude ChromaDB from client-side bundles (server-only)
   experimental: {
     serverComponentsExternalPackages: ['chromadb'],
+    // instrumentation.ts（起動時の中断ジョブの再開）
+    instrumentationHook: true,
   },
 
   // Production optimizations
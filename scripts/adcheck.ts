@@ -0,0 +1,247 @@
+#!/usr/bin/env tsx
+/**
+ * 広告文チェックCLI（CI用）
+ *
+ * リポジトリで管理しているLP・バナーの広告文ファイルをチェックし、違反の最大重要度を終了コードで返す。
+ * マージ前のCIで実行し、--fail-on 以上の違反があればジョブを失敗させる。
+ *
+ * 使用方法:
+ *   npm run adcheck -- check <files...> [options]
+ *   npx tsx scripts/adcheck.ts check copy/ha/lp.md --product HA --format json --fail-on high
+ *   npx tsx scripts/adcheck.ts check "copy/{ha,sh}/*.md" --products config/adcheck-products.json
+ *
+ * オプション:
+ *   --product <ID>               商品ID（--products の対応表に一致しないファイルにも使用）
+ *   --products <path>            商品の対応表（JSON: { "<globパターン>": "<商品ID>" }、先に書いたパターンを優先）
+ *   --format json|md|sarif       出力形式（default: md、sarif: SARIF 2.1.0）
+ *   --knowledge-base-uri <uri>   SARIF のルールの helpUri に付けるナレッジファイルの接頭辞
+ *                                （例: https://github.com/<org>/<repo>/blob/main/）
+ *   --fail-on low|medium|high|critical
+ *                                この重要度以上の違反がある場合に失敗（default: low）
+ *   --mode offline|llm           offline: ルールベース検証のみ（APIキー不要）
+ *                                llm: config/llm.json のプロバイダーでレビュー
+ *                                省略時は /api/v2/evaluate-batch と同じく APIキー・LLM_MODE で判定
+ *   --output <path>              結果をファイルに出力（省略時は標準出力）
+ *
+ * 終了コード:
+ *   0   --fail-on 以上の違反なし
+ *   1-4 検出した違反の最大重要度（1: low, 2: medium, 3: high, 4: critical）
+ *   64  引数・ファイル・商品の対応表が不正
+ *   70  チェック中にエラーが発生
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  COPY_CHECK_FORMATS,
+  CopyCheckError,
+  SEVERITIES,
+  checkCopy,
+  expandCopyFiles,
+  formatCopyCheckJson,
+  formatCopyCheckMarkdown,
+  formatCopyCheckSarif,
+  getCopyCheckExitCode,
+  parseProductMapping,
+  resolveProductId,
+  type CopyCheckFormat,
+  type CopyCheckResult,
+  type CopySegmentEvaluator,
+  type ProductMappingEntry,
+} from '../lib/copy-check';
+import { createOfflineEvaluator } from '../lib/offline-evaluator';
+import { isProductSupported } from '../lib/product-config-loader';
+import { isAbsoluteUri } from '../lib/report-sarif';
+import type { ProductId } from '../lib/types';
+import type { EvaluationMode, SegmentEvaluation, ViolationSeverity } from '../lib/types-v2';
+
+/** config/・knowledge/ の親ディレクトリ（チェック対象のファイルは実行時のカレントディレクトリから読み込む） */
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const EXIT_USAGE_ERROR = 64;
+const EXIT_RUNTIME_ERROR = 70;
+
+/** /api/v2/evaluate-batch に1回で送るセグメント数（非同期ジョブと同じ） */
+const LLM_BATCH_SIZE = 20;
+
+const VALUE_OPTIONS = ['--product', '--products', '--format', '--fail-on', '--mode', '--output', '--knowledge-base-uri'];
+
+interface CheckOptions {
+  files: string[];
+  product?: string;
+  products?: string;
+  format: CopyCheckFormat;
+  failOn: ViolationSeverity;
+  mode?: EvaluationMode;
+  output?: string;
+  knowledgeBaseUri?: string;
+}
+
+function parseArgs(args: string[]): CheckOptions {
+  const [command, ...rest] = args;
+  if (command !== 'check') {
+    throw new CopyCheckError('使用方法: adcheck check <files...> [--product <ID>] [--products <path>] [--format json|md|sarif] [--fail-on <severity>] [--mode offline|llm]');
+  }
+
+  const files: string[] = [];
+  const values: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      files.push(arg);
+      continue;
+    }
+    if (!VALUE_OPTIONS.includes(arg)) {
+      throw new CopyCheckError(`不明なオプションです: ${arg}`);
+    }
+    if (rest[i + 1] === undefined) {
+      throw new CopyCheckError(`${arg} の値がありません`);
+    }
+    values[arg] = rest[++i];
+  }
+
+  const format = values['--format'] || 'md';
+  if (!COPY_CHECK_FORMATS.includes(format as CopyCheckFormat)) {
+    throw new CopyCheckError(`--format が不正です: ${format}（${COPY_CHECK_FORMATS.join(' | ')}）`);
+  }
+  const failOn = values['--fail-on'] || 'low';
+  if (!SEVERITIES.includes(failOn as ViolationSeverity)) {
+    throw new CopyCheckError(`--fail-on が不正です: ${failOn}（${SEVERITIES.join(' | ')}）`);
+  }
+  const mode = values['--mode'];
+  if (mode !== undefined && mode !== 'offline' && mode !== 'llm') {
+    throw new CopyCheckError(`--mode が不正です: ${mode}（offline | llm）`);
+  }
+  const knowledgeBaseUri = values['--knowledge-base-uri'];
+  if (knowledgeBaseUri !== undefined && !isAbsoluteUri(knowledgeBaseUri)) {
+    throw new CopyCheckError(`--knowledge-base-uri は絶対 URI で指定してください: ${knowledgeBaseUri}（例: https://github.com/<org>/<repo>/blob/main/）`);
+  }
+  if (files.length === 0) {
+    throw new CopyCheckError('チェックするファイルを指定してください');
+  }
+  if (!values['--product'] && !values['--products']) {
+    throw new CopyCheckError('--product または --products を指定してください');
+  }
+
+  return {
+    files,
+    product: values['--product'],
+    products: values['--products'],
+    format: format as CopyCheckFormat,
+    failOn: failOn as ViolationSeverity,
+    mode,
+    output: values['--output'],
+    knowledgeBaseUri,
+  };
+}
+
+/**
+ * 評価方法の選択（offline は OfflineEvaluator を直接使用、それ以外は /api/v2/evaluate-batch のハンドラーを呼び出す）
+ */
+async function createEvaluator(productId: ProductId, mode?: EvaluationMode): Promise<CopySegmentEvaluator> {
+  if (mode === 'offline') {
+    const evaluator = createOfflineEvaluator(productId);
+    return async (segments, fullText) => evaluator.evaluate(segments, fullText);
+  }
+
+  const { NextRequest } = await import('next/server');
+  const { POST: evaluateBatchHandler } = await import('../app/api/v2/evaluate-batch/route');
+
+  return async (segments, fullText) => {
+    const evaluations: SegmentEvaluation[] = [];
+    for (let i = 0; i < segments.length; i += LLM_BATCH_SIZE) {
+      const response = await evaluateBatchHandler(new NextRequest('http://localhost/api/v2/evaluate-batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ segments: segments.slice(i, i + LLM_BATCH_SIZE), productId, fullText, mode }),
+      }));
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(`/api/v2/evaluate-batch: ${result.error || `HTTP ${response.status}`}`);
+      }
+      evaluations.push(...result.data.evaluations);
+    }
+    return evaluations;
+  };
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+
+  // ファイル・対応表・出力先はカレントディレクトリ基準で解決し、商品設定・ルールはリポジトリから読み込む
+  const files = expandCopyFiles(options.files);
+  const texts = new Map(files.map(file => [file, readFile(file)]));
+  const mappingContent = options.products ? readFile(options.products) : undefined;
+  const outputPath = options.output && path.resolve(options.output);
+  const cwd = process.cwd();
+  process.chdir(REPO_ROOT);
+
+  if (options.product && !isProductSupported(options.product)) {
+    throw new CopyCheckError(`未対応の商品です: ${options.product}`);
+  }
+  const fallback = options.product as ProductId | undefined;
+  const mapping: ProductMappingEntry[] = mappingContent ? parseProductMapping(mappingContent) : [];
+
+  const targets = files.map(file => ({ file, productId: resolveProductId(file, mapping, fallback) }));
+  const unmapped = targets.filter(target => !target.productId).map(target => target.file);
+  if (unmapped.length > 0) {
+    throw new CopyCheckError(`商品の対応表に一致しないファイルがあります（--product で既定の商品を指定できます）:\n${unmapped.map(file => `  - ${file}`).join('\n')}`);
+  }
+
+  // ルール・評価のログを抑制し、結果のみを出力（進捗は標準エラー出力）
+  const originalLog = console.log;
+  const originalWarn = console.warn;
+  console.log = () => {};
+  console.warn = () => {};
+
+  const results: CopyCheckResult[] = [];
+  try {
+    const evaluators = new Map<ProductId, CopySegmentEvaluator>();
+    for (const { file, productId } of targets) {
+      const id = productId!;
+      if (!evaluators.has(id)) {
+        evaluators.set(id, await createEvaluator(id, options.mode));
+      }
+      const result = await checkCopy(file, texts.get(file)!, id, evaluators.get(id)!);
+      results.push(result);
+      process.stderr.write(`${result.report.summary.totalViolations > 0 ? '❌' : '✅'} ${file} (${id}): ${result.report.summary.totalViolations}件の違反\n`);
+    }
+  } finally {
+    console.log = originalLog;
+    console.warn = originalWarn;
+  }
+
+  const output = options.format === 'json'
+    ? formatCopyCheckJson(results)
+    : options.format === 'sarif'
+      ? formatCopyCheckSarif(results, { knowledgeBaseUri: options.knowledgeBaseUri }, cwd)
+      : formatCopyCheckMarkdown(results);
+  if (outputPath) {
+    fs.writeFileSync(outputPath, output, 'utf-8');
+  } else {
+    // パイプ出力が process.exit で途切れないよう書き込み完了を待つ
+    await new Promise(resolve => process.stdout.write(output, resolve));
+  }
+
+  return getCopyCheckExitCode(results, options.failOn);
+}
+
+function readFile(file: string): string {
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch {
+    throw new CopyCheckError(`ファイルを読み込めません: ${file}`);
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    if (error instanceof CopyCheckError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(EXIT_USAGE_ERROR);
+    }
+    console.error('❌ Check failed:', error);
+    process.exit(EXIT_RUNTIME_ERROR);
+  });
@@ -0,0 +1,194 @@
+#!/usr/bin/env tsx
+/**
+ * NGキーワード照合ベンチマーク
+ *
+ * 合成した広告文コーパス（ルールの okExamples / ngExamples と一般的な文を組み合わせた文）で、
+ * - キーワードの照合: Aho-Corasick（keyword-automaton）と、キーワードごとに RegExp をコンパイルする従来の方式
+ * - checkAllNGKeywords 全体
+ * のスループットを計測する。キーワードの照合は両方式の結果が一致することも検証する
+ * （"match": "lemma" のルールは形態素解析で照合するため、キーワードの照合の比較からは除く）。
+ *
+ * 使用方法:
+ *   npm run bench:ng-keywords
+ *   npx tsx scripts/bench-ng-keywords.ts [--docs 5000] [--length 200] [--seed 1]
+ *
+ * 終了コード: 両方式の照合結果が一致しない場合は 1
+ */
+
+import { checkAllNGKeywords } from '../lib/ng-keywords/keyword-matcher';
+import { getCompiledPatterns, getKeywordAutomaton } from '../lib/ng-keywords/keyword-automaton';
+import { loadNGKeywordRules, NGKeywordRuleError } from '../lib/ng-keywords/rule-loader';
+import { loadVariantDictionary } from '../lib/ng-keywords/variant-dictionary';
+import { normalizeJapaneseText, normalizePattern } from '../lib/text-normalizer';
+
+interface BenchOptions {
+  docs: number;
+  length: number;
+  seed: number;
+}
+
+/**
+ * ルールの例文以外に混ぜる一般的な文
+ */
+const FILLER_SENTENCES = [
+  '毎日のスキンケアに取り入れやすいテクスチャーです。',
+  'べたつかず、さらっとした使い心地。',
+  '朝晩の洗顔後に適量をなじませてください。',
+  '無香料・無着色・アルコールフリー。',
+  '定期コースなら送料無料でお届けします。',
+  'ご購入はこちらから。',
+  '乾燥が気になる季節のうるおいケアに。',
+  '※個人の感想です。',
+  'ＳＮＳで話題のアイテムが新登場！',
+  '目元のハリ感を与えるクリーム。',
+];
+
+function parseArgs(argv: string[]): BenchOptions {
+  const options: BenchOptions = { docs: 5000, length: 200, seed: 1 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].replace(/^--/, '') as keyof BenchOptions;
+    if (!(name in options)) {
+      throw new Error(`不明なオプション: ${argv[i]}`);
+    }
+    const value = Number(argv[++i]);
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`--${name} には正の整数を指定してください`);
+    }
+    options[name] = value;
+  }
+
+  return options;
+}
+
+/**
+ * 再現可能な擬似乱数（mulberry32）
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function buildCorpus(options: BenchOptions, examples: string[]): string[] {
+  const random = createRandom(options.seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  return Array.from({ length: options.docs }, () => {
+    let doc = '';
+    while (doc.length < options.length) {
+      doc += random() < 0.3 ? pick(examples) : pick(FILLER_SENTENCES);
+      if (random() < 0.2) {
+        doc += '\n';
+      }
+    }
+    return doc;
+  });
+}
+
+/**
+ * 計測（console.log は計測中のみ抑制）
+ */
+function measure(run: () => void): number {
+  const originalLog = console.log;
+  console.log = () => {};
+  try {
+    const start = process.hrtime.bigint();
+    run();
+    return Number(process.hrtime.bigint() - start) / 1e6;
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+function formatThroughput(label: string, elapsedMs: number, docs: number, chars: number): string {
+  const seconds = elapsedMs / 1000;
+  return `${label.padEnd(28)} | ${elapsedMs.toFixed(0).padStart(8)} ms | ${(docs / seconds).toFixed(0).padStart(9)} docs/s | ${(chars / seconds / 1000).toFixed(0).padStart(7)} k chars/s`;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const rules = loadNGKeywordRules();
+  const dictionary = loadVariantDictionary();
+  const allRules = [...rules.absolute, ...rules.conditional, ...rules.contextDependent];
+  const substringRules = allRules.filter(rule => rule.match !== 'lemma');
+
+  const examples = allRules.flatMap(rule => [...(rule.okExamples || []), ...(rule.ngExamples || [])]);
+  const corpus = buildCorpus(options, examples);
+  const normalizedCorpus = corpus.map(doc => normalizeJapaneseText(doc).text);
+  const chars = corpus.reduce((sum, doc) => sum + doc.length, 0);
+
+  console.log(`コーパス: ${options.docs}件 / ${chars.toLocaleString()}文字（seed: ${options.seed}）`);
+  console.log(`ルール: ${allRules.length}件\n`);
+
+  // 1. キーワードの照合（Aho-Corasick）
+  const automatonResults: string[] = [];
+  const automatonMs = measure(() => {
+    const automaton = getKeywordAutomaton(substringRules, dictionary);
+    for (const text of normalizedCorpus) {
+      const scan = automaton.scan(text);
+      for (const rule of substringRules) {
+        for (const pattern of getCompiledPatterns(rule, dictionary)) {
+          for (const match of scan.find(pattern)) {
+            automatonResults.push(`${match.index}:${match.text}`);
+          }
+        }
+      }
+    }
+  });
+
+  // 2. キーワードの照合（キーワードごとに RegExp をコンパイル）
+  const regexResults: string[] = [];
+  const regexMs = measure(() => {
+    for (const text of normalizedCorpus) {
+      for (const rule of substringRules) {
+        const keywords = Array.isArray(rule.keyword) ? rule.keyword : [rule.keyword];
+        for (const keyword of keywords) {
+          const regex = new RegExp(dictionary.expandPattern(normalizePattern(keyword)).source, 'g');
+          let match: RegExpExecArray | null;
+          while ((match = regex.exec(text)) !== null) {
+            regexResults.push(`${match.index}:${match[0]}`);
+          }
+        }
+      }
+    }
+  });
+
+  // 3. checkAllNGKeywords 全体（注釈・文脈・承認済み例外の判定を含む）
+  let totalMatches = 0;
+  const checkMs = measure(() => {
+    for (const doc of corpus) {
+      totalMatches += checkAllNGKeywords(doc, rules, doc).matches.length;
+    }
+  });
+
+  console.log(formatThroughput('keywords: Aho-Corasick', automatonMs, options.docs, chars));
+  console.log(formatThroughput('keywords: RegExp per keyword', regexMs, options.docs, chars));
+  console.log(formatThroughput('checkAllNGKeywords', checkMs, options.docs, chars));
+  console.log(`\n高速化: ${(regexMs / automatonMs).toFixed(1)}倍 / 検出: ${automatonResults.length}件（checkAllNGKeywords の違反: ${totalMatches}件）`);
+
+  const mismatches = automatonResults.filter((result, i) => result !== regexResults[i]).length
+    + Math.abs(automatonResults.length - regexResults.length);
+  if (mismatches > 0) {
+    console.log(`\n❌ 照合結果が一致しません（${mismatches}件）`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Aho-Corasick と RegExp の照合結果は一致しました');
+}
+
+try {
+  main();
+} catch (error) {
+  if (error instanceof NGKeywordRuleError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error('❌ Benchmark failed:', error instanceof Error ? error.message : error);
+  }
+  process.exit(1);
+}
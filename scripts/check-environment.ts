@@ -11,6 +11,7 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { PRODUCT_IDS } from '../lib/types';
 
 // Color codes for terminal output
 const colors = {
@@ -144,7 +145,7 @@ function checkKnowledgeFiles(): boolean {
   }
 
   // Check product-specific directories
-  const productDirs = ['HA', 'SH'].filter(dir =>
+  const productDirs = (PRODUCT_IDS as readonly string[]).filter(dir =>
     fs.existsSync(path.join(knowledgePath, dir))
   );
 
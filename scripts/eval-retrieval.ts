@@ -0,0 +1,141 @@
+#!/usr/bin/env tsx
+/**
+ * RAG検索の評価
+ *
+ * config/retrieval/gold-set.json の各クエリで RAGSearchService を実行し、
+ * recall@k・MRR・クエリ別の取りこぼしを出力する。
+ * チャンク分割・検索パラメータを変更したら、変更前後でこのコマンドの結果を比較する。
+ *
+ * 使用方法:
+ *   npm run eval:retrieval
+ *   npx tsx scripts/eval-retrieval.ts [options]
+ *
+ * オプション:
+ *   --embedder local|llm   local（default）: 決定的なハッシュembeddingでナレッジをメモリ上に索引（APIキー・ChromaDB不要）
+ *                          llm: config/llm.json のプロバイダーと、セットアップ済みのVector DB（VECTOR_DB）を使用
+ *   --gold <path>          ゴールドセット（default: config/retrieval/gold-set.json）
+ *   --k 1,3,5,10           recall@k の k
+ *   --top-k <n>            検索件数（default: 20）
+ *   --min-similarity <n>   最小類似度（default: 0.3）
+ *   --lexical-weight <n>   語彙検索の重み（0 でベクトル検索のみ）
+ *   --json                 結果をJSONで出力
+ *   --update-baseline      結果を config/retrieval/baseline.json に保存
+ *
+ * local・デフォルト設定（--gold / --k / --top-k / --min-similarity / --lexical-weight なし）の場合は、
+ * 結果を config/retrieval/baseline.json と比較する。検索品質を改善したら --update-baseline で更新してコミットする。
+ *
+ * 終了コード: ゴールドセット・ベースラインが不正な場合、ベースラインを下回った場合は 1
+ */
+
+import * as fs from 'fs';
+import { createEmbeddingService } from '../lib/embedding-service';
+import { createFakeLLMProvider, createLLMProvider } from '../lib/llm';
+import { getSharedKnowledgeLexicalIndex } from '../lib/lexical-index';
+import { createRAGSearchService } from '../lib/rag-search';
+import {
+  RetrievalGoldSetError,
+  buildInMemoryKnowledgeIndex,
+  compareWithRetrievalBaseline,
+  evaluateRetrieval,
+  formatRetrievalEvalReport,
+  getDefaultRetrievalBaselinePath,
+  loadRetrievalBaseline,
+  loadRetrievalGoldSet,
+  toRetrievalBaseline,
+  validateRetrievalGoldSet,
+} from '../lib/retrieval-eval';
+import { createVectorDB, describeVectorDB } from '../lib/vector-db/factory';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const embedder = getArg('--embedder') || 'local';
+  if (embedder !== 'local' && embedder !== 'llm') {
+    throw new Error(`--embedder が不正です: ${embedder}（local | llm）`);
+  }
+  const json = process.argv.includes('--json');
+  const k = getArg('--k')?.split(',').map(Number).filter(n => Number.isInteger(n) && n > 0);
+  const topK = getArg('--top-k') ? Number(getArg('--top-k')) : undefined;
+  const minSimilarity = getArg('--min-similarity') ? Number(getArg('--min-similarity')) : undefined;
+  const lexicalWeight = getArg('--lexical-weight') ? Number(getArg('--lexical-weight')) : undefined;
+  const updateBaseline = process.argv.includes('--update-baseline');
+  const usesBaselineSettings = embedder === 'local' &&
+    ['--gold', '--k', '--top-k', '--min-similarity', '--lexical-weight'].every(name => getArg(name) === undefined);
+  if (updateBaseline && !usesBaselineSettings) {
+    throw new Error('--update-baseline は --embedder local・デフォルト設定の場合のみ指定できます');
+  }
+
+  const goldSet = loadRetrievalGoldSet(getArg('--gold'));
+
+  // 検索ログを抑制し、結果のみを出力
+  const originalLog = console.log;
+  console.log = () => {};
+
+  let output: string;
+  let regressions: string[] = [];
+  try {
+    const problems = validateRetrievalGoldSet(goldSet);
+    if (problems.length > 0) {
+      throw new RetrievalGoldSetError(`Gold set references unavailable knowledge:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    }
+
+    let ragSearchService;
+    let label: string;
+
+    if (embedder === 'local') {
+      const provider = createFakeLLMProvider();
+      const { vectorDB, lexicalIndex, chunkCount } = await buildInMemoryKnowledgeIndex(provider);
+      ragSearchService = createRAGSearchService(createEmbeddingService(provider), vectorDB, lexicalIndex);
+      label = `local hash embedding (${chunkCount} chunks, in-memory)`;
+    } else {
+      const llm = createLLMProvider();
+      const vectorDB = createVectorDB({ chroma: { autoLoad: false } });
+      await vectorDB.connect();
+      ragSearchService = createRAGSearchService(createEmbeddingService(llm), vectorDB, await getSharedKnowledgeLexicalIndex());
+      label = `${llm.name} embedding (${llm.getModelName('embedding')}), ${describeVectorDB()}`;
+    }
+
+    const report = await evaluateRetrieval(ragSearchService, goldSet, {
+      k,
+      topK,
+      minSimilarity,
+      fusion: lexicalWeight !== undefined ? { lexicalWeight } : undefined,
+    });
+
+    let baselineLine: string | undefined;
+    if (updateBaseline) {
+      const baselinePath = getDefaultRetrievalBaselinePath();
+      fs.writeFileSync(baselinePath, JSON.stringify(toRetrievalBaseline(report, `npm run eval:retrieval（${label}）`), null, 2) + '\n', 'utf-8');
+      baselineLine = `ベースラインを更新しました: ${baselinePath}`;
+    } else if (usesBaselineSettings) {
+      regressions = compareWithRetrievalBaseline(report, loadRetrievalBaseline());
+      baselineLine = regressions.length > 0
+        ? `❌ ベースラインを下回りました:\n${regressions.map(r => `  - ${r}`).join('\n')}`
+        : '✅ ベースライン以上';
+    }
+
+    output = json
+      ? JSON.stringify({ embedder: label, ...report, ...(usesBaselineSettings && !updateBaseline && { regressions }) }, null, 2)
+      : [`Embedder: ${label}`, '', formatRetrievalEvalReport(report), ...(baselineLine ? ['', baselineLine] : [])].join('\n');
+  } finally {
+    console.log = originalLog;
+  }
+
+  console.log(output);
+
+  if (regressions.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  if (error instanceof RetrievalGoldSetError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error('❌ Retrieval evaluation failed:', error);
+  }
+  process.exit(1);
+});
@@ -8,8 +8,12 @@
  *
  * Environment variables:
  *   GEMINI_API_KEY: Gemini APIキー（必須）
+ *   VECTOR_DB: 保存先 chroma | local（default: chroma）
  *   CHROMA_URL: ChromaDB URL（default: http://localhost:8000）
+ *   VECTOR_DB_PATH: VECTOR_DB=local の保存先（default: .cache/vector-db/ad_checker_knowledge.json）
  *   CLEAR_EXISTING: 既存データをクリア（default: false）
+ *
+ * `--local` を指定すると VECTOR_DB=local と同じ（ChromaDBサーバー不要）
  */
 
 import * as path from 'path';
@@ -17,7 +21,7 @@ import { TaskType } from '@google/generative-ai';
 import { createKnowledgeLoaderForRAG } from '../lib/knowledge-loader-for-rag';
 import { createKnowledgeChunker } from '../lib/knowledge-chunker';
 import { createEmbeddingService } from '../lib/embedding-service';
-import { createChromaVectorDB } from '../lib/vector-db/chroma-db';
+import { createVectorDB, describeVectorDB, getVectorDBBackend, type VectorDBBackend } from '../lib/vector-db/factory';
 import { VectorDBDocument } from '../lib/vector-db/interface';
 
 async function setupVectorDB() {
@@ -33,12 +37,12 @@ async function setupVectorDB() {
     process.exit(1);
   }
 
-  const chromaUrl = process.env.CHROMA_URL || 'http://localhost:8000';
+  const backend: VectorDBBackend = process.argv.includes('--local') ? 'local' : getVectorDBBackend();
   const clearExisting = process.env.CLEAR_EXISTING === 'true';
 
   console.log(`📌 Configuration:`);
   console.log(`   Gemini API Key: ${apiKey.substring(0, 10)}...`);
-  console.log(`   ChromaDB URL: ${chromaUrl}`);
+  console.log(`   Vector DB: ${describeVectorDB(backend)}`);
   console.log(`   Clear existing data: ${clearExisting}`);
   console.log('');
 
@@ -48,9 +52,10 @@ async function setupVectorDB() {
   const knowledgeLoader = createKnowledgeLoaderForRAG();
   const chunker = createKnowledgeChunker();
   const embeddingService = createEmbeddingService(apiKey);
-  const vectorDB = createChromaVectorDB({
-    url: chromaUrl,
-    collectionName: 'ad_checker_knowledge',
+  const vectorDB = createVectorDB({
+    backend,
+    chroma: { collectionName: 'ad_checker_knowledge' },
+    local: { collectionName: 'ad_checker_knowledge' },
   });
 
   console.log('✅ Services initialized (with Issue #32 priority metadata)');
@@ -168,7 +173,9 @@ async function setupVectorDB() {
     console.log(`   Total documents in Vector DB: ${totalCount}`);
 
     // 商品別カウント
-    const products = ['HA', 'SH'];
+    const products = Array.from(new Set(
+      allFiles.map(f => f.metadata.productId).filter((id): id is string => Boolean(id))
+    ));
     for (const productId of products) {
       const count = await vectorDB.count({ productId });
       console.log(`   Documents for ${productId}: ${count}`);
@@ -15,6 +15,7 @@
 import 'dotenv/config';
 import { createGeminiFileManager } from '../lib/gemini-file-manager';
 import { getKnowledgeFileNamesForProduct } from '../lib/knowledge-mapping';
+import { getSupportedProductIds, isProductSupported } from '../lib/product-config-loader';
 import * as path from 'path';
 
 async function main() {
@@ -41,11 +42,11 @@ async function main() {
   console.log(`📂 Knowledge base path: ${knowledgeBasePath}\n`);
 
   // Determine which products to upload
-  const products = targetProduct === 'all' ? ['HA', 'SH'] : [targetProduct];
+  const products = targetProduct === 'all' ? getSupportedProductIds() : [targetProduct];
 
   for (const productId of products) {
-    if (productId !== 'HA' && productId !== 'SH') {
-      console.warn(`⚠️  Skipping unsupported product: ${productId}`);
+    if (!isProductSupported(productId)) {
+      console.warn(`⚠️  Skipping unsupported product: ${productId} (config/products/${productId}.json not found)`);
       continue;
     }
 
@@ -53,13 +54,13 @@ async function main() {
     console.log('─'.repeat(60));
 
     // Get allowed files for this product
-    const allowedFiles = getKnowledgeFileNamesForProduct(productId as 'HA' | 'SH');
+    const allowedFiles = getKnowledgeFileNamesForProduct(productId);
     console.log(`📋 ${allowedFiles.length} files to upload based on CSV mapping\n`);
 
     // Upload files
     const results = await fileManager.uploadProductKnowledge(
       knowledgeBasePath,
-      productId as 'HA' | 'SH',
+      productId,
       allowedFiles
     );
 